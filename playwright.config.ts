@@ -71,6 +71,10 @@ export default defineConfig({
     url: "http://localhost:3000",
     reuseExistingServer: !process.env.CI,
     timeout: 120000,
+    env: {
+      // Keep e2e runs off the real AI providers unless explicitly overridden
+      AI_MOCK_PROVIDER: process.env.AI_MOCK_PROVIDER ?? "true",
+    },
   },
 
   /* Global setup and teardown */
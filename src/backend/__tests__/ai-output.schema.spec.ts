@@ -0,0 +1,98 @@
+import { ConfigService } from '@nestjs/config';
+import { AIProviderError } from '../modules/ai/interfaces/ai-provider.interface';
+import { toGeminiSchema } from '../modules/ai/providers/gemini.provider';
+import { LocalAIProvider } from '../modules/ai/providers/local.provider';
+import {
+  JD_MATCH_FORMAT,
+  RESUME_ANALYSIS_FORMAT,
+  SUGGESTION_LIST_FORMAT,
+  parseStructuredOutput,
+} from '../modules/ai/schemas/ai-output.schema';
+
+describe('AI output schemas', () => {
+  const match = {
+    overallScore: 74,
+    skillMatches: [{ skill: 'TypeScript', resumeStrength: 90, jdRequirement: 80, isMatch: true, gap: null }],
+    missingSkills: ['Kubernetes'],
+    strengthAreas: ['Backend development'],
+    improvementAreas: ['Container orchestration'],
+    recommendations: ['Mention the Kubernetes migration'],
+    confidence: 0.8,
+  };
+
+  it('should accept a valid reply wrapped in prose and code fences', () => {
+    const result = parseStructuredOutput(JD_MATCH_FORMAT, `Sure!\n\`\`\`json\n${JSON.stringify(match)}\n\`\`\``);
+
+    expect(result).toEqual({ success: true, data: match });
+  });
+
+  it('should report every problem instead of returning a partial result', () => {
+    const result = parseStructuredOutput(JD_MATCH_FORMAT, JSON.stringify({ ...match, overallScore: 140, missingSkills: undefined }));
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error).toContain('overallScore');
+    expect(!result.success && result.error).toContain('missingSkills');
+  });
+
+  it('should reject replies without a JSON object', () => {
+    expect(parseStructuredOutput(SUGGESTION_LIST_FORMAT, 'I cannot help with that.')).toEqual({
+      success: false,
+      error: 'The reply does not contain a JSON object',
+    });
+  });
+
+  it('should convert the JSON schema into the subset Gemini accepts', () => {
+    const schema = toGeminiSchema(RESUME_ANALYSIS_FORMAT.jsonSchema) as any;
+
+    expect(schema.type).toBe('OBJECT');
+    expect(schema.required).toEqual(expect.arrayContaining(['atsScore', 'skills', 'confidence']));
+    expect(schema.properties.atsScore).toEqual({ type: 'NUMBER' });
+    expect(schema.properties.summary).toEqual({ type: 'STRING', nullable: true });
+    expect(schema.properties.skills.items.properties.category).toEqual({
+      type: 'STRING',
+      format: 'enum',
+      enum: ['technical', 'soft', 'language', 'certification', 'tool', 'framework'],
+    });
+  });
+
+  describe('repair and retry', () => {
+    const reply = (content: string) => ({ choices: [{ message: { content } }] });
+    let provider: LocalAIProvider;
+    let create: jest.Mock;
+
+    beforeEach(() => {
+      provider = new LocalAIProvider({
+        get: jest.fn((key: string) => ({ LOCAL_AI_BASE_URL: 'http://localhost:11434/v1' })[key]),
+      } as unknown as ConfigService);
+      create = jest.fn();
+      (provider as any).client = { chat: { completions: { create } } };
+    });
+
+    it('should request the schema natively and ask the model to fix an invalid reply', async () => {
+      create
+        .mockResolvedValueOnce(reply(JSON.stringify({ ...match, confidence: 'high' })))
+        .mockResolvedValueOnce(reply(JSON.stringify(match)));
+
+      await expect(provider.matchJobDescription('resume', 'job')).resolves.toEqual(match);
+
+      expect(create.mock.calls[0][0].response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'jd_match', schema: JD_MATCH_FORMAT.jsonSchema, strict: false },
+      });
+      const repairMessages = create.mock.calls[1][0].messages;
+      expect(repairMessages).toHaveLength(4);
+      expect(repairMessages[2]).toEqual({ role: 'assistant', content: JSON.stringify({ ...match, confidence: 'high' }) });
+      expect(repairMessages[3].content).toContain('confidence');
+    });
+
+    it('should give up with an invalid_output error when the repair fails too', async () => {
+      create.mockResolvedValue(reply('["Add metrics to every bullet"]'));
+
+      const error = await provider.generateSuggestions('resume').catch(e => e);
+
+      expect(error).toBeInstanceOf(AIProviderError);
+      expect(error.code).toBe('invalid_output');
+      expect(create).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -249,7 +249,13 @@ describe("AIProviderService", () => {
       // Assert
       expect(geminiProvider.analyze).toHaveBeenCalled();
       expect(openaiProvider.analyze).toHaveBeenCalled();
-      expect(geminiProvider.isHealthy).toBe(false); // Provider marked as unhealthy
+      // The failure counts towards gemini's circuit instead of disabling it outright
+      expect(geminiProvider.isHealthy).toBe(true);
+      expect(mockRedis.hincrby).toHaveBeenCalledWith(
+        expect.stringContaining("ai:circuit:gemini:window:"),
+        "failures",
+        1
+      );
     });
 
     it("should throw error if all providers fail", async () => {
@@ -285,6 +291,39 @@ describe("AIProviderService", () => {
       expect(geminiProvider.analyze).not.toHaveBeenCalled();
       expect(openaiProvider.analyze).toHaveBeenCalled();
     });
+
+    it("should redact PII before the provider call and restore it in the result", async () => {
+      // Arrange
+      mockRedis.get.mockResolvedValue(null);
+      geminiProvider.analyze.mockResolvedValue({
+        ...mockAnalysisResult,
+        personalInfo: { name: "[NAME_1]", email: "[EMAIL_1]" },
+      });
+
+      // Act
+      const result = await service.analyzeResume({
+        content: "John Doe\njohn@example.com\nSoftware Engineer with 5 years experience...",
+        fileName,
+        redactPii: true,
+      });
+
+      // Assert
+      expect(geminiProvider.analyze).toHaveBeenCalledWith(
+        "[NAME_1]\n[EMAIL_1]\nSoftware Engineer with 5 years experience...",
+        { fileName }
+      );
+      expect(result.personalInfo).toEqual({
+        name: "John Doe",
+        email: "john@example.com",
+      });
+      expect(result.piiRedaction).toEqual({
+        applied: true,
+        redactions: [
+          { type: "email", placeholder: "[EMAIL_1]", occurrences: 1 },
+          { type: "name", placeholder: "[NAME_1]", occurrences: 1 },
+        ],
+      });
+    });
   });
 
   describe("matchJobDescription", () => {
@@ -332,6 +371,30 @@ describe("AIProviderService", () => {
       expect(geminiProvider.matchJobDescription).toHaveBeenCalled();
       expect(openaiProvider.matchJobDescription).toHaveBeenCalled();
     });
+
+    it("should redact PII in the resume before matching and restore it in the result", async () => {
+      // Arrange
+      mockRedis.get.mockResolvedValue(null);
+      geminiProvider.matchJobDescription.mockResolvedValue({
+        ...mockJDMatchResult,
+        strengthAreas: ["[EMAIL_1] lists relevant experience"],
+      });
+
+      // Act
+      const result = await service.matchJobDescription(
+        "john@example.com\n" + resumeText,
+        jobDescription,
+        { redactPii: true }
+      );
+
+      // Assert
+      expect(geminiProvider.matchJobDescription).toHaveBeenCalledWith(
+        "[EMAIL_1]\n" + resumeText,
+        jobDescription,
+        {}
+      );
+      expect(result.strengthAreas).toEqual(["john@example.com lists relevant experience"]);
+    });
   });
 
   describe("generateSuggestions", () => {
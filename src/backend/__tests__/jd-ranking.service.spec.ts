@@ -0,0 +1,117 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { JdRankingService } from '../modules/jd-matching/services/jd-ranking.service';
+import { JobDescriptionParserService } from '../modules/jd-matching/services/job-description-parser.service';
+import { SkillsTaxonomyService } from '../modules/resume-analysis/services/skills-taxonomy.service';
+
+describe('JdRankingService', () => {
+  const resumes = [
+    { id: 'resume-a', fileName: 'alice.pdf', content: 'Alice resume', isProcessed: true },
+    { id: 'resume-b', fileName: 'bob.pdf', content: 'Bob resume', isProcessed: true },
+    { id: 'resume-c', fileName: 'carol.pdf', content: 'Carol resume', isProcessed: false },
+    { id: 'resume-d', fileName: '=dave.pdf', content: 'Dave resume', isProcessed: true },
+  ];
+
+  let rankings: any[];
+  let matchings: any[];
+  let queueService: { addJDMatchingJob: jest.Mock };
+  let service: JdRankingService;
+
+  const breakdown = (skills: number) => ({
+    version: '1.0',
+    score: skills,
+    components: [{ key: 'skills', label: 'Skills coverage', score: skills, weight: 1, contribution: skills, detail: '', evidence: { resume: [], jobDescription: [] } }],
+  });
+
+  beforeEach(() => {
+    rankings = [];
+    matchings = [];
+    queueService = { addJDMatchingJob: jest.fn().mockResolvedValue(undefined) };
+
+    const jdRankingRepository = {
+      create: jest.fn((data: any) => data),
+      save: jest.fn(async (data: any) => {
+        const ranking = { id: 'ranking-1', createdAt: new Date('2026-10-01'), ...data };
+        rankings.push(ranking);
+        return ranking;
+      }),
+      findOne: jest.fn(async ({ where }: any) => rankings.find(ranking => ranking.id === where.id && ranking.userId === where.userId) ?? null),
+    };
+    const jdMatchingRepository = {
+      find: jest.fn(async ({ where }: any) => matchings.filter(matching => where.id.value.includes(matching.id))),
+    };
+    const resumeRepository = {
+      find: jest.fn(async ({ where }: any) => resumes.filter(resume => where.id.value.includes(resume.id))),
+    };
+    const resumeBatchRepository = {
+      findOne: jest.fn(async ({ where }: any) => where.id === 'batch-1'
+        ? { id: 'batch-1', files: [{ resumeId: 'resume-a' }, { resumeId: 'resume-b' }, { resumeId: 'resume-a' }, { error: 'Unsupported file' }] }
+        : null),
+    };
+
+    service = new JdRankingService(
+      jdRankingRepository as any,
+      jdMatchingRepository as any,
+      resumeRepository as any,
+      resumeBatchRepository as any,
+      { findOne: jest.fn().mockResolvedValue({ id: 'user-1', piiRedactionEnabled: true }) } as any,
+      queueService as any,
+      new JobDescriptionParserService(new SkillsTaxonomyService()),
+    );
+  });
+
+  it('should queue one matching job per processed resume', async () => {
+    const result = await service.createRanking('user-1', {
+      jobDescription: 'Backend Engineer\nRequirements: Python',
+      resumeIds: ['resume-a', 'resume-b', 'resume-c', 'resume-a'],
+    });
+
+    expect(result).toEqual(expect.objectContaining({ rankingId: 'ranking-1', queuedCandidates: 2, skippedCandidates: 1 }));
+    expect(queueService.addJDMatchingJob.mock.calls.map(([job]) => job.resumeContent)).toEqual(['Alice resume', 'Bob resume']);
+    expect(rankings[0]).toEqual(expect.objectContaining({ jobTitle: 'Backend Engineer' }));
+    expect(rankings[0].candidates[2]).toEqual(expect.objectContaining({ resumeId: 'resume-c', error: expect.any(String) }));
+  });
+
+  it("should take every resume from a bulk upload and reject other users' resumes", async () => {
+    await service.createRanking('user-1', { jobDescription: 'Python', batchId: 'batch-1' });
+    expect(rankings[0].candidates.map((candidate: any) => candidate.resumeId)).toEqual(['resume-a', 'resume-b']);
+
+    await expect(service.createRanking('user-1', { jobDescription: 'Python', resumeIds: ['resume-x'] })).rejects.toThrow(NotFoundException);
+    await expect(service.createRanking('user-1', { jobDescription: 'Python' })).rejects.toThrow(BadRequestException);
+  });
+
+  it('should rank finished candidates by score ahead of pending and failed ones', async () => {
+    await service.createRanking('user-1', { jobDescription: 'Python', resumeIds: ['resume-a', 'resume-b', 'resume-c', 'resume-d'] });
+    const [alice, bob] = rankings[0].candidates;
+    matchings = [
+      { id: alice.analysisId, overallScore: '61.00', scoreBreakdown: breakdown(61), keywordMatching: { unmetRequirements: [{ type: 'skill', requirement: 'Docker', evidence: '' }] } },
+      { id: bob.analysisId, overallScore: '84.00', scoreBreakdown: breakdown(84), keywordMatching: { unmetRequirements: [] } },
+    ];
+
+    const ranking = await service.getRanking('user-1', 'ranking-1');
+
+    expect(ranking.status).toBe('processing');
+    expect(ranking.shortlist.map(entry => [entry.rank, entry.fileName, entry.status])).toEqual([
+      [1, 'bob.pdf', 'completed'],
+      [2, 'alice.pdf', 'completed'],
+      [undefined, '=dave.pdf', 'pending'],
+      [undefined, 'carol.pdf', 'failed'],
+    ]);
+  });
+
+  it('should export the ranking as CSV', async () => {
+    await service.createRanking('user-1', { jobDescription: 'Python', resumeIds: ['resume-a', 'resume-d'] });
+    const [alice] = rankings[0].candidates;
+    matchings = [
+      { id: alice.analysisId, overallScore: '61.00', scoreBreakdown: breakdown(61), keywordMatching: { unmetRequirements: [{ type: 'skill', requirement: 'Docker', evidence: '' }, { type: 'experience', requirement: '5+ years of experience', evidence: '' }] } },
+    ];
+
+    const lines = (await service.exportRankingCsv('user-1', 'ranking-1')).trim().split('\r\n');
+
+    expect(lines[0]).toBe(
+      'Rank,Candidate,Resume ID,Status,Overall Score,Skills coverage,Years of experience,Seniority fit,Education,Domain and industry,Keyword density,Unmet Requirements,Error',
+    );
+    expect(lines[1]).toBe('1,alice.pdf,resume-a,completed,61,61,,,,,,Docker; 5+ years of experience,');
+    // Text a spreadsheet would treat as a formula is escaped
+    expect(lines[2]).toBe(",'=dave.pdf,resume-d,pending,,,,,,,,,");
+  });
+});
@@ -0,0 +1,96 @@
+import { JobDescriptionParserService } from '../modules/jd-matching/services/job-description-parser.service';
+import { ScoreBreakdownService } from '../modules/jd-matching/services/score-breakdown.service';
+import { SkillsTaxonomyService } from '../modules/resume-analysis/services/skills-taxonomy.service';
+import { LanguageDetectionService } from '../modules/resume-analysis/services/language-detection.service';
+import { JDMatchingProcessor } from '../queues/processors/jd-matching.processor';
+
+describe('JobDescriptionParserService', () => {
+  const taxonomy = new SkillsTaxonomyService();
+  const parser = new JobDescriptionParserService(taxonomy);
+
+  const posting = [
+    'Senior Backend Engineer',
+    'Location: Berlin, Germany (hybrid, 3 days in the office)',
+    '',
+    'Requirements:',
+    '- 5+ years of experience building services in Python',
+    '- Solid PostgreSQL and Docker skills',
+    "- Bachelor's degree in Computer Science or a related field",
+    '',
+    'Nice to have:',
+    '- Kubernetes',
+    '- AWS Certified Solutions Architect',
+    '- Experience with Kafka is a plus.',
+    '',
+    'Benefits',
+    '- Salary: €70k - €90k per year',
+    '- Free Python conference tickets',
+  ].join('\n');
+
+  it('should separate required from preferred requirements by section and cue words', () => {
+    const parsed = parser.parse(posting);
+
+    expect(parsed.requiredSkills.map(skill => skill.skill)).toEqual(['Python', 'PostgreSQL', 'Docker']);
+    expect(parsed.preferredSkills.map(skill => skill.skill)).toEqual(['Kubernetes', 'Apache Kafka']);
+    expect(parsed.requiredSkills[0]).toEqual(expect.objectContaining({ yearsExperience: 5, evidence: expect.stringContaining('5+ years') }));
+    expect(parsed.certifications).toEqual([expect.objectContaining({ required: false })]);
+    expect(parsed.education).toEqual([
+      expect.objectContaining({ level: 'bachelor', field: 'Computer Science', required: true }),
+    ]);
+  });
+
+  it('should pick out the title, seniority, location, remote policy and salary', () => {
+    const parsed = parser.parse(posting);
+
+    expect(parsed.title).toBe('Senior Backend Engineer');
+    expect(parsed.seniority).toBe('senior');
+    expect(parsed.yearsOfExperience).toEqual(expect.objectContaining({ min: 5 }));
+    expect(parsed.location).toBe('Berlin, Germany');
+    expect(parsed.remotePolicy).toBe('hybrid');
+    expect(parsed.salary).toEqual({ min: 70000, max: 90000, currency: 'EUR', period: 'year' });
+  });
+
+  it('should treat a posting without headings as all requirements', () => {
+    const parsed = parser.parse('We need someone who knows React and TypeScript. GraphQL would be a plus. Fully remote.');
+
+    expect(parsed.requiredSkills.map(skill => skill.skill)).toEqual(['React', 'TypeScript']);
+    expect(parsed.preferredSkills.map(skill => skill.skill)).toEqual(['GraphQL']);
+    expect(parsed.remotePolicy).toBe('remote');
+    expect(parsed.title).toBeUndefined();
+    expect(parsed.salary).toBeUndefined();
+  });
+
+  it('should weight must-haves more heavily and list the unmet ones', () => {
+    const processor = new JDMatchingProcessor(
+      {} as any,
+      {} as any,
+      {} as any,
+      new LanguageDetectionService(),
+      taxonomy,
+      parser,
+      new ScoreBreakdownService(taxonomy, parser),
+    );
+    const languages = { resume: 'en', jobDescription: 'en' };
+
+    const missingPreferred = (processor as any).performKeywordMatching(
+      "BSc in Computer Science. Backend engineer 2015 - 2024 using Python, PostgreSQL and Docker.",
+      posting,
+      languages,
+    );
+    const missingRequired = (processor as any).performKeywordMatching(
+      "BSc in Computer Science. Backend engineer 2021 - 2024 using Python, Redis and Kafka.",
+      posting,
+      languages,
+    );
+
+    expect(missingPreferred.unmetRequirements).toEqual([]);
+    expect(missingPreferred.requirementCoverage.required).toEqual({ met: 5, total: 5 });
+    expect(missingRequired.unmetRequirements.map((item: any) => [item.type, item.requirement])).toEqual([
+      ['skill', 'PostgreSQL'],
+      ['skill', 'Docker'],
+      ['experience', '5+ years of experience'],
+    ]);
+    expect(missingRequired.missingKeywords.slice(0, 2)).toEqual(['PostgreSQL', 'Docker']);
+    expect(missingPreferred.score).toBeGreaterThan(missingRequired.score);
+  });
+});
@@ -0,0 +1,105 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { JobFitService } from '../modules/jd-matching/services/job-fit.service';
+import { JobDescriptionParserService } from '../modules/jd-matching/services/job-description-parser.service';
+import { SkillsTaxonomyService } from '../modules/resume-analysis/services/skills-taxonomy.service';
+
+describe('JobFitService', () => {
+  const applications = [
+    { id: 'app-1', userId: 'user-1', jobTitle: 'Backend Engineer', vendorName: 'Acme', jobDescription: 'Requirements: Python', status: 'applied' },
+    { id: 'app-2', userId: 'user-1', jobTitle: 'Data Engineer', vendorName: 'Globex', jobDescription: 'Requirements: Spark', status: 'interview_scheduled' },
+    { id: 'app-3', userId: 'user-1', jobTitle: 'Platform Engineer', vendorName: 'Initech', jobDescription: null, status: 'applied' },
+  ];
+
+  let searches: any[];
+  let matchings: any[];
+  let resume: any;
+  let queueService: { addJDMatchingJob: jest.Mock };
+  let service: JobFitService;
+
+  beforeEach(() => {
+    searches = [];
+    matchings = [];
+    resume = { id: 'resume-1', userId: 'user-1', content: 'Python and Spark engineer', isProcessed: true };
+    queueService = { addJDMatchingJob: jest.fn().mockResolvedValue(undefined) };
+
+    const jobFitSearchRepository = {
+      create: jest.fn((data: any) => data),
+      save: jest.fn(async (data: any) => {
+        const search = { id: 'search-1', createdAt: new Date('2026-10-01'), ...data };
+        searches.push(search);
+        return search;
+      }),
+      findOne: jest.fn(async ({ where }: any) => searches.find(search => search.id === where.id && search.userId === where.userId) ?? null),
+    };
+    const jdMatchingRepository = {
+      find: jest.fn(async ({ where }: any) => matchings.filter(matching => where.id.value.includes(matching.id))),
+    };
+    const resumeRepository = {
+      findOne: jest.fn(async ({ where }: any) => (where.id === resume.id && where.userId === resume.userId ? resume : null)),
+    };
+    const jobApplicationRepository = {
+      find: jest.fn(async ({ where }: any) =>
+        applications.filter(application => where.id.value.includes(application.id) && application.userId === where.userId)),
+    };
+
+    service = new JobFitService(
+      jobFitSearchRepository as any,
+      jdMatchingRepository as any,
+      resumeRepository as any,
+      jobApplicationRepository as any,
+      { findOne: jest.fn().mockResolvedValue({ id: 'user-1', piiRedactionEnabled: true }) } as any,
+      queueService as any,
+      new JobDescriptionParserService(new SkillsTaxonomyService()),
+    );
+  });
+
+  it('should queue one matching job per tracked or pasted job description', async () => {
+    const result = await service.createSearch('user-1', {
+      resumeId: 'resume-1',
+      jobApplicationIds: ['app-1', 'app-2', 'app-3'],
+      jobDescriptions: [{ jobDescription: 'Frontend Developer\nRequirements: React' }],
+    });
+
+    expect(result).toEqual(expect.objectContaining({ searchId: 'search-1', queuedJobs: 3, skippedJobs: 1 }));
+    expect(queueService.addJDMatchingJob.mock.calls.map(([job]) => job.jobDescription)).toEqual([
+      'Requirements: Python',
+      'Requirements: Spark',
+      'Frontend Developer\nRequirements: React',
+    ]);
+    expect(searches[0].jobs.map((job: any) => [job.jobTitle, job.jobApplicationId, job.error])).toEqual([
+      ['Backend Engineer', 'app-1', undefined],
+      ['Data Engineer', 'app-2', undefined],
+      ['Platform Engineer', 'app-3', 'No job description saved for this application'],
+      ['Frontend Developer', undefined, undefined],
+    ]);
+  });
+
+  it('should refuse searches it cannot run', async () => {
+    await expect(service.createSearch('user-1', { resumeId: 'resume-1' })).rejects.toThrow(BadRequestException);
+    await expect(service.createSearch('user-1', { resumeId: 'resume-1', jobApplicationIds: ['app-9'] })).rejects.toThrow(NotFoundException);
+    await expect(service.createSearch('user-1', { resumeId: 'resume-1', jobApplicationIds: ['app-3'] })).rejects.toThrow(
+      'None of the job applications have a job description',
+    );
+
+    resume.isProcessed = false;
+    await expect(service.createSearch('user-1', { resumeId: 'resume-1', jobApplicationIds: ['app-1'] })).rejects.toThrow(BadRequestException);
+  });
+
+  it('should sort jobs by fit and link them back to their applications', async () => {
+    await service.createSearch('user-1', { resumeId: 'resume-1', jobApplicationIds: ['app-1', 'app-2', 'app-3'] });
+    const [backend, data] = searches[0].jobs;
+    matchings = [
+      { id: backend.analysisId, overallScore: '58.00', keywordMatching: { unmetRequirements: [] } },
+      { id: data.analysisId, overallScore: '91.00', keywordMatching: { unmetRequirements: [] } },
+    ];
+
+    const search = await service.getSearch('user-1', 'search-1');
+
+    expect(search.status).toBe('completed');
+    expect(search.results.map(result => [result.rank, result.jobTitle, result.jobApplicationId, result.applicationStatus])).toEqual([
+      [1, 'Data Engineer', 'app-2', 'interview_scheduled'],
+      [2, 'Backend Engineer', 'app-1', 'applied'],
+      [undefined, 'Platform Engineer', 'app-3', 'applied'],
+    ]);
+  });
+});
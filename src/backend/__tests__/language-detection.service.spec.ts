@@ -0,0 +1,66 @@
+import { LanguageDetectionService } from '../modules/resume-analysis/services/language-detection.service';
+
+describe('LanguageDetectionService', () => {
+  let service: LanguageDetectionService;
+
+  const samples = {
+    en: [
+      'Senior Software Engineer with eight years of experience building web platforms.',
+      'Led the migration of the billing system to microservices and reduced costs by 30%.',
+      'Worked with the product team on the design of new features for our customers.',
+    ].join('\n'),
+    es: [
+      'Ingeniera de software con más de ocho años de experiencia en el desarrollo de plataformas web.',
+      'Lideré la migración del sistema de facturación a microservicios y reduje los costos un 30%.',
+      'Trabajé con el equipo de producto en el diseño de nuevas funciones para los clientes.',
+    ].join('\n'),
+    de: [
+      'Softwareentwicklerin mit mehr als acht Jahren Erfahrung in der Entwicklung von Webplattformen.',
+      'Leitung der Migration des Abrechnungssystems auf Microservices und Senkung der Kosten um 30%.',
+      'Zusammenarbeit mit dem Produktteam bei der Konzeption neuer Funktionen für unsere Kunden.',
+    ].join('\n'),
+    pt: [
+      'Engenheira de software com mais de oito anos de experiência no desenvolvimento de plataformas web.',
+      'Liderei a migração do sistema de cobrança para microsserviços e reduzi os custos em 30%.',
+      'Atuei junto com a equipe de produto na concepção de novas funcionalidades para os clientes.',
+    ].join('\n'),
+  };
+
+  beforeEach(() => {
+    service = new LanguageDetectionService();
+  });
+
+  describe('detect', () => {
+    it.each(Object.entries(samples))('should detect %s resumes', (language, text) => {
+      const result = service.detect(text);
+
+      expect(result.code).toBe(language);
+      expect(result.confidence).toBeGreaterThan(0.5);
+    });
+
+    it('should fall back to English with no confidence for keyword-only text', () => {
+      expect(service.detect('TypeScript, React, PostgreSQL, Kubernetes, AWS')).toEqual({ code: 'en', confidence: 0 });
+    });
+  });
+
+  describe('isStopWord', () => {
+    it('should only check the requested languages', () => {
+      expect(service.isStopWord('para', 'es')).toBe(true);
+      expect(service.isStopWord('para', 'en')).toBe(false);
+      expect(service.isStopWord('Und', ['en', 'de'])).toBe(true);
+    });
+  });
+
+  describe('getRequirementCues', () => {
+    it('should match requirement phrasing in each language', () => {
+      const matches = (language: 'en' | 'es' | 'de' | 'pt', sentence: string) =>
+        service.getRequirementCues(language).some(pattern => pattern.test(sentence));
+
+      expect(matches('en', 'Docker experience is required')).toBe(true);
+      expect(matches('es', 'Conocimientos de Docker imprescindibles')).toBe(true);
+      expect(matches('de', 'Sehr gute Kenntnisse in Docker erforderlich')).toBe(true);
+      expect(matches('pt', 'Experiência com Docker é obrigatória')).toBe(true);
+      expect(matches('en', 'Conocimientos de Docker imprescindibles')).toBe(false);
+    });
+  });
+});
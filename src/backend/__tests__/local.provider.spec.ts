@@ -0,0 +1,60 @@
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import { LocalAIProvider } from '../modules/ai/providers/local.provider';
+
+// openai is auto-mocked in setup.ts
+const MockOpenAI = OpenAI as unknown as jest.Mock;
+
+describe('LocalAIProvider', () => {
+  const analysis = {
+    atsScore: 72,
+    skills: [{ name: 'TypeScript', category: 'technical', confidence: 0.9, level: 'advanced' }],
+    suggestions: ['Quantify the impact of the billing migration'],
+    personalInfo: { name: 'Jane Smith' },
+    experience: [],
+    education: [],
+    summary: 'Backend engineer',
+    confidence: 0.8,
+  };
+
+  const createProvider = (config: Record<string, string>) =>
+    new LocalAIProvider({ get: jest.fn((key: string) => config[key]) } as unknown as ConfigService);
+
+  beforeEach(() => {
+    MockOpenAI.mockClear();
+  });
+
+  it('should stay disabled when no endpoint is configured', () => {
+    const provider = createProvider({});
+
+    expect(provider.isHealthy).toBe(false);
+    expect(provider.priority).toBe(4);
+    expect(MockOpenAI).not.toHaveBeenCalled();
+  });
+
+  it('should point the client at the configured endpoint', () => {
+    const provider = createProvider({ LOCAL_AI_BASE_URL: 'http://localhost:11434/v1', LOCAL_AI_PRIORITY: '0' });
+
+    expect(provider.isHealthy).toBe(true);
+    expect(provider.priority).toBe(0);
+    expect(MockOpenAI).toHaveBeenCalledWith(
+      expect.objectContaining({ baseURL: 'http://localhost:11434/v1', apiKey: 'local', timeout: 120000 }),
+    );
+  });
+
+  it('should send the shared analysis prompt to the configured model and parse the reply', async () => {
+    const provider = createProvider({ LOCAL_AI_BASE_URL: 'http://localhost:11434/v1', LOCAL_AI_MODEL: 'qwen2.5:7b' });
+    const create = jest.fn().mockResolvedValue({
+      // Small local models like to wrap JSON in prose
+      choices: [{ message: { content: `Here you go:\n${JSON.stringify(analysis)}` } }],
+    });
+    (provider as any).client = { chat: { completions: { create } } };
+
+    const result = await provider.analyze('Jane Smith\nBackend engineer', { language: 'de' });
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ model: 'qwen2.5:7b' }));
+    expect(create.mock.calls[0][0].messages[1].content).toContain('The resume is written in German');
+    expect(result).toEqual(expect.objectContaining({ atsScore: 72, summary: 'Backend engineer' }));
+    expect(result.skills[0].name).toBe('TypeScript');
+  });
+});
@@ -0,0 +1,120 @@
+import { ConfigService } from '@nestjs/config';
+import { AIProviderError } from '../modules/ai/interfaces/ai-provider.interface';
+import { MockAIProvider } from '../modules/ai/providers/mock.provider';
+import { AIProviderService } from '../modules/ai/services/ai-provider.service';
+
+describe('MockAIProvider', () => {
+  const resume = 'Jane Smith\njane@example.com\nSenior engineer: TypeScript, React, Docker and mentoring';
+  const jobDescription = 'We need TypeScript, React and Kubernetes experience';
+
+  const configFor = (config: Record<string, string>) =>
+    ({ get: jest.fn((key: string, fallback?: string) => config[key] ?? fallback) }) as unknown as ConfigService;
+
+  let provider: MockAIProvider;
+
+  beforeEach(() => {
+    provider = new MockAIProvider(configFor({ AI_MOCK_PROVIDER: 'true' }));
+  });
+
+  it('should stay disabled without the env flag', () => {
+    const disabled = new MockAIProvider(configFor({}));
+
+    expect(disabled.enabled).toBe(false);
+    expect(disabled.isHealthy).toBe(false);
+  });
+
+  it('should return the same analysis for the same content', async () => {
+    const first = await provider.analyze(resume);
+    const second = await provider.analyze(resume);
+
+    expect({ ...second, processingTime: 0 }).toEqual({ ...first, processingTime: 0 });
+    expect(first.skills.map(skill => skill.name)).toEqual(['typescript', 'react', 'docker', 'mentoring']);
+    expect(first.personalInfo.email).toBe('jane@example.com');
+  });
+
+  it('should derive matches from the skills both texts mention', async () => {
+    const match = await provider.matchJobDescription(resume, jobDescription);
+
+    expect(match.overallScore).toBe(67);
+    expect(match.missingSkills).toEqual(['kubernetes']);
+  });
+
+  it('should prefer fixtures keyed by content hash', async () => {
+    provider.setFixture(MockAIProvider.hashContent(resume), { analysis: { atsScore: 91 }, suggestions: ['Fixture suggestion'] });
+
+    expect((await provider.analyze(resume)).atsScore).toBe(91);
+    expect(await provider.generateSuggestions(resume, jobDescription)).toEqual(['Fixture suggestion']);
+    expect((await provider.analyze('Someone else entirely')).atsScore).not.toBe(91);
+  });
+
+  it('should simulate latency', async () => {
+    provider.setFixture('default', { latencyMs: 50 });
+
+    const started = Date.now();
+    await provider.analyze(resume);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should throw injected failures in order, then recover', async () => {
+    provider.injectFailure('rate_limited');
+    provider.injectFailure('failure');
+
+    await expect(provider.analyze(resume)).rejects.toMatchObject({ code: 'rate_limited', retryAfterMs: 1000 });
+    await expect(provider.analyze(resume)).rejects.toBeInstanceOf(AIProviderError);
+    await expect(provider.analyze(resume)).resolves.toEqual(expect.objectContaining({ confidence: 0.8 }));
+  });
+
+  it('should fail every call in the configured failure mode', async () => {
+    const failing = new MockAIProvider(configFor({ AI_MOCK_PROVIDER: 'true', AI_MOCK_FAILURE_MODE: 'timeout' }));
+
+    await expect(failing.matchJobDescription(resume, jobDescription)).rejects.toMatchObject({ code: 'timeout' });
+  });
+
+  describe('through AIProviderService', () => {
+    const fallback = (name: string, priority: number) => ({
+      name,
+      priority,
+      isHealthy: true,
+      costPerToken: 0.001,
+      analyze: jest.fn().mockResolvedValue({ atsScore: 42, skills: [], suggestions: [], personalInfo: {}, experience: [], education: [], confidence: 0.5, processingTime: 0 }),
+      generateSuggestions: jest.fn(),
+      matchJobDescription: jest.fn(),
+    });
+    const redis = { hincrby: jest.fn(), hincrbyfloat: jest.fn(), expire: jest.fn(), get: jest.fn(), setex: jest.fn() };
+
+    let gemini: ReturnType<typeof fallback>;
+    let service: AIProviderService;
+
+    beforeEach(() => {
+      const config = configFor({ AI_MOCK_PROVIDER: 'true', AI_CACHE_ENABLED: 'false' });
+      gemini = fallback('gemini', 1);
+      service = new AIProviderService(
+        config,
+        redis as any,
+        gemini as any,
+        fallback('openai', 2) as any,
+        { ...fallback('claude', 3), isHealthy: false } as any,
+        undefined,
+        undefined,
+        provider,
+      );
+    });
+
+    it('should answer from the mock before any real provider', async () => {
+      const result = await service.analyzeResume({ content: resume, fileName: 'resume.pdf' });
+
+      expect(result.summary).toContain('Simulated analysis');
+      expect(gemini.analyze).not.toHaveBeenCalled();
+    });
+
+    it('should fail over to the next provider when the mock is rate limited', async () => {
+      provider.injectFailure('rate_limited');
+
+      const result = await service.analyzeResume({ content: resume, fileName: 'resume.pdf', provider: 'gemini' });
+
+      expect(result.atsScore).toBe(42);
+      expect(gemini.analyze).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { PdfLayoutService, PdfPageContent, PdfTextItem } from '../modules/resume-analysis/services/pdf-layout.service';
+
+describe('PdfLayoutService', () => {
+  let service: PdfLayoutService;
+
+  // Approximates Helvetica widths closely enough for layout purposes
+  const item = (text: string, x: number, y: number, height = 10): PdfTextItem => ({
+    text,
+    x,
+    y,
+    width: text.length * height * 0.5,
+    height,
+  });
+  const page = (items: PdfTextItem[]): PdfPageContent => ({ width: 612, height: 792, items });
+
+  beforeEach(() => {
+    service = new PdfLayoutService();
+  });
+
+  it('should read a two-column page one column at a time', () => {
+    const sidebar = ['SKILLS', 'TypeScript', 'Kubernetes', 'PostgreSQL'].map((text, i) => item(text, 40, 110 + i * 18));
+    const main = [
+      'EXPERIENCE',
+      'Senior Engineer | Acme Corp | 2020 - Present',
+      '- Led migration of billing to the cloud',
+      '- Cut latency by 40 percent',
+      'Engineer | Beta Inc | 2016 - 2019',
+      '- Built REST APIs used by partners',
+    ].map((text, i) => item(text, 220, 110 + i * 14));
+
+    const { text, layout } = service.reconstruct([page([item('Jane Smith', 40, 60, 18), ...main, ...sidebar])]);
+
+    expect(text).toBe(
+      [
+        'Jane Smith',
+        '',
+        'SKILLS\nTypeScript\nKubernetes\nPostgreSQL',
+        '',
+        'EXPERIENCE\nSenior Engineer | Acme Corp | 2020 - Present\n- Led migration of billing to the cloud\n- Cut latency by 40 percent',
+        'Engineer | Beta Inc | 2016 - 2019\n- Built REST APIs used by partners',
+      ].join('\n'),
+    );
+    expect(layout).toEqual(
+      expect.objectContaining({ columns: 2, multiColumnPages: [1], heuristics: ['multi-column'] }),
+    );
+  });
+
+  it('should keep a single-column page in line order with gapped segments joined', () => {
+    const { text, layout } = service.reconstruct([
+      page([
+        item('2019 - 2022', 480, 100),
+        item('Senior Engineer', 40, 100),
+        item('Led a team of five engineers across three product lines', 40, 114),
+        item('Shipped the billing platform rewrite on schedule', 40, 128),
+      ]),
+    ]);
+
+    expect(text).toBe(
+      'Senior Engineer | 2019 - 2022\nLed a team of five engineers across three product lines\nShipped the billing platform rewrite on schedule',
+    );
+    expect(layout.columns).toBe(1);
+    expect(layout.heuristics).toEqual([]);
+  });
+
+  it('should drop repeated headers and page numbers across pages', () => {
+    const body = (label: string) => [item(label, 40, 200), item('More detail about the role', 40, 214)];
+    const { text, layout } = service.reconstruct([
+      page([item('Jane Smith - Resume', 40, 30, 8), ...body('Page one body'), item('Page 1 of 2', 280, 770, 9)]),
+      page([item('Jane Smith - Resume', 40, 30, 8), ...body('Page two body'), item('Page 2 of 2', 280, 770, 9)]),
+    ]);
+
+    expect(text).not.toContain('Resume');
+    expect(text).not.toContain('of 2');
+    expect(layout).toEqual(
+      expect.objectContaining({
+        headerLinesRemoved: 2,
+        footerLinesRemoved: 2,
+        heuristics: ['header-removal', 'page-number-removal'],
+      }),
+    );
+  });
+
+  it('should treat aligned rows as a table rather than columns', () => {
+    const rows = [
+      ['Certification', 'Year'],
+      ['AWS Solutions Architect', '2021'],
+      ['Certified Kubernetes Administrator', '2022'],
+      ['Google Cloud Engineer', '2023'],
+    ];
+    const items = rows.flatMap(([name, year], i) => [item(name, 40, 100 + i * 14), item(year, 300, 100 + i * 14)]);
+    const extra = ['Other notes', 'More notes'].map((text, i) => item(text, 40, 200 + i * 14));
+
+    const { text, layout } = service.reconstruct([page([...items, ...extra])]);
+
+    expect(text).toContain('AWS Solutions Architect | 2021\nCertified Kubernetes Administrator | 2022');
+    expect(layout.columns).toBe(1);
+    expect(layout.tables).toBe(1);
+    expect(layout.heuristics).toEqual(['table-detection']);
+  });
+});
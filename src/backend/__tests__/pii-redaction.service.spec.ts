@@ -0,0 +1,70 @@
+import { PiiRedactionService } from '../modules/ai/services/pii-redaction.service';
+
+describe('PiiRedactionService', () => {
+  let service: PiiRedactionService;
+
+  const resumeText = [
+    'Jane Smith',
+    '123 Main Street, Apt 4B | jane.smith@example.com | (206) 555-0142',
+    'linkedin.com/in/janesmith',
+    'Summary: Jane Smith is a backend engineer. Reach me at 206.555.0142 or jane.smith@example.com.',
+    'Reduced latency by 40% across 2016 - 2019 releases',
+  ].join('\n');
+
+  beforeEach(() => {
+    service = new PiiRedactionService();
+  });
+
+  describe('redact', () => {
+    it('should replace contact details with stable placeholders', () => {
+      const { text } = service.redact(resumeText);
+
+      expect(text).toBe(
+        [
+          '[NAME_1]',
+          '[ADDRESS_1] | [EMAIL_1] | [PHONE_1]',
+          '[LINKEDIN_1]',
+          'Summary: [NAME_1] is a backend engineer. Reach me at [PHONE_1] or [EMAIL_1].',
+          'Reduced latency by 40% across 2016 - 2019 releases',
+        ].join('\n'),
+      );
+    });
+
+    it('should record each redaction without the original value', () => {
+      const { redactions } = service.redact(resumeText);
+
+      expect(redactions).toEqual([
+        { type: 'email', placeholder: '[EMAIL_1]', occurrences: 2 },
+        { type: 'linkedin', placeholder: '[LINKEDIN_1]', occurrences: 1 },
+        { type: 'address', placeholder: '[ADDRESS_1]', occurrences: 1 },
+        { type: 'phone', placeholder: '[PHONE_1]', occurrences: 2 },
+        { type: 'name', placeholder: '[NAME_1]', occurrences: 2 },
+      ]);
+    });
+
+    it('should redact the same text identically every time', () => {
+      expect(service.redact(resumeText)).toEqual(service.redact(resumeText));
+    });
+  });
+
+  describe('restore', () => {
+    it('should map placeholders back throughout a nested result', () => {
+      const { placeholders } = service.redact(resumeText);
+
+      const restored = service.restore(
+        {
+          atsScore: 80,
+          personalInfo: { name: '[NAME_1]', email: '[EMAIL_1]', phone: '[PHONE_1]' },
+          suggestions: ['Move [LINKEDIN_1] next to your email', 'Keep [UNKNOWN_1] as is'],
+        },
+        placeholders,
+      );
+
+      expect(restored).toEqual({
+        atsScore: 80,
+        personalInfo: { name: 'Jane Smith', email: 'jane.smith@example.com', phone: '(206) 555-0142' },
+        suggestions: ['Move linkedin.com/in/janesmith next to your email', 'Keep [UNKNOWN_1] as is'],
+      });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PromptTemplate } from '../database/entities/prompt-template.entity';
+import { PromptRegistryService } from '../modules/ai/services/prompt-registry.service';
+import { renderPromptTemplate, validatePromptTemplate } from '../modules/ai/prompts/prompt-template';
+
+describe('PromptRegistryService', () => {
+  const version = (overrides: Partial<PromptTemplate>) =>
+    ({
+      id: `id-${overrides.version}`,
+      name: 'resume_analysis',
+      content: `v${overrides.version}: {{resumeText}}`,
+      trafficWeight: 0,
+      ...overrides,
+    }) as PromptTemplate;
+
+  let repository: { find: jest.Mock; findOne: jest.Mock; create: jest.Mock; save: jest.Mock };
+  let registry: PromptRegistryService;
+
+  beforeEach(() => {
+    repository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn(input => input),
+      save: jest.fn(async input => ({ id: 'new-id', ...input })),
+    };
+    registry = new PromptRegistryService(repository as any);
+  });
+
+  it('should use the built-in prompt when no version is live', async () => {
+    expect(await registry.resolve('resume_analysis', 'user-1')).toEqual({ ref: { name: 'resume_analysis', version: 0 } });
+  });
+
+  it('should use the only live version for everyone', async () => {
+    repository.find.mockResolvedValue([version({ version: 3, trafficWeight: 100 })]);
+
+    expect(await registry.resolve('resume_analysis', 'user-1')).toEqual({
+      template: 'v3: {{resumeText}}',
+      ref: { name: 'resume_analysis', version: 3 },
+    });
+  });
+
+  it('should split users between live versions by weight and keep each user on one variant', async () => {
+    repository.find.mockResolvedValue([
+      version({ version: 1, trafficWeight: 50 }),
+      version({ version: 2, trafficWeight: 50 }),
+    ]);
+
+    const assigned = new Map<string, number>();
+    for (let i = 0; i < 200; i++) {
+      const { ref } = await registry.resolve('resume_analysis', `user-${i}`);
+      expect(ref.experiment).toBe(true);
+      assigned.set(`user-${i}`, ref.version);
+    }
+
+    const onFirst = [...assigned.values()].filter(v => v === 1).length;
+    expect(onFirst).toBeGreaterThan(60);
+    expect(onFirst).toBeLessThan(140);
+    expect((await registry.resolve('resume_analysis', 'user-7')).ref.version).toBe(assigned.get('user-7'));
+    expect(repository.find).toHaveBeenCalledTimes(1); // live versions are cached
+  });
+
+  it('should fall back to the built-in prompt when templates cannot be loaded', async () => {
+    repository.find.mockRejectedValue(new Error('relation "prompt_templates" does not exist'));
+
+    expect(await registry.resolve('jd_matching')).toEqual({ ref: { name: 'jd_matching', version: 0 } });
+  });
+
+  it('should save new wording as the next version', async () => {
+    repository.findOne.mockResolvedValue(version({ version: 4 }));
+
+    const created = await registry.createVersion('resume_analysis', { content: 'Analyze: {{resumeText}}' }, 'admin-1');
+
+    expect(created).toEqual(expect.objectContaining({ version: 5, trafficWeight: 0, createdBy: 'admin-1' }));
+  });
+
+  it('should reject unknown templates and templates with the wrong variables', async () => {
+    await expect(registry.createVersion('cover_letter', { content: '{{resumeText}}' })).rejects.toThrow(NotFoundException);
+    await expect(registry.createVersion('jd_matching', { content: 'Compare {{resume}}' })).rejects.toThrow(BadRequestException);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+});
+
+describe('prompt templates', () => {
+  it('should fill in variables and drop sections for empty ones', () => {
+    const template = 'Resume: {{ resumeText }}{{#jobDescription}}\nTarget job: {{jobDescription}}{{/jobDescription}}';
+
+    expect(renderPromptTemplate(template, { resumeText: 'Jane' })).toBe('Resume: Jane');
+    expect(renderPromptTemplate(template, { resumeText: 'Jane', jobDescription: 'Engineer' })).toBe(
+      'Resume: Jane\nTarget job: Engineer',
+    );
+  });
+
+  it('should list every problem with a template', () => {
+    expect(validatePromptTemplate('jd_matching', 'Compare {{resumeText}} for {{company}}')).toEqual([
+      'Unknown variable "company"; available: resumeText, jobDescription, languageNote',
+      'Missing required variable "jobDescription"',
+    ]);
+  });
+});
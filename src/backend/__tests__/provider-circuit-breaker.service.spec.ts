@@ -0,0 +1,232 @@
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../config/redis.service';
+import { MetricsService } from '../common/services/metrics.service';
+import { ProviderCircuitBreakerService } from '../modules/ai/services/provider-circuit-breaker.service';
+import { AIProviderService } from '../modules/ai/services/ai-provider.service';
+
+// Just enough of RedisService, backed by a Map, to share state between breaker instances
+class InMemoryRedis {
+  hashes = new Map<string, Record<string, string>>();
+
+  async hgetall(key: string) {
+    return { ...(this.hashes.get(key) || {}) };
+  }
+
+  async hset(key: string, values: Record<string, string | number>) {
+    const hash = this.hashes.get(key) || {};
+    for (const [field, value] of Object.entries(values)) hash[field] = String(value);
+    this.hashes.set(key, hash);
+    return true;
+  }
+
+  async hincrby(key: string, field: string, increment: number) {
+    const hash = this.hashes.get(key) || {};
+    hash[field] = String(Number(hash[field] || 0) + increment);
+    this.hashes.set(key, hash);
+    return Number(hash[field]);
+  }
+
+  async del(key: string) {
+    return this.hashes.delete(key);
+  }
+
+  async expire() {
+    return true;
+  }
+
+  // Runs the breaker's probe script, which is the only script it sends
+  async eval(_script: string, [key]: string[], args: Array<string | number>) {
+    const [now, cooldownMs, slots, leaseMs] = args.map(Number);
+    const hash = this.hashes.get(key) || {};
+    let switched = 0;
+
+    if (hash.state === 'open') {
+      if (now - Number(hash.openedAt || 0) < cooldownMs) return 0;
+      Object.assign(hash, { state: 'half_open', probes: '0' });
+      switched = 1;
+    } else if (hash.state === 'half_open') {
+      if (now - Number(hash.probeStartedAt || 0) >= leaseMs) hash.probes = '0';
+    } else {
+      return 3;
+    }
+
+    hash.probes = String(Number(hash.probes || 0) + 1);
+    this.hashes.set(key, hash);
+    if (Number(hash.probes) > slots) return 0;
+    if (hash.probes === '1') hash.probeStartedAt = String(now);
+    return 1 + switched;
+  }
+}
+
+describe('ProviderCircuitBreakerService', () => {
+  const config: Record<string, string> = {
+    AI_CIRCUIT_WINDOW_MS: '60000',
+    AI_CIRCUIT_MIN_REQUESTS: '4',
+    AI_CIRCUIT_FAILURE_RATE: '0.5',
+    AI_CIRCUIT_COOLDOWN_MS: '30000',
+    AI_CIRCUIT_HALF_OPEN_PROBES: '1',
+    AI_CIRCUIT_PROBE_LEASE_MS: '60000',
+  };
+  const configService = { get: (key: string, fallback?: string) => config[key] ?? fallback } as unknown as ConfigService;
+
+  let redis: InMemoryRedis;
+  let metrics: { recordCircuitTransition: jest.Mock };
+  let now: number;
+  let breaker: ProviderCircuitBreakerService;
+
+  const createBreaker = () =>
+    new ProviderCircuitBreakerService(configService, redis as unknown as RedisService, metrics as unknown as MetricsService);
+
+  const fail = async (times: number, instance = breaker) => {
+    for (let i = 0; i < times; i++) {
+      const admittedAs = await instance.tryAcquire('gemini');
+      await instance.recordFailure('gemini', admittedAs!);
+    }
+  };
+
+  beforeEach(() => {
+    now = new Date('2026-01-05T10:00:10Z').getTime();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    redis = new InMemoryRedis();
+    metrics = { recordCircuitTransition: jest.fn() };
+    breaker = createBreaker();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stay closed until the window has enough requests', async () => {
+    await fail(3);
+
+    expect(await breaker.tryAcquire('gemini')).toBe('closed');
+    expect(metrics.recordCircuitTransition).not.toHaveBeenCalled();
+  });
+
+  it('should stay closed while the failure rate is below the threshold', async () => {
+    for (let i = 0; i < 3; i++) {
+      await breaker.recordSuccess('gemini', (await breaker.tryAcquire('gemini'))!);
+    }
+    await fail(2);
+
+    expect((await breaker.getStatus('gemini')).state).toBe('closed');
+  });
+
+  it('should open once the failure rate crosses the threshold and refuse requests on every instance', async () => {
+    await fail(4);
+
+    expect(metrics.recordCircuitTransition).toHaveBeenCalledWith('gemini', 'closed', 'open');
+    expect(await breaker.tryAcquire('gemini')).toBeNull();
+    expect(await createBreaker().tryAcquire('gemini')).toBeNull();
+    expect(await breaker.tryAcquire('openai')).toBe('closed');
+    expect(await breaker.getStatus('gemini')).toEqual({
+      state: 'open',
+      openedAt: new Date(now),
+      retryAt: new Date(now + 30000),
+    });
+  });
+
+  it('should let a single probe through after the cooldown and close on success', async () => {
+    await fail(4);
+    now += 30000;
+
+    const probe = await breaker.tryAcquire('gemini');
+    expect(probe).toBe('half_open');
+    expect(await createBreaker().tryAcquire('gemini')).toBeNull();
+
+    await breaker.recordSuccess('gemini', probe!);
+
+    expect(metrics.recordCircuitTransition).toHaveBeenCalledWith('gemini', 'open', 'half_open');
+    expect(metrics.recordCircuitTransition).toHaveBeenCalledWith('gemini', 'half_open', 'closed');
+    expect(await breaker.tryAcquire('gemini')).toBe('closed');
+  });
+
+  it('should re-open for another cooldown when the probe fails', async () => {
+    await fail(4);
+    now += 30000;
+
+    await breaker.recordFailure('gemini', (await breaker.tryAcquire('gemini'))!);
+
+    expect(metrics.recordCircuitTransition).toHaveBeenLastCalledWith('gemini', 'half_open', 'open');
+    expect(await breaker.tryAcquire('gemini')).toBeNull();
+    now += 30000;
+    expect(await breaker.tryAcquire('gemini')).toBe('half_open');
+  });
+
+  it('should switch to half open only once when instances race past the cooldown', async () => {
+    await fail(4);
+    now += 30000;
+
+    const probes = await Promise.all([breaker.tryAcquire('gemini'), createBreaker().tryAcquire('gemini')]);
+
+    expect(probes.filter(probe => probe === 'half_open')).toHaveLength(1);
+    expect(metrics.recordCircuitTransition.mock.calls.filter(([, from]) => from === 'open')).toHaveLength(1);
+  });
+
+  it('should hand the probe slot to another request once a probe outlives its lease', async () => {
+    await fail(4);
+    now += 30000;
+    expect(await breaker.tryAcquire('gemini')).toBe('half_open');
+
+    now += 59000;
+    expect(await createBreaker().tryAcquire('gemini')).toBeNull();
+    now += 1000;
+    const probe = await createBreaker().tryAcquire('gemini');
+    expect(probe).toBe('half_open');
+
+    await breaker.recordSuccess('gemini', probe!);
+    expect(await breaker.tryAcquire('gemini')).toBe('closed');
+  });
+
+  it('should close on reset', async () => {
+    await fail(4);
+
+    await breaker.reset('gemini');
+
+    expect(await breaker.tryAcquire('gemini')).toBe('closed');
+  });
+
+  it('should allow requests when Redis fails', async () => {
+    jest.spyOn(redis, 'hgetall').mockRejectedValue(new Error('connection lost'));
+
+    expect(await breaker.tryAcquire('gemini')).toBe('closed');
+  });
+
+  describe('through AIProviderService', () => {
+    it('should not blame the provider or fail over when handling its answer fails', async () => {
+      const provider = (name: string, priority: number) => ({
+        name,
+        priority,
+        isHealthy: name !== 'claude',
+        costPerToken: 0.001,
+        analyze: jest.fn(),
+        generateSuggestions: jest.fn().mockResolvedValue(['Add metrics']),
+        matchJobDescription: jest.fn(),
+      });
+      const gemini = provider('gemini', 1);
+      const openai = provider('openai', 2);
+      const recordFailure = jest.spyOn(breaker, 'recordFailure');
+      const usageMetering = { record: jest.fn().mockRejectedValue(new Error('billing database down')) };
+      const service = new AIProviderService(
+        { get: (key: string, fallback?: string) => (key === 'AI_CACHE_ENABLED' ? 'false' : fallback) } as any,
+        { hincrby: jest.fn(), hincrbyfloat: jest.fn(), expire: jest.fn() } as any,
+        gemini as any,
+        openai as any,
+        provider('claude', 3) as any,
+        undefined,
+        undefined,
+        undefined,
+        breaker,
+        { acquire: jest.fn().mockResolvedValue({ allowed: true }), refund: jest.fn() } as any,
+        undefined,
+        undefined,
+        usageMetering as any,
+      );
+
+      await expect(service.generateSuggestions('Backend engineer', undefined, { userId: 'user-1' })).rejects.toThrow('billing database down');
+
+      expect(recordFailure).not.toHaveBeenCalled();
+      expect(openai.generateSuggestions).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../config/redis.service';
+import { MetricsService } from '../common/services/metrics.service';
+import { ProviderRateLimiterService } from '../modules/ai/services/provider-rate-limiter.service';
+import { AIProviderService } from '../modules/ai/services/ai-provider.service';
+
+describe('ProviderRateLimiterService', () => {
+  const config: Record<string, string> = {
+    AI_GEMINI_RPM: '60',
+    AI_GEMINI_TPM: '100000',
+    AI_GEMINI_DAILY_SPEND_CAP: '5',
+    AI_RATE_LIMIT_HEADROOM: '0.1',
+    AI_RATE_LIMIT_MAX_WAIT_MS: '200',
+  };
+  const configService = { get: (key: string, fallback?: string) => config[key] ?? fallback } as unknown as ConfigService;
+
+  let redis: { eval: jest.Mock; hgetall: jest.Mock };
+  let metrics: { recordRateLimited: jest.Mock };
+  let limiter: ProviderRateLimiterService;
+
+  beforeEach(() => {
+    redis = { eval: jest.fn().mockResolvedValue(0), hgetall: jest.fn().mockResolvedValue({ cost: '1.25' }) };
+    metrics = { recordRateLimited: jest.fn() };
+    limiter = new ProviderRateLimiterService(configService, redis as unknown as RedisService, metrics as unknown as MetricsService);
+  });
+
+  it('should not touch Redis for providers without limits', async () => {
+    expect(await limiter.acquire('claude', 500, true)).toEqual({ allowed: true });
+    expect(redis.eval).not.toHaveBeenCalled();
+    expect(redis.hgetall).not.toHaveBeenCalled();
+  });
+
+  it('should take from both buckets, keeping headroom free while a fallback exists', async () => {
+    expect(await limiter.acquire('gemini', 500, true)).toEqual({ allowed: true });
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      ['ai:ratelimit:gemini:requests', 'ai:ratelimit:gemini:tokens'],
+      [expect.any(Number), 60, 100000, 500, 0.1],
+    );
+  });
+
+  it('should fall back right away when the buckets are nearly empty', async () => {
+    redis.eval.mockResolvedValue(1500);
+
+    expect(await limiter.acquire('gemini', 500, true)).toEqual({ allowed: false, reason: 'rate_limited', retryAfterMs: 1500 });
+    expect(redis.eval).toHaveBeenCalledTimes(1);
+    expect(metrics.recordRateLimited).toHaveBeenCalledWith('gemini', 'rate_limited');
+  });
+
+  it('should wait for the buckets to refill when it is the last provider', async () => {
+    redis.eval.mockResolvedValueOnce(30).mockResolvedValueOnce(0);
+
+    expect(await limiter.acquire('gemini', 500, false)).toEqual({ allowed: true });
+    expect(redis.eval).toHaveBeenCalledTimes(2);
+    expect(redis.eval.mock.calls[1][2][4]).toBe(0);
+  });
+
+  it('should give up when the wait would exceed the maximum', async () => {
+    redis.eval.mockResolvedValue(60000);
+
+    expect(await limiter.acquire('gemini', 500, false)).toEqual({ allowed: false, reason: 'rate_limited', retryAfterMs: 60000 });
+  });
+
+  it('should refuse calls once the daily spend cap is reached', async () => {
+    redis.hgetall.mockResolvedValue({ tokens: '2500000', cost: '5.004' });
+
+    expect(await limiter.acquire('gemini', 500, false)).toEqual({ allowed: false, reason: 'spend_cap' });
+    expect(redis.hgetall).toHaveBeenCalledWith(expect.stringMatching(/^ai:usage:gemini:\d{4}-\d{2}-\d{2}$/));
+    expect(redis.eval).not.toHaveBeenCalled();
+    expect(metrics.recordRateLimited).toHaveBeenCalledWith('gemini', 'spend_cap');
+  });
+
+  it('should allow calls when Redis is unavailable', async () => {
+    redis.eval.mockResolvedValue(null);
+    redis.hgetall.mockRejectedValue(new Error('connection lost'));
+
+    expect(await limiter.acquire('gemini', 500, false)).toEqual({ allowed: true });
+  });
+
+  it('should put a reservation back into both buckets', async () => {
+    await limiter.refund('gemini', 500);
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.stringContaining("redis.call('EXISTS'"),
+      ['ai:ratelimit:gemini:requests', 'ai:ratelimit:gemini:tokens'],
+      [expect.any(Number), 60, 100000, 500],
+    );
+  });
+
+  describe('through AIProviderService', () => {
+    const analysis = { atsScore: 64, skills: [], suggestions: [], personalInfo: {}, experience: [], education: [], confidence: 0.7, processingTime: 0 };
+    const createProvider = (name: string, priority: number) => ({
+      name,
+      priority,
+      isHealthy: true,
+      costPerToken: 0.001,
+      analyze: jest.fn().mockResolvedValue(analysis),
+      generateSuggestions: jest.fn(),
+      matchJobDescription: jest.fn(),
+    });
+
+    it('should send the call to the next provider instead of using up the last of a quota', async () => {
+      const gemini = createProvider('gemini', 1);
+      const openai = createProvider('openai', 2);
+      const serviceRedis = { ...redis, hincrby: jest.fn(), hincrbyfloat: jest.fn(), expire: jest.fn(), get: jest.fn(), setex: jest.fn() };
+      serviceRedis.eval.mockResolvedValue(800);
+      const service = new AIProviderService(
+        { get: (key: string, fallback?: string) => ({ ...config, AI_CACHE_ENABLED: 'false' })[key] ?? fallback } as any,
+        serviceRedis as any,
+        gemini as any,
+        openai as any,
+        { ...createProvider('claude', 3), isHealthy: false } as any,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        limiter,
+      );
+
+      const result = await service.analyzeResume({ content: 'Jane Smith\nBackend engineer', fileName: 'resume.pdf' });
+
+      expect(result.atsScore).toBe(64);
+      expect(gemini.analyze).not.toHaveBeenCalled();
+      expect(openai.analyze).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refund the quota of a provider whose circuit is open', async () => {
+      const gemini = createProvider('gemini', 1);
+      const openai = createProvider('openai', 2);
+      const serviceRedis = { ...redis, hincrby: jest.fn(), hincrbyfloat: jest.fn(), expire: jest.fn(), get: jest.fn(), setex: jest.fn() };
+      const circuitBreaker = {
+        tryAcquire: jest.fn(async (provider: string) => (provider === 'gemini' ? null : 'closed')),
+        recordSuccess: jest.fn(),
+        recordFailure: jest.fn(),
+      };
+      const refund = jest.spyOn(limiter, 'refund');
+      const service = new AIProviderService(
+        { get: (key: string, fallback?: string) => ({ ...config, AI_CACHE_ENABLED: 'false' })[key] ?? fallback } as any,
+        serviceRedis as any,
+        gemini as any,
+        openai as any,
+        { ...createProvider('claude', 3), isHealthy: false } as any,
+        undefined,
+        undefined,
+        undefined,
+        circuitBreaker as any,
+        limiter,
+      );
+
+      await service.analyzeResume({ content: 'Jane Smith\nBackend engineer', fileName: 'resume.pdf' });
+
+      expect(gemini.analyze).not.toHaveBeenCalled();
+      expect(refund).toHaveBeenCalledTimes(1);
+      expect(refund).toHaveBeenCalledWith('gemini', expect.any(Number));
+      expect(openai.analyze).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -6,6 +6,10 @@ import type { Job } from 'bull';
 import { ResumeAnalysisProcessor } from '../queues/processors/resume-analysis.processor';
 import { Resume } from '../database/entities/resume.entity';
 import { AIProviderService } from '../modules/ai/services/ai-provider.service';
+import { AtsAuditService } from '../modules/resume-analysis/services/ats-audit.service';
+import { ResumeSegmenterService } from '../modules/resume-analysis/services/resume-segmenter.service';
+import { LanguageDetectionService } from '../modules/resume-analysis/services/language-detection.service';
+import { SkillsTaxonomyService } from '../modules/resume-analysis/services/skills-taxonomy.service';
 import { ResumeAnalysisResult, SkillCategory, SkillLevel } from '../modules/ai/interfaces/ai-provider.interface';
 import { ResumeAnalysisJob } from '../queues/queue.types';
 
@@ -35,7 +39,7 @@ describe('ResumeAnalysisProcessor', () => {
     data: {
       resumeId: 'resume-1',
       userId: 'user-1',
-      fileContent: Buffer.from('file content'),
+      storageKey: 'resumes/user-1_1700000000000_abc123.pdf',
       provider: 'gemini',
     },
     progress: jest.fn(),
@@ -73,6 +77,10 @@ describe('ResumeAnalysisProcessor', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ResumeAnalysisProcessor,
+        AtsAuditService,
+        ResumeSegmenterService,
+        LanguageDetectionService,
+        SkillsTaxonomyService,
         {
           provide: getRepositoryToken(Resume),
           useValue: mockResumeRepository,
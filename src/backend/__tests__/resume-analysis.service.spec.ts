@@ -0,0 +1,257 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResumeAnalysisService } from '../modules/resume-analysis/resume-analysis.service';
+import { ResumeAnalysisController } from '../modules/resume-analysis/resume-analysis.controller';
+import { ResumeBatchFileStatus, ResumeBatchStatus } from '../database/entities/resume-batch.entity';
+
+describe('ResumeAnalysisService bulk uploads', () => {
+  let batches: any[];
+  let storageService: { save: jest.Mock; delete: jest.Mock };
+  let queueService: { addBulkAnalysisJob: jest.Mock };
+  let resumeBatchRepository: Record<string, jest.Mock>;
+  let service: ResumeAnalysisService;
+
+  const upload = (originalname: string, content = 'Jane Smith, Backend Engineer') =>
+    ({ originalname, mimetype: 'application/pdf', size: content.length, buffer: Buffer.from(content) }) as Express.Multer.File;
+
+  const tempUpload = (originalname: string) => {
+    const file = upload(originalname);
+    file.path = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'bulk-')), originalname);
+    fs.writeFileSync(file.path, file.buffer);
+    return file;
+  };
+
+  beforeEach(() => {
+    batches = [];
+    storageService = {
+      // Drain temp file streams the way a real upload would, so none outlives its file
+      save: jest.fn(async (key: string, body: any) => {
+        if (body?.resume) {
+          await new Promise(resolve => body.resume().on('close', resolve));
+        }
+        return key;
+      }),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+    queueService = { addBulkAnalysisJob: jest.fn().mockResolvedValue(undefined) };
+    resumeBatchRepository = {
+      create: jest.fn((data: any) => data),
+      save: jest.fn(async (data: any) => {
+        const batch = { id: 'batch-1', completedFiles: 0, createdAt: new Date('2026-10-01'), ...data };
+        batches.push(batch);
+        return batch;
+      }),
+      update: jest.fn(async (id: string, changes: any) => Object.assign(batches.find(batch => batch.id === id), changes)),
+      findOne: jest.fn(async ({ where }: any) => batches.find(batch => batch.id === where.id && batch.userId === where.userId) ?? null),
+    };
+
+    service = new ResumeAnalysisService(
+      {} as any,
+      {} as any,
+      { findOne: jest.fn().mockResolvedValue({ id: 'user-1', email: 'coach@example.com', role: 'user' }) } as any,
+      resumeBatchRepository as any,
+      {} as any,
+      { validateFile: jest.fn(() => ({ isValid: true })), generateSecureFileName: jest.fn((name: string) => name) } as any,
+      queueService as any,
+      storageService as any,
+      {} as any,
+      { scan: jest.fn().mockResolvedValue({ clean: true, threats: [], scanners: ['content'] }) } as any,
+      { logSecurityEvent: jest.fn() } as any,
+      { findOne: jest.fn().mockResolvedValue(null) } as any,
+    );
+  });
+
+  it('should mark a file that cannot be stored as failed and queue the rest', async () => {
+    storageService.save.mockImplementation(async (key: string) => {
+      if (key.endsWith('broken.pdf')) throw new Error('disk full');
+      return key;
+    });
+
+    const result = await service.processBulkUpload([upload('alice.pdf'), upload('broken.pdf'), upload('bob.pdf')], 'user-1');
+
+    expect(result).toEqual(expect.objectContaining({ batchId: 'batch-1', totalFiles: 3, queuedFiles: 2, rejectedFiles: 1 }));
+    expect(batches[0].status).toBe(ResumeBatchStatus.QUEUED);
+    expect(batches[0].files.map((file: any) => file.status)).toEqual([
+      ResumeBatchFileStatus.QUEUED,
+      ResumeBatchFileStatus.FAILED,
+      ResumeBatchFileStatus.QUEUED,
+    ]);
+    expect(batches[0].files[1].error).toContain('disk full');
+    expect(queueService.addBulkAnalysisJob.mock.calls[0][0].resumeFiles.map((file: any) => file.fileName)).toEqual(['alice.pdf', 'bob.pdf']);
+  });
+
+  it('should remove temp files and stored originals, and fail the batch, when queueing fails', async () => {
+    queueService.addBulkAnalysisJob.mockRejectedValue(new Error('queue unavailable'));
+    const files = [tempUpload('alice.pdf'), tempUpload('bob.pdf')];
+
+    await expect(service.processBulkUpload(files, 'user-1')).rejects.toThrow('queue unavailable');
+
+    expect(files.some(file => fs.existsSync(file.path))).toBe(false);
+    expect(storageService.delete.mock.calls.map(([key]) => key)).toEqual(['resumes/alice.pdf', 'resumes/bob.pdf']);
+    expect(batches[0].status).toBe(ResumeBatchStatus.FAILED);
+    files.forEach(file => fs.rmSync(path.dirname(file.path), { recursive: true, force: true }));
+  });
+
+  it('should not create a batch when no file is usable', async () => {
+    storageService.save.mockRejectedValue(new Error('disk full'));
+
+    await expect(service.processBulkUpload([upload('alice.pdf')], 'user-1')).rejects.toThrow(BadRequestException);
+    expect(resumeBatchRepository.save).not.toHaveBeenCalled();
+  });
+
+  describe('GET /resume/bulk/:batchId', () => {
+    let controller: ResumeAnalysisController;
+
+    beforeEach(async () => {
+      controller = new ResumeAnalysisController(service, {} as any);
+      await service.processBulkUpload([upload('alice.pdf'), upload('bob.pdf')], 'user-1');
+    });
+
+    it('should report the batch status and per-file progress', async () => {
+      batches[0].files[0].status = ResumeBatchFileStatus.DONE;
+      batches[0].completedFiles = 1;
+      batches[0].status = ResumeBatchStatus.PROCESSING;
+
+      const result = await controller.getBulkBatch('batch-1', { user: { sub: 'user-1' } });
+
+      expect(result).toEqual(expect.objectContaining({ batchId: 'batch-1', status: 'processing', totalFiles: 2, completedFiles: 1, failedFiles: 0 }));
+      expect(result.files.map(file => [file.fileName, file.status])).toEqual([
+        ['alice.pdf', 'done'],
+        ['bob.pdf', 'queued'],
+      ]);
+    });
+
+    it("should not show another user's batch", async () => {
+      await expect(controller.getBulkBatch('batch-1', { user: { sub: 'user-2' } })).rejects.toThrow(NotFoundException);
+    });
+  });
+});
+
+describe('ResumeAnalysisService uploads', () => {
+  let resumes: any[];
+  let versions: any[];
+  let resumeRepository: Record<string, jest.Mock>;
+  let resumeSimilarityService: { fingerprint: jest.Mock; findBestMatch: jest.Mock };
+  let storageService: { save: jest.Mock; delete: jest.Mock };
+  let queueService: { addResumeAnalysisJob: jest.Mock };
+  let service: ResumeAnalysisService;
+  let file: Express.Multer.File;
+
+  beforeEach(() => {
+    resumes = [];
+    resumeRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn((data: any) => data),
+      save: jest.fn(async (data: any) => {
+        const resume = { id: 'resume-1', ...data };
+        resumes.push(resume);
+        return resume;
+      }),
+      findOne: jest.fn(async ({ where }: any) => resumes.find(resume => resume.id === where.id) ?? null),
+      update: jest.fn(async (id: string, changes: any) => Object.assign(resumes.find(resume => resume.id === id), changes)),
+      count: jest.fn(async ({ where }: any) => resumes.filter(resume => resume.storageKey === where.storageKey).length),
+    };
+    versions = [];
+    const resumeVersionRepository = {
+      create: jest.fn((data: any) => data),
+      save: jest.fn(async (data: any) => {
+        const version = { id: `version-${versions.length + 1}`, ...data };
+        versions.push(version);
+        return version;
+      }),
+      findOne: jest.fn(async () => [...versions].sort((a, b) => b.versionNumber - a.versionNumber)[0] ?? null),
+      find: jest.fn(async () => [...versions].sort((a, b) => b.versionNumber - a.versionNumber)),
+      delete: jest.fn(async (ids: string[]) => {
+        versions = versions.filter(version => !ids.includes(version.id));
+      }),
+      count: jest.fn(async ({ where }: any) => versions.filter(version => version.storageKey === where.storageKey).length),
+    };
+    resumeSimilarityService = { fingerprint: jest.fn(() => ({ contentHash: 'hash', signature: [] })), findBestMatch: jest.fn(() => null) };
+    storageService = {
+      save: jest.fn(async (key: string, body: any) => {
+        await new Promise(resolve => body.resume().on('close', resolve));
+        return key;
+      }),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+    queueService = { addResumeAnalysisJob: jest.fn().mockResolvedValue(undefined) };
+
+    service = new ResumeAnalysisService(
+      resumeRepository as any,
+      resumeVersionRepository as any,
+      { findOne: jest.fn().mockResolvedValue({ id: 'user-1', email: 'jane@example.com', role: 'user' }) } as any,
+      {} as any,
+      {
+        parseFile: jest.fn().mockResolvedValue({ text: 'Jane Smith, Backend Engineer', metadata: {} }),
+        cleanText: jest.fn((text: string) => text),
+        extractMetadata: jest.fn(() => ({})),
+      } as any,
+      { generateSecureFileName: jest.fn((name: string) => name) } as any,
+      queueService as any,
+      storageService as any,
+      resumeSimilarityService as any,
+      { scan: jest.fn().mockResolvedValue({ clean: true, threats: [], scanners: ['content'] }) } as any,
+      { logSecurityEvent: jest.fn() } as any,
+      { findOne: jest.fn().mockResolvedValue(null) } as any,
+    );
+
+    file = {
+      originalname: 'jane.pdf',
+      mimetype: 'application/pdf',
+      size: 28,
+      path: path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'upload-')), 'jane.pdf'),
+    } as Express.Multer.File;
+    fs.writeFileSync(file.path, 'Jane Smith, Backend Engineer');
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(file.path), { recursive: true, force: true });
+  });
+
+  it('should keep the stored original when queueing fails after the resume points at it', async () => {
+    queueService.addResumeAnalysisJob.mockRejectedValue(new Error('queue unavailable'));
+
+    await expect(service.processUpload(file, 'user-1')).rejects.toThrow(BadRequestException);
+
+    expect(resumes[0].storageKey).toBe('resumes/jane.pdf');
+    expect(storageService.delete).not.toHaveBeenCalled();
+    expect(fs.existsSync(file.path)).toBe(false);
+  });
+
+  it('should remove the stored original when no resume was saved', async () => {
+    resumeRepository.save.mockRejectedValue(new Error('connection lost'));
+
+    await expect(service.processUpload(file, 'user-1')).rejects.toThrow('Failed to process resume: connection lost');
+
+    expect(storageService.delete).toHaveBeenCalledWith('resumes/jane.pdf');
+  });
+
+  it('should keep earlier originals with their versions and remove those the retention trim drops', async () => {
+    resumes.push({ id: 'resume-1', userId: 'user-1', storageKey: 'resumes/v10.pdf' });
+    for (let versionNumber = 1; versionNumber <= 10; versionNumber++) {
+      versions.push({ id: `old-${versionNumber}`, resumeId: 'resume-1', versionNumber, storageKey: `resumes/v${versionNumber}.pdf` });
+    }
+    resumeSimilarityService.findBestMatch.mockReturnValue({ candidate: { id: 'resume-1' }, similarity: 0.9, exact: false });
+
+    const result = await service.processUpload(file, 'user-1');
+
+    expect(result).toEqual(expect.objectContaining({ resumeId: 'resume-1' }));
+    expect(resumes[0].storageKey).toBe('resumes/jane.pdf');
+    expect(versions.map(version => version.versionNumber)).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+    expect(versions[9].storageKey).toBe('resumes/jane.pdf');
+    expect(storageService.delete.mock.calls).toEqual([['resumes/v1.pdf']]);
+  });
+
+  it('should remove the previous original when no version kept it', async () => {
+    resumes.push({ id: 'resume-1', userId: 'user-1', storageKey: 'resumes/legacy.pdf' });
+    versions.push({ id: 'old-1', resumeId: 'resume-1', versionNumber: 1 });
+    resumeSimilarityService.findBestMatch.mockReturnValue({ candidate: { id: 'resume-1' }, similarity: 0.9, exact: false });
+
+    await service.processUpload(file, 'user-1');
+
+    expect(versions[1]).toEqual(expect.objectContaining({ versionNumber: 2, storageKey: 'resumes/jane.pdf' }));
+    expect(storageService.delete.mock.calls).toEqual([['resumes/legacy.pdf']]);
+  });
+});
@@ -0,0 +1,145 @@
+import { ResumeSegmenterService } from '../modules/resume-analysis/services/resume-segmenter.service';
+
+describe('ResumeSegmenterService', () => {
+  let service: ResumeSegmenterService;
+
+  const resumeText = [
+    'Jane Smith',
+    'Seattle, WA | jane.smith@example.com | (206) 555-0142',
+    'linkedin.com/in/janesmith',
+    '',
+    'PROFESSIONAL SUMMARY',
+    'Backend engineer with 7 years of experience building',
+    'distributed systems.',
+    '',
+    'EXPERIENCE',
+    'Senior Software Engineer | Acme Corp | Jan 2020 - Present',
+    '• Led migration of billing services to Kubernetes',
+    '• Reduced p99 latency by 40% using Redis caching',
+    'Software Engineer | Beta Inc | Jun 2016 – Dec 2019',
+    '- Built REST APIs in TypeScript and Node.js',
+    '  serving 2M requests per day',
+    '',
+    'Education',
+    'B.S. in Computer Science, University of Washington, 2012 - 2016',
+    'GPA: 3.8/4.0',
+    '',
+    'Skills',
+    'Languages: TypeScript, Python, SQL',
+    'Kubernetes, Redis, Node.js',
+    '',
+    'Projects',
+    'Open Source Queue | 2021 - 2022',
+    '• Wrote a Redis-backed job queue',
+    'Tech: TypeScript, Redis',
+    '',
+    'Certifications',
+    '• AWS Certified Solutions Architect - Amazon Web Services, 2021',
+  ].join('\n');
+
+  beforeEach(() => {
+    service = new ResumeSegmenterService();
+  });
+
+  describe('segment', () => {
+    it('should split the resume into typed sections', () => {
+      const result = service.segment(resumeText);
+
+      expect(Object.keys(result.sections || {})).toEqual(
+        expect.arrayContaining(['contact', 'summary', 'experience', 'education', 'skills', 'projects', 'certifications']),
+      );
+      expect(result.extractedInfo?.summary).toBe(
+        'Backend engineer with 7 years of experience building distributed systems.',
+      );
+    });
+
+    it('should extract contact information from the header block', () => {
+      const { contactInfo } = service.segment(resumeText).extractedInfo!;
+
+      expect(contactInfo).toEqual(
+        expect.objectContaining({
+          name: 'Jane Smith',
+          email: 'jane.smith@example.com',
+          phone: '(206) 555-0142',
+          location: 'Seattle, WA',
+          linkedin: 'https://linkedin.com/in/janesmith',
+        }),
+      );
+    });
+
+    it('should parse experience entries with dates, employer, title and bullets', () => {
+      const { experience } = service.segment(resumeText).extractedInfo!;
+
+      expect(experience).toHaveLength(2);
+      expect(experience![0]).toEqual(
+        expect.objectContaining({
+          company: 'Acme Corp',
+          position: 'Senior Software Engineer',
+          startDate: 'Jan 2020',
+          endDate: 'Present',
+          achievements: [
+            'Led migration of billing services to Kubernetes',
+            'Reduced p99 latency by 40% using Redis caching',
+          ],
+        }),
+      );
+      expect(experience![0].skills).toEqual(expect.arrayContaining(['Kubernetes', 'Redis']));
+      expect(experience![1]).toEqual(
+        expect.objectContaining({
+          company: 'Beta Inc',
+          position: 'Software Engineer',
+          startDate: 'Jun 2016',
+          endDate: 'Dec 2019',
+          achievements: ['Built REST APIs in TypeScript and Node.js serving 2M requests per day'],
+        }),
+      );
+    });
+
+    it('should parse education entries', () => {
+      const { education } = service.segment(resumeText).extractedInfo!;
+
+      expect(education).toEqual([
+        expect.objectContaining({
+          institution: 'University of Washington',
+          degree: 'B.S.',
+          field: 'Computer Science',
+          startDate: '2012',
+          endDate: '2016',
+          gpa: '3.8/4.0',
+        }),
+      ]);
+    });
+
+    it('should extract skills, projects and certifications', () => {
+      const { skills, projects, certifications } = service.segment(resumeText).extractedInfo!;
+
+      expect(skills).toEqual(['TypeScript', 'Python', 'SQL', 'Kubernetes', 'Redis', 'Node.js']);
+      expect(projects).toEqual([
+        expect.objectContaining({
+          name: 'Open Source Queue',
+          technologies: ['TypeScript', 'Redis'],
+          achievements: ['Wrote a Redis-backed job queue'],
+        }),
+      ]);
+      expect(certifications).toEqual([
+        { name: 'AWS Certified Solutions Architect', issuer: 'Amazon Web Services', date: '2021' },
+      ]);
+    });
+
+    it('should keep all text in the contact section when no headings are found', () => {
+      const result = service.segment('Just a paragraph of text\nwith two lines');
+
+      expect(result.sections).toEqual({ contact: 'Just a paragraph of text\nwith two lines' });
+      expect(result.extractedInfo?.experience).toEqual([]);
+    });
+  });
+
+  describe('detectSectionType', () => {
+    it('should recognise common heading variants', () => {
+      expect(service.detectSectionType('WORK EXPERIENCE')).toBe('experience');
+      expect(service.detectSectionType('Licenses & Certifications:')).toBe('certifications');
+      expect(service.detectSectionType('Core Competencies')).toBe('skills');
+      expect(service.detectSectionType('Led the experience redesign for mobile')).toBeNull();
+    });
+  });
+});
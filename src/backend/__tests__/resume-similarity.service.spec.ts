@@ -0,0 +1,79 @@
+import { ResumeSimilarityService } from '../modules/resume-analysis/services/resume-similarity.service';
+
+describe('ResumeSimilarityService', () => {
+  let service: ResumeSimilarityService;
+
+  const experience = [
+    'Senior Software Engineer at Acme Corp, 2019 - Present',
+    'Led the migration of a monolith to event-driven microservices serving 2M users',
+    'Reduced p95 API latency by 40% through query tuning and Redis caching',
+    'Mentored five engineers and introduced a weekly design review',
+    'Software Engineer at Globex, 2016 - 2019',
+    'Built the billing pipeline in TypeScript and PostgreSQL processing $3M monthly',
+    'Automated deployments with GitHub Actions, cutting release time from days to hours',
+  ];
+  const resume = ['Jane Smith', 'jane@example.com', ...experience].join('\n');
+
+  beforeEach(() => {
+    service = new ResumeSimilarityService();
+  });
+
+  describe('fingerprint', () => {
+    it('should hash the same content identically regardless of case, punctuation and spacing', () => {
+      const reformatted = resume.toUpperCase().replace(/,/g, ' ').replace(/\n/g, '\n\n  ');
+
+      expect(service.fingerprint(reformatted).contentHash).toBe(service.fingerprint(resume).contentHash);
+    });
+
+    it('should produce a deterministic signature', () => {
+      const first = service.fingerprint(resume).signature;
+
+      expect(first).toHaveLength(128);
+      expect(service.fingerprint(resume).signature).toEqual(first);
+    });
+  });
+
+  describe('findBestMatch', () => {
+    const candidate = (id: string, text: string) => {
+      const { contentHash, signature } = service.fingerprint(text);
+      return { id, contentHash, contentSignature: signature };
+    };
+
+    it('should report exact duplicates', () => {
+      const match = service.findBestMatch(service.fingerprint(resume), [candidate('resume-1', resume)]);
+
+      expect(match).toEqual(expect.objectContaining({ exact: true, similarity: 1 }));
+      expect(match?.candidate.id).toBe('resume-1');
+    });
+
+    it('should match a lightly edited revision as a near-duplicate', () => {
+      const revision = resume.replace('five engineers', 'six engineers') + '\nCertified Kubernetes Administrator';
+
+      const match = service.findBestMatch(service.fingerprint(revision), [candidate('resume-1', resume)]);
+
+      expect(match?.exact).toBe(false);
+      expect(match?.similarity).toBeGreaterThanOrEqual(0.8);
+      expect(match?.similarity).toBeLessThan(1);
+    });
+
+    it('should not match an unrelated resume', () => {
+      const other = [
+        'Alex Chen',
+        'Registered Nurse, St. Mary Hospital, 2015 - 2023',
+        'Coordinated patient care for a 30-bed surgical ward',
+        'Trained new staff on electronic health record workflows',
+        'Bachelor of Science in Nursing, University of Washington',
+      ].join('\n');
+
+      expect(service.findBestMatch(service.fingerprint(other), [candidate('resume-1', resume)])).toBeNull();
+    });
+
+    it('should skip candidates without a stored signature', () => {
+      const match = service.findBestMatch(service.fingerprint(resume + '\nVolunteer'), [
+        { id: 'legacy', contentHash: null, contentSignature: null },
+      ]);
+
+      expect(match).toBeNull();
+    });
+  });
+});
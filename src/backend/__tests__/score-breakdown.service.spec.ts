@@ -0,0 +1,90 @@
+import { ScoreBreakdownService } from '../modules/jd-matching/services/score-breakdown.service';
+import { JobDescriptionParserService } from '../modules/jd-matching/services/job-description-parser.service';
+import { SkillsTaxonomyService } from '../modules/resume-analysis/services/skills-taxonomy.service';
+import type { RequirementCheck } from '../modules/jd-matching/interfaces/parsed-job-description.interface';
+
+describe('ScoreBreakdownService', () => {
+  const taxonomy = new SkillsTaxonomyService();
+  const parser = new JobDescriptionParserService(taxonomy);
+  const service = new ScoreBreakdownService(taxonomy, parser);
+
+  const jobDescription = [
+    'Senior Backend Engineer',
+    'We build payments infrastructure for banks.',
+    'Requirements:',
+    '- 5+ years of experience with Python and PostgreSQL',
+    "- Bachelor's degree in Computer Science",
+    'Nice to have:',
+    '- Kubernetes',
+  ].join('\n');
+
+  const resumeContent = [
+    'Jane Doe',
+    'Senior Software Engineer, Acme Payments',
+    '2016 - 2024',
+    '- Built payment APIs in Python and PostgreSQL for a fintech startup.',
+    '- Tuned Python services and PostgreSQL queries.',
+    'BSc in Computer Science, State University',
+  ].join('\n');
+
+  const requirements = (overrides: Partial<Record<string, boolean>> = {}): RequirementCheck[] => [
+    { type: 'skill', name: 'Python', required: true, met: overrides.Python ?? true, evidence: '5+ years of experience with Python and PostgreSQL' },
+    { type: 'skill', name: 'PostgreSQL', required: true, met: overrides.PostgreSQL ?? true, evidence: '5+ years of experience with Python and PostgreSQL' },
+    { type: 'skill', name: 'Kubernetes', required: false, met: overrides.Kubernetes ?? false, evidence: 'Kubernetes' },
+  ];
+
+  const breakdown = (input: { resume?: string; requirements?: RequirementCheck[]; semanticScore?: number } = {}) =>
+    service.breakdown({
+      resumeContent: input.resume ?? resumeContent,
+      jobDescription,
+      parsed: parser.parse(jobDescription),
+      requirements: input.requirements ?? requirements(),
+      matchedKeywords: ['Python', 'PostgreSQL'],
+      semanticScore: input.semanticScore,
+    });
+
+  it('should add up weighted components to the overall score', () => {
+    const result = breakdown({ semanticScore: 70 });
+    const byKey = Object.fromEntries(result.components.map(component => [component.key, component]));
+
+    expect(result.components.map(component => component.key)).toEqual([
+      'skills',
+      'experience',
+      'seniority',
+      'education',
+      'domain',
+      'keywordDensity',
+    ]);
+    expect(byKey.skills.score).toBe(75);
+    expect(byKey.experience.score).toBe(100);
+    expect(byKey.seniority.score).toBe(100);
+    expect(byKey.education.score).toBe(100);
+    expect(byKey.domain.score).toBe(85); // keyword fit 100, AI relevance 70
+    expect(result.components.reduce((sum, component) => sum + component.weight, 0)).toBeCloseTo(1);
+    expect(result.score).toBe(Math.round(result.components.reduce((sum, component) => sum + component.contribution, 0)));
+  });
+
+  it('should quote the resume and job description for each component', () => {
+    const skills = breakdown().components.find(component => component.key === 'skills')!;
+    const experience = breakdown().components.find(component => component.key === 'experience')!;
+
+    expect(skills.detail).toBe('Shows 2 of 2 required and 0 of 1 preferred skills.');
+    expect(skills.evidence.resume).toEqual(['- Built payment APIs in Python and PostgreSQL for a fintech startup.']);
+    expect(skills.evidence.jobDescription).toContain('5+ years of experience with Python and PostgreSQL');
+    expect(experience.evidence).toEqual({
+      resume: ['2016 - 2024'],
+      jobDescription: ['5+ years of experience with Python and PostgreSQL'],
+    });
+  });
+
+  it('should leave out components it cannot assess and rescale the rest', () => {
+    const result = breakdown({ resume: 'Python and PostgreSQL developer at a bank', requirements: requirements({ PostgreSQL: false }) });
+    const experience = result.components.find(component => component.key === 'experience')!;
+    const skills = result.components.find(component => component.key === 'skills')!;
+
+    expect(experience).toEqual(expect.objectContaining({ score: null, weight: 0, contribution: 0 }));
+    expect(experience.detail).toBe('No dated roles were found on the resume.');
+    expect(skills.detail).toContain('Missing: PostgreSQL.');
+    expect(result.components.reduce((sum, component) => sum + component.weight, 0)).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,176 @@
+import { ConfigService } from '@nestjs/config';
+import { SemanticCacheService } from '../modules/ai/services/semantic-cache.service';
+import { AIProviderService } from '../modules/ai/services/ai-provider.service';
+import { MockAIProvider } from '../modules/ai/providers/mock.provider';
+import { ResumeAnalysisResult, SkillCategory } from '../modules/ai/interfaces/ai-provider.interface';
+
+describe('SemanticCacheService', () => {
+  let store: Map<string, string>;
+  let redis: Record<string, jest.Mock>;
+
+  const configService = (config: Record<string, string> = {}) =>
+    ({
+      get: (key: string, fallback?: string) => ({ AI_SEMANTIC_CACHE_ENABLED: 'true', ...config })[key] ?? fallback,
+    }) as unknown as ConfigService;
+
+  const analysis = (atsScore: number, skills: string[], overrides: Partial<ResumeAnalysisResult> = {}): ResumeAnalysisResult => ({
+    atsScore,
+    skills: skills.map(name => ({ name, category: SkillCategory.TECHNICAL, confidence: 0.9 })),
+    suggestions: ['Quantify your achievements'],
+    personalInfo: { name: 'Jane Smith' },
+    experience: [],
+    education: [],
+    confidence: 0.8,
+    processingTime: 1200,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    store = new Map();
+    redis = {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      setex: jest.fn(async (key: string, _ttl: number, value: string) => {
+        store.set(key, value);
+      }),
+      hincrby: jest.fn(),
+      hincrbyfloat: jest.fn(),
+      expire: jest.fn(),
+    };
+  });
+
+  it('should only match when every input is close enough', async () => {
+    const cache = new SemanticCacheService(configService({ AI_SEMANTIC_CACHE_THRESHOLD: '0.95' }), redis as any);
+    await cache.remember('matching:user-1', { cacheKey: 'ai:matching:1', sourceId: 'match-1', embeddings: [[1, 0, 0], [0, 1, 0]] });
+
+    const hit = await cache.lookup({ scope: 'matching:user-1', embeddings: [[0.99, 0.05, 0], [0, 1, 0]] });
+    expect(hit).toEqual(expect.objectContaining({ similarity: 0.999, entry: expect.objectContaining({ sourceId: 'match-1' }) }));
+
+    // Same resume, different job
+    expect(await cache.lookup({ scope: 'matching:user-1', embeddings: [[1, 0, 0], [0, 0, 1]] })).toBeNull();
+    expect(await cache.lookup({ scope: 'matching:user-2', embeddings: [[1, 0, 0], [0, 1, 0]] })).toBeNull();
+  });
+
+  it('should reuse unchanged sections when they make up most of the resume', async () => {
+    const cache = new SemanticCacheService(configService(), redis as any);
+    await cache.remember('analysis:user-1', {
+      cacheKey: 'ai:analysis:1',
+      embeddings: [[1, 0]],
+      sections: { experience: [1, 0], skills: [0, 1], summary: [1, 1] },
+      sectionLengths: { experience: 800, skills: 100, summary: 100 },
+    });
+
+    const query = (summary: number[], experience: number[]) => ({
+      scope: 'analysis:user-1',
+      embeddings: [[0, 1]],
+      sections: { experience, skills: [0, 1], summary },
+      sectionLengths: { experience: 800, skills: 100, summary: 100 },
+    });
+
+    expect(await cache.lookup(query([1, -1], [1, 0]))).toEqual(
+      expect.objectContaining({ reusedSections: ['experience', 'skills'], reusedShare: 0.9 }),
+    );
+    // Only a tenth of the text is unchanged
+    expect(await cache.lookup(query([1, -1], [0, 1]))).toBeNull();
+  });
+
+  it('should keep the cached fields of reused sections when merging', () => {
+    const cache = new SemanticCacheService(configService(), redis as any);
+    const cached = analysis(80, ['TypeScript', 'React'], { experience: [{ company: 'Acme', position: 'Engineer', startDate: '2020', description: '' } as any] });
+    const fresh = analysis(60, ['react', 'Leadership'], { summary: 'Rewritten summary', suggestions: ['Add a summary', 'quantify your achievements'] });
+
+    const merged = cache.mergeAnalyses(cached, fresh, { reusedSections: ['experience', 'skills'], reusedShare: 0.75 });
+
+    expect(merged.atsScore).toBe(75);
+    expect(merged.experience).toBe(cached.experience);
+    expect(merged.summary).toBe('Rewritten summary');
+    expect(merged.skills.map(skill => skill.name)).toEqual(['TypeScript', 'React', 'Leadership']);
+    expect(merged.suggestions).toEqual(['Add a summary', 'quantify your achievements']);
+  });
+
+  describe('through AIProviderService', () => {
+    const createService = () => {
+      const config = configService({ AI_MOCK_PROVIDER: 'true' });
+      const mock = new MockAIProvider(config);
+      const circuitBreaker = { tryAcquire: jest.fn().mockResolvedValue('closed'), recordSuccess: jest.fn(), recordFailure: jest.fn() };
+      const rateLimiter = { acquire: jest.fn().mockResolvedValue({ allowed: true }), refund: jest.fn() };
+      const unavailable = (name: string, priority: number) => ({ name, priority, isHealthy: false, costPerToken: 0 });
+      const service = new AIProviderService(
+        config,
+        redis as any,
+        unavailable('gemini', 1) as any,
+        unavailable('openai', 2) as any,
+        unavailable('claude', 3) as any,
+        undefined,
+        undefined,
+        mock,
+        circuitBreaker as any,
+        rateLimiter as any,
+        undefined,
+        undefined,
+        undefined,
+        new SemanticCacheService(config, redis as any),
+      );
+      return { service, analyze: jest.spyOn(mock, 'analyze'), embed: jest.spyOn(mock, 'embed'), circuitBreaker, rateLimiter };
+    };
+
+    const resume = (role: string) =>
+      `Jane Smith\nSenior ${role} with ten years building distributed payment systems in TypeScript and Go. ` +
+      'Led a team of six engineers, cut checkout latency by forty percent and owned the on-call rotation.';
+
+    it('should serve a lightly edited resume from the earlier analysis and say where it came from', async () => {
+      const { service, analyze } = createService();
+
+      const first = await service.analyzeResume({ content: resume('engineer'), fileName: 'resume.pdf', userId: 'user-1', sourceId: 'resume-1' });
+      const second = await service.analyzeResume({ content: resume('Engineer'), fileName: 'resume.pdf', userId: 'user-1', sourceId: 'resume-2' });
+
+      expect(first.cache).toBeUndefined();
+      expect(second.cache).toEqual({ source: 'semantic', sourceId: 'resume-1', similarity: 1 });
+      expect(second.atsScore).toBe(first.atsScore);
+      expect(analyze).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not share results between users', async () => {
+      const { service, analyze } = createService();
+
+      await service.analyzeResume({ content: resume('engineer'), fileName: 'resume.pdf', userId: 'user-1' });
+      const other = await service.analyzeResume({ content: resume('Engineer'), fileName: 'resume.pdf', userId: 'user-2' });
+
+      expect(other.cache).toBeUndefined();
+      expect(analyze).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share results between redacted and unredacted analyses', async () => {
+      const { service, analyze } = createService();
+
+      // Nothing in the summary to redact, so both requests embed the same text
+      const summary = (role: string) => resume(role).split('\n')[1];
+      await service.analyzeResume({ content: summary('engineer'), fileName: 'resume.pdf', userId: 'user-1', redactPii: true });
+      const unredacted = await service.analyzeResume({ content: summary('Engineer'), fileName: 'resume.pdf', userId: 'user-1', redactPii: false });
+
+      expect(unredacted.cache).toBeUndefined();
+      expect(analyze).toHaveBeenCalledTimes(2);
+    });
+
+    it('should admit and meter embeddings like any other provider call', async () => {
+      const { service, circuitBreaker, rateLimiter } = createService();
+
+      await service.analyzeResume({ content: resume('engineer'), fileName: 'resume.pdf', userId: 'user-1' });
+
+      // One admission for the embedding, one for the analysis
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+      expect(circuitBreaker.recordSuccess).toHaveBeenCalledTimes(2);
+      expect(redis.hincrby).toHaveBeenCalledWith(expect.stringContaining('ai:usage:mock:'), 'embedding', 1);
+    });
+
+    it('should skip the semantic lookup when the embedder is refused', async () => {
+      const { service, analyze, embed, circuitBreaker } = createService();
+      circuitBreaker.tryAcquire.mockResolvedValueOnce(null);
+
+      const result = await service.analyzeResume({ content: resume('engineer'), fileName: 'resume.pdf', userId: 'user-1' });
+
+      expect(embed).not.toHaveBeenCalled();
+      expect(analyze).toHaveBeenCalledTimes(1);
+      expect(result.cache).toBeUndefined();
+    });
+  });
+});
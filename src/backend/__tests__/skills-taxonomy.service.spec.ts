@@ -0,0 +1,81 @@
+import { SkillsTaxonomyService } from '../modules/resume-analysis/services/skills-taxonomy.service';
+import { LanguageDetectionService } from '../modules/resume-analysis/services/language-detection.service';
+import { JobDescriptionParserService } from '../modules/jd-matching/services/job-description-parser.service';
+import { ScoreBreakdownService } from '../modules/jd-matching/services/score-breakdown.service';
+import { JDMatchingProcessor } from '../queues/processors/jd-matching.processor';
+import { SkillCategory } from '../modules/ai/interfaces/ai-provider.interface';
+import { SKILLS_TAXONOMY } from '../modules/resume-analysis/data/skills-taxonomy';
+
+describe('SkillsTaxonomyService', () => {
+  const taxonomy = new SkillsTaxonomyService();
+
+  it('should resolve every spelling of a skill to one canonical skill', () => {
+    for (const spelling of ['React', 'react.js', 'ReactJS', 'React JS']) {
+      expect(taxonomy.find(spelling)?.id).toBe('react');
+    }
+    expect(taxonomy.find('k8s')).toEqual(expect.objectContaining({ name: 'Kubernetes', category: SkillCategory.TOOL }));
+    expect(taxonomy.canonicalName('ci-cd')).toBe('CI/CD');
+    expect(taxonomy.canonicalName('Underwater basket weaving')).toBe('Underwater basket weaving');
+  });
+
+  it('should find multi-word and punctuated skills in free text', () => {
+    const mentions = taxonomy.extract(
+      'Built machine-learning pipelines in Python, shipped React Native apps and ran Node.js services on k8s with C++ extensions.',
+    );
+
+    expect(mentions.map(mention => mention.skill.name)).toEqual([
+      'Machine Learning',
+      'Python',
+      'React Native',
+      'Node.js',
+      'Kubernetes',
+      'C++',
+    ]);
+  });
+
+  it('should only match ambiguous words written the way skills are', () => {
+    expect(taxonomy.extract('Ready to go the extra mile and excel at the rest').map(mention => mention.skill.id)).toEqual([]);
+    expect(taxonomy.extract('Services written in Go, reports in Excel').map(mention => mention.skill.id)).toEqual(['go', 'excel']);
+  });
+
+  it('should let narrower skills meet broader requirements but not the other way round', () => {
+    expect(taxonomy.satisfies('PostgreSQL', 'SQL')).toBe(true);
+    expect(taxonomy.satisfies('EKS', 'Docker')).toBe(true);
+    expect(taxonomy.satisfies('SQL', 'PostgreSQL')).toBe(false);
+    expect(taxonomy.satisfies('ReactJS', 'react.js')).toBe(true);
+  });
+
+  it('should only refer to skills it defines', () => {
+    const ids = new Set(SKILLS_TAXONOMY.skills.map(skill => skill.id));
+
+    expect(ids.size).toBe(SKILLS_TAXONOMY.skills.length);
+    for (const skill of SKILLS_TAXONOMY.skills) {
+      for (const parent of skill.parents || []) {
+        expect(ids).toContain(parent);
+      }
+    }
+  });
+
+  it('should match job keywords through the taxonomy', () => {
+    const parser = new JobDescriptionParserService(taxonomy);
+    const processor = new JDMatchingProcessor(
+      {} as any,
+      {} as any,
+      {} as any,
+      new LanguageDetectionService(),
+      taxonomy,
+      parser,
+      new ScoreBreakdownService(taxonomy, parser),
+    );
+
+    const result = (processor as any).performKeywordMatching(
+      'Backend engineer: ReactJS front ends, Postgres, k8s and machine-learning models.',
+      'Requirements: experience with React.js, SQL, Kubernetes and machine learning. Must have Terraform.',
+      { resume: 'en', jobDescription: 'en' },
+    );
+
+    expect(result.missingKeywords).toEqual(['Terraform']);
+    expect(result.matchedKeywords).toEqual(['React', 'PostgreSQL', 'Kubernetes', 'Machine Learning']);
+    expect(result.taxonomyVersion).toBe(SKILLS_TAXONOMY.version);
+  });
+});
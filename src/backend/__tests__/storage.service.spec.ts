@@ -0,0 +1,49 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageProvider } from '../modules/storage/providers/local-storage.provider';
+import { StorageService } from '../modules/storage/services/storage.service';
+
+describe('StorageService', () => {
+  let rootDir: string;
+  let service: StorageService;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-spec-'));
+    const configService = { get: jest.fn((key: string) => (key === 'UPLOAD_DIRECTORY' ? rootDir : undefined)) };
+    service = new StorageService(new LocalStorageProvider(configService as unknown as ConfigService));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('with the local driver', () => {
+    it('should store a stream and read it back by key', async () => {
+      const key = await service.save('resumes/user-1_resume.pdf', Readable.from([Buffer.from('%PDF-1.4 '), Buffer.from('body')]));
+
+      expect(key).toBe('resumes/user-1_resume.pdf');
+      expect(fs.existsSync(path.join(rootDir, 'resumes', 'user-1_resume.pdf'))).toBe(true);
+      expect((await service.read(key)).toString()).toBe('%PDF-1.4 body');
+    });
+
+    it('should delete stored objects', async () => {
+      await service.save('resumes/old.docx', Buffer.from('docx'));
+
+      await service.delete('resumes/old.docx');
+
+      expect(await service.exists('resumes/old.docx')).toBe(false);
+    });
+
+    it('should reject keys that escape the storage root', async () => {
+      await expect(service.save('../outside.txt', Buffer.from('nope'))).rejects.toThrow('Invalid storage key');
+      await expect(service.read('resumes/../../etc/passwd')).rejects.toThrow('Invalid storage key');
+    });
+
+    it('should fail to read a missing object', async () => {
+      await expect(service.read('resumes/missing.pdf')).rejects.toThrow();
+    });
+  });
+});
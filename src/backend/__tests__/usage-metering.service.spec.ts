@@ -0,0 +1,116 @@
+import { ConfigService } from '@nestjs/config';
+import { UsageMeteringService } from '../modules/ai/services/usage-metering.service';
+import { AIProviderService } from '../modules/ai/services/ai-provider.service';
+
+describe('UsageMeteringService', () => {
+  let query: jest.Mock;
+  let rawResults: any[][];
+  let builders: Record<string, jest.Mock>[];
+  let metering: UsageMeteringService;
+
+  // Every aggregate query gets its own chainable builder; rawResults are handed out in query order
+  const createQueryBuilder = () => {
+    const builder: Record<string, jest.Mock> = {};
+    for (const method of ['select', 'addSelect', 'where', 'andWhere', 'leftJoin', 'groupBy', 'addGroupBy', 'orderBy', 'limit']) {
+      builder[method] = jest.fn(() => builder);
+    }
+    builder.getRawMany = jest.fn(async () => rawResults.shift() || []);
+    builders.push(builder);
+    return builder;
+  };
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue([]);
+    rawResults = [];
+    builders = [];
+    metering = new UsageMeteringService({ query, createQueryBuilder } as any);
+  });
+
+  it('should add each request to the daily row for the user, feature and provider', async () => {
+    await metering.record({ userId: 'user-1', operation: 'analysis', provider: 'gemini', tokens: 1200, cost: 0.0012 });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain('ON CONFLICT ("userId", "feature", "provider", "date") DO UPDATE');
+    expect(params).toEqual(['user-1', 'resume_analysis', 'gemini', new Date().toISOString().split('T')[0], 1200, 0.0012]);
+  });
+
+  it('should not fail the AI call when the usage cannot be saved', async () => {
+    query.mockRejectedValue(new Error('connection refused'));
+
+    await expect(
+      metering.record({ userId: 'user-1', operation: 'matching', provider: 'openai', tokens: 10, cost: 0 }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should summarize a user's usage by feature and day", async () => {
+    rawResults = [
+      [{ requests: '3', tokens: '4500', cost: '0.0045' }],
+      [
+        { feature: 'resume_analysis', requests: '2', tokens: '4000', cost: '0.004' },
+        { feature: 'jd_matching', requests: '1', tokens: '500', cost: '0.0005' },
+      ],
+      [{ date: new Date('2026-10-18T00:00:00Z'), requests: '3', tokens: '4500', cost: '0.0045' }],
+    ];
+
+    const usage = await metering.getUserUsage('user-1', 7);
+
+    expect(usage.totals).toEqual({ requests: 3, tokens: 4500, cost: 0.0045 });
+    expect(usage.byFeature.jd_matching).toEqual({ requests: 1, tokens: 500, cost: 0.0005 });
+    expect(usage.byDay).toEqual([{ date: '2026-10-18', requests: 3, tokens: 4500, cost: 0.0045 }]);
+    for (const builder of builders) {
+      expect(builder.andWhere).toHaveBeenCalledWith('usage.userId = :userId', { userId: 'user-1' });
+    }
+  });
+
+  it('should rank users by cost in the totals', async () => {
+    rawResults = [
+      [{ requests: '10', tokens: '20000', cost: '0.5' }],
+      [],
+      [{ provider: 'gemini', requests: '10', tokens: '20000', cost: '0.5' }],
+      [{ userId: 'user-2', email: 'jane@example.com', requests: '7', tokens: '15000', cost: '0.4' }],
+    ];
+
+    const totals = await metering.getUsageTotals(30, 5);
+
+    expect(totals.byProvider).toEqual({ gemini: { requests: 10, tokens: 20000, cost: 0.5 } });
+    expect(totals.topUsers).toEqual([{ userId: 'user-2', email: 'jane@example.com', requests: 7, tokens: 15000, cost: 0.4 }]);
+    expect(builders[3].orderBy).toHaveBeenCalledWith('SUM(usage.cost)', 'DESC');
+    expect(builders[3].limit).toHaveBeenCalledWith(5);
+  });
+
+  it('should bill the requesting user for provider calls', async () => {
+    const configService = { get: (key: string, fallback?: string) => (key === 'AI_CACHE_ENABLED' ? 'false' : fallback) };
+    const redis = { hincrby: jest.fn(), hincrbyfloat: jest.fn(), expire: jest.fn() };
+    const provider = (name: string, priority: number) => ({
+      name,
+      priority,
+      isHealthy: name === 'gemini',
+      costPerToken: 0.002,
+      analyze: jest.fn(),
+      generateSuggestions: jest.fn().mockResolvedValue(['Add metrics']),
+      matchJobDescription: jest.fn(),
+    });
+    const circuitBreaker = { tryAcquire: jest.fn().mockResolvedValue('closed'), recordSuccess: jest.fn(), recordFailure: jest.fn() };
+    const rateLimiter = { acquire: jest.fn().mockResolvedValue({ allowed: true }), refund: jest.fn() };
+    const record = jest.spyOn(metering, 'record');
+    const service = new AIProviderService(
+      configService as unknown as ConfigService,
+      redis as any,
+      provider('gemini', 1) as any,
+      provider('openai', 2) as any,
+      provider('claude', 3) as any,
+      undefined,
+      undefined,
+      undefined,
+      circuitBreaker as any,
+      rateLimiter as any,
+      undefined,
+      undefined,
+      metering,
+    );
+
+    await service.generateSuggestions('x'.repeat(4000), undefined, { userId: 'user-1' });
+
+    expect(record).toHaveBeenCalledWith({ userId: 'user-1', operation: 'suggestions', provider: 'gemini', tokens: 1000, cost: 0.002 });
+  });
+});
@@ -109,6 +109,24 @@ export class MetricsService {
     labelNames: ["provider", "type"],
   });
 
+  public readonly aiCircuitTransitions = new Counter({
+    name: "ai_circuit_transitions_total",
+    help: "Total number of AI provider circuit breaker state transitions",
+    labelNames: ["provider", "from", "to"],
+  });
+
+  public readonly aiCircuitState = new Gauge({
+    name: "ai_circuit_state",
+    help: "AI provider circuit breaker state (0 = closed, 1 = half-open, 2 = open)",
+    labelNames: ["provider"],
+  });
+
+  public readonly aiRateLimited = new Counter({
+    name: "ai_rate_limited_total",
+    help: "Total number of AI provider calls held back by rate limits or spend caps",
+    labelNames: ["provider", "reason"],
+  });
+
   // Authentication Metrics
   public readonly authAttemptsTotal = new Counter({
     name: "auth_attempts_total",
@@ -272,6 +290,26 @@ export class MetricsService {
     }
   }
 
+  /**
+   * Record AI provider circuit breaker transition
+   */
+  recordCircuitTransition(
+    provider: string,
+    from: "closed" | "open" | "half_open",
+    to: "closed" | "open" | "half_open"
+  ): void {
+    const stateValues = { closed: 0, half_open: 1, open: 2 };
+    this.aiCircuitTransitions.inc({ provider, from, to });
+    this.aiCircuitState.set({ provider }, stateValues[to]);
+  }
+
+  /**
+   * Record AI provider call skipped or failed over by the rate limiter
+   */
+  recordRateLimited(provider: string, reason: "rate_limited" | "spend_cap"): void {
+    this.aiRateLimited.inc({ provider, reason });
+  }
+
   /**
    * Record authentication attempt
    */
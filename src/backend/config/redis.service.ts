@@ -152,6 +152,21 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  async hset(key: string, values: Record<string, string | number>): Promise<boolean> {
+    if (!this.isConnected) {
+      this.logger.warn('Redis not connected, skipping hset operation');
+      return false;
+    }
+
+    try {
+      await this.client.hSet(key, values);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error setting hash fields ${key}:`, error);
+      return false;
+    }
+  }
+
   async hgetall(key: string): Promise<Record<string, string>> {
     if (!this.isConnected) {
       this.logger.warn('Redis not connected, skipping hgetall operation');
@@ -181,6 +196,20 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  async eval(script: string, keys: string[], args: Array<string | number>): Promise<unknown> {
+    if (!this.isConnected) {
+      this.logger.warn('Redis not connected, skipping eval operation');
+      return null;
+    }
+
+    try {
+      return await this.client.eval(script, { keys, arguments: args.map(String) });
+    } catch (error) {
+      this.logger.error(`Error evaluating script on ${keys.join(', ')}:`, error);
+      return null;
+    }
+  }
+
   async flushAll(): Promise<boolean> {
     if (!this.isConnected) {
       this.logger.warn('Redis not connected, skipping flushAll operation');
@@ -1,6 +1,10 @@
 export { JdMatching } from "./jd-matching.entity";
+export { JdRanking } from "./jd-ranking.entity";
 export { JobApplication } from "./job-application.entity";
+export { JobFitSearch } from "./job-fit-search.entity";
 export { Permission } from "./permission.entity";
+export { PromptTemplate } from "./prompt-template.entity";
+export { ResumeBatch } from "./resume-batch.entity";
 export { ResumeVersion } from "./resume-version.entity";
 export { Resume } from "./resume.entity";
 export { Role } from "./role.entity";
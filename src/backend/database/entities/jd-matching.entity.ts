@@ -7,6 +7,8 @@ import {
   ManyToOne,
   JoinColumn,
 } from 'typeorm';
+import type { ParsedJobDescription } from '../../modules/jd-matching/interfaces/parsed-job-description.interface';
+import type { ScoreBreakdown } from '../../modules/jd-matching/interfaces/score-breakdown.interface';
 
 @Entity('jd_matching_results')
 @Index(['userId']) // For user matching queries
@@ -29,12 +31,18 @@ export class JdMatching {
   @Column('decimal', { precision: 5, scale: 2 })
   overallScore: number;
 
+  @Column('jsonb', { nullable: true })
+  scoreBreakdown?: ScoreBreakdown;
+
   @Column('jsonb', { nullable: true })
   keywordMatching?: any;
 
   @Column('jsonb', { nullable: true })
   semanticMatching?: any;
 
+  @Column('jsonb', { nullable: true })
+  parsedJobDescription?: ParsedJobDescription;
+
   @Column('jsonb', { default: [] })
   suggestions: any[];
 
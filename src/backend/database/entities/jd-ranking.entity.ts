@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+export interface JdRankingCandidate {
+  resumeId: string;
+  fileName: string;
+  analysisId?: string; // the candidate's JD matching result; unset when the resume couldn't be matched
+  error?: string;
+}
+
+// One job description ranked against many resumes
+@Entity('jd_rankings')
+@Index(['userId', 'createdAt']) // For a user's ranking history
+export class JdRanking {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @Column({ nullable: true })
+  jobTitle?: string;
+
+  @Column('text')
+  jobDescription: string;
+
+  // Set when the ranking covers every resume from a bulk upload
+  @Column('uuid', { nullable: true })
+  batchId?: string;
+
+  @Column('jsonb', { default: [] })
+  candidates: JdRankingCandidate[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: any;
+}
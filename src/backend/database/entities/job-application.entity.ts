@@ -8,6 +8,7 @@ import {
   JoinColumn,
   Index,
 } from 'typeorm';
+import type { ParsedJobDescription } from '../../modules/jd-matching/interfaces/parsed-job-description.interface';
 
 export enum JobStatus {
   APPLIED = 'applied',
@@ -43,6 +44,10 @@ export class JobApplication {
   @Column('text', { nullable: true })
   jobDescription?: string;
 
+  // Kept in sync with jobDescription
+  @Column('jsonb', { nullable: true })
+  parsedJobDescription?: ParsedJobDescription | null;
+
   @Column({ nullable: true })
   applicationUrl?: string;
 
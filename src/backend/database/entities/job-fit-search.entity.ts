@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+export interface JobFitSearchJob {
+  jobApplicationId?: string; // set when the job description came from a tracked application
+  jobTitle: string;
+  company?: string;
+  analysisId?: string; // the job's JD matching result; unset when it couldn't be matched
+  error?: string;
+}
+
+// One resume scored against many job descriptions
+@Entity('job_fit_searches')
+@Index(['userId', 'createdAt']) // For a user's search history
+export class JobFitSearch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @Column('uuid')
+  resumeId: string;
+
+  @Column('jsonb', { default: [] })
+  jobs: JobFitSearchJob[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: any;
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * One version of a named AI prompt. Content is never edited in place: a change
+ * is saved as a new version, so the version recorded on a result always points
+ * at the exact wording that produced it.
+ *
+ * Versions with a traffic weight above zero are live. When several are live,
+ * users are split between them in proportion to their weights.
+ */
+@Entity('prompt_templates')
+@Index(['name', 'version'], { unique: true })
+export class PromptTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column()
+  version: number;
+
+  @Column('text')
+  content: string;
+
+  @Column({ nullable: true })
+  description?: string;
+
+  // Share of users (relative to the other live versions) who get this version; 0 = not live
+  @Column({ default: 0 })
+  trafficWeight: number;
+
+  @Column({ nullable: true })
+  createdBy?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
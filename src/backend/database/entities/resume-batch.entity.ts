@@ -0,0 +1,81 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+
+export enum ResumeBatchStatus {
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed', // the job itself broke; files it never reached are marked failed too
+}
+
+export enum ResumeBatchFileStatus {
+  QUEUED = 'queued',
+  PARSING = 'parsing',
+  ANALYZING = 'analyzing',
+  DONE = 'done',
+  FAILED = 'failed',
+}
+
+export interface ResumeBatchFile {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  status: ResumeBatchFileStatus;
+  resumeId?: string;
+  atsScore?: number;
+  aiScore?: number; // the AI's score, reconciled across providers for ensembles
+  duplicateOf?: string; // existing resume the file was linked to instead of being re-analyzed
+  error?: string;
+  updatedAt: string;
+}
+
+@Entity('resume_batches')
+@Index(['userId', 'createdAt']) // For a user's upload history
+export class ResumeBatch {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @Column({
+    type: 'enum',
+    enum: ResumeBatchStatus,
+    default: ResumeBatchStatus.QUEUED,
+  })
+  status: ResumeBatchStatus;
+
+  @Column()
+  totalFiles: number;
+
+  @Column({ default: 0 })
+  completedFiles: number;
+
+  @Column({ default: 0 })
+  failedFiles: number;
+
+  // One entry per uploaded file, in upload order; files rejected at upload start out failed
+  @Column('jsonb', { default: [] })
+  files: ResumeBatchFile[];
+
+  @Column({ nullable: true })
+  completedAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: any;
+}
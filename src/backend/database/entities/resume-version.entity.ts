@@ -29,6 +29,10 @@ export class ResumeVersion {
   @Column()
   fileType: string;
 
+  // Key of this version's original upload in StorageService; versions created from text have none
+  @Column({ nullable: true })
+  storageKey?: string;
+
   @Column('text')
   content: string;
 
@@ -19,6 +19,7 @@ import type { User } from "./user.entity";
 @Index(["isProcessed"]) // For processing queue queries
 @Index(["fileType"]) // For filtering by file type
 @Index(["uploadedAt"]) // For chronological sorting
+@Index(["userId", "contentHash"]) // For duplicate upload detection
 export class Resume {
   @PrimaryGeneratedColumn("uuid")
   id: string;
@@ -35,9 +36,20 @@ export class Resume {
   @Column()
   fileType: string;
 
+  // Key of the original upload in StorageService (local disk or S3-compatible bucket)
+  @Column({ nullable: true })
+  storageKey?: string;
+
   @Column("text")
   content: string;
 
+  // SHA-256 of the normalized text and its MinHash signature, see ResumeSimilarityService
+  @Column({ length: 64, nullable: true })
+  contentHash?: string;
+
+  @Column("integer", { array: true, nullable: true })
+  contentSignature?: number[];
+
   @Column("jsonb", { nullable: true })
   parsedContent: any;
 
@@ -61,6 +61,7 @@ export class UserSubscription {
 @Index(['userId', 'feature']) // For feature-specific usage
 @Index(['date']) // For usage analytics by date
 @Index(['userId', 'date']) // For user usage history
+@Index(['userId', 'feature', 'provider', 'date'], { unique: true }) // One AI metering row per user, feature, provider and day
 export class UsageRecord {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -69,7 +70,10 @@ export class UsageRecord {
   userId: string;
 
   @Column()
-  feature: string; // resume_analysis, jd_matching
+  feature: string; // resume_analysis, jd_matching, resume_suggestions, text_analysis
+
+  @Column({ nullable: true })
+  provider?: string; // AI provider that served the requests; empty for non-AI usage
 
   @Column()
   date: Date;
@@ -77,8 +81,14 @@ export class UsageRecord {
   @Column({ default: 1 })
   count: number;
 
-  @Column()
-  planLimit: number;
+  @Column({ default: 0 })
+  tokens: number;
+
+  @Column('decimal', { precision: 12, scale: 6, default: 0 })
+  cost: number; // USD
+
+  @Column({ nullable: true })
+  planLimit?: number;
 
   @CreateDateColumn()
   createdAt: Date;
@@ -74,6 +74,10 @@ export class User {
   @Column({ nullable: true })
   lastLoginAt?: Date;
 
+  // Redact contact details before resumes reach AI providers; null follows AI_PII_REDACTION_ENABLED
+  @Column({ type: "boolean", nullable: true })
+  piiRedactionEnabled?: boolean | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserPiiRedaction1700000000003 implements MigrationInterface {
+  name = 'AddUserPiiRedaction1700000000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" ADD "piiRedactionEnabled" boolean`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "piiRedactionEnabled"`);
+  }
+}
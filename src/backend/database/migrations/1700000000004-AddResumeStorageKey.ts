@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddResumeStorageKey1700000000004 implements MigrationInterface {
+  name = 'AddResumeStorageKey1700000000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "resumes" ADD "storageKey" character varying`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "resumes" DROP COLUMN "storageKey"`);
+  }
+}
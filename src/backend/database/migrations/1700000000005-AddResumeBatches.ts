@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddResumeBatches1700000000005 implements MigrationInterface {
+  name = 'AddResumeBatches1700000000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TYPE "resume_batch_status_enum" AS ENUM('queued', 'processing', 'completed')
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "resume_batches" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" uuid NOT NULL,
+        "status" "resume_batch_status_enum" NOT NULL DEFAULT 'queued',
+        "totalFiles" integer NOT NULL,
+        "completedFiles" integer NOT NULL DEFAULT 0,
+        "failedFiles" integer NOT NULL DEFAULT 0,
+        "files" jsonb NOT NULL DEFAULT '[]',
+        "completedAt" TIMESTAMP,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_resume_batches_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_resume_batches_user_created" ON "resume_batches" ("userId", "createdAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_resume_batches_user_created"`);
+    await queryRunner.query(`DROP TABLE "resume_batches"`);
+    await queryRunner.query(`DROP TYPE "resume_batch_status_enum"`);
+  }
+}
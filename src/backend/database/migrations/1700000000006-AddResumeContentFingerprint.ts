@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddResumeContentFingerprint1700000000006 implements MigrationInterface {
+  name = 'AddResumeContentFingerprint1700000000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "resumes" ADD "contentHash" character varying(64)`);
+    await queryRunner.query(`ALTER TABLE "resumes" ADD "contentSignature" integer array`);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_resumes_user_content_hash" ON "resumes" ("userId", "contentHash")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_resumes_user_content_hash"`);
+    await queryRunner.query(`ALTER TABLE "resumes" DROP COLUMN "contentSignature"`);
+    await queryRunner.query(`ALTER TABLE "resumes" DROP COLUMN "contentHash"`);
+  }
+}
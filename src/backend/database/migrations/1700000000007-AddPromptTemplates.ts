@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPromptTemplates1700000000007 implements MigrationInterface {
+  name = 'AddPromptTemplates1700000000007';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "prompt_templates" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "name" character varying NOT NULL,
+        "version" integer NOT NULL,
+        "content" text NOT NULL,
+        "description" character varying,
+        "trafficWeight" integer NOT NULL DEFAULT 0,
+        "createdBy" uuid,
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        "updatedAt" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_prompt_templates_name_version" ON "prompt_templates" ("name", "version")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_prompt_templates_name_version"`);
+    await queryRunner.query(`DROP TABLE "prompt_templates"`);
+  }
+}
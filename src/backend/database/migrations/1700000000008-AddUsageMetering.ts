@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUsageMetering1700000000008 implements MigrationInterface {
+  name = 'AddUsageMetering1700000000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "usage_records"
+        ADD COLUMN "provider" character varying,
+        ADD COLUMN "tokens" integer NOT NULL DEFAULT 0,
+        ADD COLUMN "cost" numeric(12,6) NOT NULL DEFAULT 0,
+        ALTER COLUMN "planLimit" DROP NOT NULL
+    `);
+
+    // AI usage is upserted into one row per user, feature, provider and day
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_usage_metering" ON "usage_records" ("userId", "feature", "provider", "date")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_usage_metering"`);
+    await queryRunner.query(`DELETE FROM "usage_records" WHERE "planLimit" IS NULL`);
+    await queryRunner.query(`
+      ALTER TABLE "usage_records"
+        ALTER COLUMN "planLimit" SET NOT NULL,
+        DROP COLUMN "cost",
+        DROP COLUMN "tokens",
+        DROP COLUMN "provider"
+    `);
+  }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddParsedJobDescriptions1700000000009 implements MigrationInterface {
+  name = 'AddParsedJobDescriptions1700000000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "jd_matching_results" ADD "parsedJobDescription" jsonb`);
+    await queryRunner.query(`ALTER TABLE "job_applications" ADD "parsedJobDescription" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "job_applications" DROP COLUMN "parsedJobDescription"`);
+    await queryRunner.query(`ALTER TABLE "jd_matching_results" DROP COLUMN "parsedJobDescription"`);
+  }
+}
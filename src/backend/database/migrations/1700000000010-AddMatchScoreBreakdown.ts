@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMatchScoreBreakdown1700000000010 implements MigrationInterface {
+  name = 'AddMatchScoreBreakdown1700000000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "jd_matching_results" ADD "scoreBreakdown" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "jd_matching_results" DROP COLUMN "scoreBreakdown"`);
+  }
+}
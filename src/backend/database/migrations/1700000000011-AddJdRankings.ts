@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddJdRankings1700000000011 implements MigrationInterface {
+  name = 'AddJdRankings1700000000011';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "jd_rankings" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" uuid NOT NULL,
+        "jobTitle" character varying,
+        "jobDescription" text NOT NULL,
+        "batchId" uuid,
+        "candidates" jsonb NOT NULL DEFAULT '[]',
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_jd_rankings_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_jd_rankings_user_created" ON "jd_rankings" ("userId", "createdAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_jd_rankings_user_created"`);
+    await queryRunner.query(`DROP TABLE "jd_rankings"`);
+  }
+}
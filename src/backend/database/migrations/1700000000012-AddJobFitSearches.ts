@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddJobFitSearches1700000000012 implements MigrationInterface {
+  name = 'AddJobFitSearches1700000000012';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "job_fit_searches" (
+        "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        "userId" uuid NOT NULL,
+        "resumeId" uuid NOT NULL,
+        "jobs" jsonb NOT NULL DEFAULT '[]',
+        "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "FK_job_fit_searches_user" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_job_fit_searches_user_created" ON "job_fit_searches" ("userId", "createdAt")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_job_fit_searches_user_created"`);
+    await queryRunner.query(`DROP TABLE "job_fit_searches"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddResumeBatchFailedStatus1700000000013 implements MigrationInterface {
+  name = 'AddResumeBatchFailedStatus1700000000013';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TYPE "resume_batch_status_enum" ADD VALUE IF NOT EXISTS 'failed'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres can't drop an enum value, so the type is rebuilt without it
+    await queryRunner.query(`UPDATE "resume_batches" SET "status" = 'completed' WHERE "status" = 'failed'`);
+    await queryRunner.query(`ALTER TYPE "resume_batch_status_enum" RENAME TO "resume_batch_status_enum_old"`);
+    await queryRunner.query(`
+      CREATE TYPE "resume_batch_status_enum" AS ENUM('queued', 'processing', 'completed')
+    `);
+    await queryRunner.query(`ALTER TABLE "resume_batches" ALTER COLUMN "status" DROP DEFAULT`);
+    await queryRunner.query(`
+      ALTER TABLE "resume_batches"
+        ALTER COLUMN "status" TYPE "resume_batch_status_enum" USING "status"::text::"resume_batch_status_enum"
+    `);
+    await queryRunner.query(`ALTER TABLE "resume_batches" ALTER COLUMN "status" SET DEFAULT 'queued'`);
+    await queryRunner.query(`DROP TYPE "resume_batch_status_enum_old"`);
+  }
+}
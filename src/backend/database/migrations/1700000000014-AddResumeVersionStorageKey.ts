@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddResumeVersionStorageKey1700000000014 implements MigrationInterface {
+  name = 'AddResumeVersionStorageKey1700000000014';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "resume_versions" ADD "storageKey" character varying`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "resume_versions" DROP COLUMN "storageKey"`);
+  }
+}
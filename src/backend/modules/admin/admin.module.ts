@@ -4,6 +4,7 @@ import { JobApplication } from "../../database/entities/job-application.entity";
 import { User } from "../../database/entities/user.entity";
 import { Permission } from "../../database/entities/permission.entity";
 import { Role } from "../../database/entities/role.entity";
+import { AIModule } from "../ai/ai.module";
 import { AdminController } from "./controllers/admin.controller";
 import { AdminAnalyticsService } from "./services/admin-analytics.service";
 import { AdminSecurityService } from "./services/admin-security.service";
@@ -20,6 +21,7 @@ import { PermissionService } from "./services/permission.service";
       Role,
       // Add other entities as needed
     ]),
+    AIModule,
   ],
   controllers: [AdminController],
   providers: [
@@ -10,6 +10,7 @@ import {
   Post,
   Put,
   Query,
+  Request,
   UseGuards,
   ValidationPipe,
 } from "@nestjs/common";
@@ -45,6 +46,12 @@ import {
   CheckPermissionDto,
   BulkPermissionOperationDto,
 } from "../dto/permission.dto";
+import {
+  CreatePromptVersionDto,
+  UpdatePromptVersionDto,
+} from "../dto/prompt-template.dto";
+import { PromptRegistryService } from "../../ai/services/prompt-registry.service";
+import { UsageMeteringService } from "../../ai/services/usage-metering.service";
 import { Permissions } from "../../../common/decorators/permissions.decorator";
 import { PermissionsGuard } from "../../../common/guards/permissions.guard";
 
@@ -59,7 +66,9 @@ export class AdminController {
     private readonly userManagementService: UserManagementService,
     private readonly systemMonitoringService: SystemMonitoringService,
     private readonly securityService: AdminSecurityService,
-    private readonly permissionService: PermissionService
+    private readonly permissionService: PermissionService,
+    private readonly promptRegistryService: PromptRegistryService,
+    private readonly usageMeteringService: UsageMeteringService
   ) {}
 
   // ===== ANALYTICS ENDPOINTS =====
@@ -119,6 +128,27 @@ export class AdminController {
     );
   }
 
+  @Get("analytics/ai-usage")
+  @Permissions.ViewAnalytics()
+  @ApiOperation({ summary: "Get AI usage and cost totals, with the top-spending users" })
+  @ApiQuery({
+    name: "days",
+    required: false,
+    description: "Number of days to include (default: 30)",
+  })
+  @ApiQuery({
+    name: "limit",
+    required: false,
+    description: "Number of top users to include (default: 10)",
+  })
+  @ApiResponse({ status: 200, description: "AI usage totals retrieved successfully" })
+  async getAIUsage(@Query("days") days?: number, @Query("limit") limit?: number) {
+    return await this.usageMeteringService.getUsageTotals(
+      days ? parseInt(String(days)) : 30,
+      limit ? parseInt(String(limit)) : 10
+    );
+  }
+
   // ===== USER MANAGEMENT ENDPOINTS =====
 
   @Get("users")
@@ -725,4 +755,45 @@ export class AdminController {
     await this.permissionService.seedPermissions();
     return { message: "Permissions seeded successfully" };
   }
+
+  // ===== PROMPT TEMPLATE ENDPOINTS =====
+
+  @Get("prompts")
+  @Permissions.ManageAIServices()
+  @ApiOperation({ summary: "List prompt templates with their variables and versions" })
+  @ApiResponse({ status: 200, description: "Prompt templates retrieved successfully" })
+  async getPromptTemplates() {
+    const templates = await this.promptRegistryService.listTemplates();
+    return { data: templates };
+  }
+
+  @Post("prompts/:name/versions")
+  @Permissions.ManageAIServices()
+  @ApiOperation({ summary: "Save a new version of a prompt template" })
+  @ApiParam({ name: "name", description: "Template name, e.g. resume_analysis" })
+  @ApiResponse({ status: 201, description: "Prompt version created successfully" })
+  @ApiResponse({ status: 400, description: "Template uses unknown variables or misses required ones" })
+  @ApiResponse({ status: 404, description: "Unknown template name" })
+  async createPromptVersion(
+    @Param("name") name: string,
+    @Body(ValidationPipe) createDto: CreatePromptVersionDto,
+    @Request() req: any
+  ) {
+    const version = await this.promptRegistryService.createVersion(name, createDto, req.user?.id);
+    return { data: version };
+  }
+
+  @Put("prompts/versions/:id")
+  @Permissions.ManageAIServices()
+  @ApiOperation({ summary: "Change a prompt version's traffic weight or description" })
+  @ApiParam({ name: "id", description: "Prompt version UUID" })
+  @ApiResponse({ status: 200, description: "Prompt version updated successfully" })
+  @ApiResponse({ status: 404, description: "Prompt version not found" })
+  async updatePromptVersion(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) updateDto: UpdatePromptVersionDto
+  ) {
+    const version = await this.promptRegistryService.updateVersion(id, updateDto);
+    return { data: version };
+  }
 }
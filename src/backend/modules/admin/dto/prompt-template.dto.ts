@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from "class-validator";
+
+export class CreatePromptVersionDto {
+  @ApiProperty({
+    description:
+      "Prompt text with {{variable}} placeholders; {{#variable}}...{{/variable}} is kept only when the variable is set",
+  })
+  @IsString()
+  @MinLength(20)
+  @MaxLength(20000)
+  content: string;
+
+  @ApiPropertyOptional({ description: "What changed in this version" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: "Share of traffic relative to other live versions; 0 saves the version without serving it",
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  trafficWeight?: number;
+}
+
+export class UpdatePromptVersionDto {
+  @ApiPropertyOptional({ description: "What changed in this version" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({ description: "Share of traffic relative to other live versions; 0 takes it offline" })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  trafficWeight?: number;
+}
@@ -12,7 +12,8 @@ export interface SecurityEvent {
     | "password_change"
     | "role_change"
     | "permission_change"
-    | "api_access";
+    | "api_access"
+    | "malicious_upload";
   user: {
     id: string;
     email: string;
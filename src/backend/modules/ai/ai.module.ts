@@ -1,18 +1,39 @@
 import { Module } from "@nestjs/common";
 import { ConfigModule, ConfigService } from "@nestjs/config";
+import { TypeOrmModule } from "@nestjs/typeorm";
 import { RedisService } from "../../config/redis.service";
+import { PromptTemplate } from "../../database/entities/prompt-template.entity";
+import { UsageRecord } from "../../database/entities/subscription.entity";
 import { ClaudeProvider } from "./providers/claude.provider";
 import { GeminiProvider } from "./providers/gemini.provider";
 import { OpenAIProvider } from "./providers/openai.provider";
+import { LocalAIProvider } from "./providers/local.provider";
+import { MockAIProvider } from "./providers/mock.provider";
 import { AIProviderService } from "./services/ai-provider.service";
+import { PiiRedactionService } from "./services/pii-redaction.service";
+import { ProviderCircuitBreakerService } from "./services/provider-circuit-breaker.service";
+import { ProviderRateLimiterService } from "./services/provider-rate-limiter.service";
+import { PromptRegistryService } from "./services/prompt-registry.service";
+import { EnsembleReconcilerService } from "./services/ensemble-reconciler.service";
+import { UsageMeteringService } from "./services/usage-metering.service";
+import { SemanticCacheService } from "./services/semantic-cache.service";
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, TypeOrmModule.forFeature([PromptTemplate, UsageRecord])],
   providers: [
     RedisService,
     GeminiProvider,
     OpenAIProvider,
     ClaudeProvider,
+    LocalAIProvider,
+    MockAIProvider,
+    PiiRedactionService,
+    ProviderCircuitBreakerService,
+    ProviderRateLimiterService,
+    PromptRegistryService,
+    EnsembleReconcilerService,
+    UsageMeteringService,
+    SemanticCacheService,
     {
       provide: AIProviderService,
       useFactory: (
@@ -20,14 +41,32 @@ import { AIProviderService } from "./services/ai-provider.service";
         redisService: RedisService,
         geminiProvider: GeminiProvider,
         openaiProvider: OpenAIProvider,
-        claudeProvider: ClaudeProvider
+        claudeProvider: ClaudeProvider,
+        piiRedactionService: PiiRedactionService,
+        localProvider: LocalAIProvider,
+        mockProvider: MockAIProvider,
+        circuitBreaker: ProviderCircuitBreakerService,
+        rateLimiter: ProviderRateLimiterService,
+        promptRegistry: PromptRegistryService,
+        ensembleReconciler: EnsembleReconcilerService,
+        usageMetering: UsageMeteringService,
+        semanticCache: SemanticCacheService
       ) => {
         return new AIProviderService(
           configService,
           redisService,
           geminiProvider,
           openaiProvider,
-          claudeProvider
+          claudeProvider,
+          piiRedactionService,
+          localProvider,
+          mockProvider,
+          circuitBreaker,
+          rateLimiter,
+          promptRegistry,
+          ensembleReconciler,
+          usageMetering,
+          semanticCache
         );
       },
       inject: [
@@ -36,9 +75,23 @@ import { AIProviderService } from "./services/ai-provider.service";
         GeminiProvider,
         OpenAIProvider,
         ClaudeProvider,
+        PiiRedactionService,
+        LocalAIProvider,
+        MockAIProvider,
+        ProviderCircuitBreakerService,
+        ProviderRateLimiterService,
+        PromptRegistryService,
+        EnsembleReconcilerService,
+        UsageMeteringService,
+        SemanticCacheService,
       ],
     },
   ],
-  exports: [AIProviderService, RedisService],
+  exports: [
+    AIProviderService,
+    PromptRegistryService,
+    UsageMeteringService,
+    RedisService,
+  ],
 })
 export class AIModule {}
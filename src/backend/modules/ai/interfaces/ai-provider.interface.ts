@@ -5,6 +5,9 @@ export interface ParsedResumeContent {
     skills?: string[];
     experience?: WorkExperience[];
     education?: Education[];
+    summary?: string;
+    projects?: Project[];
+    certifications?: Certification[];
   };
   metadata?: {
     pageCount?: number;
@@ -27,6 +30,20 @@ export interface SemanticAnalysis {
   };
 }
 
+export type ResumeLanguage = 'en' | 'es' | 'de' | 'pt';
+
+export const RESUME_LANGUAGE_NAMES: Record<ResumeLanguage, string> = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  pt: 'Portuguese',
+};
+
+export interface LanguageDetectionResult {
+  code: ResumeLanguage;
+  confidence: number;
+}
+
 export interface AIAnalysisOptions {
   includePersonalInfo?: boolean;
   includeSkillExtraction?: boolean;
@@ -36,8 +53,11 @@ export interface AIAnalysisOptions {
   industry?: string;
   experienceLevel?: 'entry' | 'mid' | 'senior' | 'executive';
   fileName?: string;
+  language?: ResumeLanguage; // language the resume is written in; English when omitted
   maxTokens?: number;
   mode?: string;
+  promptTemplate?: string; // replaces the provider's built-in prompt, see PromptRegistryService
+  onDelta?: AIStreamHandler; // receives the reply as it is generated
 }
 
 export interface AISuggestionOptions {
@@ -45,6 +65,8 @@ export interface AISuggestionOptions {
   focusAreas?: ('ats' | 'keywords' | 'format' | 'content' | 'achievements')[];
   targetRole?: string;
   industry?: string;
+  promptTemplate?: string;
+  onDelta?: AIStreamHandler;
 }
 
 export interface AIMatchingOptions {
@@ -52,8 +74,24 @@ export interface AIMatchingOptions {
   prioritizeSkills?: string[];
   industryWeights?: Record<string, number>;
   minConfidenceThreshold?: number;
+  languageNote?: string; // set when the documents are not in English, or not in the same language
+  promptTemplate?: string;
+  onDelta?: AIStreamHandler;
 }
 
+/**
+ * A piece of raw reply text, streamed while the provider generates it. The first
+ * chunk of every generation has restart set: text from an earlier attempt (a
+ * failed provider or a reply that needed repair) should be thrown away. Callers
+ * still get the validated result from the method's return value.
+ */
+export interface AIStreamChunk {
+  delta: string;
+  restart?: boolean;
+}
+
+export type AIStreamHandler = (chunk: AIStreamChunk) => void;
+
 export interface AIProvider {
   name: string;
   isHealthy: boolean;
@@ -62,6 +100,23 @@ export interface AIProvider {
   analyze(text: string, options?: AIAnalysisOptions): Promise<ResumeAnalysisResult>;
   generateSuggestions(resumeText: string, jobDescription?: string, options?: AISuggestionOptions): Promise<string[]>;
   matchJobDescription(resumeText: string, jobDescription: string, options?: AIMatchingOptions): Promise<JDMatchResult>;
+  embeddingModel?: string; // set when the provider can embed text for the semantic cache
+  embed?(texts: string[]): Promise<number[][]>;
+}
+
+export type AIProviderErrorCode = 'failure' | 'rate_limited' | 'timeout' | 'invalid_output';
+
+// Thrown by providers when the failure reason matters to callers, e.g. backing off after a 429
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly code: AIProviderErrorCode,
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
 }
 
 export interface ResumeAnalysisResult {
@@ -75,6 +130,61 @@ export interface ResumeAnalysisResult {
   confidence: number;
   processingTime: number;
   text?: string;
+  piiRedaction?: PiiRedactionSummary;
+  promptTemplate?: PromptTemplateRef;
+  ensemble?: EnsembleSummary;
+  cache?: CacheProvenance;
+}
+
+// Which registry prompt produced a result; absent when the provider's built-in prompt was used
+export interface PromptTemplateRef {
+  name: string;
+  version: number;
+  experiment?: boolean; // several versions were live and the user was assigned this one
+}
+
+// How an ensemble result was put together from several providers' answers
+export interface EnsembleSummary {
+  providers: string[];
+  scores: Record<string, number>; // each provider's own ATS or match score
+  agreement: number; // 0-1, how closely the providers' scores and skills line up
+  disagreements: string[]; // differences big enough to check by hand
+}
+
+// The AI's own ATS score, kept next to the local audit score; reconciled across providers for ensembles
+export interface AIScoreSummary {
+  score: number;
+  confidence: number;
+  ensemble?: EnsembleSummary;
+}
+
+export function summarizeAIScore(result: ResumeAnalysisResult): AIScoreSummary {
+  return {
+    score: result.atsScore,
+    confidence: result.confidence,
+    ...(result.ensemble && { ensemble: result.ensemble }),
+  };
+}
+
+// Where a cached result came from; absent when the result was freshly generated
+export interface CacheProvenance {
+  source: 'exact' | 'semantic' | 'partial'; // partial: unchanged sections reused, the rest re-analyzed
+  sourceId?: string; // resume or match the reused result was produced for
+  similarity?: number; // embedding similarity to the source, 0-1
+  reusedSections?: string[];
+}
+
+export type PiiType = 'name' | 'email' | 'phone' | 'linkedin' | 'address';
+
+export interface PiiRedaction {
+  type: PiiType;
+  placeholder: string;
+  occurrences: number;
+}
+
+export interface PiiRedactionSummary {
+  applied: boolean;
+  redactions: PiiRedaction[];
 }
 
 export interface ExtractedSkill {
@@ -114,6 +224,21 @@ export interface Education {
   achievements?: string[];
 }
 
+export interface Project {
+  name: string;
+  description: string;
+  technologies: string[];
+  achievements: string[];
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface Certification {
+  name: string;
+  issuer?: string;
+  date?: string;
+}
+
 export interface JDMatchResult {
   overallScore: number;
   skillMatches: SkillMatch[];
@@ -122,6 +247,9 @@ export interface JDMatchResult {
   improvementAreas: string[];
   recommendations: string[];
   confidence: number;
+  promptTemplate?: PromptTemplateRef;
+  ensemble?: EnsembleSummary;
+  cache?: CacheProvenance;
 }
 
 export interface SkillMatch {
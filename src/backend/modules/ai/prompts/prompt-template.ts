@@ -0,0 +1,62 @@
+export type PromptTemplateName = 'resume_analysis' | 'resume_suggestions' | 'jd_matching';
+
+export interface PromptTemplateDefinition {
+  description: string;
+  variables: string[];
+  required: string[]; // a template that leaves these out can't do its job
+}
+
+export const PROMPT_TEMPLATE_DEFINITIONS: Record<PromptTemplateName, PromptTemplateDefinition> = {
+  resume_analysis: {
+    description: 'Full resume analysis: ATS score, skills, experience, education and suggestions',
+    variables: ['resumeText', 'languageInstructions'],
+    required: ['resumeText'],
+  },
+  resume_suggestions: {
+    description: 'Improvement suggestions for a resume, optionally aimed at a job description',
+    variables: ['resumeText', 'jobDescription'],
+    required: ['resumeText'],
+  },
+  jd_matching: {
+    description: 'Resume to job description match with skill gaps, used for the semantic score in JD matching',
+    variables: ['resumeText', 'jobDescription', 'languageNote'],
+    required: ['resumeText', 'jobDescription'],
+  },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([#/]?)(\w+)\s*\}\}/g;
+
+export function isPromptTemplateName(name: string): name is PromptTemplateName {
+  return Object.prototype.hasOwnProperty.call(PROMPT_TEMPLATE_DEFINITIONS, name);
+}
+
+/**
+ * Fills in `{{variable}}` placeholders. `{{#variable}}...{{/variable}}` keeps
+ * the enclosed text only when the variable has a value, e.g. an optional job description.
+ */
+export function renderPromptTemplate(template: string, variables: Record<string, string | undefined>): string {
+  return template
+    .replace(/\{\{\s*#(\w+)\s*\}\}([\s\S]*?)\{\{\s*\/\1\s*\}\}/g, (_section, name: string, body: string) =>
+      variables[name] ? body : '',
+    )
+    .replace(VARIABLE_PATTERN, (_placeholder, _marker, name: string) => variables[name] ?? '');
+}
+
+// Returns what's wrong with a template, or an empty list when it can be saved
+export function validatePromptTemplate(name: PromptTemplateName, template: string): string[] {
+  const definition = PROMPT_TEMPLATE_DEFINITIONS[name];
+  const used = new Set((template.match(VARIABLE_PATTERN) || []).map(placeholder => placeholder.replace(/[{}#/\s]/g, '')));
+  const problems: string[] = [];
+
+  for (const variable of used) {
+    if (!definition.variables.includes(variable)) {
+      problems.push(`Unknown variable "${variable}"; available: ${definition.variables.join(', ')}`);
+    }
+  }
+  for (const variable of definition.required) {
+    if (!used.has(variable)) {
+      problems.push(`Missing required variable "${variable}"`);
+    }
+  }
+  return problems;
+}
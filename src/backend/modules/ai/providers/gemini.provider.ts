@@ -1,19 +1,66 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  Content,
+  GenerationConfig,
+  GoogleGenerativeAI,
+} from "@google/generative-ai";
 import { Injectable, Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import {
   AIAnalysisOptions,
   AIMatchingOptions,
   AIProvider,
+  AIProviderError,
+  AIStreamHandler,
   AISuggestionOptions,
-  Education,
   JDMatchResult,
+  RESUME_LANGUAGE_NAMES,
   ResumeAnalysisResult,
-  SkillCategory,
-  SkillLevel,
-  SkillMatch,
-  WorkExperience,
+  ResumeLanguage,
 } from "../interfaces/ai-provider.interface";
+import {
+  JD_MATCH_FORMAT,
+  RESUME_ANALYSIS_FORMAT,
+  SUGGESTION_LIST_FORMAT,
+  StructuredOutputFormat,
+  buildRepairPrompt,
+  parseStructuredOutput,
+} from "../schemas/ai-output.schema";
+import { renderPromptTemplate } from "../prompts/prompt-template";
+
+type StructuredGenerationConfig = GenerationConfig & {
+  responseMimeType: string;
+  responseSchema: Record<string, unknown>;
+};
+
+/**
+ * Converts JSON Schema to the OpenAPI subset Gemini accepts: upper-case types,
+ * `nullable` instead of null unions, and no numeric bounds.
+ */
+export function toGeminiSchema(
+  schema: Record<string, any>
+): Record<string, unknown> {
+  if (schema.anyOf) {
+    const variants = schema.anyOf.filter(
+      (variant: Record<string, any>) => variant.type !== "null"
+    );
+    return { ...toGeminiSchema(variants[0]), nullable: true };
+  }
+
+  return {
+    type: String(schema.type).toUpperCase(),
+    ...(schema.enum && { format: "enum", enum: schema.enum }),
+    ...(schema.properties && {
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [
+          key,
+          toGeminiSchema(value as Record<string, any>),
+        ])
+      ),
+      required: schema.required || [],
+    }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  };
+}
 
 @Injectable()
 export class GeminiProvider implements AIProvider {
@@ -22,6 +69,8 @@ export class GeminiProvider implements AIProvider {
   priority = 1; // Highest priority as primary provider
   costPerToken = 0.000125; // Gemini Pro pricing per 1K tokens
 
+  embeddingModel?: string;
+
   private readonly logger = new Logger(GeminiProvider.name);
   private client: GoogleGenerativeAI;
   private model: import("@google/generative-ai").GenerativeModel;
@@ -40,6 +89,8 @@ export class GeminiProvider implements AIProvider {
       this.model = this.client.getGenerativeModel({
         model: "gemini-2.0-flash",
       });
+      this.embeddingModel =
+        this.configService.get("GEMINI_EMBEDDING_MODEL") || "text-embedding-004";
       this.logger.log(
         "Gemini provider initialized successfully with gemini-2.0-flash"
       );
@@ -57,11 +108,11 @@ export class GeminiProvider implements AIProvider {
 
     try {
       const prompt = this.buildAnalysisPrompt(text, options);
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const analysisText = response.text();
-
-      const analysis = this.parseAnalysisResponse(analysisText);
+      const analysis = await this.generate(
+        RESUME_ANALYSIS_FORMAT,
+        prompt,
+        options?.onDelta
+      );
       analysis.processingTime = Date.now() - startTime;
 
       this.logger.log(
@@ -70,7 +121,7 @@ export class GeminiProvider implements AIProvider {
       return analysis;
     } catch (error: unknown) {
       this.logger.error("Gemini analysis failed", error);
-      this.isHealthy = false;
+      if (error instanceof AIProviderError) throw error;
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       throw new Error(`Gemini analysis failed: ${errorMessage}`);
@@ -88,13 +139,14 @@ export class GeminiProvider implements AIProvider {
         jobDescription,
         options
       );
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const suggestionsText = response.text();
-
-      return this.parseSuggestionsResponse(suggestionsText);
+      return await this.generate(
+        SUGGESTION_LIST_FORMAT,
+        prompt,
+        options?.onDelta
+      );
     } catch (error: unknown) {
       this.logger.error("Gemini suggestion generation failed", error);
+      if (error instanceof AIProviderError) throw error;
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       throw new Error(`Gemini suggestion generation failed: ${errorMessage}`);
@@ -112,29 +164,116 @@ export class GeminiProvider implements AIProvider {
         jobDescription,
         options
       );
-      const result = await this.model.generateContent(prompt);
-      const response = result.response;
-      const matchText = response.text();
-
-      return this.parseMatchingResponse(matchText);
+      return await this.generate(JD_MATCH_FORMAT, prompt, options?.onDelta);
     } catch (error: unknown) {
       this.logger.error("Gemini JD matching failed", error);
+      if (error instanceof AIProviderError) throw error;
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
       throw new Error(`Gemini JD matching failed: ${errorMessage}`);
     }
   }
 
+  async embed(texts: string[]): Promise<number[][]> {
+    const model = this.client.getGenerativeModel({
+      model: this.embeddingModel || "text-embedding-004",
+    });
+    const { embeddings } = await model.batchEmbedContents({
+      requests: texts.map((text) => ({
+        content: { role: "user", parts: [{ text }] },
+      })),
+    });
+    return embeddings.map((embedding) => embedding.values);
+  }
+
+  /**
+   * Asks for JSON constrained by the format's schema and validates the reply.
+   * An invalid reply gets one repair turn before the provider gives up.
+   */
+  private async generate<T>(
+    format: StructuredOutputFormat<T>,
+    prompt: string,
+    onDelta?: AIStreamHandler
+  ): Promise<T> {
+    const contents: Content[] = [{ role: "user", parts: [{ text: prompt }] }];
+    const reply = await this.request(format, contents, onDelta);
+    const parsed = parseStructuredOutput(format, reply);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    this.logger.warn(
+      `Gemini returned an invalid ${format.name}, asking for a repair: ${parsed.error}`
+    );
+    const repaired = parseStructuredOutput(
+      format,
+      await this.request(format, [
+        ...contents,
+        { role: "model", parts: [{ text: reply }] },
+        { role: "user", parts: [{ text: buildRepairPrompt(parsed.error) }] },
+      ], onDelta)
+    );
+    if (repaired.success) {
+      return repaired.data;
+    }
+    throw new AIProviderError(
+      `Gemini returned an invalid ${format.name}: ${repaired.error}`,
+      this.name,
+      "invalid_output"
+    );
+  }
+
+  private async request(
+    format: StructuredOutputFormat<unknown>,
+    contents: Content[],
+    onDelta?: AIStreamHandler
+  ): Promise<string> {
+    // The SDK's GenerationConfig type predates JSON mode, but the config is sent to the API as-is
+    const generationConfig: StructuredGenerationConfig = {
+      responseMimeType: "application/json",
+      responseSchema: toGeminiSchema(format.jsonSchema),
+    };
+
+    if (!onDelta) {
+      const result = await this.model.generateContent({
+        contents,
+        generationConfig,
+      });
+      return result.response.text();
+    }
+
+    const { stream } = await this.model.generateContentStream({
+      contents,
+      generationConfig,
+    });
+    let reply = "";
+    for await (const chunk of stream) {
+      const delta = chunk.text();
+      if (delta) {
+        onDelta({ delta, ...(!reply && { restart: true }) });
+        reply += delta;
+      }
+    }
+    return reply;
+  }
+
   private buildAnalysisPrompt(
     resumeText: string,
-    _options?: AIAnalysisOptions
+    options?: AIAnalysisOptions
   ): string {
+    if (options?.promptTemplate) {
+      return renderPromptTemplate(options.promptTemplate, {
+        resumeText,
+        languageInstructions: this.buildLanguageInstructions(options.language),
+      });
+    }
+
     return `
 Analyze the following resume and provide a comprehensive analysis in JSON format:
 
 RESUME TEXT:
 ${resumeText}
-
+${this.buildLanguageInstructions(options?.language)}
 Please provide analysis in the following JSON structure:
 {
   "atsScore": (number 0-100),
@@ -194,11 +333,29 @@ Focus on:
 `;
   }
 
+  // Non-English resumes get answers in their own language, while the JSON shape stays fixed
+  private buildLanguageInstructions(language?: ResumeLanguage): string {
+    if (!language || language === "en") return "";
+
+    const name = RESUME_LANGUAGE_NAMES[language];
+    return `
+LANGUAGE:
+The resume is written in ${name}. Read it as ${name}, keep names, companies, job titles and skills exactly as written, and write "suggestions", "summary" and free-text descriptions in ${name}. Keep the JSON keys and the enum values (category, level) in English as specified below.
+`;
+  }
+
   private buildSuggestionPrompt(
     resumeText: string,
     jobDescription?: string,
-    _options?: AISuggestionOptions
+    options?: AISuggestionOptions
   ): string {
+    if (options?.promptTemplate) {
+      return renderPromptTemplate(options.promptTemplate, {
+        resumeText,
+        jobDescription,
+      });
+    }
+
     let prompt = `
 Generate specific, actionable resume improvement suggestions based on the following resume:
 
@@ -216,12 +373,14 @@ Focus suggestions on aligning the resume with this specific job description.
     }
 
     prompt += `
-Provide 5-8 specific, actionable suggestions in JSON array format:
-[
-  "suggestion 1",
-  "suggestion 2",
-  ...
-]
+Provide 5-8 specific, actionable suggestions in JSON format:
+{
+  "suggestions": [
+    "suggestion 1",
+    "suggestion 2",
+    ...
+  ]
+}
 
 Each suggestion should:
 - Be specific and actionable
@@ -238,10 +397,19 @@ ${jobDescription ? "- Align with the target job requirements" : ""}
   private buildMatchingPrompt(
     resumeText: string,
     jobDescription: string,
-    _options?: AIMatchingOptions
+    options?: AIMatchingOptions
   ): string {
+    if (options?.promptTemplate) {
+      return renderPromptTemplate(options.promptTemplate, {
+        resumeText,
+        jobDescription,
+        languageNote: options.languageNote,
+      });
+    }
+
     return `
 Analyze how well this resume matches the job description:
+${options?.languageNote || ""}
 
 RESUME:
 ${resumeText}
@@ -277,128 +445,4 @@ Focus on:
 6. Seniority level alignment
 `;
   }
-
-  private parseAnalysisResponse(response: string): ResumeAnalysisResult {
-    try {
-      // Extract JSON from response (in case there's additional text)
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error("No valid JSON found in response");
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]) as {
-        atsScore?: number;
-        skills?: Array<{
-          name?: string;
-          category?: string;
-          confidence?: number;
-          yearsExperience?: number;
-          level?: string;
-        }>;
-        suggestions?: string[];
-        personalInfo?: Record<string, unknown>;
-        experience?: unknown[];
-        education?: unknown[];
-        summary?: string;
-        confidence?: number;
-      };
-
-      // Validate and set defaults
-      return {
-        atsScore: Math.min(100, Math.max(0, parsed.atsScore || 0)),
-        skills: Array.isArray(parsed.skills)
-          ? parsed.skills.map((skill: any) => ({
-              name: skill.name || "",
-              category:
-                (skill.category as SkillCategory) || SkillCategory.TECHNICAL,
-              confidence: Math.min(1, Math.max(0, skill.confidence || 0.5)),
-              yearsExperience: skill.yearsExperience || undefined,
-              level: (skill.level as SkillLevel) || SkillLevel.INTERMEDIATE,
-            }))
-          : [],
-        suggestions: Array.isArray(parsed.suggestions)
-          ? parsed.suggestions
-          : [],
-        personalInfo: parsed.personalInfo || {},
-        experience: Array.isArray(parsed.experience)
-          ? (parsed.experience as WorkExperience[])
-          : [],
-        education: Array.isArray(parsed.education)
-          ? (parsed.education as Education[])
-          : [],
-        summary: parsed.summary || "",
-        confidence: Math.min(1, Math.max(0, parsed.confidence || 0.7)),
-        processingTime: 0, // Will be set by caller
-      };
-    } catch (error: unknown) {
-      this.logger.error("Failed to parse Gemini analysis response", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Parse error";
-      throw new Error(`Invalid response format: ${errorMessage}`);
-    }
-  }
-
-  private parseSuggestionsResponse(response: string): string[] {
-    try {
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        // Fallback: split by lines and filter
-        return response
-          .split("\n")
-          .map((line) => line.trim())
-          .filter((line) => line.length > 10)
-          .slice(0, 8);
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      return Array.isArray(parsed) ? parsed.slice(0, 8) : [];
-    } catch (error) {
-      this.logger.error("Failed to parse suggestions response", error);
-      return ["Unable to generate suggestions at this time"];
-    }
-  }
-
-  private parseMatchingResponse(response: string): JDMatchResult {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error("No valid JSON found in response");
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]) as {
-        overallScore?: number;
-        skillMatches?: unknown[];
-        missingSkills?: string[];
-        strengthAreas?: string[];
-        improvementAreas?: string[];
-        recommendations?: string[];
-        confidence?: number;
-      };
-
-      return {
-        overallScore: Math.min(100, Math.max(0, parsed.overallScore || 0)),
-        skillMatches: Array.isArray(parsed.skillMatches)
-          ? (parsed.skillMatches as SkillMatch[])
-          : [],
-        missingSkills: Array.isArray(parsed.missingSkills)
-          ? parsed.missingSkills
-          : [],
-        strengthAreas: Array.isArray(parsed.strengthAreas)
-          ? parsed.strengthAreas
-          : [],
-        improvementAreas: Array.isArray(parsed.improvementAreas)
-          ? parsed.improvementAreas
-          : [],
-        recommendations: Array.isArray(parsed.recommendations)
-          ? parsed.recommendations
-          : [],
-        confidence: Math.min(1, Math.max(0, parsed.confidence || 0.7)),
-      };
-    } catch (error: unknown) {
-      this.logger.error("Failed to parse matching response", error);
-      const errorMessage =
-        error instanceof Error ? error.message : "Parse error";
-      throw new Error(`Invalid response format: ${errorMessage}`);
-    }
-  }
 }
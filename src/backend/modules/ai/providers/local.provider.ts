@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import type { ChatCompletionCreateParams } from 'openai/resources/chat/completions';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { StructuredOutputFormat } from '../schemas/ai-output.schema';
+
+// Self-hosted models are slow on CPU-only machines; a full analysis can take minutes
+const DEFAULT_TIMEOUT = 120000;
+
+@Injectable()
+export class LocalAIProvider extends OpenAICompatibleProvider {
+  name = 'local';
+  priority: number;
+  costPerToken = 0; // Runs on our own hardware
+
+  protected readonly displayName = 'Local model';
+  protected readonly model: string;
+  private readonly jsonSchemaSupported: boolean;
+
+  constructor(private configService: ConfigService) {
+    super();
+
+    // Last in line by default; air-gapped installs can move it to the front
+    const priority = this.configService.get('LOCAL_AI_PRIORITY');
+    this.priority = priority !== undefined && priority !== '' ? Number(priority) : 4;
+    this.model = this.configService.get('LOCAL_AI_MODEL') || 'llama3.1:8b';
+    // Ollama 0.5+, vLLM and LM Studio accept JSON schemas; older servers only know plain JSON mode
+    this.jsonSchemaSupported = this.configService.get('LOCAL_AI_STRUCTURED_OUTPUT') !== 'json_object';
+
+    // Ollama serves the OpenAI-compatible API under /v1, e.g. http://localhost:11434/v1
+    const baseURL = this.configService.get('LOCAL_AI_BASE_URL');
+    if (!baseURL) {
+      this.logger.warn('Local AI endpoint not configured');
+      this.isHealthy = false;
+      return;
+    }
+
+    try {
+      this.client = new OpenAI({
+        baseURL,
+        // Ollama and most local servers ignore the key, but the client requires one
+        apiKey: this.configService.get('LOCAL_AI_API_KEY') || 'local',
+        timeout: Number(this.configService.get('LOCAL_AI_TIMEOUT_MS')) || DEFAULT_TIMEOUT,
+      });
+      // Only servers with an embedding model pulled (e.g. nomic-embed-text) can feed the semantic cache
+      this.embeddingModel = this.configService.get('LOCAL_AI_EMBEDDING_MODEL') || undefined;
+      this.logger.log(`Local AI provider initialized with ${this.model} at ${baseURL}`);
+    } catch (error) {
+      this.logger.error('Failed to initialize local AI provider', error);
+      this.isHealthy = false;
+    }
+  }
+
+  protected responseFormat(format: StructuredOutputFormat<unknown>): ChatCompletionCreateParams['response_format'] {
+    return this.jsonSchemaSupported ? super.responseFormat(format) : { type: 'json_object' };
+  }
+}
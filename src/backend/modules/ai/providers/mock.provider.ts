@@ -0,0 +1,286 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import {
+  AIProvider,
+  AIProviderError,
+  AIProviderErrorCode,
+  ResumeAnalysisResult,
+  JDMatchResult,
+  SkillCategory,
+  SkillLevel,
+  AIAnalysisOptions,
+  AIMatchingOptions,
+  AIStreamHandler,
+  AISuggestionOptions,
+} from '../interfaces/ai-provider.interface';
+
+export interface MockAIFixture {
+  analysis?: Partial<ResumeAnalysisResult>;
+  match?: Partial<JDMatchResult>;
+  suggestions?: string[];
+  text?: string; // reply for analyzeText prompts
+  latencyMs?: number;
+  failure?: AIProviderErrorCode;
+}
+
+const DEFAULT_FIXTURE_KEY = 'default';
+const RATE_LIMIT_RETRY_AFTER = 1000;
+const STREAM_CHUNK_SIZE = 24;
+const EMBEDDING_SIZE = 64;
+
+// Skill names recognised when generating a default analysis
+const KNOWN_SKILLS: Record<string, SkillCategory> = {
+  javascript: SkillCategory.TECHNICAL,
+  typescript: SkillCategory.TECHNICAL,
+  python: SkillCategory.TECHNICAL,
+  java: SkillCategory.TECHNICAL,
+  sql: SkillCategory.TECHNICAL,
+  react: SkillCategory.FRAMEWORK,
+  angular: SkillCategory.FRAMEWORK,
+  node: SkillCategory.FRAMEWORK,
+  nestjs: SkillCategory.FRAMEWORK,
+  django: SkillCategory.FRAMEWORK,
+  docker: SkillCategory.TOOL,
+  kubernetes: SkillCategory.TOOL,
+  aws: SkillCategory.TOOL,
+  git: SkillCategory.TOOL,
+  leadership: SkillCategory.SOFT,
+  communication: SkillCategory.SOFT,
+  mentoring: SkillCategory.SOFT,
+};
+
+/**
+ * Offline stand-in for the real providers. Replies come from fixtures keyed by
+ * a SHA-256 of the input, or are derived from the input itself, so the same
+ * resume always produces the same result. Enabled with AI_MOCK_PROVIDER=true.
+ */
+@Injectable()
+export class MockAIProvider implements AIProvider {
+  name = 'mock';
+  isHealthy = true;
+  priority = 0; // Sits in front of the real providers so they only see traffic on failover
+  costPerToken = 0;
+  embeddingModel = 'mock-embedding';
+
+  readonly enabled: boolean;
+
+  private readonly logger = new Logger(MockAIProvider.name);
+  private readonly fixtures = new Map<string, MockAIFixture>();
+  private readonly latencyMs: number;
+  private readonly failureMode?: AIProviderErrorCode;
+  private readonly failureRate: number;
+  private injectedFailures: AIProviderErrorCode[] = [];
+
+  constructor(private configService: ConfigService) {
+    this.enabled = this.configService.get('AI_MOCK_PROVIDER') === 'true';
+    this.latencyMs = Number(this.configService.get('AI_MOCK_LATENCY_MS')) || 0;
+    this.failureMode = this.configService.get<AIProviderErrorCode>('AI_MOCK_FAILURE_MODE') || undefined;
+    const failureRate = this.configService.get('AI_MOCK_FAILURE_RATE');
+    this.failureRate = failureRate !== undefined && failureRate !== '' ? Number(failureRate) : 1;
+
+    if (!this.enabled) {
+      this.isHealthy = false;
+      return;
+    }
+
+    const fixturesPath = this.configService.get('AI_MOCK_FIXTURES_PATH');
+    if (fixturesPath) {
+      this.loadFixtures(fixturesPath);
+    }
+    this.logger.warn('Mock AI provider enabled - analysis results are simulated');
+  }
+
+  static hashContent(...parts: string[]): string {
+    return crypto.createHash('sha256').update(parts.map(part => part.trim()).join('\u0000')).digest('hex');
+  }
+
+  // Registers a fixture for the given content hash (see hashContent), or 'default' for every input
+  setFixture(key: string, fixture: MockAIFixture): void {
+    this.fixtures.set(key, fixture);
+  }
+
+  // Makes the next calls fail in order, e.g. injectFailure('rate_limited', 2)
+  injectFailure(code: AIProviderErrorCode, times = 1): void {
+    this.injectedFailures.push(...Array<AIProviderErrorCode>(times).fill(code));
+  }
+
+  reset(): void {
+    this.fixtures.clear();
+    this.injectedFailures = [];
+    this.isHealthy = this.enabled;
+  }
+
+  async analyze(text: string, options?: AIAnalysisOptions): Promise<ResumeAnalysisResult> {
+    const startTime = Date.now();
+    const fixture = this.findFixture([text]);
+    await this.simulate(fixture);
+
+    const analysis = { ...this.generateAnalysis(text), ...fixture?.analysis };
+    if (options?.mode === 'text') {
+      analysis.text = fixture?.text ?? this.generateText(text);
+    }
+    analysis.processingTime = Date.now() - startTime;
+    this.replay(analysis, options?.onDelta);
+    return analysis;
+  }
+
+  async generateSuggestions(
+    resumeText: string,
+    jobDescription?: string,
+    options?: AISuggestionOptions,
+  ): Promise<string[]> {
+    const fixture = this.findFixture(jobDescription ? [resumeText, jobDescription] : [resumeText]);
+    await this.simulate(fixture);
+
+    const suggestions = fixture?.suggestions ?? this.generateAnalysis(resumeText).suggestions;
+    this.replay({ suggestions }, options?.onDelta);
+    return suggestions;
+  }
+
+  async matchJobDescription(
+    resumeText: string,
+    jobDescription: string,
+    options?: AIMatchingOptions,
+  ): Promise<JDMatchResult> {
+    const fixture = this.findFixture([resumeText, jobDescription]);
+    await this.simulate(fixture);
+
+    const match = { ...this.generateMatch(resumeText, jobDescription), ...fixture?.match };
+    this.replay(match, options?.onDelta);
+    return match;
+  }
+
+  // Hashed bag of words: texts sharing most of their words get nearly parallel vectors
+  async embed(texts: string[]): Promise<number[][]> {
+    await this.simulate();
+
+    return texts.map(text => {
+      const vector = new Array<number>(EMBEDDING_SIZE).fill(0);
+      for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+        vector[crypto.createHash('md5').update(word).digest().readUInt32LE(0) % EMBEDDING_SIZE] += 1;
+      }
+      return vector;
+    });
+  }
+
+  // Sends the reply as JSON in small pieces, the way a real provider streams it
+  private replay(reply: object, onDelta?: AIStreamHandler): void {
+    if (!onDelta) return;
+
+    const json = JSON.stringify(reply);
+    for (let offset = 0; offset < json.length; offset += STREAM_CHUNK_SIZE) {
+      onDelta({ delta: json.slice(offset, offset + STREAM_CHUNK_SIZE), ...(offset === 0 && { restart: true }) });
+    }
+  }
+
+  // Tries the hash of all inputs, then of the resume alone, then the default fixture
+  private findFixture(parts: string[]): MockAIFixture | undefined {
+    return (
+      this.fixtures.get(MockAIProvider.hashContent(...parts)) ??
+      this.fixtures.get(MockAIProvider.hashContent(parts[0])) ??
+      this.fixtures.get(DEFAULT_FIXTURE_KEY)
+    );
+  }
+
+  private async simulate(fixture?: MockAIFixture): Promise<void> {
+    const latency = fixture?.latencyMs ?? this.latencyMs;
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    const failure =
+      this.injectedFailures.shift() ??
+      fixture?.failure ??
+      (this.failureMode && Math.random() < this.failureRate ? this.failureMode : undefined);
+
+    switch (failure) {
+      case 'rate_limited':
+        throw new AIProviderError('Mock rate limit exceeded (429)', this.name, failure, RATE_LIMIT_RETRY_AFTER);
+      case 'timeout':
+        throw new AIProviderError(`Mock request timed out after ${latency}ms`, this.name, failure);
+      case 'failure':
+        throw new AIProviderError('Mock provider failure', this.name, failure);
+      case 'invalid_output':
+        throw new AIProviderError('Mock provider returned output that failed validation', this.name, failure);
+    }
+  }
+
+  private generateAnalysis(text: string): ResumeAnalysisResult {
+    const seed = parseInt(MockAIProvider.hashContent(text).slice(0, 8), 16);
+    const words = new Set(this.tokenize(text));
+    const skills = Object.entries(KNOWN_SKILLS)
+      .filter(([skill]) => words.has(skill))
+      .map(([skill, category], index) => ({
+        name: skill,
+        category,
+        confidence: 0.9 - index * 0.05,
+        level: category === SkillCategory.SOFT ? SkillLevel.INTERMEDIATE : SkillLevel.ADVANCED,
+      }));
+
+    return {
+      atsScore: 55 + (seed % 40),
+      skills,
+      suggestions: [
+        'Quantify achievements with metrics such as revenue, time saved or team size',
+        'Start each bullet point with a strong action verb',
+        'Tailor the skills section to the keywords in the target job description',
+      ],
+      personalInfo: {
+        name: text.split('\n').find(line => line.trim())?.trim().slice(0, 60),
+        email: text.match(/[\w.+-]+@[\w-]+\.[\w.]+/)?.[0],
+      },
+      experience: [],
+      education: [],
+      summary: `Simulated analysis of a ${words.size}-word resume`,
+      confidence: 0.8,
+      processingTime: 0,
+    };
+  }
+
+  private generateMatch(resumeText: string, jobDescription: string): JDMatchResult {
+    const resumeWords = new Set(this.tokenize(resumeText));
+    const jobSkills = Object.keys(KNOWN_SKILLS).filter(skill => this.tokenize(jobDescription).includes(skill));
+    const matched = jobSkills.filter(skill => resumeWords.has(skill));
+    const missing = jobSkills.filter(skill => !resumeWords.has(skill));
+
+    return {
+      overallScore: jobSkills.length ? Math.round((matched.length / jobSkills.length) * 100) : 50,
+      skillMatches: jobSkills.map(skill => ({
+        skill,
+        resumeStrength: resumeWords.has(skill) ? 80 : 0,
+        jdRequirement: 80,
+        isMatch: resumeWords.has(skill),
+        ...(!resumeWords.has(skill) && { gap: 80 }),
+      })),
+      missingSkills: missing,
+      strengthAreas: matched,
+      improvementAreas: missing,
+      recommendations: missing.map(skill => `Add evidence of ${skill} experience`),
+      confidence: 0.8,
+    };
+  }
+
+  // analyzeText callers parse a number out of the reply, so lead with one
+  private generateText(prompt: string): string {
+    const seed = parseInt(MockAIProvider.hashContent(prompt).slice(0, 8), 16);
+    return `${40 + (seed % 50)} - simulated response`;
+  }
+
+  private tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9+#]+/).filter(Boolean);
+  }
+
+  private loadFixtures(fixturesPath: string): void {
+    try {
+      const fixtures: Record<string, MockAIFixture> = JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+      for (const [key, fixture] of Object.entries(fixtures)) {
+        this.fixtures.set(key, fixture);
+      }
+      this.logger.log(`Loaded ${this.fixtures.size} mock AI fixtures from ${fixturesPath}`);
+    } catch (error: any) {
+      this.logger.error(`Failed to load mock AI fixtures from ${fixturesPath}: ${error?.message}`);
+    }
+  }
+}
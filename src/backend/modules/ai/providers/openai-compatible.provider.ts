@@ -0,0 +1,317 @@
+import { Logger } from '@nestjs/common';
+import OpenAI from 'openai';
+import type { ChatCompletionCreateParams, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  AIProvider,
+  AIProviderError,
+  ResumeAnalysisResult,
+  JDMatchResult,
+  AIAnalysisOptions,
+  AISuggestionOptions,
+  AIMatchingOptions,
+  AIStreamHandler,
+  RESUME_LANGUAGE_NAMES,
+  ResumeLanguage,
+} from '../interfaces/ai-provider.interface';
+import {
+  JD_MATCH_FORMAT,
+  RESUME_ANALYSIS_FORMAT,
+  SUGGESTION_LIST_FORMAT,
+  StructuredOutputFormat,
+  buildRepairPrompt,
+  parseStructuredOutput,
+} from '../schemas/ai-output.schema';
+import { renderPromptTemplate } from '../prompts/prompt-template';
+
+/**
+ * Prompts and response validation for any endpoint that speaks the OpenAI chat
+ * completions API. Subclasses only decide where the client points and which model it uses.
+ */
+export abstract class OpenAICompatibleProvider implements AIProvider {
+  abstract name: string;
+  abstract priority: number;
+  abstract costPerToken: number;
+  isHealthy = true;
+
+  protected abstract readonly displayName: string; // used in logs and error messages
+  protected abstract readonly model: string;
+  protected readonly logger = new Logger(this.constructor.name);
+  protected client: OpenAI;
+  embeddingModel?: string;
+
+  async analyze(text: string, options?: AIAnalysisOptions): Promise<ResumeAnalysisResult> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = this.buildAnalysisPrompt(text, options);
+      const analysis = await this.complete(RESUME_ANALYSIS_FORMAT, [
+        {
+          role: 'system',
+          content: 'You are an expert resume analyzer. Provide detailed, accurate analysis in the exact JSON format requested.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ], { temperature: 0.3, max_tokens: 4000 }, options?.onDelta);
+
+      analysis.processingTime = Date.now() - startTime;
+      
+      this.logger.log(`Resume analysis completed in ${analysis.processingTime}ms`);
+      return analysis;
+
+    } catch (error: any) {
+      this.logger.error(`${this.displayName} analysis failed`, error);
+      if (error instanceof AIProviderError) throw error;
+      throw new Error(`${this.displayName} analysis failed: ${error?.message || 'Unknown error'}`);
+    }
+  }
+
+  async generateSuggestions(resumeText: string, jobDescription?: string, options?: AISuggestionOptions): Promise<string[]> {
+    try {
+      const prompt = this.buildSuggestionPrompt(resumeText, jobDescription, options);
+      return await this.complete(SUGGESTION_LIST_FORMAT, [
+        {
+          role: 'system',
+          content: 'You are a career coach specializing in resume optimization. Provide actionable, specific suggestions.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ], { temperature: 0.4, max_tokens: 1500 }, options?.onDelta);
+
+    } catch (error: any) {
+      this.logger.error(`${this.displayName} suggestion generation failed`, error);
+      if (error instanceof AIProviderError) throw error;
+      throw new Error(`${this.displayName} suggestion generation failed: ${error?.message || 'Unknown error'}`);
+    }
+  }
+
+  async matchJobDescription(resumeText: string, jobDescription: string, options?: AIMatchingOptions): Promise<JDMatchResult> {
+    try {
+      const prompt = this.buildMatchingPrompt(resumeText, jobDescription, options);
+      return await this.complete(JD_MATCH_FORMAT, [
+        {
+          role: 'system',
+          content: 'You are an expert at analyzing job-resume compatibility. Provide detailed matching analysis.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ], { temperature: 0.2, max_tokens: 3000 }, options?.onDelta);
+
+    } catch (error: any) {
+      this.logger.error(`${this.displayName} JD matching failed`, error);
+      if (error instanceof AIProviderError) throw error;
+      throw new Error(`${this.displayName} JD matching failed: ${error?.message || 'Unknown error'}`);
+    }
+  }
+
+  // Servers without JSON schema support can fall back to plain JSON mode; replies are validated either way
+  protected responseFormat(format: StructuredOutputFormat<unknown>): ChatCompletionCreateParams['response_format'] {
+    return {
+      type: 'json_schema',
+      json_schema: { name: format.name, schema: format.jsonSchema, strict: false },
+    };
+  }
+
+  /**
+   * Requests a reply in the given format and validates it. An invalid reply gets
+   * one repair turn; if that fails too the provider gives up so the next one can try.
+   */
+  private async complete<T>(
+    format: StructuredOutputFormat<T>,
+    messages: ChatCompletionMessageParam[],
+    settings: { temperature: number; max_tokens: number },
+    onDelta?: AIStreamHandler,
+  ): Promise<T> {
+    const reply = await this.request(format, messages, settings, onDelta);
+    const parsed = parseStructuredOutput(format, reply);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    this.logger.warn(`${this.displayName} returned an invalid ${format.name}, asking for a repair: ${parsed.error}`);
+    const repairedReply = await this.request(format, [
+      ...messages,
+      { role: 'assistant', content: reply },
+      { role: 'user', content: buildRepairPrompt(parsed.error) },
+    ], settings, onDelta);
+
+    const repaired = parseStructuredOutput(format, repairedReply);
+    if (repaired.success) {
+      return repaired.data;
+    }
+    throw new AIProviderError(`${this.displayName} returned an invalid ${format.name}: ${repaired.error}`, this.name, 'invalid_output');
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.embeddingModel) {
+      throw new AIProviderError(`${this.displayName} has no embedding model configured`, this.name, 'failure');
+    }
+
+    const response = await this.client.embeddings.create({ model: this.embeddingModel, input: texts });
+    return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+
+  private async request(
+    format: StructuredOutputFormat<unknown>,
+    messages: ChatCompletionMessageParam[],
+    settings: { temperature: number; max_tokens: number },
+    onDelta?: AIStreamHandler,
+  ): Promise<string> {
+    const params = {
+      model: this.model,
+      messages,
+      ...settings,
+      response_format: this.responseFormat(format),
+    };
+
+    let response: string | null | undefined;
+    if (onDelta) {
+      response = '';
+      const stream = await this.client.chat.completions.create({ ...params, stream: true });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          onDelta({ delta, ...(!response && { restart: true }) });
+          response += delta;
+        }
+      }
+    } else {
+      const completion = await this.client.chat.completions.create(params);
+      response = completion.choices[0]?.message?.content;
+    }
+
+    if (!response) {
+      throw new Error(`No response from ${this.displayName}`);
+    }
+    return response;
+  }
+
+  private buildAnalysisPrompt(resumeText: string, options?: AIAnalysisOptions): string {
+    if (options?.promptTemplate) {
+      return renderPromptTemplate(options.promptTemplate, {
+        resumeText,
+        languageInstructions: this.buildLanguageInstructions(options.language),
+      });
+    }
+
+    return `
+Analyze this resume and provide comprehensive analysis in strict JSON format:
+
+RESUME:
+${resumeText}
+${this.buildLanguageInstructions(options?.language)}
+Return ONLY valid JSON in this exact structure:
+{
+  "atsScore": <number 0-100>,
+  "skills": [
+    {
+      "name": "<skill name>",
+      "category": "<technical|soft|language|certification|tool|framework>",
+      "confidence": <number 0-1>,
+      "yearsExperience": <number or null>,
+      "level": "<beginner|intermediate|advanced|expert>"
+    }
+  ],
+  "suggestions": ["<actionable suggestion>"],
+  "personalInfo": {
+    "name": "<name or null>",
+    "email": "<email or null>",
+    "phone": "<phone or null>",
+    "location": "<location or null>",
+    "linkedin": "<linkedin or null>",
+    "github": "<github or null>"
+  },
+  "experience": [
+    {
+      "company": "<company>",
+      "position": "<title>",
+      "startDate": "<date>",
+      "endDate": "<date or null>",
+      "description": "<description>",
+      "achievements": ["<achievement>"],
+      "skills": ["<skill>"]
+    }
+  ],
+  "education": [
+    {
+      "institution": "<school>",
+      "degree": "<degree>",
+      "field": "<field>",
+      "startDate": "<date>",
+      "endDate": "<date>",
+      "gpa": "<gpa or null>",
+      "achievements": ["<achievement>"]
+    }
+  ],
+  "summary": "<professional summary>",
+  "confidence": <number 0-1>
+}
+`;
+  }
+
+  private buildLanguageInstructions(language?: ResumeLanguage): string {
+    if (!language || language === 'en') return '';
+
+    const name = RESUME_LANGUAGE_NAMES[language];
+    return `
+LANGUAGE:
+The resume is written in ${name}. Read it as ${name}, keep names, companies, job titles and skills exactly as written, and write "suggestions", "summary" and free-text descriptions in ${name}. Keep the JSON keys and the enum values (category, level) in English as specified below.
+`;
+  }
+
+  private buildSuggestionPrompt(resumeText: string, jobDescription?: string, options?: AISuggestionOptions): string {
+    if (options?.promptTemplate) {
+      return renderPromptTemplate(options.promptTemplate, { resumeText, jobDescription });
+    }
+
+    let prompt = `Generate 5-8 specific resume improvement suggestions for this resume:\n\n${resumeText}`;
+    
+    if (jobDescription) {
+      prompt += `\n\nTarget Job:\n${jobDescription}\n\nFocus on aligning with this job.`;
+    }
+    
+    prompt += `\n\nReturn as JSON: {"suggestions": ["suggestion 1", "suggestion 2", ...]}`;
+    return prompt;
+  }
+
+  private buildMatchingPrompt(resumeText: string, jobDescription: string, options?: AIMatchingOptions): string {
+    if (options?.promptTemplate) {
+      return renderPromptTemplate(options.promptTemplate, { resumeText, jobDescription, languageNote: options.languageNote });
+    }
+
+    return `
+Analyze resume-job match:
+${options?.languageNote || ''}
+
+RESUME:
+${resumeText}
+
+JOB:
+${jobDescription}
+
+Return JSON:
+{
+  "overallScore": <0-100>,
+  "skillMatches": [
+    {
+      "skill": "<skill>",
+      "resumeStrength": <0-100>,
+      "jdRequirement": <0-100>,
+      "isMatch": <boolean>,
+      "gap": <0-100 or null>
+    }
+  ],
+  "missingSkills": ["<skill>"],
+  "strengthAreas": ["<area>"],
+  "improvementAreas": ["<area>"],
+  "recommendations": ["<recommendation>"],
+  "confidence": <0-1>
+}
+`;
+  }
+}
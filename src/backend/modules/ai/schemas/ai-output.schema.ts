@@ -0,0 +1,144 @@
+import { z } from 'zod/v4';
+import {
+  JDMatchResult,
+  ResumeAnalysisResult,
+  SkillCategory,
+  SkillLevel,
+} from '../interfaces/ai-provider.interface';
+
+const score = z.number().min(0).max(100);
+const confidence = z.number().min(0).max(1);
+// Models write null for anything they couldn't find
+const optionalText = z.string().nullish();
+const textList = z.array(z.string());
+
+export const resumeAnalysisSchema = z.object({
+  atsScore: score,
+  skills: z.array(
+    z.object({
+      name: z.string().min(1),
+      category: z.enum(SkillCategory),
+      confidence,
+      yearsExperience: z.number().min(0).nullish(),
+      level: z.enum(SkillLevel).nullish(),
+    }),
+  ),
+  suggestions: textList,
+  personalInfo: z.object({
+    name: optionalText,
+    email: optionalText,
+    phone: optionalText,
+    location: optionalText,
+    linkedin: optionalText,
+    github: optionalText,
+  }),
+  experience: z.array(
+    z.object({
+      company: z.string(),
+      position: z.string(),
+      startDate: optionalText,
+      endDate: optionalText,
+      description: optionalText,
+      achievements: textList.nullish(),
+      skills: textList.nullish(),
+    }),
+  ),
+  education: z.array(
+    z.object({
+      institution: z.string(),
+      degree: optionalText,
+      field: optionalText,
+      startDate: optionalText,
+      endDate: optionalText,
+      gpa: optionalText,
+      achievements: textList.nullish(),
+    }),
+  ),
+  summary: optionalText,
+  confidence,
+});
+
+export const jdMatchSchema = z.object({
+  overallScore: score,
+  skillMatches: z.array(
+    z.object({
+      skill: z.string().min(1),
+      resumeStrength: score,
+      jdRequirement: score,
+      isMatch: z.boolean(),
+      gap: score.nullish(),
+    }),
+  ),
+  missingSkills: textList,
+  strengthAreas: textList,
+  improvementAreas: textList,
+  recommendations: textList,
+  confidence,
+});
+
+// Wrapped in an object because native JSON modes want an object at the top level
+export const suggestionListSchema = z.object({
+  suggestions: z.array(z.string().min(1)).min(1),
+});
+
+export interface StructuredOutputFormat<T> {
+  name: string; // sent to providers that name their response schemas
+  schema: z.ZodType;
+  jsonSchema: Record<string, any>;
+  // Narrows the validated output to the shape callers use
+  toResult(data: any): T;
+}
+
+function defineFormat<T>(name: string, schema: z.ZodType, toResult: (data: any) => T): StructuredOutputFormat<T> {
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input' }) as Record<string, any>;
+  return { name, schema, jsonSchema, toResult };
+}
+
+export const RESUME_ANALYSIS_FORMAT = defineFormat<ResumeAnalysisResult>('resume_analysis', resumeAnalysisSchema, data => ({
+  ...data,
+  summary: data.summary ?? '',
+  processingTime: 0, // set by the provider
+}));
+
+export const JD_MATCH_FORMAT = defineFormat<JDMatchResult>('jd_match', jdMatchSchema, data => data);
+
+export const SUGGESTION_LIST_FORMAT = defineFormat<string[]>('suggestion_list', suggestionListSchema, data =>
+  data.suggestions.slice(0, 8),
+);
+
+export type StructuredOutputResult<T> = { success: true; data: T } | { success: false; error: string };
+
+/**
+ * Pulls the JSON object out of a model reply (tolerating code fences and
+ * surrounding prose) and validates it against the format's schema.
+ */
+export function parseStructuredOutput<T>(format: StructuredOutputFormat<T>, reply: string): StructuredOutputResult<T> {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { success: false, error: 'The reply does not contain a JSON object' };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(reply.slice(start, end + 1));
+  } catch (error: any) {
+    return { success: false, error: `The reply is not valid JSON: ${error?.message || 'parse error'}` };
+  }
+
+  const result = format.schema.safeParse(json);
+  return result.success
+    ? { success: true, data: format.toResult(result.data) }
+    : { success: false, error: z.prettifyError(result.error) };
+}
+
+// Follow-up turn asking the model to fix its own reply, sent once before giving up on a provider
+export function buildRepairPrompt(error: string): string {
+  return `
+Your previous reply does not match the required JSON structure:
+
+${error}
+
+Reply again with ONLY the corrected JSON object. Keep every value that was already valid and fix or fill in the fields listed above.
+`;
+}
@@ -4,19 +4,42 @@ import { RedisService } from '../../../config/redis.service';
 import { GeminiProvider } from '../providers/gemini.provider';
 import { OpenAIProvider } from '../providers/openai.provider';
 import { ClaudeProvider } from '../providers/claude.provider';
+import { LocalAIProvider } from '../providers/local.provider';
+import { MockAIProvider } from '../providers/mock.provider';
+import { PiiRedactionService, RedactedText } from './pii-redaction.service';
+import { CircuitState, ProviderCircuitBreakerService } from './provider-circuit-breaker.service';
+import { ProviderRateLimiterService } from './provider-rate-limiter.service';
+import { PromptRegistryService, ResolvedPrompt } from './prompt-registry.service';
+import { EnsembleReconcilerService, ProviderAnswer } from './ensemble-reconciler.service';
+import { UsageMeteringService } from './usage-metering.service';
+import { SemanticCacheHit, SemanticCacheService } from './semantic-cache.service';
+import { PromptTemplateName } from '../prompts/prompt-template';
 import {
   AIProvider,
+  AIStreamHandler,
+  CacheProvenance,
+  EnsembleSummary,
   ResumeAnalysisResult,
   JDMatchResult,
+  ResumeLanguage,
 } from '../interfaces/ai-provider.interface';
 import * as crypto from 'crypto';
 
+// Embedding models take a few thousand tokens; the start of a document is enough to compare it
+const MAX_EMBEDDING_CHARS = 8000;
+
+interface SemanticLookup {
+  hit: SemanticCacheHit | null;
+  remember: (cacheKey: string, sourceId?: string) => Promise<void>;
+}
+
 @Injectable()
 export class AIProviderService {
   private readonly logger = new Logger(AIProviderService.name);
   private providers: AIProvider[] = [];
   private cacheEnabled: boolean;
   private cacheTTL: number;
+  private piiRedactionEnabled: boolean;
 
   constructor(
     private configService: ConfigService,
@@ -24,69 +47,177 @@ export class AIProviderService {
     private geminiProvider: GeminiProvider,
     private openaiProvider: OpenAIProvider,
     private claudeProvider: ClaudeProvider,
+    private piiRedactionService: PiiRedactionService = new PiiRedactionService(),
+    private localProvider?: LocalAIProvider,
+    private mockProvider?: MockAIProvider,
+    private circuitBreaker: ProviderCircuitBreakerService = new ProviderCircuitBreakerService(configService, redis),
+    private rateLimiter: ProviderRateLimiterService = new ProviderRateLimiterService(configService, redis),
+    private promptRegistry?: PromptRegistryService,
+    private ensembleReconciler: EnsembleReconcilerService = new EnsembleReconcilerService(configService),
+    private usageMetering?: UsageMeteringService,
+    private semanticCache?: SemanticCacheService,
   ) {
     this.cacheEnabled = this.configService.get('AI_CACHE_ENABLED', 'true') === 'true';
     this.cacheTTL = parseInt(this.configService.get('AI_CACHE_TTL', '86400')); // 24 hours
+    // Global default; a user's own setting, passed as redactPii, takes precedence
+    this.piiRedactionEnabled = this.configService.get('AI_PII_REDACTION_ENABLED', 'false') === 'true';
 
-    // Initialize providers in priority order (Gemini -> OpenAI -> Claude)
+    // Initialize providers in priority order (Gemini -> OpenAI -> Claude -> local, unless LOCAL_AI_PRIORITY says otherwise)
     this.providers = [
       this.geminiProvider,
       this.openaiProvider,
       this.claudeProvider,
+      ...(this.localProvider ? [this.localProvider] : []),
+      ...(this.mockProvider?.enabled ? [this.mockProvider] : []),
     ].sort((a, b) => a.priority - b.priority);
 
     this.logger.log(`Initialized ${this.providers.length} AI providers`);
     this.logProviderStatus();
   }
 
-  async analyzeResume(options: { content: string; fileName: string; provider?: string }): Promise<ResumeAnalysisResult> {
-    const { content, fileName, provider } = options;
-    const cacheKey = this.generateCacheKey('analysis', content, { fileName, provider });
+  async analyzeResume(options: {
+    content: string;
+    fileName: string;
+    provider?: string;
+    redactPii?: boolean;
+    language?: ResumeLanguage;
+    userId?: string; // picks the prompt variant in experiments and is billed for the usage
+    ensemble?: boolean; // ask several providers and reconcile their answers
+    onDelta?: AIStreamHandler; // receives the reply as it is generated; ignored for ensembles
+    sourceId?: string; // resume being analyzed, recorded on results reused from it later
+    sections?: Record<string, string>; // parsed section texts, for reusing unchanged sections
+  }): Promise<ResumeAnalysisResult> {
+    const { fileName, provider, language, userId, ensemble, sourceId } = options;
+    // Interleaved replies from several providers can't be shown as one stream
+    const onDelta = ensemble ? undefined : options.onDelta;
+
+    const redaction = this.redact(options.content, options.redactPii);
+    const content = redaction ? redaction.text : options.content;
+    const withRedactions = (result: ResumeAnalysisResult): ResumeAnalysisResult =>
+      redaction
+        ? { ...this.restore(result, redaction), piiRedaction: { applied: true, redactions: redaction.redactions } }
+        : result;
+
+    const prompt = await this.resolvePrompt('resume_analysis', userId);
+    const cacheKey = this.generateCacheKey('analysis', content, { fileName, provider, language, ensemble, prompt: prompt.ref.version });
     
     // Try cache first
     if (this.cacheEnabled) {
       const cached = await this.getFromCache(cacheKey);
       if (cached) {
         this.logger.debug('Returning cached analysis result');
-        return cached;
+        return withRedactions(cached);
       }
     }
 
+    // Ensembles are reconciled as a whole, so their sections can't be reused one by one
+    const sections = options.sections && !ensemble
+      ? Object.fromEntries(
+          Object.entries(options.sections)
+            .filter(([, text]) => text?.trim())
+            .map(([name, text]) => [
+              name,
+              redaction ? this.piiRedactionService.applyPlaceholders(text, redaction.placeholders) : text,
+            ]),
+        )
+      : undefined;
+    const semantic = await this.findSemantic(
+      'analysis',
+      userId,
+      { provider, language, ensemble, redactPii: Boolean(redaction), prompt: prompt.ref.version },
+      [content],
+      sections,
+    );
+    const hit = semantic?.hit;
+    const reused: ResumeAnalysisResult | null = hit ? await this.getFromCache(hit.entry.cacheKey) : null;
+    const changedSections = hit?.reusedSections ? Object.keys(sections!).filter(name => !hit.reusedSections!.includes(name)) : [];
+    if (hit && reused && !changedSections.length) {
+      this.logger.debug(`Returning analysis of similar resume ${hit.entry.sourceId || 'from cache'}`);
+      return withRedactions({ ...reused, cache: this.provenance(hit) });
+    }
+    // Only the changed sections go to the provider; the rest of the earlier analysis is kept
+    const partial = hit && reused ? hit : null;
+    const analyzedContent = partial
+      ? changedSections.map(name => `${name.toUpperCase()}\n${sections![name]}`).join('\n\n')
+      : content;
+
+    const store = async (result: ResumeAnalysisResult) => {
+      if (this.cacheEnabled) {
+        await this.setCache(cacheKey, { ...result, cache: { source: 'exact', ...(sourceId && { sourceId }) } });
+        await semantic?.remember(cacheKey, sourceId);
+      }
+    };
+    const finish = async (fresh: ResumeAnalysisResult): Promise<ResumeAnalysisResult> => {
+      const result = partial
+        ? { ...this.semanticCache!.mergeAnalyses(reused!, fresh, partial), cache: this.provenance(partial) }
+        : fresh;
+      await store(result);
+      return withRedactions(result);
+    };
+
     // Use specific provider if requested, otherwise use all in priority order
-    const providers = provider ? 
-      this.providers.filter(p => p.name.toLowerCase() === provider.toLowerCase()) :
-      this.getHealthyProviders();
+    const providers = provider ? this.getRequestedProviders(provider) : this.getHealthyProviders();
+    const tokens = this.estimateTokens(analyzedContent);
+    const analyze = async (prov: AIProvider): Promise<ResumeAnalysisResult> => ({
+      ...(await prov.analyze(analyzedContent, {
+        fileName,
+        ...(language && { language }),
+        ...(prompt.template && { promptTemplate: prompt.template }),
+        ...(onDelta && { onDelta }),
+      })),
+      ...(prompt.template && { promptTemplate: prompt.ref }),
+    });
+
+    if (ensemble) {
+      // A requested provider leads the ensemble; the other healthy providers fill the remaining seats
+      const members = [...providers, ...this.getHealthyProviders().filter(p => !providers.includes(p))];
+      const result = await this.runEnsemble(members, 'analysis', tokens, userId, analyze, answers =>
+        this.ensembleReconciler.reconcileAnalyses(answers),
+      );
+      return finish(result);
+    }
 
     // Try providers in order of priority
     for (const prov of providers) {
+      const admittedAs = await this.admit(prov, providers, tokens);
+      if (!admittedAs) {
+        continue;
+      }
+
+      // Only the provider call itself counts against the provider; our own post-processing failing must not fail over
+      let result: ResumeAnalysisResult;
       try {
         this.logger.log(`Attempting analysis with ${prov.name}`);
-        const result = await prov.analyze(content, { fileName });
-        
-        // Cache successful result
-        if (this.cacheEnabled) {
-          await this.setCache(cacheKey, result);
-        }
-
-        // Track usage for cost optimization
-        await this.trackUsage(prov.name, 'analysis', this.estimateTokens(content), prov.costPerToken);
-        
-        return result;
-
+        result = await analyze(prov);
       } catch (error: any) {
         this.logger.warn(`${prov.name} analysis failed: ${error?.message || 'Unknown error'}`);
-        prov.isHealthy = false;
+        await this.circuitBreaker.recordFailure(prov.name, admittedAs);
         
         // Continue to next provider
         continue;
       }
+
+      await this.circuitBreaker.recordSuccess(prov.name, admittedAs);
+
+      // Track usage for cost optimization
+      await this.trackUsage(prov.name, 'analysis', tokens, prov.costPerToken, userId);
+
+      return finish(result);
     }
 
     throw new Error('All AI providers failed for resume analysis');
   }
 
-  async analyzeText(options: { prompt: string; provider?: string; maxTokens?: number }): Promise<{ text: string }> {
-    const { prompt, provider, maxTokens } = options;
+  async analyzeText(options: {
+    prompt: string;
+    provider?: string;
+    maxTokens?: number;
+    userId?: string; // who the usage is billed to
+    redactPii?: boolean; // the prompt quotes a resume
+  }): Promise<{ text: string }> {
+    const { provider, maxTokens, userId } = options;
+    const redaction = this.redact(options.prompt, options.redactPii);
+    const prompt = redaction ? redaction.text : options.prompt;
     const cacheKey = this.generateCacheKey('text-analysis', prompt, { provider, maxTokens });
     
     // Try cache first
@@ -94,116 +225,184 @@ export class AIProviderService {
       const cached = await this.getFromCache(cacheKey);
       if (cached) {
         this.logger.debug('Returning cached text analysis result');
-        return cached;
+        return this.restore(cached, redaction);
       }
     }
 
     // Use specific provider if requested, otherwise use all in priority order
-    const providers = provider ? 
-      this.providers.filter(p => p.name.toLowerCase() === provider.toLowerCase()) :
-      this.getHealthyProviders();
+    const providers = provider ? this.getRequestedProviders(provider) : this.getHealthyProviders();
+    const tokens = this.estimateTokens(prompt);
 
     // Try providers in order of priority
     for (const prov of providers) {
+      const admittedAs = await this.admit(prov, providers, tokens);
+      if (!admittedAs) {
+        continue;
+      }
+
+      let result: ResumeAnalysisResult;
       try {
         this.logger.log(`Attempting text analysis with ${prov.name}`);
         
         // For simple text analysis, we'll use the analyze method with appropriate options
-        const result = await prov.analyze(prompt, { maxTokens, mode: 'text' });
-        
-        // Cache successful result
-        if (this.cacheEnabled) {
-          await this.setCache(cacheKey, result);
-        }
-
-        // Track usage
-        await this.trackUsage(prov.name, 'text-analysis', this.estimateTokens(prompt), prov.costPerToken);
-        
-        return { text: result.suggestions?.[0] || result.text || 'Analysis completed' };
-
+        result = await prov.analyze(prompt, { maxTokens, mode: 'text' });
       } catch (error: any) {
         this.logger.warn(`${prov.name} text analysis failed: ${error?.message || 'Unknown error'}`);
-        prov.isHealthy = false;
+        await this.circuitBreaker.recordFailure(prov.name, admittedAs);
         continue;
       }
+
+      await this.circuitBreaker.recordSuccess(prov.name, admittedAs);
+
+      // Cache successful result
+      if (this.cacheEnabled) {
+        await this.setCache(cacheKey, result);
+      }
+
+      // Track usage
+      await this.trackUsage(prov.name, 'text-analysis', tokens, prov.costPerToken, userId);
+
+      return this.restore({ text: result.suggestions?.[0] || result.text || 'Analysis completed' }, redaction);
     }
 
     throw new Error('All AI providers failed for text analysis');
   }
 
-  async generateSuggestions(resumeText: string, jobDescription?: string, options?: any): Promise<string[]> {
-    const cacheKey = this.generateCacheKey('suggestions', resumeText + (jobDescription || ''), options);
+  async generateSuggestions(originalResumeText: string, jobDescription?: string, options?: any): Promise<string[]> {
+    const { userId, redactPii, ...providerOptions } = options || {};
+    const redaction = this.redact(originalResumeText, redactPii);
+    const resumeText = redaction ? redaction.text : originalResumeText;
+    const prompt = await this.resolvePrompt('resume_suggestions', userId);
+    const cacheKey = this.generateCacheKey('suggestions', resumeText + (jobDescription || ''), { ...providerOptions, prompt: prompt.ref.version });
     
     // Try cache first
     if (this.cacheEnabled) {
       const cached = await this.getFromCache(cacheKey);
       if (cached) {
         this.logger.debug('Returning cached suggestions');
-        return cached;
+        return this.restore(cached, redaction);
       }
     }
 
+    const providers = this.getHealthyProviders();
+    const tokens = this.estimateTokens(resumeText + (jobDescription || ''));
+
     // Try providers in order of priority
-    for (const provider of this.getHealthyProviders()) {
+    for (const provider of providers) {
+      const admittedAs = await this.admit(provider, providers, tokens);
+      if (!admittedAs) {
+        continue;
+      }
+
+      let result: string[];
       try {
         this.logger.log(`Generating suggestions with ${provider.name}`);
-        const result = await provider.generateSuggestions(resumeText, jobDescription, options);
-        
-        // Cache successful result
-        if (this.cacheEnabled) {
-          await this.setCache(cacheKey, result);
-        }
-
-        // Track usage
-        const totalText = resumeText + (jobDescription || '');
-        await this.trackUsage(provider.name, 'suggestions', this.estimateTokens(totalText), provider.costPerToken);
-        
-        return result;
-
+        result = await provider.generateSuggestions(
+          resumeText,
+          jobDescription,
+          this.withPromptTemplate(options && providerOptions, prompt),
+        );
       } catch (error: any) {
         this.logger.warn(`${provider.name} suggestions failed: ${error?.message || 'Unknown error'}`);
-        provider.isHealthy = false;
+        await this.circuitBreaker.recordFailure(provider.name, admittedAs);
         continue;
       }
+
+      await this.circuitBreaker.recordSuccess(provider.name, admittedAs);
+
+      // Cache successful result
+      if (this.cacheEnabled) {
+        await this.setCache(cacheKey, result);
+      }
+
+      // Track usage
+      await this.trackUsage(provider.name, 'suggestions', tokens, provider.costPerToken, userId);
+
+      return this.restore(result, redaction);
     }
 
     throw new Error('All AI providers failed for suggestion generation');
   }
 
-  async matchJobDescription(resumeText: string, jobDescription: string, options?: any): Promise<JDMatchResult> {
-    const cacheKey = this.generateCacheKey('matching', resumeText + jobDescription, options);
+  async matchJobDescription(originalResumeText: string, jobDescription: string, options?: any): Promise<JDMatchResult> {
+    const { userId, ensemble, sourceId, redactPii, ...providerOptions } = options || {};
+    const redaction = this.redact(originalResumeText, redactPii);
+    const resumeText = redaction ? redaction.text : originalResumeText;
+    if (ensemble) {
+      delete providerOptions.onDelta;
+    }
+    const prompt = await this.resolvePrompt('jd_matching', userId);
+    const cacheOptions = { ...providerOptions, ensemble, redactPii: Boolean(redaction), prompt: prompt.ref.version };
+    const cacheKey = this.generateCacheKey('matching', resumeText + jobDescription, cacheOptions);
     
     // Try cache first
     if (this.cacheEnabled) {
       const cached = await this.getFromCache(cacheKey);
       if (cached) {
         this.logger.debug('Returning cached matching result');
-        return cached;
+        return this.restore(cached, redaction);
       }
     }
 
+    // Both the resume and the job description have to be close to an earlier match
+    const semantic = await this.findSemantic('matching', userId, cacheOptions, [resumeText, jobDescription]);
+    const reused: JDMatchResult | null = semantic?.hit ? await this.getFromCache(semantic.hit.entry.cacheKey) : null;
+    if (semantic?.hit && reused) {
+      this.logger.debug(`Returning match of similar inputs ${semantic.hit.entry.sourceId || 'from cache'}`);
+      return this.restore({ ...reused, cache: this.provenance(semantic.hit) }, redaction);
+    }
+    const store = async (result: JDMatchResult) => {
+      if (this.cacheEnabled) {
+        await this.setCache(cacheKey, { ...result, cache: { source: 'exact', ...(sourceId && { sourceId }) } });
+        await semantic?.remember(cacheKey, sourceId);
+      }
+    };
+
+    const providers = this.getHealthyProviders();
+    const tokens = this.estimateTokens(resumeText + jobDescription);
+    const match = async (provider: AIProvider): Promise<JDMatchResult> => ({
+      ...(await provider.matchJobDescription(
+        resumeText,
+        jobDescription,
+        this.withPromptTemplate(options && providerOptions, prompt),
+      )),
+      ...(prompt.template && { promptTemplate: prompt.ref }),
+    });
+
+    if (ensemble) {
+      const result = await this.runEnsemble(providers, 'matching', tokens, userId, match, answers =>
+        this.ensembleReconciler.reconcileMatches(answers),
+      );
+      await store(result);
+      return this.restore(result, redaction);
+    }
+
     // Try providers in order of priority
-    for (const provider of this.getHealthyProviders()) {
+    for (const provider of providers) {
+      const admittedAs = await this.admit(provider, providers, tokens);
+      if (!admittedAs) {
+        continue;
+      }
+
+      let result: JDMatchResult;
       try {
         this.logger.log(`Job matching with ${provider.name}`);
-        const result = await provider.matchJobDescription(resumeText, jobDescription, options);
-        
-        // Cache successful result
-        if (this.cacheEnabled) {
-          await this.setCache(cacheKey, result);
-        }
-
-        // Track usage
-        const totalText = resumeText + jobDescription;
-        await this.trackUsage(provider.name, 'matching', this.estimateTokens(totalText), provider.costPerToken);
-        
-        return result;
-
+        result = await match(provider);
       } catch (error: any) {
         this.logger.warn(`${provider.name} matching failed: ${error?.message || 'Unknown error'}`);
-        provider.isHealthy = false;
+        await this.circuitBreaker.recordFailure(provider.name, admittedAs);
         continue;
       }
+
+      await this.circuitBreaker.recordSuccess(provider.name, admittedAs);
+
+      // Cache successful result
+      await store(result);
+
+      // Track usage
+      await this.trackUsage(provider.name, 'matching', tokens, provider.costPerToken, userId);
+
+      return this.restore(result, redaction);
     }
 
     throw new Error('All AI providers failed for job description matching');
@@ -229,21 +428,208 @@ export class AIProviderService {
     
     for (const provider of this.providers) {
       provider.isHealthy = true;
+      await this.circuitBreaker.reset(provider.name);
+    }
+  }
+
+  /**
+   * Checks rate limits and the circuit breaker before a call. Returns the circuit
+   * state the call was admitted under, or null to move on to the next provider.
+   * Only the last provider in line waits for its rate limit to free up.
+   */
+  private async admit(provider: AIProvider, providers: AIProvider[], tokens: number): Promise<CircuitState | null> {
+    const hasFallback = providers.indexOf(provider) < providers.length - 1;
+    const limit = await this.rateLimiter.acquire(provider.name, tokens, hasFallback);
+    if (!limit.allowed) {
+      this.logger.debug(`Skipping ${provider.name}: ${limit.reason === 'spend_cap' ? 'daily spend cap reached' : 'rate limit'}`);
+      return null;
+    }
+
+    // The call is never sent, so the reservation goes back for the next one
+    const admittedAs = await this.circuitBreaker.tryAcquire(provider.name);
+    if (!admittedAs) {
+      this.logger.debug(`Skipping ${provider.name}: circuit open`);
+      await this.rateLimiter.refund(provider.name, tokens);
+    }
+    return admittedAs;
+  }
+
+  /**
+   * Sends the same request to the first few admitted providers at once and
+   * merges their answers. Failed providers are left out; when only one answers,
+   * its result is returned unchanged.
+   */
+  private async runEnsemble<T extends { ensemble?: EnsembleSummary }>(
+    providers: AIProvider[],
+    operation: string,
+    tokens: number,
+    userId: string | undefined,
+    call: (provider: AIProvider) => Promise<T>,
+    reconcile: (answers: ProviderAnswer<T>[]) => T,
+  ): Promise<T> {
+    const members: { provider: AIProvider; admittedAs: CircuitState }[] = [];
+    for (const provider of providers) {
+      if (members.length >= this.ensembleReconciler.size) {
+        break;
+      }
+      const admittedAs = await this.admit(provider, providers, tokens);
+      if (admittedAs) {
+        members.push({ provider, admittedAs });
+      }
     }
+
+    this.logger.log(`Running ${operation} ensemble with ${members.map(m => m.provider.name).join(', ')}`);
+    const outcomes = await Promise.allSettled(members.map(({ provider }) => call(provider)));
+
+    const answers: ProviderAnswer<T>[] = [];
+    for (let i = 0; i < members.length; i++) {
+      const { provider, admittedAs } = members[i];
+      const outcome = outcomes[i];
+      if (outcome.status === 'fulfilled') {
+        await this.circuitBreaker.recordSuccess(provider.name, admittedAs);
+        await this.trackUsage(provider.name, operation, tokens, provider.costPerToken, userId);
+        answers.push({ provider: provider.name, result: outcome.value });
+      } else {
+        this.logger.warn(`${provider.name} ${operation} failed in ensemble: ${outcome.reason?.message || 'Unknown error'}`);
+        await this.circuitBreaker.recordFailure(provider.name, admittedAs);
+      }
+    }
+
+    if (!answers.length) {
+      throw new Error(`All AI providers failed for ${operation} ensemble`);
+    }
+    if (answers.length === 1) {
+      this.logger.warn(`Only ${answers[0].provider} answered the ${operation} ensemble; returning its result alone`);
+      return answers[0].result;
+    }
+
+    const result = reconcile(answers);
+    if (result.ensemble?.disagreements.length) {
+      this.logger.warn(`Ensemble ${operation} disagreement: ${result.ensemble.disagreements.join('; ')}`);
+    }
+    return result;
+  }
+
+  /**
+   * Swaps contact details in resume text for placeholders before it goes to a
+   * provider or the embedding model, unless PII redaction is off for the user
+   * (redactPii) or, when they haven't chosen, globally.
+   */
+  private redact(text: string, redactPii?: boolean): RedactedText | null {
+    return (redactPii ?? this.piiRedactionEnabled) ? this.piiRedactionService.redact(text) : null;
+  }
+
+  // Puts the original contact details back into a result produced from redacted text
+  private restore<T>(result: T, redaction: RedactedText | null): T {
+    return redaction ? this.piiRedactionService.restore(result, redaction.placeholders) : result;
+  }
+
+  // Falls back to the built-in prompts when the registry isn't wired up, e.g. in scripts and tests
+  private async resolvePrompt(name: PromptTemplateName, userId?: string): Promise<ResolvedPrompt> {
+    return this.promptRegistry ? this.promptRegistry.resolve(name, userId) : { ref: { name, version: 0 } };
   }
 
+  // Leaves the caller's options untouched unless a registry version replaces the built-in prompt
+  private withPromptTemplate<T extends object>(options: T | undefined, prompt: ResolvedPrompt): T | undefined {
+    return prompt.template ? { ...options, promptTemplate: prompt.template } as T : options;
+  }
+
+  // A specific provider was asked for; in mock mode the mock still answers first
+  private getRequestedProviders(provider: string): AIProvider[] {
+    const requested = this.providers.filter(p => p.name.toLowerCase() === provider.toLowerCase());
+    return this.mockProvider?.enabled && this.mockProvider.isHealthy && !requested.includes(this.mockProvider)
+      ? [this.mockProvider, ...requested]
+      : requested;
+  }
+
+  // isHealthy now only reflects configuration; runtime failures are handled by the circuit breaker
   private getHealthyProviders(): AIProvider[] {
     const healthy = this.providers.filter(p => p.isHealthy);
     
     if (healthy.length === 0) {
-      this.logger.warn('No healthy providers available, resetting health status');
-      this.resetProviderHealth();
+      this.logger.warn('No configured providers available, trying all providers');
       return this.providers;
     }
     
     return healthy;
   }
 
+  /**
+   * Embeds the inputs (and resume sections) and looks for an earlier result
+   * that is close enough to reuse. Null when the semantic cache is off, no
+   * provider can embed, or there is no user: results are only ever reused for
+   * the user they were produced for.
+   */
+  private async findSemantic(
+    operation: string,
+    userId: string | undefined,
+    options: object,
+    texts: string[],
+    sections?: Record<string, string>,
+  ): Promise<SemanticLookup | null> {
+    if (!this.semanticCache?.enabled || !this.cacheEnabled || !userId) {
+      return null;
+    }
+
+    const sectionNames = Object.keys(sections || {});
+    const embedded = await this.embed([...texts, ...sectionNames.map(name => sections![name])], userId);
+    if (!embedded) {
+      return null;
+    }
+
+    // Vectors from different models can't be compared
+    const scope = `${operation}:${userId}:${embedded.model}:${JSON.stringify(options)}`;
+    const embeddings = embedded.vectors.slice(0, texts.length);
+    const sectionData = sections && {
+      sections: Object.fromEntries(sectionNames.map((name, i) => [name, embedded.vectors[texts.length + i]])),
+      sectionLengths: Object.fromEntries(sectionNames.map(name => [name, sections[name].length])),
+    };
+
+    const hit = await this.semanticCache.lookup({ scope, embeddings, ...sectionData });
+    return {
+      hit,
+      remember: (cacheKey, sourceId) =>
+        this.semanticCache!.remember(scope, { cacheKey, ...(sourceId && { sourceId }), embeddings, ...sectionData }),
+    };
+  }
+
+  // Embeddings are metered and admitted like any other call, trying the next embedder when one is refused or fails
+  private async embed(texts: string[], userId?: string): Promise<{ model: string; vectors: number[][] } | null> {
+    const providers = this.getHealthyProviders().filter(p => p.embed && p.embeddingModel);
+    const inputs = texts.map(text => text.slice(0, MAX_EMBEDDING_CHARS));
+    const tokens = this.estimateTokens(inputs.join(''));
+
+    for (const provider of providers) {
+      const admittedAs = await this.admit(provider, providers, tokens);
+      if (!admittedAs) {
+        continue;
+      }
+
+      let vectors: number[][];
+      try {
+        vectors = await provider.embed!(inputs);
+        await this.circuitBreaker.recordSuccess(provider.name, admittedAs);
+      } catch (error: any) {
+        this.logger.warn(`${provider.name} embedding failed: ${error?.message || 'Unknown error'}`);
+        await this.circuitBreaker.recordFailure(provider.name, admittedAs);
+        continue;
+      }
+
+      await this.trackUsage(provider.name, 'embedding', tokens, provider.costPerToken, userId);
+      return { model: `${provider.name}:${provider.embeddingModel}`, vectors };
+    }
+    return null;
+  }
+
+  private provenance(hit: SemanticCacheHit): CacheProvenance {
+    return {
+      source: hit.reusedSections ? 'partial' : 'semantic',
+      ...(hit.entry.sourceId && { sourceId: hit.entry.sourceId }),
+      similarity: hit.similarity,
+      ...(hit.reusedSections && { reusedSections: hit.reusedSections }),
+    };
+  }
+
   private generateCacheKey(operation: string, text: string, options?: any): string {
     const content = text + JSON.stringify(options || {});
     const hash = crypto.createHash('sha256').update(content).digest('hex');
@@ -273,9 +659,15 @@ export class AIProviderService {
     return Math.ceil(text.length / 4);
   }
 
-  private async trackUsage(provider: string, operation: string, tokens: number, costPerToken: number): Promise<void> {
+  private async trackUsage(
+    provider: string,
+    operation: string,
+    tokens: number,
+    costPerToken: number,
+    userId?: string,
+  ): Promise<void> {
+    const cost = (tokens / 1000) * costPerToken;
     try {
-      const cost = (tokens / 1000) * costPerToken;
       const date = new Date().toISOString().split('T')[0];
       const usageKey = `ai:usage:${provider}:${date}`;
       
@@ -287,6 +679,11 @@ export class AIProviderService {
     } catch (error) {
       this.logger.error('Usage tracking failed', error);
     }
+
+    // System jobs have no user to bill
+    if (userId && this.usageMetering) {
+      await this.usageMetering.record({ userId, operation, provider, tokens, cost });
+    }
   }
 
   private logProviderStatus(): void {
@@ -320,6 +717,7 @@ export class AIProviderService {
               analysis: parseInt(usage.analysis || '0'),
               suggestions: parseInt(usage.suggestions || '0'),
               matching: parseInt(usage.matching || '0'),
+              embedding: parseInt(usage.embedding || '0'),
             },
           });
           
@@ -0,0 +1,211 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  EnsembleSummary,
+  ExtractedSkill,
+  JDMatchResult,
+  ResumeAnalysisResult,
+  SkillMatch,
+} from '../interfaces/ai-provider.interface';
+
+export type EnsembleScoreStrategy = 'median' | 'mean';
+export type EnsembleSkillStrategy = 'union' | 'intersection';
+
+export interface ProviderAnswer<T> {
+  provider: string;
+  result: T; // answers come in provider priority order
+}
+
+/**
+ * Merges the answers of several providers into one result:
+ *
+ * - scores are combined with the median (default) or mean
+ * - skills are kept when any provider found them (union, default) or only
+ *   when all of them did (intersection)
+ * - agreement is the average of how close the scores are and how much the
+ *   skill lists overlap; it scales the result's confidence
+ * - score gaps above the disagreement threshold are flagged for review
+ *
+ * Free-text parts (personal info, experience, summary) come from the
+ * highest-priority provider; lists of suggestions are merged without duplicates.
+ */
+@Injectable()
+export class EnsembleReconcilerService {
+  readonly size: number;
+  private readonly scoreStrategy: EnsembleScoreStrategy;
+  private readonly skillStrategy: EnsembleSkillStrategy;
+  private readonly disagreementThreshold: number;
+
+  constructor(private configService: ConfigService) {
+    this.size = Math.max(parseInt(this.configService.get('AI_ENSEMBLE_SIZE', '2')), 2);
+    this.scoreStrategy = this.configService.get('AI_ENSEMBLE_SCORE_STRATEGY', 'median') === 'mean' ? 'mean' : 'median';
+    this.skillStrategy = this.configService.get('AI_ENSEMBLE_SKILL_STRATEGY', 'union') === 'intersection' ? 'intersection' : 'union';
+    this.disagreementThreshold = parseFloat(this.configService.get('AI_ENSEMBLE_DISAGREEMENT_THRESHOLD', '15'));
+  }
+
+  reconcileAnalyses(answers: ProviderAnswer<ResumeAnalysisResult>[]): ResumeAnalysisResult {
+    const [primary] = answers;
+    const skillLists = answers.map(answer => answer.result.skills.map(skill => skill.name));
+    const skills = this.mergeByName(
+      answers.map(answer => answer.result.skills),
+      skill => skill.name,
+      (found): ExtractedSkill => {
+        const years = found.map(skill => skill.yearsExperience).filter((value): value is number => value != null);
+        return {
+          ...found[0],
+          // A skill only one of two providers saw is half as certain
+          confidence: this.round(this.mean(found.map(skill => skill.confidence)) * (found.length / answers.length)),
+          yearsExperience: years.length ? this.median(years) : found[0].yearsExperience,
+        };
+      },
+    );
+
+    const summary = this.summarize(answers, answer => answer.result.atsScore, skillLists, 'ATS scores');
+    return {
+      ...primary.result,
+      atsScore: Math.round(this.combine(answers.map(answer => answer.result.atsScore))),
+      skills,
+      suggestions: this.mergeText(answers.map(answer => answer.result.suggestions)),
+      confidence: this.confidence(answers.map(answer => answer.result.confidence), summary.agreement),
+      processingTime: Math.max(...answers.map(answer => answer.result.processingTime)),
+      ensemble: summary,
+    };
+  }
+
+  reconcileMatches(answers: ProviderAnswer<JDMatchResult>[]): JDMatchResult {
+    const [primary] = answers;
+    const skillLists = answers.map(answer => answer.result.skillMatches.map(match => match.skill));
+    const skillMatches = this.mergeByName(
+      answers.map(answer => answer.result.skillMatches),
+      match => match.skill,
+      (found): SkillMatch => {
+        const gaps = found.map(match => match.gap).filter((value): value is number => value != null);
+        return {
+          skill: found[0].skill,
+          resumeStrength: Math.round(this.combine(found.map(match => match.resumeStrength))),
+          jdRequirement: Math.round(this.combine(found.map(match => match.jdRequirement))),
+          isMatch: found.filter(match => match.isMatch).length * 2 >= found.length,
+          ...(gaps.length && { gap: Math.round(this.combine(gaps)) }),
+        };
+      },
+    );
+
+    const summary = this.summarize(answers, answer => answer.result.overallScore, skillLists, 'Match scores');
+    const contested = skillMatches
+      .filter(match => {
+        const verdicts = answers
+          .map(answer => answer.result.skillMatches.find(other => this.key(other.skill) === this.key(match.skill)))
+          .filter((other): other is SkillMatch => !!other)
+          .map(other => other.isMatch);
+        return verdicts.includes(true) && verdicts.includes(false);
+      })
+      .map(match => match.skill);
+    if (contested.length) {
+      summary.disagreements.push(`Providers disagree on whether the resume covers: ${contested.join(', ')}`);
+    }
+
+    return {
+      ...primary.result,
+      overallScore: Math.round(this.combine(answers.map(answer => answer.result.overallScore))),
+      skillMatches,
+      missingSkills: this.mergeSets(answers.map(answer => answer.result.missingSkills)),
+      strengthAreas: this.mergeText(answers.map(answer => answer.result.strengthAreas)),
+      improvementAreas: this.mergeText(answers.map(answer => answer.result.improvementAreas)),
+      recommendations: this.mergeText(answers.map(answer => answer.result.recommendations)),
+      confidence: this.confidence(answers.map(answer => answer.result.confidence), summary.agreement),
+      ensemble: summary,
+    };
+  }
+
+  private summarize<T>(
+    answers: ProviderAnswer<T>[],
+    scoreOf: (answer: ProviderAnswer<T>) => number,
+    skillLists: string[][],
+    scoreLabel: string,
+  ): EnsembleSummary {
+    const scores = Object.fromEntries(answers.map(answer => [answer.provider, scoreOf(answer)]));
+    const values = Object.values(scores);
+    const spread = Math.max(...values) - Math.min(...values);
+
+    const skillSets = skillLists.map(list => new Set(list.map(name => this.key(name))));
+    const allSkills = new Set(skillSets.flatMap(set => [...set]));
+    const sharedSkills = [...allSkills].filter(skill => skillSets.every(set => set.has(skill)));
+    // Two empty skill lists agree perfectly
+    const skillAgreement = allSkills.size ? sharedSkills.length / allSkills.size : 1;
+
+    const disagreements: string[] = [];
+    if (spread > this.disagreementThreshold) {
+      const detail = answers.map(answer => `${answer.provider} ${scores[answer.provider]}`).join(', ');
+      disagreements.push(`${scoreLabel} differ by ${spread} points (${detail})`);
+    }
+    if (skillAgreement < 0.5) {
+      disagreements.push(`Providers agree on only ${sharedSkills.length} of ${allSkills.size} skills`);
+    }
+
+    return {
+      providers: answers.map(answer => answer.provider),
+      scores,
+      agreement: this.round(((1 - Math.min(spread, 100) / 100) + skillAgreement) / 2),
+      disagreements,
+    };
+  }
+
+  // Groups items from every provider by name and merges each group, keeping first-seen order
+  private mergeByName<T>(lists: T[][], nameOf: (item: T) => string, merge: (found: T[]) => T): T[] {
+    const groups = new Map<string, T[]>();
+    for (const list of lists) {
+      const seen = new Set<string>();
+      for (const item of list) {
+        const key = this.key(nameOf(item));
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        groups.set(key, [...(groups.get(key) || []), item]);
+      }
+    }
+
+    return [...groups.values()]
+      .filter(found => this.skillStrategy === 'union' || found.length === lists.length)
+      .map(merge);
+  }
+
+  private mergeSets(lists: string[][]): string[] {
+    return this.mergeByName(lists, item => item, found => found[0]);
+  }
+
+  // Free text is never intersected: two providers rarely word the same advice the same way
+  private mergeText(lists: string[][]): string[] {
+    const seen = new Set<string>();
+    return lists.flat().filter(item => {
+      const key = this.key(item);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private combine(values: number[]): number {
+    return this.scoreStrategy === 'mean' ? this.mean(values) : this.median(values);
+  }
+
+  private confidence(confidences: number[], agreement: number): number {
+    return this.round(this.mean(confidences) * agreement);
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private key(name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
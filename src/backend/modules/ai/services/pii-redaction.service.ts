@@ -0,0 +1,97 @@
+import { Injectable } from '@nestjs/common';
+import { PiiRedaction, PiiType } from '../interfaces/ai-provider.interface';
+
+export interface RedactedText {
+  text: string;
+  redactions: PiiRedaction[];
+  placeholders: Record<string, string>; // placeholder -> original value
+}
+
+// Applied in order: emails first so their local parts are not picked up as names or numbers
+const PII_PATTERNS: { type: PiiType; pattern: RegExp }[] = [
+  { type: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { type: 'linkedin', pattern: /(?:https?:\/\/)?(?:www\.)?linkedin\.com\/in\/[A-Za-z0-9_-]+\/?/gi },
+  {
+    type: 'address',
+    pattern:
+      /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Parkway|Pkwy)\b\.?(?:,?\s+(?:Apt|Suite|Unit|#)\.?\s*[\w-]+)?/g,
+  },
+  { type: 'phone', pattern: /(?:\+?\d{1,3}[-.\s]?)?\(?\b\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g },
+];
+
+// Same heuristic as FileParserService.extractMetadata: a capitalised first line is the candidate's name
+const NAME_LINE_PATTERN = /^[A-Z][a-zA-Z'-]+(?: [A-Z][a-zA-Z'.-]*){1,3}$/;
+
+@Injectable()
+export class PiiRedactionService {
+  /**
+   * Replaces contact details with placeholders such as [EMAIL_1]. Repeated
+   * values share one placeholder and numbering follows order of appearance,
+   * so the same resume always redacts to the same text.
+   */
+  redact(text: string): RedactedText {
+    const placeholders: Record<string, string> = {};
+    const byValue = new Map<string, PiiRedaction>();
+    const counters: Partial<Record<PiiType, number>> = {};
+
+    const replace = (type: PiiType, value: string): string => {
+      const key = `${type}:${this.normalize(type, value)}`;
+      let redaction = byValue.get(key);
+
+      if (!redaction) {
+        counters[type] = (counters[type] || 0) + 1;
+        redaction = { type, placeholder: `[${type.toUpperCase()}_${counters[type]}]`, occurrences: 0 };
+        byValue.set(key, redaction);
+        placeholders[redaction.placeholder] = value;
+      }
+
+      redaction.occurrences++;
+      return redaction.placeholder;
+    };
+
+    let redacted = text;
+    for (const { type, pattern } of PII_PATTERNS) {
+      redacted = redacted.replace(pattern, match => replace(type, match));
+    }
+
+    const firstLine = redacted.split('\n').map(line => line.trim()).find(Boolean);
+    const name = firstLine?.split(/\s+[|•·–—-]\s+|,\s*/)[0].trim();
+    if (name && NAME_LINE_PATTERN.test(name)) {
+      const namePattern = new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
+      redacted = redacted.replace(namePattern, match => replace('name', match));
+    }
+
+    return { text: redacted, redactions: [...byValue.values()], placeholders };
+  }
+
+  // Redacts part of an already redacted document with that document's placeholders, so both agree
+  applyPlaceholders(text: string, placeholders: Record<string, string>): string {
+    return Object.entries(placeholders)
+      .sort(([, a], [, b]) => b.length - a.length)
+      .reduce((redacted, [placeholder, value]) => redacted.split(value).join(placeholder), text);
+  }
+
+  // Puts the original values back into every string of a provider result
+  restore<T>(value: T, placeholders: Record<string, string>): T {
+    if (typeof value === 'string') {
+      return value.replace(/\[(?:NAME|EMAIL|PHONE|LINKEDIN|ADDRESS)_\d+\]/g, placeholder =>
+        placeholders[placeholder] ?? placeholder,
+      ) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.restore(item, placeholders)) as T;
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.restore(item, placeholders)]),
+      ) as T;
+    }
+    return value;
+  }
+
+  private normalize(type: PiiType, value: string): string {
+    if (type === 'phone') return value.replace(/\D/g, '').slice(-10);
+    if (type === 'linkedin') return value.toLowerCase().replace(/^(?:https?:\/\/)?(?:www\.)?/, '').replace(/\/$/, '');
+    return value.toLowerCase().replace(/\s+/g, ' ');
+  }
+}
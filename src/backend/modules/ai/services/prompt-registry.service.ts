@@ -0,0 +1,162 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { PromptTemplate } from '../../../database/entities/prompt-template.entity';
+import { PromptTemplateRef } from '../interfaces/ai-provider.interface';
+import {
+  PROMPT_TEMPLATE_DEFINITIONS,
+  PromptTemplateDefinition,
+  PromptTemplateName,
+  isPromptTemplateName,
+  validatePromptTemplate,
+} from '../prompts/prompt-template';
+
+export interface ResolvedPrompt {
+  template?: string; // undefined when the provider's built-in prompt should be used
+  ref: PromptTemplateRef;
+}
+
+export interface PromptTemplateSummary extends PromptTemplateDefinition {
+  name: PromptTemplateName;
+  versions: PromptTemplate[]; // newest first
+}
+
+export interface CreatePromptVersionInput {
+  content: string;
+  description?: string;
+  trafficWeight?: number;
+}
+
+export interface UpdatePromptVersionInput {
+  description?: string;
+  trafficWeight?: number;
+}
+
+// Every instance re-reads live versions at least this often, so admin changes spread within a minute
+const LIVE_VERSIONS_TTL = 60 * 1000;
+
+@Injectable()
+export class PromptRegistryService {
+  private readonly logger = new Logger(PromptRegistryService.name);
+  private liveVersions?: { loadedAt: number; byName: Map<string, PromptTemplate[]> };
+
+  constructor(
+    @InjectRepository(PromptTemplate)
+    private promptTemplateRepository: Repository<PromptTemplate>,
+  ) {}
+
+  /**
+   * Picks the prompt a user gets. Without live versions the provider's built-in
+   * prompt is used (version 0). When several versions are live, a hash of the
+   * template name and user ID decides, so each user keeps getting the same variant.
+   */
+  async resolve(name: PromptTemplateName, userId?: string): Promise<ResolvedPrompt> {
+    try {
+      const live = (await this.getLiveVersions()).get(name) || [];
+      if (!live.length) {
+        return { ref: { name, version: 0 } };
+      }
+
+      const chosen = live.length === 1 ? live[0] : this.assign(live, name, userId);
+      return {
+        template: chosen.content,
+        ref: { name, version: chosen.version, ...(live.length > 1 && { experiment: true }) },
+      };
+    } catch (error) {
+      this.logger.error(`Failed to load prompt templates for ${name}, using the built-in prompt`, error);
+      return { ref: { name, version: 0 } };
+    }
+  }
+
+  async listTemplates(): Promise<PromptTemplateSummary[]> {
+    const versions = await this.promptTemplateRepository.find({ order: { name: 'ASC', version: 'DESC' } });
+
+    return (Object.keys(PROMPT_TEMPLATE_DEFINITIONS) as PromptTemplateName[]).map(name => ({
+      name,
+      ...PROMPT_TEMPLATE_DEFINITIONS[name],
+      versions: versions.filter(version => version.name === name),
+    }));
+  }
+
+  // Saves edited wording as the next version; it only goes live once it gets a traffic weight
+  async createVersion(name: string, input: CreatePromptVersionInput, userId?: string): Promise<PromptTemplate> {
+    if (!isPromptTemplateName(name)) {
+      throw new NotFoundException(`Unknown prompt template "${name}"`);
+    }
+
+    const problems = validatePromptTemplate(name, input.content);
+    if (problems.length) {
+      throw new BadRequestException(problems.join('; '));
+    }
+
+    const latest = await this.promptTemplateRepository.findOne({ where: { name }, order: { version: 'DESC' } });
+    const template = await this.promptTemplateRepository.save(
+      this.promptTemplateRepository.create({
+        name,
+        version: (latest?.version || 0) + 1,
+        content: input.content,
+        description: input.description,
+        trafficWeight: input.trafficWeight ?? 0,
+        createdBy: userId,
+      }),
+    );
+
+    this.liveVersions = undefined;
+    this.logger.log(`Created ${name} prompt v${template.version} (traffic weight ${template.trafficWeight})`);
+    return template;
+  }
+
+  async updateVersion(id: string, input: UpdatePromptVersionInput): Promise<PromptTemplate> {
+    const template = await this.promptTemplateRepository.findOne({ where: { id } });
+    if (!template) {
+      throw new NotFoundException(`Prompt template version ${id} not found`);
+    }
+
+    if (input.description !== undefined) template.description = input.description;
+    if (input.trafficWeight !== undefined) template.trafficWeight = input.trafficWeight;
+    const saved = await this.promptTemplateRepository.save(template);
+
+    this.liveVersions = undefined;
+    this.logger.log(`Updated ${saved.name} prompt v${saved.version} (traffic weight ${saved.trafficWeight})`);
+    return saved;
+  }
+
+  private async getLiveVersions(): Promise<Map<string, PromptTemplate[]>> {
+    if (this.liveVersions && Date.now() - this.liveVersions.loadedAt < LIVE_VERSIONS_TTL) {
+      return this.liveVersions.byName;
+    }
+
+    const live = await this.promptTemplateRepository.find({
+      where: { trafficWeight: MoreThan(0) },
+      order: { version: 'ASC' },
+    });
+    const byName = new Map<string, PromptTemplate[]>();
+    for (const template of live) {
+      byName.set(template.name, [...(byName.get(template.name) || []), template]);
+    }
+
+    this.liveVersions = { loadedAt: Date.now(), byName };
+    return byName;
+  }
+
+  // Users without an ID (e.g. system jobs) get the version with the most traffic
+  private assign(live: PromptTemplate[], name: string, userId?: string): PromptTemplate {
+    if (!userId) {
+      return live.reduce((heaviest, version) => (version.trafficWeight > heaviest.trafficWeight ? version : heaviest));
+    }
+
+    const totalWeight = live.reduce((sum, version) => sum + version.trafficWeight, 0);
+    const hash = crypto.createHash('sha256').update(`${name}:${userId}`).digest('hex');
+    const bucket = parseInt(hash.slice(0, 8), 16) % totalWeight;
+
+    let cumulative = 0;
+    for (const version of live) {
+      cumulative += version.trafficWeight;
+      if (bucket < cumulative) {
+        return version;
+      }
+    }
+    return live[live.length - 1];
+  }
+}
@@ -0,0 +1,231 @@
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../../config/redis.service';
+import { MetricsService } from '../../../common/services/metrics.service';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  openedAt?: Date;
+  retryAt?: Date; // when an open circuit lets the first probe through
+}
+
+/**
+ * Hands out a half-open probe slot in one step, switching an open circuit whose
+ * cooldown has passed to half_open first. Compare-and-set, so instances racing
+ * past the cooldown can't both reset the probe count. Probes hold their slot for
+ * a lease; a probe whose outcome never arrives (e.g. its worker died) gives its
+ * slot up once the lease runs out instead of keeping the circuit half open.
+ * Returns 0 when refused, 1 for a probe, 2 for a probe that switched the circuit
+ * to half_open, and 3 when another instance closed the circuit in the meantime.
+ *
+ * KEYS: circuit state hash
+ * ARGV: now (ms), cooldown (ms), probe slots, probe lease (ms)
+ */
+const PROBE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local state = redis.call('HGET', KEYS[1], 'state')
+local switched = 0
+
+if state == 'open' then
+  local openedAt = tonumber(redis.call('HGET', KEYS[1], 'openedAt')) or 0
+  if now - openedAt < tonumber(ARGV[2]) then
+    return 0
+  end
+  redis.call('HSET', KEYS[1], 'state', 'half_open', 'probes', 0)
+  switched = 1
+elseif state == 'half_open' then
+  local startedAt = tonumber(redis.call('HGET', KEYS[1], 'probeStartedAt')) or 0
+  if now - startedAt >= tonumber(ARGV[4]) then
+    redis.call('HSET', KEYS[1], 'probes', 0)
+  end
+else
+  return 3
+end
+
+local probes = redis.call('HINCRBY', KEYS[1], 'probes', 1)
+if probes > tonumber(ARGV[3]) then
+  return 0
+end
+if probes == 1 then
+  redis.call('HSET', KEYS[1], 'probeStartedAt', tostring(now))
+end
+return 1 + switched
+`;
+
+/**
+ * Per-provider circuit breaker. State lives in Redis so every API and worker
+ * instance skips a failing provider together:
+ *
+ * - closed: requests flow; once a window has enough requests and the failure
+ *   rate crosses the threshold, the circuit opens
+ * - open: requests are refused until the cooldown has passed
+ * - half_open: a limited number of probe requests go through; one success
+ *   closes the circuit, one failure re-opens it for another cooldown; probes
+ *   that never report back free their slot after AI_CIRCUIT_PROBE_LEASE_MS
+ *
+ * Redis errors fail open, so an outage there never takes the AI providers down with it.
+ */
+@Injectable()
+export class ProviderCircuitBreakerService {
+  private readonly logger = new Logger(ProviderCircuitBreakerService.name);
+  private readonly windowMs: number;
+  private readonly minRequests: number;
+  private readonly failureRate: number;
+  private readonly cooldownMs: number;
+  private readonly halfOpenProbes: number;
+  private readonly probeLeaseMs: number;
+
+  constructor(
+    private configService: ConfigService,
+    private redis: RedisService,
+    @Optional() private metricsService?: MetricsService,
+  ) {
+    this.windowMs = parseInt(this.configService.get('AI_CIRCUIT_WINDOW_MS', '60000'));
+    this.minRequests = parseInt(this.configService.get('AI_CIRCUIT_MIN_REQUESTS', '5'));
+    this.failureRate = parseFloat(this.configService.get('AI_CIRCUIT_FAILURE_RATE', '0.5'));
+    this.cooldownMs = parseInt(this.configService.get('AI_CIRCUIT_COOLDOWN_MS', '30000'));
+    this.halfOpenProbes = parseInt(this.configService.get('AI_CIRCUIT_HALF_OPEN_PROBES', '1'));
+    this.probeLeaseMs = parseInt(this.configService.get('AI_CIRCUIT_PROBE_LEASE_MS', '120000'));
+  }
+
+  /**
+   * Asks to send a request to the provider. Returns the state the request was
+   * admitted under (pass it back to recordSuccess/recordFailure), or null when
+   * the circuit is open or all half-open probe slots are taken.
+   */
+  async tryAcquire(provider: string): Promise<CircuitState | null> {
+    try {
+      const circuit = await this.redis.hgetall(this.stateKey(provider));
+      const state = (circuit?.state as CircuitState) || 'closed';
+      if (state === 'closed') {
+        return 'closed';
+      }
+
+      if (state === 'open' && Date.now() - Number(circuit.openedAt) < this.cooldownMs) {
+        return null;
+      }
+
+      const probe = await this.redis.eval(
+        PROBE_SCRIPT,
+        [this.stateKey(provider)],
+        [Date.now(), this.cooldownMs, this.halfOpenProbes, this.probeLeaseMs],
+      );
+      // null when Redis is unavailable
+      if (probe === null || Number(probe) === 3) {
+        return 'closed';
+      }
+      if (Number(probe) === 2) {
+        this.announce(provider, 'open', 'half_open');
+      }
+      return Number(probe) ? 'half_open' : null;
+    } catch (error) {
+      this.logger.error(`Circuit check failed for ${provider}, allowing request`, error);
+      return 'closed';
+    }
+  }
+
+  async recordSuccess(provider: string, admittedAs: CircuitState): Promise<void> {
+    try {
+      if (admittedAs === 'half_open') {
+        await this.transition(provider, 'half_open', 'closed');
+        return;
+      }
+      await this.countRequest(provider, false);
+    } catch (error) {
+      this.logger.error(`Failed to record success for ${provider}`, error);
+    }
+  }
+
+  async recordFailure(provider: string, admittedAs: CircuitState): Promise<void> {
+    try {
+      if (admittedAs === 'half_open') {
+        await this.transition(provider, 'half_open', 'open');
+        return;
+      }
+
+      const { requests, failures } = await this.countRequest(provider, true);
+      if (requests >= this.minRequests && failures / requests >= this.failureRate) {
+        await this.transition(provider, 'closed', 'open');
+      }
+    } catch (error) {
+      this.logger.error(`Failed to record failure for ${provider}`, error);
+    }
+  }
+
+  async getStatus(provider: string): Promise<CircuitStatus> {
+    try {
+      const circuit = await this.redis.hgetall(this.stateKey(provider));
+      const state = (circuit?.state as CircuitState) || 'closed';
+      if (state === 'closed') {
+        return { state };
+      }
+
+      const openedAt = Number(circuit.openedAt);
+      return {
+        state,
+        openedAt: new Date(openedAt),
+        ...(state === 'open' && { retryAt: new Date(openedAt + this.cooldownMs) }),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to read circuit state for ${provider}`, error);
+      return { state: 'closed' };
+    }
+  }
+
+  async reset(provider: string): Promise<void> {
+    try {
+      const { state } = await this.getStatus(provider);
+      if (state !== 'closed') {
+        await this.transition(provider, state, 'closed');
+      }
+    } catch (error) {
+      this.logger.error(`Failed to reset circuit for ${provider}`, error);
+    }
+  }
+
+  private async transition(provider: string, from: CircuitState, to: CircuitState): Promise<void> {
+    const key = this.stateKey(provider);
+
+    if (to === 'closed') {
+      await this.redis.del(key);
+      await this.redis.del(this.windowKey(provider));
+    } else {
+      await this.redis.hset(key, {
+        state: to,
+        openedAt: to === 'open' ? Date.now() : (await this.redis.hgetall(key))?.openedAt || Date.now(),
+        probes: 0,
+      });
+    }
+
+    this.announce(provider, from, to);
+  }
+
+  private announce(provider: string, from: CircuitState, to: CircuitState): void {
+    this.logger.warn(`Circuit for ${provider}: ${from} -> ${to}`);
+    this.metricsService?.recordCircuitTransition(provider, from, to);
+  }
+
+  private async countRequest(provider: string, failed: boolean): Promise<{ requests: number; failures: number }> {
+    const key = this.windowKey(provider);
+    const requests = await this.redis.hincrby(key, 'requests', 1);
+    const failures = failed
+      ? await this.redis.hincrby(key, 'failures', 1)
+      : Number((await this.redis.hgetall(key))?.failures || 0);
+
+    if (requests === 1) {
+      await this.redis.expire(key, Math.ceil(this.windowMs / 1000));
+    }
+    return { requests, failures };
+  }
+
+  private stateKey(provider: string): string {
+    return `ai:circuit:${provider}`;
+  }
+
+  // One counter per fixed window; the key expires with the window
+  private windowKey(provider: string): string {
+    return `ai:circuit:${provider}:window:${Math.floor(Date.now() / this.windowMs)}`;
+  }
+}
@@ -0,0 +1,209 @@
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../../config/redis.service';
+import { MetricsService } from '../../../common/services/metrics.service';
+
+export interface ProviderLimits {
+  rpm: number; // 0 = unlimited
+  tpm: number;
+  dailySpendCap: number; // USD
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  reason?: 'rate_limited' | 'spend_cap';
+  retryAfterMs?: number;
+}
+
+/**
+ * Takes from a request bucket and a token bucket in one step, so concurrent
+ * instances can't both spend the last unit. Buckets refill continuously over a
+ * minute. Returns 0 when the call was admitted, otherwise how long to wait.
+ *
+ * KEYS: request bucket, token bucket
+ * ARGV: now (ms), rpm, tpm, tokens for this call, headroom fraction to keep free
+ */
+const TAKE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local headroom = tonumber(ARGV[5])
+local buckets = {
+  { key = KEYS[1], capacity = tonumber(ARGV[2]), cost = 1 },
+  { key = KEYS[2], capacity = tonumber(ARGV[3]), cost = tonumber(ARGV[4]) },
+}
+local wait = 0
+
+for _, bucket in ipairs(buckets) do
+  if bucket.capacity > 0 then
+    local state = redis.call('HMGET', bucket.key, 'level', 'updatedAt')
+    local level = tonumber(state[1]) or bucket.capacity
+    local updatedAt = tonumber(state[2]) or now
+    level = math.min(bucket.capacity, level + math.max(0, now - updatedAt) * bucket.capacity / 60000)
+
+    local cost = math.min(bucket.cost, bucket.capacity)
+    local reserve = math.min(bucket.capacity * headroom, bucket.capacity - cost)
+    local missing = cost + reserve - level
+    if missing > 0 then
+      wait = math.max(wait, math.ceil(missing * 60000 / bucket.capacity))
+    end
+    bucket.level = level - cost
+  end
+end
+
+if wait > 0 then
+  return wait
+end
+
+for _, bucket in ipairs(buckets) do
+  if bucket.level then
+    redis.call('HSET', bucket.key, 'level', tostring(bucket.level), 'updatedAt', tostring(now))
+    redis.call('PEXPIRE', bucket.key, 60000)
+  end
+end
+return 0
+`;
+
+/**
+ * Puts what TAKE_SCRIPT took back, for calls that were admitted here but then
+ * refused elsewhere. Missing buckets are already full.
+ *
+ * KEYS: request bucket, token bucket
+ * ARGV: now (ms), rpm, tpm, tokens for this call
+ */
+const REFUND_SCRIPT = `
+local now = tonumber(ARGV[1])
+local buckets = {
+  { key = KEYS[1], capacity = tonumber(ARGV[2]), cost = 1 },
+  { key = KEYS[2], capacity = tonumber(ARGV[3]), cost = tonumber(ARGV[4]) },
+}
+
+for _, bucket in ipairs(buckets) do
+  if bucket.capacity > 0 and redis.call('EXISTS', bucket.key) == 1 then
+    local state = redis.call('HMGET', bucket.key, 'level', 'updatedAt')
+    local level = tonumber(state[1]) or bucket.capacity
+    local updatedAt = tonumber(state[2]) or now
+    level = level + math.max(0, now - updatedAt) * bucket.capacity / 60000 + math.min(bucket.cost, bucket.capacity)
+    redis.call('HSET', bucket.key, 'level', tostring(math.min(bucket.capacity, level)), 'updatedAt', tostring(now))
+    redis.call('PEXPIRE', bucket.key, 60000)
+  end
+end
+return 0
+`;
+
+/**
+ * Enforces per-provider requests/minute, tokens/minute and daily spend caps,
+ * configured as AI_<PROVIDER>_RPM, AI_<PROVIDER>_TPM and AI_<PROVIDER>_DAILY_SPEND_CAP.
+ *
+ * While another provider can take the call, a provider whose buckets are nearly
+ * empty (below AI_RATE_LIMIT_HEADROOM) is skipped so its quota is never actually
+ * hit. The last provider in line instead waits up to AI_RATE_LIMIT_MAX_WAIT_MS for
+ * its buckets to refill. Like the circuit breaker, Redis errors let calls through.
+ */
+@Injectable()
+export class ProviderRateLimiterService {
+  private readonly logger = new Logger(ProviderRateLimiterService.name);
+  private readonly headroom: number;
+  private readonly maxWaitMs: number;
+  private readonly limits = new Map<string, ProviderLimits>();
+
+  constructor(
+    private configService: ConfigService,
+    private redis: RedisService,
+    @Optional() private metricsService?: MetricsService,
+  ) {
+    this.headroom = parseFloat(this.configService.get('AI_RATE_LIMIT_HEADROOM', '0.1'));
+    this.maxWaitMs = parseInt(this.configService.get('AI_RATE_LIMIT_MAX_WAIT_MS', '5000'));
+  }
+
+  /**
+   * Reserves capacity for a call of roughly `tokens` tokens. Pass hasFallback when
+   * another provider could take the call instead of waiting for this one.
+   */
+  async acquire(provider: string, tokens: number, hasFallback: boolean): Promise<RateLimitDecision> {
+    const limits = this.getLimits(provider);
+
+    try {
+      if (limits.dailySpendCap > 0) {
+        const spent = await this.getSpentToday(provider);
+        if (spent >= limits.dailySpendCap) {
+          this.logger.warn(`${provider} reached its daily spend cap ($${spent.toFixed(2)} of $${limits.dailySpendCap})`);
+          return this.deny(provider, 'spend_cap');
+        }
+      }
+
+      if (!limits.rpm && !limits.tpm) {
+        return { allowed: true };
+      }
+
+      const deadline = Date.now() + this.maxWaitMs;
+      for (;;) {
+        const waitMs = await this.take(provider, limits, tokens, hasFallback ? this.headroom : 0);
+        if (!waitMs) {
+          return { allowed: true };
+        }
+        if (hasFallback || Date.now() + waitMs > deadline) {
+          return this.deny(provider, 'rate_limited', waitMs);
+        }
+
+        this.logger.debug(`${provider} rate limit reached, waiting ${waitMs}ms`);
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+      }
+    } catch (error) {
+      this.logger.error(`Rate limit check failed for ${provider}, allowing request`, error);
+      return { allowed: true };
+    }
+  }
+
+  // Gives back a reservation from acquire() for a call that was never sent
+  async refund(provider: string, tokens: number): Promise<void> {
+    const limits = this.getLimits(provider);
+    if (!limits.rpm && !limits.tpm) {
+      return;
+    }
+
+    try {
+      await this.redis.eval(
+        REFUND_SCRIPT,
+        [`ai:ratelimit:${provider}:requests`, `ai:ratelimit:${provider}:tokens`],
+        [Date.now(), limits.rpm, limits.tpm, tokens],
+      );
+    } catch (error) {
+      this.logger.error(`Rate limit refund failed for ${provider}`, error);
+    }
+  }
+
+  getLimits(provider: string): ProviderLimits {
+    let limits = this.limits.get(provider);
+    if (!limits) {
+      const prefix = `AI_${provider.toUpperCase()}`;
+      limits = {
+        rpm: parseInt(this.configService.get(`${prefix}_RPM`, '0')) || 0,
+        tpm: parseInt(this.configService.get(`${prefix}_TPM`, '0')) || 0,
+        dailySpendCap: parseFloat(this.configService.get(`${prefix}_DAILY_SPEND_CAP`, '0')) || 0,
+      };
+      this.limits.set(provider, limits);
+    }
+    return limits;
+  }
+
+  // Reads the daily usage hash AIProviderService.trackUsage writes
+  async getSpentToday(provider: string): Promise<number> {
+    const date = new Date().toISOString().split('T')[0];
+    const usage = await this.redis.hgetall(`ai:usage:${provider}:${date}`);
+    return parseFloat(usage?.cost || '0');
+  }
+
+  private async take(provider: string, limits: ProviderLimits, tokens: number, headroom: number): Promise<number> {
+    const result = await this.redis.eval(
+      TAKE_SCRIPT,
+      [`ai:ratelimit:${provider}:requests`, `ai:ratelimit:${provider}:tokens`],
+      [Date.now(), limits.rpm, limits.tpm, tokens, headroom],
+    );
+    // null when Redis is unavailable
+    return Number(result) || 0;
+  }
+
+  private deny(provider: string, reason: 'rate_limited' | 'spend_cap', retryAfterMs?: number): RateLimitDecision {
+    this.metricsService?.recordRateLimited(provider, reason);
+    return { allowed: false, reason, ...(retryAfterMs && { retryAfterMs }) };
+  }
+}
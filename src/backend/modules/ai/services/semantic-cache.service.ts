@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RedisService } from '../../../config/redis.service';
+import { ResumeAnalysisResult } from '../interfaces/ai-provider.interface';
+import * as crypto from 'crypto';
+
+export interface SemanticCacheEntry {
+  cacheKey: string; // exact-cache key the result is stored under
+  sourceId?: string;
+  embeddings: number[][]; // one per input, e.g. [resume] or [resume, job description]
+  sections?: Record<string, number[]>;
+  sectionLengths?: Record<string, number>;
+}
+
+export interface SemanticCacheHit {
+  entry: SemanticCacheEntry;
+  similarity: number;
+  reusedSections?: string[]; // set when only these sections matched
+  reusedShare?: number; // their share of the text, 0-1
+}
+
+export interface SemanticCacheQuery {
+  scope: string; // operation, user, embedding model and options; entries are only compared within one scope
+  embeddings: number[][];
+  sections?: Record<string, number[]>;
+  sectionLengths?: Record<string, number>;
+}
+
+// Resume sections and the analysis fields produced from them
+const SECTION_FIELDS: Record<string, keyof ResumeAnalysisResult> = {
+  contact: 'personalInfo',
+  summary: 'summary',
+  experience: 'experience',
+  education: 'education',
+  skills: 'skills',
+};
+
+function copyField<K extends keyof ResumeAnalysisResult>(
+  target: ResumeAnalysisResult,
+  source: ResumeAnalysisResult,
+  field: K,
+): void {
+  target[field] = source[field];
+}
+
+const MAX_ENTRIES = 10;
+// Re-analyzing most of a resume anyway isn't worth mixing two analyses
+const MIN_REUSED_SHARE = 0.5;
+
+/**
+ * Finds earlier AI results for inputs that are nearly the same as the current
+ * ones. The exact cache keys on a hash of the text, so any edit misses it;
+ * this compares embeddings instead. A result is reused whole when every input
+ * is at least AI_SEMANTIC_CACHE_THRESHOLD similar, or, for resumes, per
+ * section when the unchanged sections (AI_SEMANTIC_CACHE_SECTION_THRESHOLD)
+ * make up most of the text.
+ *
+ * Only embeddings and the exact-cache key are kept here; the results
+ * themselves stay in the exact cache and expire with it.
+ */
+@Injectable()
+export class SemanticCacheService {
+  private readonly logger = new Logger(SemanticCacheService.name);
+  readonly enabled: boolean;
+  private readonly threshold: number;
+  private readonly sectionThreshold: number;
+  private readonly ttl: number;
+
+  constructor(
+    private configService: ConfigService,
+    private redis: RedisService,
+  ) {
+    this.enabled = this.configService.get('AI_SEMANTIC_CACHE_ENABLED', 'false') === 'true';
+    this.threshold = parseFloat(this.configService.get('AI_SEMANTIC_CACHE_THRESHOLD', '0.97'));
+    this.sectionThreshold = parseFloat(this.configService.get('AI_SEMANTIC_CACHE_SECTION_THRESHOLD', '0.99'));
+    this.ttl = parseInt(this.configService.get('AI_CACHE_TTL', '86400'));
+  }
+
+  async lookup(query: SemanticCacheQuery): Promise<SemanticCacheHit | null> {
+    const entries = await this.load(query.scope);
+
+    let best: SemanticCacheHit | null = null;
+    for (const entry of entries) {
+      if (entry.embeddings.length !== query.embeddings.length) continue;
+      // Every input has to match: a near-identical resume against a different job is a different question
+      const similarity = Math.min(...query.embeddings.map((vector, i) => this.cosine(vector, entry.embeddings[i])));
+      if (similarity >= this.threshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity: this.round(similarity) };
+      }
+    }
+    return best || this.lookupSections(query, entries);
+  }
+
+  async remember(scope: string, entry: SemanticCacheEntry): Promise<void> {
+    const rounded: SemanticCacheEntry = {
+      ...entry,
+      embeddings: entry.embeddings.map(vector => this.compact(vector)),
+      ...(entry.sections && {
+        sections: Object.fromEntries(Object.entries(entry.sections).map(([name, vector]) => [name, this.compact(vector)])),
+      }),
+    };
+    const entries = (await this.load(scope)).filter(other => other.cacheKey !== entry.cacheKey);
+
+    try {
+      await this.redis.setex(this.key(scope), this.ttl, JSON.stringify([rounded, ...entries].slice(0, MAX_ENTRIES)));
+    } catch (error) {
+      this.logger.error('Semantic cache storage failed', error);
+    }
+  }
+
+  /**
+   * Combines a cached analysis with a fresh one of the changed sections.
+   * Fields that come from a reused section are taken from the cached result,
+   * everything else from the fresh one; the ATS score is weighted by how much
+   * of the resume was reused.
+   */
+  mergeAnalyses(
+    cached: ResumeAnalysisResult,
+    fresh: ResumeAnalysisResult,
+    { reusedSections = [], reusedShare = 0 }: Pick<SemanticCacheHit, 'reusedSections' | 'reusedShare'>,
+  ): ResumeAnalysisResult {
+    const merged: ResumeAnalysisResult = { ...fresh };
+    for (const section of reusedSections) {
+      const field = SECTION_FIELDS[section];
+      if (field) {
+        copyField(merged, cached, field);
+      }
+    }
+
+    // Skills are mentioned all over a resume, so the fresh sections may add some
+    if (reusedSections.includes('skills')) {
+      const seen = new Set(cached.skills.map(skill => skill.name.toLowerCase()));
+      merged.skills = [...cached.skills, ...fresh.skills.filter(skill => !seen.has(skill.name.toLowerCase()))];
+    }
+
+    const suggestions = new Set<string>();
+    merged.suggestions = [...fresh.suggestions, ...cached.suggestions].filter(suggestion => {
+      const key = suggestion.trim().toLowerCase();
+      if (suggestions.has(key)) return false;
+      suggestions.add(key);
+      return true;
+    });
+    merged.atsScore = Math.round(cached.atsScore * reusedShare + fresh.atsScore * (1 - reusedShare));
+    merged.confidence = this.round(Math.min(cached.confidence, fresh.confidence));
+    return merged;
+  }
+
+  private lookupSections(query: SemanticCacheQuery, entries: SemanticCacheEntry[]): SemanticCacheHit | null {
+    const { sections, sectionLengths = {} } = query;
+    if (!sections) return null;
+
+    const totalLength = Object.values(sectionLengths).reduce((sum, length) => sum + length, 0);
+    let best: SemanticCacheHit | null = null;
+    for (const entry of entries) {
+      if (!entry.sections) continue;
+
+      const matches = Object.entries(sections)
+        .filter(([name]) => entry.sections![name])
+        .map(([name, vector]) => ({ name, similarity: this.cosine(vector, entry.sections![name]) }))
+        .filter(match => match.similarity >= this.sectionThreshold);
+      if (!matches.length) continue;
+
+      const share = totalLength ? matches.reduce((sum, match) => sum + (sectionLengths[match.name] || 0), 0) / totalLength : 0;
+      if (share >= MIN_REUSED_SHARE && (!best || share > best.reusedShare!)) {
+        best = {
+          entry,
+          similarity: this.round(Math.min(...matches.map(match => match.similarity))),
+          reusedSections: matches.map(match => match.name),
+          reusedShare: this.round(share),
+        };
+      }
+    }
+    return best;
+  }
+
+  private async load(scope: string): Promise<SemanticCacheEntry[]> {
+    try {
+      const stored = await this.redis.get(this.key(scope));
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      this.logger.error('Semantic cache retrieval failed', error);
+      return [];
+    }
+  }
+
+  private key(scope: string): string {
+    return `ai:semantic:${crypto.createHash('sha256').update(scope).digest('hex')}`;
+  }
+
+  private cosine(a: number[], b: number[]): number {
+    if (!b || a.length !== b.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  // Four decimals keep similarities accurate well past the thresholds at a fraction of the size
+  private compact(vector: number[]): number[] {
+    return vector.map(value => Math.round(value * 10000) / 10000);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
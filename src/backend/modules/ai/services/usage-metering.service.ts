@@ -0,0 +1,169 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { UsageRecord } from '../../../database/entities/subscription.entity';
+
+export interface AIUsageEntry {
+  userId: string;
+  operation: string; // AIProviderService operation, e.g. 'analysis'
+  provider: string;
+  tokens: number;
+  cost: number;
+}
+
+export interface AIUsageBreakdown {
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface UserAIUsage {
+  since: string;
+  totals: AIUsageBreakdown;
+  byFeature: Record<string, AIUsageBreakdown>;
+  byDay: Array<AIUsageBreakdown & { date: string }>;
+}
+
+export interface AIUsageTotals {
+  since: string;
+  totals: AIUsageBreakdown;
+  byFeature: Record<string, AIUsageBreakdown>;
+  byProvider: Record<string, AIUsageBreakdown>;
+  topUsers: Array<AIUsageBreakdown & { userId: string; email?: string }>;
+}
+
+// Usage records name features the way plans and quotas do
+const OPERATION_FEATURES: Record<string, string> = {
+  analysis: 'resume_analysis',
+  matching: 'jd_matching',
+  suggestions: 'resume_suggestions',
+  'text-analysis': 'text_analysis',
+};
+
+/**
+ * Durable per-user AI usage. Each request is added to a daily row per user,
+ * feature and provider in `usage_records`, which is what finance reports and
+ * plan quotas read. Provider-wide counters in Redis are kept separately by
+ * AIProviderService.
+ */
+@Injectable()
+export class UsageMeteringService {
+  private readonly logger = new Logger(UsageMeteringService.name);
+
+  constructor(
+    @InjectRepository(UsageRecord)
+    private usageRepository: Repository<UsageRecord>,
+  ) {}
+
+  async record(entry: AIUsageEntry): Promise<void> {
+    try {
+      await this.usageRepository.query(
+        `INSERT INTO "usage_records" ("userId", "feature", "provider", "date", "count", "tokens", "cost")
+         VALUES ($1, $2, $3, $4, 1, $5, $6)
+         ON CONFLICT ("userId", "feature", "provider", "date") DO UPDATE SET
+           "count" = "usage_records"."count" + 1,
+           "tokens" = "usage_records"."tokens" + EXCLUDED."tokens",
+           "cost" = "usage_records"."cost" + EXCLUDED."cost"`,
+        [
+          entry.userId,
+          OPERATION_FEATURES[entry.operation] || entry.operation,
+          entry.provider,
+          new Date().toISOString().split('T')[0],
+          entry.tokens,
+          entry.cost,
+        ],
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record AI usage for user ${entry.userId}`, error);
+    }
+  }
+
+  async getUserUsage(userId: string, days = 30): Promise<UserAIUsage> {
+    const since = this.since(days);
+    const forUser = (query: SelectQueryBuilder<UsageRecord>) => query.andWhere('usage.userId = :userId', { userId });
+
+    const [totals] = await this.aggregate(since, forUser).getRawMany();
+    const byFeature = await this.aggregate(since, forUser)
+      .addSelect('usage.feature', 'feature')
+      .groupBy('usage.feature')
+      .getRawMany();
+    const byDay = await this.aggregate(since, forUser)
+      .addSelect('usage.date', 'date')
+      .groupBy('usage.date')
+      .orderBy('usage.date', 'ASC')
+      .getRawMany();
+
+    return {
+      since,
+      totals: this.breakdown(totals),
+      byFeature: this.keyBy(byFeature, 'feature'),
+      byDay: byDay.map(row => ({ date: new Date(row.date).toISOString().split('T')[0], ...this.breakdown(row) })),
+    };
+  }
+
+  async getUsageTotals(days = 30, topUserLimit = 10): Promise<AIUsageTotals> {
+    const since = this.since(days);
+
+    const [totals] = await this.aggregate(since).getRawMany();
+    const byFeature = await this.aggregate(since)
+      .addSelect('usage.feature', 'feature')
+      .groupBy('usage.feature')
+      .getRawMany();
+    const byProvider = await this.aggregate(since)
+      .addSelect('usage.provider', 'provider')
+      .groupBy('usage.provider')
+      .getRawMany();
+    const topUsers = await this.aggregate(since)
+      .leftJoin('usage.user', 'user')
+      .addSelect('usage.userId', 'userId')
+      .addSelect('user.email', 'email')
+      .groupBy('usage.userId')
+      .addGroupBy('user.email')
+      .orderBy('SUM(usage.cost)', 'DESC')
+      .limit(topUserLimit)
+      .getRawMany();
+
+    return {
+      since,
+      totals: this.breakdown(totals),
+      byFeature: this.keyBy(byFeature, 'feature'),
+      byProvider: this.keyBy(byProvider, 'provider'),
+      topUsers: topUsers.map(row => ({ userId: row.userId, email: row.email ?? undefined, ...this.breakdown(row) })),
+    };
+  }
+
+  // Sums AI usage rows since a date; rows without a provider track non-AI features
+  private aggregate(
+    since: string,
+    filter: (query: SelectQueryBuilder<UsageRecord>) => SelectQueryBuilder<UsageRecord> = query => query,
+  ): SelectQueryBuilder<UsageRecord> {
+    return filter(
+      this.usageRepository
+        .createQueryBuilder('usage')
+        .select('COALESCE(SUM(usage.count), 0)', 'requests')
+        .addSelect('COALESCE(SUM(usage.tokens), 0)', 'tokens')
+        .addSelect('COALESCE(SUM(usage.cost), 0)', 'cost')
+        .where('usage.provider IS NOT NULL')
+        .andWhere('usage.date >= :since', { since }),
+    );
+  }
+
+  // Postgres returns sums as strings
+  private breakdown(row?: { requests?: string; tokens?: string; cost?: string }): AIUsageBreakdown {
+    return {
+      requests: parseInt(row?.requests || '0'),
+      tokens: parseInt(row?.tokens || '0'),
+      cost: Math.round(parseFloat(row?.cost || '0') * 10000) / 10000,
+    };
+  }
+
+  private keyBy(rows: any[], key: string): Record<string, AIUsageBreakdown> {
+    return Object.fromEntries(rows.map(row => [row[key], this.breakdown(row)]));
+  }
+
+  private since(days: number): string {
+    const date = new Date();
+    date.setUTCDate(date.getUTCDate() - Math.max(days, 1) + 1);
+    return date.toISOString().split('T')[0];
+  }
+}
@@ -3,11 +3,12 @@ import { TypeOrmModule } from "@nestjs/typeorm";
 import { JobApplication } from "../../database/entities/job-application.entity";
 import { Resume } from "../../database/entities/resume.entity";
 import { User } from "../../database/entities/user.entity";
+import { AIModule } from "../ai/ai.module";
 import { AnalyticsController } from "./controllers/analytics.controller";
 import { AnalyticsService } from "./services/analytics.service";
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User, Resume, JobApplication])],
+  imports: [TypeOrmModule.forFeature([User, Resume, JobApplication]), AIModule],
   controllers: [AnalyticsController],
   providers: [AnalyticsService],
   exports: [AnalyticsService],
@@ -2,17 +2,20 @@ import {
   Controller,
   Get,
   HttpStatus,
+  Query,
   Request,
   UseGuards,
 } from "@nestjs/common";
 import {
   ApiBearerAuth,
   ApiOperation,
+  ApiQuery,
   ApiResponse,
   ApiTags,
 } from "@nestjs/swagger";
 import type { Request as ExpressRequest } from "express";
 import { JwtAuthGuard } from "../../auth/guards/jwt-auth.guard";
+import { UsageMeteringService } from "../../ai/services/usage-metering.service";
 import { AnalyticsService } from "../services/analytics.service";
 
 @ApiTags("Analytics")
@@ -20,7 +23,10 @@ import { AnalyticsService } from "../services/analytics.service";
 @UseGuards(JwtAuthGuard)
 @Controller("analytics")
 export class AnalyticsController {
-  constructor(private readonly analyticsService: AnalyticsService) {}
+  constructor(
+    private readonly analyticsService: AnalyticsService,
+    private readonly usageMeteringService: UsageMeteringService
+  ) {}
 
   @Get("user-stats")
   @ApiOperation({ summary: "Get user statistics and analytics" })
@@ -46,4 +52,25 @@ export class AnalyticsController {
   ) {
     return await this.analyticsService.getUserStats(req.user.userId);
   }
+
+  @Get("ai-usage")
+  @ApiOperation({ summary: "Get the user's AI usage and cost" })
+  @ApiQuery({
+    name: "days",
+    required: false,
+    description: "Number of days to include (default: 30)",
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "AI usage by feature and day retrieved successfully",
+  })
+  async getAIUsage(
+    @Request() req: ExpressRequest & { user: { userId: string } },
+    @Query("days") days?: number
+  ) {
+    return await this.usageMeteringService.getUserUsage(
+      req.user.userId,
+      days ? parseInt(String(days)) : 30
+    );
+  }
 }
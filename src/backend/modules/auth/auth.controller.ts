@@ -6,11 +6,12 @@ import {
   HttpStatus,
   UseGuards,
   Get,
+  Patch,
   Request,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
-import { LoginDto, RegisterDto } from './dto/auth.dto';
+import { LoginDto, RegisterDto, UpdatePrivacySettingsDto } from './dto/auth.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
 import { Roles } from './decorators/roles.decorator';
@@ -67,6 +68,15 @@ export class AuthController {
     return this.authService.getProfile(req.user.sub);
   }
 
+  @Patch('profile/privacy')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update privacy settings for AI analysis' })
+  @ApiResponse({ status: 200, description: 'Privacy settings updated' })
+  async updatePrivacySettings(@Request() req: any, @Body() settings: UpdatePrivacySettingsDto) {
+    return this.authService.updatePrivacySettings(req.user.sub, settings);
+  }
+
   @Get('admin-only')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
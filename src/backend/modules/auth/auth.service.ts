@@ -9,7 +9,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import * as bcrypt from 'bcryptjs';
 import { User } from '../../database/entities/user.entity';
-import { LoginDto, RegisterDto } from './dto/auth.dto';
+import { LoginDto, RegisterDto, UpdatePrivacySettingsDto } from './dto/auth.dto';
 import { JwtPayload, AuthResponse } from './interfaces/auth.interfaces';
 
 @Injectable()
@@ -136,7 +136,7 @@ export class AuthService {
   async getProfile(userId: string): Promise<any> {
     const user = await this.userRepository.findOne({
       where: { id: userId },
-      select: ['id', 'email', 'firstName', 'lastName', 'role', 'createdAt'],
+      select: ['id', 'email', 'firstName', 'lastName', 'role', 'piiRedactionEnabled', 'createdAt'],
     });
 
     if (!user) {
@@ -146,6 +146,13 @@ export class AuthService {
     return user;
   }
 
+  async updatePrivacySettings(userId: string, settings: UpdatePrivacySettingsDto): Promise<any> {
+    await this.getProfile(userId);
+    await this.userRepository.update(userId, { piiRedactionEnabled: settings.piiRedactionEnabled ?? null });
+
+    return this.getProfile(userId);
+  }
+
   async validateUser(payload: JwtPayload): Promise<any> {
     const user = await this.userRepository.findOne({
       where: { id: payload.sub },
@@ -1,4 +1,4 @@
-import { IsEmail, IsString, MinLength, MaxLength } from 'class-validator';
+import { IsBoolean, IsEmail, IsOptional, IsString, MinLength, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class RegisterDto {
@@ -34,4 +34,15 @@ export class LoginDto {
   @IsString()
   @MinLength(1)
   password: string;
-}
\ No newline at end of file
+}
+
+export class UpdatePrivacySettingsDto {
+  @ApiProperty({
+    example: true,
+    nullable: true,
+    description: 'Redact contact details before sending resumes to AI providers; null uses the platform default',
+  })
+  @IsOptional()
+  @IsBoolean()
+  piiRedactionEnabled: boolean | null;
+}
@@ -5,7 +5,18 @@ import {
   IsBoolean,
   MaxLength,
   IsUUID,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+import type {
+  ParsedJobDescription,
+  UnmetRequirement,
+} from '../interfaces/parsed-job-description.interface';
+import type { ScoreBreakdown } from '../interfaces/score-breakdown.interface';
+import type { EnsembleSummary } from '../../ai/interfaces/ai-provider.interface';
 
 export class CreateJDMatchingDto {
   @IsUUID()
@@ -20,6 +31,80 @@ export class CreateJDMatchingDto {
   @IsOptional()
   @IsBoolean()
   useSemanticMatching?: boolean = true;
+
+  // Ask several AI providers for the semantic match and reconcile their answers
+  @IsOptional()
+  @IsBoolean()
+  ensemble?: boolean;
+}
+
+export const MAX_RANKING_CANDIDATES = 100;
+
+// Ranks many resumes against one job description; give either resumeIds or the batchId of a bulk upload
+export class CreateJDRankingDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  jobDescription: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_RANKING_CANDIDATES)
+  @IsUUID('all', { each: true })
+  resumeIds?: string[];
+
+  @IsOptional()
+  @IsUUID()
+  batchId?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  useSemanticMatching?: boolean = true;
+}
+
+export const MAX_JOB_FIT_JOBS = 50;
+
+export class JobDescriptionInputDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  jobDescription: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  jobTitle?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  company?: string;
+}
+
+// Scores one resume against many job descriptions: tracked applications, pasted ones, or both
+export class CreateJobFitDto {
+  @IsUUID()
+  @IsNotEmpty()
+  resumeId: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_JOB_FIT_JOBS)
+  @IsUUID('all', { each: true })
+  jobApplicationIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_JOB_FIT_JOBS)
+  @ValidateNested({ each: true })
+  @Type(() => JobDescriptionInputDto)
+  jobDescriptions?: JobDescriptionInputDto[];
+
+  // Off by default: keyword and breakdown scores are enough to sort, and AI matching on every job adds up
+  @IsOptional()
+  @IsBoolean()
+  useSemanticMatching?: boolean = false;
 }
 
 export class JDMatchingResultDto {
@@ -38,18 +123,30 @@ export class JDMatchingResultDto {
   @IsString()
   overallScore: number;
 
+  scoreBreakdown?: ScoreBreakdown; // absent on matches scored before the breakdown existed
+
   keywordMatching?: {
     score: number;
     matchedKeywords: string[];
     missingKeywords: string[];
     totalJobKeywords: number;
     matchingMethod: string;
+    unmetRequirements?: UnmetRequirement[]; // absent on matches made before JD parsing
+    requirementCoverage?: Record<'required' | 'preferred', { met: number; total: number }>;
+    taxonomyVersion?: string;
   };
 
+  parsedJobDescription?: ParsedJobDescription;
+
   semanticMatching?: {
     score: number;
-    analysis: string;
+    confidence: number;
     matchingMethod: string;
+    strengthAreas: string[];
+    improvementAreas: string[];
+    missingSkills: string[];
+    recommendations: string[];
+    ensemble?: EnsembleSummary;
   };
 
   suggestions: Array<{
@@ -64,4 +161,55 @@ export class JDMatchingResultDto {
   missingKeywords: string[];
   error?: string;
   createdAt: Date;
-}
\ No newline at end of file
+}
+
+export type RankedCandidateStatus = 'pending' | 'completed' | 'failed';
+
+export class RankedCandidateDto {
+  rank?: number; // only completed candidates are ranked
+  resumeId: string;
+  fileName: string;
+  analysisId?: string;
+  status: RankedCandidateStatus;
+  overallScore?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  unmetRequirements?: UnmetRequirement[];
+  error?: string;
+}
+
+export class JDRankingResultDto {
+  rankingId: string;
+  jobTitle?: string;
+  batchId?: string;
+  status: 'processing' | 'completed';
+  totalCandidates: number;
+  completedCandidates: number;
+  failedCandidates: number;
+  shortlist: RankedCandidateDto[];
+  createdAt: Date;
+}
+
+export class RankedJobDto {
+  rank?: number; // only completed jobs are ranked
+  jobApplicationId?: string;
+  applicationStatus?: string;
+  jobTitle: string;
+  company?: string;
+  analysisId?: string;
+  status: RankedCandidateStatus;
+  overallScore?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  unmetRequirements?: UnmetRequirement[];
+  error?: string;
+}
+
+export class JobFitResultDto {
+  searchId: string;
+  resumeId: string;
+  status: 'processing' | 'completed';
+  totalJobs: number;
+  completedJobs: number;
+  failedJobs: number;
+  results: RankedJobDto[];
+  createdAt: Date;
+}
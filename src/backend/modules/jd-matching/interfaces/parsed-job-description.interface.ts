@@ -0,0 +1,69 @@
+import type { SkillCategory } from '../../ai/interfaces/ai-provider.interface';
+
+export type Seniority = 'intern' | 'junior' | 'mid' | 'senior' | 'lead' | 'principal' | 'executive';
+
+export type RemotePolicy = 'remote' | 'hybrid' | 'onsite';
+
+export type EducationLevel = 'high_school' | 'associate' | 'bachelor' | 'master' | 'doctorate';
+
+export interface SkillRequirement {
+  skill: string; // canonical name when the taxonomy knows it
+  skillId?: string;
+  category?: SkillCategory;
+  required: boolean;
+  yearsExperience?: number;
+  evidence: string; // the sentence it was found in
+}
+
+export interface EducationRequirement {
+  level: EducationLevel;
+  field?: string;
+  required: boolean;
+  evidence: string;
+}
+
+export interface CertificationRequirement {
+  name: string;
+  required: boolean;
+  evidence: string;
+}
+
+export interface SalaryRange {
+  min?: number;
+  max?: number;
+  currency: string;
+  period: 'year' | 'month' | 'hour';
+}
+
+export interface ParsedJobDescription {
+  version: string; // parser version, bumped whenever extraction rules change
+  taxonomyVersion: string;
+  title?: string;
+  seniority?: Seniority;
+  yearsOfExperience?: { min: number; max?: number; evidence: string };
+  requiredSkills: SkillRequirement[];
+  preferredSkills: SkillRequirement[];
+  education: EducationRequirement[];
+  certifications: CertificationRequirement[];
+  location?: string;
+  remotePolicy?: RemotePolicy;
+  salary?: SalaryRange;
+}
+
+export type UnmetRequirementType = 'skill' | 'certification' | 'education' | 'experience';
+
+// A must-have from the job description that the resume doesn't show
+export interface UnmetRequirement {
+  type: UnmetRequirementType;
+  requirement: string;
+  evidence: string;
+}
+
+// One parsed requirement checked against a resume
+export interface RequirementCheck {
+  type: UnmetRequirementType;
+  name: string;
+  required: boolean;
+  met: boolean;
+  evidence: string;
+}
@@ -0,0 +1,23 @@
+export type ScoreComponentKey = 'skills' | 'experience' | 'seniority' | 'education' | 'domain' | 'keywordDensity';
+
+export interface ScoreEvidence {
+  resume: string[]; // snippets quoted from the resume
+  jobDescription: string[]; // snippets quoted from the job description
+}
+
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  label: string;
+  score: number | null; // 0-100, null when the component could not be assessed
+  weight: number; // share of the overall score after unassessed components are dropped, 0-1
+  contribution: number; // points this component adds to the overall score
+  detail: string;
+  evidence: ScoreEvidence;
+}
+
+// How an overall match score was put together
+export interface ScoreBreakdown {
+  version: string;
+  score: number;
+  components: ScoreComponent[];
+}
@@ -11,6 +11,7 @@ import {
   HttpStatus,
   ParseUUIDPipe,
   ParseIntPipe,
+  Header,
 } from '@nestjs/common';
 import { 
   ApiBearerAuth, 
@@ -23,14 +24,20 @@ import {
 import type { Request as ExpressRequest } from 'express';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { JdMatchingService } from './jd-matching.service';
-import { CreateJDMatchingDto } from './dto/jd-matching.dto';
+import { JdRankingService } from './services/jd-ranking.service';
+import { JobFitService } from './services/job-fit.service';
+import { CreateJDMatchingDto, CreateJDRankingDto, CreateJobFitDto } from './dto/jd-matching.dto';
 
 @ApiTags('JD Matching')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard)
 @Controller('jd-matching')
 export class JdMatchingController {
-  constructor(private readonly jdMatchingService: JdMatchingService) {}
+  constructor(
+    private readonly jdMatchingService: JdMatchingService,
+    private readonly jdRankingService: JdRankingService,
+    private readonly jobFitService: JobFitService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new JD matching analysis' })
@@ -81,6 +88,53 @@ export class JdMatchingController {
     return await this.jdMatchingService.compareMatchings(req.user.userId, body.analysisIds);
   }
 
+  @Post('rankings')
+  @ApiOperation({ summary: 'Rank many resumes against one job description' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'One JD matching job queued per resume' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Neither or both of resumeIds and batchId given, or no resume is processed' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Resume or bulk upload batch not found' })
+  async createRanking(@Request() req: ExpressRequest & { user: { userId: string } }, @Body() createDto: CreateJDRankingDto) {
+    return await this.jdRankingService.createRanking(req.user.userId, createDto);
+  }
+
+  @Get('rankings/:rankingId')
+  @ApiOperation({ summary: 'Get the ranked shortlist of candidates with score breakdowns' })
+  @ApiParam({ name: 'rankingId', type: String, description: 'Ranking ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Ranking retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Candidate ranking not found' })
+  async findRanking(@Request() req: ExpressRequest & { user: { userId: string } }, @Param('rankingId', ParseUUIDPipe) rankingId: string) {
+    return await this.jdRankingService.getRanking(req.user.userId, rankingId);
+  }
+
+  @Get('rankings/:rankingId/export')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="candidate-ranking.csv"')
+  @ApiOperation({ summary: 'Export the candidate ranking as CSV' })
+  @ApiParam({ name: 'rankingId', type: String, description: 'Ranking ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'CSV with one row per candidate' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Candidate ranking not found' })
+  async exportRanking(@Request() req: ExpressRequest & { user: { userId: string } }, @Param('rankingId', ParseUUIDPipe) rankingId: string) {
+    return await this.jdRankingService.exportRankingCsv(req.user.userId, rankingId);
+  }
+
+  @Post('job-fit')
+  @ApiOperation({ summary: 'Score one resume against many job descriptions' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'One JD matching job queued per job description' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'No job descriptions given, or resume not processed' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Resume or job application not found' })
+  async createJobFit(@Request() req: ExpressRequest & { user: { userId: string } }, @Body() createDto: CreateJobFitDto) {
+    return await this.jobFitService.createSearch(req.user.userId, createDto);
+  }
+
+  @Get('job-fit/:searchId')
+  @ApiOperation({ summary: 'Get jobs sorted by how well they fit the resume' })
+  @ApiParam({ name: 'searchId', type: String, description: 'Job fit search ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Job fit results retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Job fit search not found' })
+  async findJobFit(@Request() req: ExpressRequest & { user: { userId: string } }, @Param('searchId', ParseUUIDPipe) searchId: string) {
+    return await this.jobFitService.getSearch(req.user.userId, searchId);
+  }
+
   @Get(':analysisId')
   @ApiOperation({ summary: 'Get a specific JD matching result' })
   @ApiParam({ name: 'analysisId', type: String, description: 'Analysis ID' })
@@ -1,18 +1,33 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { JdMatching } from '../../database/entities/jd-matching.entity';
+import { JdRanking } from '../../database/entities/jd-ranking.entity';
+import { JobApplication } from '../../database/entities/job-application.entity';
+import { JobFitSearch } from '../../database/entities/job-fit-search.entity';
 import { Resume } from '../../database/entities/resume.entity';
+import { ResumeBatch } from '../../database/entities/resume-batch.entity';
+import { User } from '../../database/entities/user.entity';
 import { QueueModule } from '../../queues/queue.module';
 import { JdMatchingController } from './jd-matching.controller';
 import { JdMatchingService } from './jd-matching.service';
+import { JdRankingService } from './services/jd-ranking.service';
+import { JobFitService } from './services/job-fit.service';
+import { JobDescriptionParserService } from './services/job-description-parser.service';
+import { SkillsTaxonomyService } from '../resume-analysis/services/skills-taxonomy.service';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([JdMatching, Resume]),
+    TypeOrmModule.forFeature([JdMatching, JdRanking, JobApplication, JobFitSearch, Resume, ResumeBatch, User]),
     QueueModule,
   ],
   controllers: [JdMatchingController],
-  providers: [JdMatchingService],
-  exports: [JdMatchingService],
+  providers: [
+    JdMatchingService,
+    JdRankingService,
+    JobFitService,
+    JobDescriptionParserService,
+    SkillsTaxonomyService,
+  ],
+  exports: [JdMatchingService, JobDescriptionParserService],
 })
 export class JdMatchingModule {}
\ No newline at end of file
@@ -7,7 +7,9 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, IsNull } from 'typeorm';
 import { JdMatching } from '../../database/entities/jd-matching.entity';
 import { Resume } from '../../database/entities/resume.entity';
+import { User } from '../../database/entities/user.entity';
 import { QueueService } from '../../queues/queue.service';
+import { SkillsTaxonomyService } from '../resume-analysis/services/skills-taxonomy.service';
 import { CreateJDMatchingDto, JDMatchingResultDto } from './dto/jd-matching.dto';
 import * as crypto from 'crypto';
 
@@ -18,7 +20,10 @@ export class JdMatchingService {
     private jdMatchingRepository: Repository<JdMatching>,
     @InjectRepository(Resume)
     private resumeRepository: Repository<Resume>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
     private queueService: QueueService,
+    private skillsTaxonomy: SkillsTaxonomyService,
   ) {}
 
   async createMatching(userId: string, createDto: CreateJDMatchingDto): Promise<{ analysisId: string; message: string }> {
@@ -35,6 +40,11 @@ export class JdMatchingService {
       throw new BadRequestException('Resume must be processed before matching can be performed');
     }
 
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: ['id', 'piiRedactionEnabled'],
+    });
+
     // Generate unique analysis ID
     const analysisId = crypto.randomUUID();
 
@@ -45,6 +55,9 @@ export class JdMatchingService {
       jobDescription: createDto.jobDescription,
       userId,
       useSemanticMatching: createDto.useSemanticMatching,
+      redactPii: user?.piiRedactionEnabled ?? undefined,
+      ensemble: createDto.ensemble,
+      stream: true,
     });
 
     return {
@@ -68,8 +81,10 @@ export class JdMatchingService {
       resumeContent: matching.resumeContent,
       jobDescription: matching.jobDescription,
       overallScore: parseFloat(matching.overallScore.toString()),
+      scoreBreakdown: matching.scoreBreakdown,
       keywordMatching: matching.keywordMatching,
       semanticMatching: matching.semanticMatching,
+      parsedJobDescription: matching.parsedJobDescription,
       suggestions: matching.suggestions,
       matchedKeywords: matching.matchedKeywords,
       missingKeywords: matching.missingKeywords,
@@ -227,16 +242,16 @@ export class JdMatchingService {
       select: ['matchedKeywords', 'missingKeywords'],
     });
 
-    // Count keyword frequencies
+    // Count keyword frequencies; older matches stored raw spellings, so count them under the canonical name
     const matchedCounts: Record<string, number> = {};
     const missingCounts: Record<string, number> = {};
 
     matchings.forEach(matching => {
-      matching.matchedKeywords.forEach(keyword => {
+      new Set(matching.matchedKeywords.map(keyword => this.skillsTaxonomy.canonicalName(keyword))).forEach(keyword => {
         matchedCounts[keyword] = (matchedCounts[keyword] || 0) + 1;
       });
 
-      matching.missingKeywords.forEach(keyword => {
+      new Set(matching.missingKeywords.map(keyword => this.skillsTaxonomy.canonicalName(keyword))).forEach(keyword => {
         missingCounts[keyword] = (missingCounts[keyword] || 0) + 1;
       });
     });
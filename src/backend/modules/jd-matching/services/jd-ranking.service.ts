@@ -0,0 +1,255 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { JdMatching } from '../../../database/entities/jd-matching.entity';
+import { JdRanking, JdRankingCandidate } from '../../../database/entities/jd-ranking.entity';
+import { Resume } from '../../../database/entities/resume.entity';
+import { ResumeBatch } from '../../../database/entities/resume-batch.entity';
+import { User } from '../../../database/entities/user.entity';
+import { QueueService } from '../../../queues/queue.service';
+import { JobDescriptionParserService } from './job-description-parser.service';
+import { SCORE_COMPONENTS } from './score-breakdown.service';
+import {
+  CreateJDRankingDto,
+  JDRankingResultDto,
+  MAX_RANKING_CANDIDATES,
+  RankedCandidateDto,
+  RankedCandidateStatus,
+} from '../dto/jd-matching.dto';
+import * as crypto from 'crypto';
+
+// Entries still being matched are listed after the ranked ones, failures last
+const STATUS_ORDER = { completed: 0, pending: 1, failed: 2 } as const;
+
+/**
+ * Sorts match results best first and numbers the completed ones. Shared by
+ * candidate rankings (many resumes, one JD) and job fit searches (one resume,
+ * many JDs).
+ */
+export function rankByScore<T extends { status: RankedCandidateStatus; overallScore?: number; rank?: number }>(
+  entries: T[],
+  name: (entry: T) => string,
+): T[] {
+  entries.sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status]
+    || (b.overallScore ?? 0) - (a.overallScore ?? 0)
+    || name(a).localeCompare(name(b)),
+  );
+  entries
+    .filter(entry => entry.status === 'completed')
+    .forEach((entry, index) => {
+      entry.rank = index + 1;
+    });
+  return entries;
+}
+
+/**
+ * Recruiter mode: ranks many resumes against one job description. Each
+ * resume is matched by its own JD matching job, so a ranking fills in as the
+ * jobs finish and is read back from their results.
+ */
+@Injectable()
+export class JdRankingService {
+  constructor(
+    @InjectRepository(JdRanking)
+    private jdRankingRepository: Repository<JdRanking>,
+    @InjectRepository(JdMatching)
+    private jdMatchingRepository: Repository<JdMatching>,
+    @InjectRepository(Resume)
+    private resumeRepository: Repository<Resume>,
+    @InjectRepository(ResumeBatch)
+    private resumeBatchRepository: Repository<ResumeBatch>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private queueService: QueueService,
+    private jobDescriptionParser: JobDescriptionParserService,
+  ) {}
+
+  async createRanking(userId: string, createDto: CreateJDRankingDto): Promise<{
+    rankingId: string;
+    queuedCandidates: number;
+    skippedCandidates: number;
+    message: string;
+  }> {
+    if (!createDto.resumeIds === !createDto.batchId) {
+      throw new BadRequestException('Provide either resumeIds or a batchId');
+    }
+
+    const resumeIds = createDto.batchId
+      ? await this.batchResumeIds(userId, createDto.batchId)
+      : [...new Set(createDto.resumeIds)];
+
+    const resumes = await this.resumeRepository.find({
+      where: { id: In(resumeIds), userId },
+      select: ['id', 'fileName', 'content', 'isProcessed'],
+    });
+    const missing = resumeIds.filter(id => !resumes.some(resume => resume.id === id));
+    if (missing.length) {
+      throw new NotFoundException(`Resumes not found: ${missing.join(', ')}`);
+    }
+
+    // Unprocessed resumes stay on the shortlist as failures rather than failing the whole ranking
+    const candidates: JdRankingCandidate[] = resumeIds.map(id => {
+      const resume = resumes.find(candidate => candidate.id === id)!;
+      return resume.isProcessed
+        ? { resumeId: resume.id, fileName: resume.fileName, analysisId: crypto.randomUUID() }
+        : { resumeId: resume.id, fileName: resume.fileName, error: 'Resume must be processed before matching can be performed' };
+    });
+    const queued = candidates.filter(candidate => candidate.analysisId);
+    if (!queued.length) {
+      throw new BadRequestException('None of the resumes have been processed yet');
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: ['id', 'piiRedactionEnabled'],
+    });
+    const ranking = await this.jdRankingRepository.save(
+      this.jdRankingRepository.create({
+        userId,
+        jobTitle: this.jobDescriptionParser.parse(createDto.jobDescription).title,
+        jobDescription: createDto.jobDescription,
+        batchId: createDto.batchId,
+        candidates,
+      }),
+    );
+
+    for (const candidate of queued) {
+      await this.queueService.addJDMatchingJob({
+        analysisId: candidate.analysisId!,
+        resumeContent: resumes.find(resume => resume.id === candidate.resumeId)!.content,
+        jobDescription: createDto.jobDescription,
+        userId,
+        useSemanticMatching: createDto.useSemanticMatching,
+        redactPii: user?.piiRedactionEnabled ?? undefined,
+      });
+    }
+
+    return {
+      rankingId: ranking.id,
+      queuedCandidates: queued.length,
+      skippedCandidates: candidates.length - queued.length,
+      message: 'Candidate ranking queued for processing',
+    };
+  }
+
+  async getRanking(userId: string, rankingId: string): Promise<JDRankingResultDto> {
+    const ranking = await this.jdRankingRepository.findOne({
+      where: { id: rankingId, userId },
+    });
+
+    if (!ranking) {
+      throw new NotFoundException('Candidate ranking not found');
+    }
+
+    const analysisIds = ranking.candidates
+      .map(candidate => candidate.analysisId)
+      .filter((id): id is string => !!id);
+    const matchings = analysisIds.length
+      ? await this.jdMatchingRepository.find({
+          where: { id: In(analysisIds), userId },
+          select: ['id', 'overallScore', 'scoreBreakdown', 'keywordMatching', 'error'],
+        })
+      : [];
+    const matchingsById = new Map(matchings.map(matching => [matching.id, matching]));
+
+    const entries: RankedCandidateDto[] = ranking.candidates.map(candidate => {
+      const base = { resumeId: candidate.resumeId, fileName: candidate.fileName, analysisId: candidate.analysisId };
+      const matching = candidate.analysisId ? matchingsById.get(candidate.analysisId) : undefined;
+
+      if (candidate.error || matching?.error) {
+        return { ...base, status: 'failed' as const, error: candidate.error || matching!.error };
+      }
+      if (!matching) {
+        return { ...base, status: 'pending' as const };
+      }
+      return {
+        ...base,
+        status: 'completed' as const,
+        overallScore: parseFloat(matching.overallScore.toString()),
+        scoreBreakdown: matching.scoreBreakdown,
+        unmetRequirements: matching.keywordMatching?.unmetRequirements,
+      };
+    });
+
+    rankByScore(entries, entry => entry.fileName);
+
+    const completed = entries.filter(entry => entry.status === 'completed').length;
+    const failed = entries.filter(entry => entry.status === 'failed').length;
+
+    return {
+      rankingId: ranking.id,
+      jobTitle: ranking.jobTitle,
+      batchId: ranking.batchId,
+      status: completed + failed === entries.length ? 'completed' : 'processing',
+      totalCandidates: entries.length,
+      completedCandidates: completed,
+      failedCandidates: failed,
+      shortlist: entries,
+      createdAt: ranking.createdAt,
+    };
+  }
+
+  // The shortlist as CSV, one row per candidate with a column per score component
+  async exportRankingCsv(userId: string, rankingId: string): Promise<string> {
+    const ranking = await this.getRanking(userId, rankingId);
+
+    const header = [
+      'Rank',
+      'Candidate',
+      'Resume ID',
+      'Status',
+      'Overall Score',
+      ...SCORE_COMPONENTS.map(component => component.label),
+      'Unmet Requirements',
+      'Error',
+    ];
+    const rows = ranking.shortlist.map(entry => {
+      const components = new Map(entry.scoreBreakdown?.components.map(component => [component.key, component.score]));
+      return [
+        entry.rank,
+        entry.fileName,
+        entry.resumeId,
+        entry.status,
+        entry.overallScore,
+        ...SCORE_COMPONENTS.map(component => components.get(component.key)),
+        entry.unmetRequirements?.map(requirement => requirement.requirement).join('; '),
+        entry.error,
+      ];
+    });
+
+    return [header, ...rows].map(row => row.map(value => this.csvCell(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  // Every resume a bulk upload produced, including files linked to an existing resume
+  private async batchResumeIds(userId: string, batchId: string): Promise<string[]> {
+    const batch = await this.resumeBatchRepository.findOne({
+      where: { id: batchId, userId },
+    });
+
+    if (!batch) {
+      throw new NotFoundException('Bulk upload batch not found');
+    }
+
+    const resumeIds = [...new Set(batch.files.map(file => file.resumeId).filter((id): id is string => !!id))];
+    if (!resumeIds.length) {
+      throw new BadRequestException('The bulk upload has no analyzed resumes yet');
+    }
+    if (resumeIds.length > MAX_RANKING_CANDIDATES) {
+      throw new BadRequestException(`A ranking can include at most ${MAX_RANKING_CANDIDATES} resumes`);
+    }
+    return resumeIds;
+  }
+
+  private csvCell(value: string | number | null | undefined): string {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    // Keep spreadsheet apps from running candidate-controlled text as formulas
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
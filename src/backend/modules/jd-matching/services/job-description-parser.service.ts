@@ -0,0 +1,353 @@
+import { Injectable } from '@nestjs/common';
+import { SkillCategory } from '../../ai/interfaces/ai-provider.interface';
+import { SkillsTaxonomyService } from '../../resume-analysis/services/skills-taxonomy.service';
+import {
+  EducationLevel,
+  EducationRequirement,
+  ParsedJobDescription,
+  RemotePolicy,
+  SalaryRange,
+  Seniority,
+  SkillRequirement,
+} from '../interfaces/parsed-job-description.interface';
+
+export const JD_PARSER_VERSION = '1.0';
+
+type Context = 'required' | 'preferred' | 'ignored';
+
+interface Clause {
+  text: string;
+  context: Context;
+}
+
+// Checked in order, so "Preferred qualifications" is found before "Qualifications"
+const SECTION_HEADINGS: Array<{ pattern: RegExp; context: Context }> = [
+  {
+    pattern: /^(?:nice[- ]to[- ]haves?|preferred(?: qualifications| skills| experience)?|bonus(?: points)?|pluses|desirable|good to have|extra credit)$/i,
+    context: 'preferred',
+  },
+  {
+    pattern: /^(?:(?:minimum |basic )?requirements|required(?: qualifications| skills| experience)?|(?:minimum |basic )?qualifications|must[- ]haves?|what you(?:'ll| will)? (?:need|bring)|who you are|about you|skills(?: and experience)?|responsibilities|key responsibilities|what you(?:'ll| will) do|the role|duties)$/i,
+    context: 'required',
+  },
+  {
+    pattern: /^(?:benefits|perks|what we offer|about us|about the company|who we are|compensation(?: and benefits)?|equal opportunity(?: employer)?)$/i,
+    context: 'ignored',
+  },
+];
+
+const PREFERRED_CUE = /\b(?:nice[- ]to[- ]have|preferred|preferably|bonus|(?:is|are|would be) a plus|a plus|ideally|desirable|advantageous)\b/i;
+const REQUIRED_CUE = /\b(?:required|requires?|must|essential|mandatory|minimum|at least)\b/i;
+
+const YEARS_PATTERN = /(\d{1,2})\s*(?:\+|plus)?\s*(?:(?:-|–|to)\s*(\d{1,2})\s*)?\+?\s*(?:years?|yrs?)\b/gi;
+
+// Lowest level first: "Bachelor's or Master's" asks for a bachelor's
+const EDUCATION_PATTERNS: Array<[EducationLevel, RegExp]> = [
+  ['high_school', /\b(?:high school|ged|secondary school)\b/i],
+  ['associate', /\bassociate'?s?\s+degree\b/i],
+  ['bachelor', /\b(?:bachelor'?s?|b\.?sc|b\.s\.|b\.a\.|ba\/bs|bs\/ba|undergraduate degree|(?:university|college) degree|degree in)\b/i],
+  ['master', /\b(?:master'?s?|m\.?sc|m\.s\.|mba|graduate degree)\b/i],
+  ['doctorate', /\b(?:ph\.?d|doctorate|doctoral)\b/i],
+];
+export const EDUCATION_RANK: Record<EducationLevel, number> = {
+  high_school: 0,
+  associate: 1,
+  bachelor: 2,
+  master: 3,
+  doctorate: 4,
+};
+const EDUCATION_FIELD = /\b(?:degree|bachelor'?s?|master'?s?|ph\.?d\.?|b\.?sc|m\.?sc|b\.s\.|m\.s\.)\s+(?:degree\s+)?in\s+([a-z][a-z &/-]{1,60})/i;
+
+export const SENIORITY_RANK: Record<Seniority, number> = {
+  intern: 0,
+  junior: 1,
+  mid: 2,
+  senior: 3,
+  lead: 4,
+  principal: 5,
+  executive: 6,
+};
+// Checked in order; titles are matched, not the whole posting, so "work with senior engineers" doesn't count
+const SENIORITY_PATTERNS: Array<[Seniority, RegExp]> = [
+  ['intern', /\b(?:intern|internship|trainee)\b/i],
+  ['executive', /\b(?:head of|director|vp|vice president|chief|cto|cio)\b/i],
+  ['principal', /\b(?:principal|distinguished|architect)\b/i],
+  ['lead', /\b(?:lead|staff|engineering manager)\b/i],
+  ['senior', /\b(?:senior|sr\.?|iii)\b/i],
+  ['junior', /\b(?:junior|jr\.?|entry[- ]level|graduate)\b/i],
+  ['mid', /\b(?:mid[- ]level|intermediate|ii)\b/i],
+];
+
+const REMOTE_PATTERNS: Array<[RemotePolicy, RegExp]> = [
+  ['hybrid', /\bhybrid\b/i],
+  ['remote', /\b(?:fully remote|remote[- ]first|100% remote|remote)\b/i],
+  ['onsite', /\b(?:on[- ]?site|in[- ]office|in the office|office[- ]based)\b/i],
+];
+const NOT_REMOTE = /\b(?:no|not|non)[- ]remote\b/i;
+
+const DATE_RANGE_PATTERN = /\b((?:19|20)\d{2})\s*(?:-|–|—|to)\s*((?:19|20)\d{2}|present|current|now|today)\b/gi;
+
+const LOCATION_PATTERN = /(?:\b[Ll]ocation|\bbased in|\blocated in)\s*:?\s*([A-Z][^\n.;|()]{1,60})/;
+const TITLE_PATTERN = /\b(?:job title|position|role)\s*:\s*([^\n]{3,80})/i;
+
+const SALARY_PATTERN =
+  /([$€£])\s?(\d[\d,.]*)\s*(k)?(?:\s*(?:-|–|to)\s*[$€£]?\s?(\d[\d,.]*)\s*(k)?)?(?:\s*(usd|eur|gbp|cad|aud))?(?:\s*(?:per|\/|a|an)\s*(year|yr|annum|month|mo|hour|hr))?/i;
+const SALARY_CODE_PATTERN =
+  /(\d[\d,.]*)\s*(k)?\s*(?:-|–|to)\s*(\d[\d,.]*)\s*(k)?\s*(usd|eur|gbp|cad|aud)(?:\s*(?:per|\/|a|an)\s*(year|yr|annum|month|mo|hour|hr))?/i;
+const SALARY_CUE = /\b(?:salary|compensation|pay|base|ote|wage|range)\b/i;
+const CURRENCY_SYMBOLS: Record<string, string> = { $: 'USD', '€': 'EUR', '£': 'GBP' };
+
+/**
+ * Turns a job posting into structured requirements. Postings are split into
+ * sentences and each one inherits the section it sits in ("Requirements",
+ * "Nice to have", "Benefits"); cue words in the sentence itself ("is a plus",
+ * "must") override the section. Skills and certifications are recognized
+ * through the skills taxonomy, so they come back under canonical names.
+ */
+@Injectable()
+export class JobDescriptionParserService {
+  constructor(private skillsTaxonomy: SkillsTaxonomyService) {}
+
+  parse(jobDescription: string): ParsedJobDescription {
+    const clauses = this.clauses(jobDescription);
+    const relevant = clauses.filter(clause => clause.context !== 'ignored');
+    const title = this.extractTitle(jobDescription);
+    const skills = new Map<string, SkillRequirement>();
+    const certifications = new Map<string, ParsedJobDescription['certifications'][number]>();
+    let yearsOfExperience: ParsedJobDescription['yearsOfExperience'];
+
+    for (const clause of relevant) {
+      const required = clause.context === 'required';
+      const years = this.extractYears(clause.text);
+      if (years && required && (!yearsOfExperience || years.min > yearsOfExperience.min)) {
+        yearsOfExperience = { ...years, evidence: clause.text };
+      }
+
+      for (const { skill } of this.skillsTaxonomy.extract(clause.text)) {
+        if (skill.category === SkillCategory.CERTIFICATION) {
+          const existing = certifications.get(skill.id);
+          if (!existing || (required && !existing.required)) {
+            certifications.set(skill.id, { name: skill.name, required, evidence: clause.text });
+          }
+          continue;
+        }
+
+        // A skill listed as both required and preferred is required
+        const existing = skills.get(skill.id);
+        if (existing && (existing.required || !required)) {
+          if (years && (existing.yearsExperience ?? 0) < years.min) existing.yearsExperience = years.min;
+          continue;
+        }
+        skills.set(skill.id, {
+          skill: skill.name,
+          skillId: skill.id,
+          category: skill.category,
+          required,
+          ...(years && { yearsExperience: years.min }),
+          evidence: clause.text,
+        });
+      }
+    }
+
+    const education = relevant
+      .map(clause => {
+        const level = this.lowestEducationLevel(clause.text);
+        if (!level) return null;
+        const field = clause.text.match(EDUCATION_FIELD)?.[1]
+          .split(/\s+(?:or|and)\s+(?:a\s+)?(?:related|equivalent|similar)\b|,/i)[0]
+          .trim();
+        return { level, ...(field && { field }), required: clause.context === 'required', evidence: clause.text };
+      })
+      .filter((item): item is NonNullable<typeof item> => !!item);
+
+    const skillList = [...skills.values()];
+    const seniority = this.extractSeniority(title, yearsOfExperience);
+    const location = jobDescription.match(LOCATION_PATTERN)?.[1].trim();
+    const remotePolicy = NOT_REMOTE.test(jobDescription)
+      ? REMOTE_PATTERNS.find(([policy, pattern]) => policy !== 'remote' && pattern.test(jobDescription))?.[0] ?? 'onsite'
+      : REMOTE_PATTERNS.find(([, pattern]) => pattern.test(jobDescription))?.[0];
+    const salary = this.extractSalary(clauses);
+
+    return {
+      version: JD_PARSER_VERSION,
+      taxonomyVersion: this.skillsTaxonomy.version,
+      ...(title && { title }),
+      ...(seniority && { seniority }),
+      ...(yearsOfExperience && { yearsOfExperience }),
+      requiredSkills: skillList.filter(skill => skill.required),
+      preferredSkills: skillList.filter(skill => !skill.required),
+      education,
+      certifications: [...certifications.values()],
+      ...(location && { location }),
+      ...(remotePolicy && { remotePolicy }),
+      ...(salary && { salary }),
+    };
+  }
+
+  // The highest education level a text (e.g. a resume) mentions
+  highestEducationLevel(text: string): EducationLevel | undefined {
+    return [...EDUCATION_PATTERNS].reverse().find(([, pattern]) => pattern.test(text))?.[0];
+  }
+
+  // The least demanding required degree is the bar; "Bachelor's required, Master's preferred" asks for a bachelor's
+  minimumEducation(parsed: ParsedJobDescription): EducationRequirement | undefined {
+    if (!parsed.education.length) return undefined;
+    const required = parsed.education.filter(education => education.required);
+    return (required.length ? required : parsed.education)
+      .reduce((lowest, education) => (EDUCATION_RANK[education.level] < EDUCATION_RANK[lowest.level] ? education : lowest));
+  }
+
+  /**
+   * Years of experience on a resume: the span from the earliest to the latest
+   * date range, with the ranges it was worked out from. Null when the resume
+   * has no date ranges.
+   */
+  estimateYearsOfExperience(resumeContent: string): { years: number; ranges: string[] } | null {
+    const currentYear = new Date().getFullYear();
+    const ranges: string[] = [];
+    let start = Infinity;
+    let end = -Infinity;
+    for (const match of resumeContent.matchAll(DATE_RANGE_PATTERN)) {
+      start = Math.min(start, parseInt(match[1]));
+      end = Math.max(end, /^\d/.test(match[2]) ? parseInt(match[2]) : currentYear);
+      ranges.push(match[0]);
+    }
+    return ranges.length ? { years: Math.max(end - start, 0), ranges } : null;
+  }
+
+  seniorityFromTitle(title: string): Seniority | undefined {
+    return SENIORITY_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0];
+  }
+
+  seniorityFromYears(years: number): Seniority {
+    return years < 2 ? 'junior' : years < 5 ? 'mid' : 'senior';
+  }
+
+  // Sentences tagged with the section they belong to; postings without headings are all requirements
+  private clauses(text: string): Clause[] {
+    const clauses: Clause[] = [];
+    let section: Context = 'required';
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      let line = rawLine.replace(/^[\s#*•·\-–>]+/, '').trim();
+      if (!line) continue;
+
+      const heading = this.headingContext(line);
+      if (heading) {
+        section = heading;
+        continue;
+      }
+      // "Nice to have: Kafka, Redis" sets the section for the rest of the line and what follows
+      const inline = line.match(/^([^:]{2,40}):\s*(.+)$/);
+      const inlineContext = inline && this.headingContext(inline[1]);
+      if (inlineContext) {
+        section = inlineContext;
+        line = inline![2];
+      }
+
+      for (const sentence of line.split(/(?<=[.!?;])\s+/)) {
+        const text = sentence.trim();
+        if (!text) continue;
+        const context: Context = PREFERRED_CUE.test(text)
+          ? 'preferred'
+          : REQUIRED_CUE.test(text) && section !== 'ignored'
+            ? 'required'
+            : section;
+        clauses.push({ text, context });
+      }
+    }
+    return clauses;
+  }
+
+  private headingContext(text: string): Context | null {
+    const heading = text.replace(/:$/, '').trim();
+    if (heading.length > 60) return null;
+    return SECTION_HEADINGS.find(({ pattern }) => pattern.test(heading))?.context ?? null;
+  }
+
+  private extractTitle(text: string): string | undefined {
+    const labelled = text.match(TITLE_PATTERN)?.[1].trim();
+    if (labelled) return labelled;
+
+    // Postings usually open with the title on its own line
+    const firstLine = text.split(/\r?\n/).map(line => line.replace(/^[\s#*]+/, '').trim()).find(Boolean);
+    if (
+      firstLine &&
+      text.includes('\n') &&
+      firstLine.length <= 80 &&
+      firstLine.split(/\s+/).length <= 10 &&
+      !/[.!?:]$/.test(firstLine) &&
+      !this.headingContext(firstLine)
+    ) {
+      return firstLine;
+    }
+    return undefined;
+  }
+
+  private extractSeniority(title: string | undefined, years?: { min: number }): Seniority | undefined {
+    const fromTitle = title && this.seniorityFromTitle(title);
+    if (fromTitle) return fromTitle;
+    return years && this.seniorityFromYears(years.min);
+  }
+
+  private extractYears(text: string): { min: number; max?: number } | undefined {
+    let found: { min: number; max?: number } | undefined;
+    for (const match of text.matchAll(YEARS_PATTERN)) {
+      const min = parseInt(match[1]);
+      const max = match[2] ? parseInt(match[2]) : undefined;
+      // Ignore company ages and the like: "founded 25 years ago"
+      if (min > 30) continue;
+      if (!found || min > found.min) {
+        found = { min, ...(max && max > min && { max }) };
+      }
+    }
+    return found;
+  }
+
+  private lowestEducationLevel(text: string): EducationLevel | undefined {
+    return EDUCATION_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+  }
+
+  private extractSalary(clauses: Clause[]): SalaryRange | undefined {
+    for (const { text } of clauses) {
+      const symbol = text.match(SALARY_PATTERN);
+      if (symbol) {
+        const [, sign, low, lowK, high, highK, code, period] = symbol;
+        // "$5M in revenue" isn't a salary; a range, a period or a salary word says it is
+        if (!high && !period && !SALARY_CUE.test(text)) continue;
+        return this.salaryRange(low, lowK ?? highK, high, highK ?? lowK, code?.toUpperCase() || CURRENCY_SYMBOLS[sign], period);
+      }
+
+      const coded = text.match(SALARY_CODE_PATTERN);
+      if (coded) {
+        const [, low, lowK, high, highK, code, period] = coded;
+        return this.salaryRange(low, lowK ?? highK, high, highK ?? lowK, code.toUpperCase(), period);
+      }
+    }
+    return undefined;
+  }
+
+  private salaryRange(
+    low: string,
+    lowK: string | undefined,
+    high: string | undefined,
+    highK: string | undefined,
+    currency: string,
+    period?: string,
+  ): SalaryRange {
+    const amount = (value: string, thousands?: string) =>
+      parseFloat(value.replace(/[,.](?=\d{3}\b)/g, '').replace(/,/g, '')) * (thousands ? 1000 : 1);
+    const min = amount(low, lowK);
+    const max = high ? amount(high, highK) : undefined;
+    const top = max ?? min;
+
+    return {
+      min,
+      ...(max && { max }),
+      currency,
+      period: period
+        ? /^(?:hour|hr)$/i.test(period) ? 'hour' : /^(?:month|mo)$/i.test(period) ? 'month' : 'year'
+        : top < 1000 ? 'hour' : 'year',
+    };
+  }
+}
@@ -0,0 +1,209 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { JdMatching } from '../../../database/entities/jd-matching.entity';
+import { JobApplication } from '../../../database/entities/job-application.entity';
+import { JobFitSearch, JobFitSearchJob } from '../../../database/entities/job-fit-search.entity';
+import { Resume } from '../../../database/entities/resume.entity';
+import { User } from '../../../database/entities/user.entity';
+import { QueueService } from '../../../queues/queue.service';
+import { JobDescriptionParserService } from './job-description-parser.service';
+import { rankByScore } from './jd-ranking.service';
+import {
+  CreateJobFitDto,
+  JobFitResultDto,
+  MAX_JOB_FIT_JOBS,
+  RankedJobDto,
+} from '../dto/jd-matching.dto';
+import * as crypto from 'crypto';
+
+/**
+ * Job fit finder: scores one resume against many job descriptions, taken
+ * from the user's tracked applications or pasted in, and sorts them by fit.
+ * Like candidate rankings, each job is its own JD matching job and results
+ * are read back as they finish.
+ */
+@Injectable()
+export class JobFitService {
+  constructor(
+    @InjectRepository(JobFitSearch)
+    private jobFitSearchRepository: Repository<JobFitSearch>,
+    @InjectRepository(JdMatching)
+    private jdMatchingRepository: Repository<JdMatching>,
+    @InjectRepository(Resume)
+    private resumeRepository: Repository<Resume>,
+    @InjectRepository(JobApplication)
+    private jobApplicationRepository: Repository<JobApplication>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private queueService: QueueService,
+    private jobDescriptionParser: JobDescriptionParserService,
+  ) {}
+
+  async createSearch(userId: string, createDto: CreateJobFitDto): Promise<{
+    searchId: string;
+    queuedJobs: number;
+    skippedJobs: number;
+    message: string;
+  }> {
+    const applicationIds = [...new Set(createDto.jobApplicationIds || [])];
+    const pasted = createDto.jobDescriptions || [];
+    if (!applicationIds.length && !pasted.length) {
+      throw new BadRequestException('Provide jobApplicationIds or jobDescriptions');
+    }
+    if (applicationIds.length + pasted.length > MAX_JOB_FIT_JOBS) {
+      throw new BadRequestException(`A job fit search can include at most ${MAX_JOB_FIT_JOBS} jobs`);
+    }
+
+    const resume = await this.resumeRepository.findOne({
+      where: { id: createDto.resumeId, userId },
+    });
+    if (!resume) {
+      throw new NotFoundException('Resume not found');
+    }
+    if (!resume.isProcessed) {
+      throw new BadRequestException('Resume must be processed before matching can be performed');
+    }
+
+    const applications = applicationIds.length
+      ? await this.jobApplicationRepository.find({ where: { id: In(applicationIds), userId } })
+      : [];
+    const missing = applicationIds.filter(id => !applications.some(application => application.id === id));
+    if (missing.length) {
+      throw new NotFoundException(`Job applications not found: ${missing.join(', ')}`);
+    }
+
+    const queue: Array<{ job: JobFitSearchJob; jobDescription: string }> = [];
+    const jobs: JobFitSearchJob[] = [];
+    for (const id of applicationIds) {
+      const application = applications.find(candidate => candidate.id === id)!;
+      const job: JobFitSearchJob = {
+        jobApplicationId: application.id,
+        jobTitle: application.jobTitle,
+        company: application.vendorName,
+      };
+      if (application.jobDescription?.trim()) {
+        job.analysisId = crypto.randomUUID();
+        queue.push({ job, jobDescription: application.jobDescription });
+      } else {
+        // Kept in the results so the user sees which applications need a description
+        job.error = 'No job description saved for this application';
+      }
+      jobs.push(job);
+    }
+    pasted.forEach((input, index) => {
+      const job: JobFitSearchJob = {
+        jobTitle: input.jobTitle || this.jobDescriptionParser.parse(input.jobDescription).title || `Job ${index + 1}`,
+        ...(input.company && { company: input.company }),
+        analysisId: crypto.randomUUID(),
+      };
+      queue.push({ job, jobDescription: input.jobDescription });
+      jobs.push(job);
+    });
+
+    if (!queue.length) {
+      throw new BadRequestException('None of the job applications have a job description');
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: ['id', 'piiRedactionEnabled'],
+    });
+    const search = await this.jobFitSearchRepository.save(
+      this.jobFitSearchRepository.create({ userId, resumeId: resume.id, jobs }),
+    );
+
+    for (const { job, jobDescription } of queue) {
+      await this.queueService.addJDMatchingJob({
+        analysisId: job.analysisId!,
+        resumeContent: resume.content,
+        jobDescription,
+        userId,
+        useSemanticMatching: createDto.useSemanticMatching,
+        redactPii: user?.piiRedactionEnabled ?? undefined,
+      });
+    }
+
+    return {
+      searchId: search.id,
+      queuedJobs: queue.length,
+      skippedJobs: jobs.length - queue.length,
+      message: 'Job fit search queued for processing',
+    };
+  }
+
+  async getSearch(userId: string, searchId: string): Promise<JobFitResultDto> {
+    const search = await this.jobFitSearchRepository.findOne({
+      where: { id: searchId, userId },
+    });
+
+    if (!search) {
+      throw new NotFoundException('Job fit search not found');
+    }
+
+    const analysisIds = search.jobs.map(job => job.analysisId).filter((id): id is string => !!id);
+    const applicationIds = search.jobs.map(job => job.jobApplicationId).filter((id): id is string => !!id);
+    const [matchings, applications] = await Promise.all([
+      analysisIds.length
+        ? this.jdMatchingRepository.find({
+            where: { id: In(analysisIds), userId },
+            select: ['id', 'overallScore', 'scoreBreakdown', 'keywordMatching', 'error'],
+          })
+        : [],
+      applicationIds.length
+        ? this.jobApplicationRepository.find({
+            where: { id: In(applicationIds), userId },
+            select: ['id', 'status'],
+          })
+        : [],
+    ]);
+    const matchingsById = new Map(matchings.map(matching => [matching.id, matching]));
+    const applicationsById = new Map(applications.map(application => [application.id, application]));
+
+    const results: RankedJobDto[] = search.jobs.map(job => {
+      // Applications deleted since the search no longer have anything to link to
+      const application = job.jobApplicationId ? applicationsById.get(job.jobApplicationId) : undefined;
+      const base = {
+        ...(application && { jobApplicationId: application.id, applicationStatus: application.status }),
+        jobTitle: job.jobTitle,
+        company: job.company,
+        analysisId: job.analysisId,
+      };
+      const matching = job.analysisId ? matchingsById.get(job.analysisId) : undefined;
+
+      if (job.error || matching?.error) {
+        return { ...base, status: 'failed' as const, error: job.error || matching!.error };
+      }
+      if (!matching) {
+        return { ...base, status: 'pending' as const };
+      }
+      return {
+        ...base,
+        status: 'completed' as const,
+        overallScore: parseFloat(matching.overallScore.toString()),
+        scoreBreakdown: matching.scoreBreakdown,
+        unmetRequirements: matching.keywordMatching?.unmetRequirements,
+      };
+    });
+
+    rankByScore(results, result => `${result.jobTitle} ${result.company ?? ''}`);
+
+    const completed = results.filter(result => result.status === 'completed').length;
+    const failed = results.filter(result => result.status === 'failed').length;
+
+    return {
+      searchId: search.id,
+      resumeId: search.resumeId,
+      status: completed + failed === results.length ? 'completed' : 'processing',
+      totalJobs: results.length,
+      completedJobs: completed,
+      failedJobs: failed,
+      results,
+      createdAt: search.createdAt,
+    };
+  }
+}
@@ -0,0 +1,355 @@
+import { Injectable } from '@nestjs/common';
+import { SkillsTaxonomyService } from '../../resume-analysis/services/skills-taxonomy.service';
+import {
+  EDUCATION_RANK,
+  JobDescriptionParserService,
+  SENIORITY_RANK,
+} from './job-description-parser.service';
+import type {
+  ParsedJobDescription,
+  RequirementCheck,
+  Seniority,
+} from '../interfaces/parsed-job-description.interface';
+import type {
+  ScoreBreakdown,
+  ScoreComponent,
+  ScoreComponentKey,
+  ScoreEvidence,
+} from '../interfaces/score-breakdown.interface';
+
+export const SCORE_BREAKDOWN_VERSION = '1.0';
+
+// Relative weights; components that can't be assessed drop out and the rest are scaled up
+export const SCORE_COMPONENTS: Array<{ key: ScoreComponentKey; label: string; weight: number }> = [
+  { key: 'skills', label: 'Skills coverage', weight: 0.35 },
+  { key: 'experience', label: 'Years of experience', weight: 0.2 },
+  { key: 'seniority', label: 'Seniority fit', weight: 0.1 },
+  { key: 'education', label: 'Education', weight: 0.1 },
+  { key: 'domain', label: 'Domain and industry', weight: 0.15 },
+  { key: 'keywordDensity', label: 'Keyword density', weight: 0.1 },
+];
+
+// Required skills count for this share of the skills score when the posting also lists preferred ones
+const REQUIRED_SKILLS_SHARE = 0.75;
+
+// Posting keywords per resume word at which the keyword density score tops out
+const TARGET_KEYWORD_DENSITY = 0.03;
+
+const MAX_SNIPPETS = 3;
+const SNIPPET_LENGTH = 160;
+
+const DOMAINS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'fintech', pattern: /\b(?:fintech|banking|bank|payments?|financial services|trading|insurance|insurtech|lending)\b/gi },
+  { name: 'healthcare', pattern: /\b(?:healthcare|health ?tech|medical|clinical|hospitals?|pharma(?:ceutical)?s?|biotech)\b/gi },
+  { name: 'e-commerce', pattern: /\b(?:e-?commerce|retail|marketplaces?|online store)\b/gi },
+  { name: 'SaaS', pattern: /\b(?:saas|b2b software)\b/gi },
+  { name: 'gaming', pattern: /\b(?:gaming|game studio|video games?)\b/gi },
+  { name: 'education', pattern: /\b(?:edtech|education technology|e-?learning|online learning)\b/gi },
+  { name: 'logistics', pattern: /\b(?:logistics|supply chain|shipping|freight|fleet management)\b/gi },
+  { name: 'cybersecurity', pattern: /\b(?:cyber ?security|infosec|information security|threat detection)\b/gi },
+  { name: 'advertising', pattern: /\b(?:adtech|advertising|martech|marketing technology)\b/gi },
+  { name: 'media', pattern: /\b(?:media|publishing|streaming|broadcast(?:ing)?)\b/gi },
+  { name: 'automotive', pattern: /\b(?:automotive|autonomous vehicles?|electric vehicles?)\b/gi },
+  { name: 'telecom', pattern: /\b(?:telecoms?|telecommunications?)\b/gi },
+  { name: 'energy', pattern: /\b(?:energy|utilities|renewables?|oil and gas)\b/gi },
+  { name: 'public sector', pattern: /\b(?:government|public sector|defen[cs]e)\b/gi },
+];
+
+// Lines that usually state education on a resume
+const EDUCATION_LINE = /\b(?:bachelor|master|ph\.?d|doctorate|degree|b\.?sc|m\.?sc|mba|associate|high school|university|college)\b/i;
+
+export interface ScoreBreakdownInput {
+  resumeContent: string;
+  jobDescription: string;
+  parsed: ParsedJobDescription;
+  requirements: RequirementCheck[];
+  matchedKeywords: string[]; // resume keywords that match the posting
+  semanticScore?: number;
+}
+
+type Assessment = Pick<ScoreComponent, 'score' | 'detail' | 'evidence'>;
+
+/**
+ * Explains a match score. Each component scores one aspect of fit from 0 to
+ * 100 and quotes the resume and job description text it was judged on; the
+ * overall score is the weighted sum. The AI semantic score, when there is one,
+ * feeds the domain component since that's what it judges best.
+ */
+@Injectable()
+export class ScoreBreakdownService {
+  constructor(
+    private skillsTaxonomy: SkillsTaxonomyService,
+    private jobDescriptionParser: JobDescriptionParserService,
+  ) {}
+
+  breakdown(input: ScoreBreakdownInput): ScoreBreakdown {
+    const assessments: Record<ScoreComponentKey, Assessment> = {
+      skills: this.assessSkills(input),
+      experience: this.assessExperience(input),
+      seniority: this.assessSeniority(input),
+      education: this.assessEducation(input),
+      domain: this.assessDomain(input),
+      keywordDensity: this.assessKeywordDensity(input),
+    };
+
+    const totalWeight = SCORE_COMPONENTS
+      .filter(component => assessments[component.key].score !== null)
+      .reduce((sum, component) => sum + component.weight, 0);
+
+    const components = SCORE_COMPONENTS.map(({ key, label, weight }) => {
+      const assessment = assessments[key];
+      const share = assessment.score === null || !totalWeight ? 0 : weight / totalWeight;
+      return {
+        key,
+        label,
+        ...assessment,
+        weight: round(share, 3),
+        contribution: round((assessment.score ?? 0) * share, 1),
+      };
+    });
+
+    return {
+      version: SCORE_BREAKDOWN_VERSION,
+      score: Math.round(components.reduce((sum, component) => sum + component.contribution, 0)),
+      components,
+    };
+  }
+
+  private assessSkills({ resumeContent, requirements }: ScoreBreakdownInput): Assessment {
+    const skills = requirements.filter(requirement => requirement.type === 'skill' || requirement.type === 'certification');
+    if (!skills.length) {
+      return notAssessed('The job description names no specific skills or certifications.');
+    }
+
+    const required = skills.filter(skill => skill.required);
+    const preferred = skills.filter(skill => !skill.required);
+    const share = (group: RequirementCheck[]) => group.filter(skill => skill.met).length / group.length;
+    const score = required.length && preferred.length
+      ? share(required) * REQUIRED_SKILLS_SHARE + share(preferred) * (1 - REQUIRED_SKILLS_SHARE)
+      : share(required.length ? required : preferred);
+
+    const counts = [
+      required.length && `${required.filter(skill => skill.met).length} of ${required.length} required`,
+      preferred.length && `${preferred.filter(skill => skill.met).length} of ${preferred.length} preferred`,
+    ].filter(Boolean);
+    const missing = required.filter(skill => !skill.met).map(skill => skill.name);
+
+    const met = skills.filter(skill => skill.met).map(skill => skill.name);
+    return {
+      score: Math.round(score * 100),
+      detail: `Shows ${counts.join(' and ')} skills.${missing.length ? ` Missing: ${missing.slice(0, 5).join(', ')}.` : ''}`,
+      evidence: {
+        resume: this.keywordSnippets(resumeContent, met),
+        // What the resume lacks is the more useful thing to quote
+        jobDescription: unique([
+          ...required.filter(skill => !skill.met),
+          ...required.filter(skill => skill.met),
+          ...preferred,
+        ].map(skill => clip(skill.evidence))).slice(0, MAX_SNIPPETS),
+      },
+    };
+  }
+
+  private assessExperience({ resumeContent, parsed }: ScoreBreakdownInput): Assessment {
+    const wanted = parsed.yearsOfExperience;
+    if (!wanted) {
+      return notAssessed('The job description doesn\'t ask for a number of years.');
+    }
+    const estimate = this.jobDescriptionParser.estimateYearsOfExperience(resumeContent);
+    if (!estimate) {
+      return notAssessed('No dated roles were found on the resume.', { jobDescription: [clip(wanted.evidence)] });
+    }
+
+    return {
+      score: Math.min(100, Math.round((estimate.years / Math.max(wanted.min, 1)) * 100)),
+      detail: `About ${estimate.years} years of experience on the resume against ${wanted.min}+ asked for.`,
+      evidence: {
+        resume: this.termSnippets(resumeContent, estimate.ranges),
+        jobDescription: [clip(wanted.evidence)],
+      },
+    };
+  }
+
+  private assessSeniority({ resumeContent, parsed }: ScoreBreakdownInput): Assessment {
+    if (!parsed.seniority) {
+      return notAssessed('The job description doesn\'t state a seniority level.');
+    }
+    const jobEvidence = [clip(parsed.title ?? parsed.yearsOfExperience?.evidence ?? parsed.seniority)];
+    const resume = this.resumeSeniority(resumeContent);
+    if (!resume) {
+      return notAssessed('The resume shows no job titles or dates to judge seniority by.', { jobDescription: jobEvidence });
+    }
+
+    // Overqualified costs less than underqualified
+    const gap = SENIORITY_RANK[resume.seniority] - SENIORITY_RANK[parsed.seniority];
+    const score = gap === 0 ? 100 : gap === 1 ? 80 : gap > 1 ? 60 : Math.max(0, 100 + gap * 35);
+    const relation = gap === 0 ? 'matches' : gap > 0 ? 'is above' : 'is below';
+
+    return {
+      score,
+      detail: `The resume reads as ${label(resume.seniority)}, which ${relation} the ${label(parsed.seniority)} level asked for.`,
+      evidence: { resume: resume.evidence, jobDescription: jobEvidence },
+    };
+  }
+
+  private assessEducation({ resumeContent, parsed }: ScoreBreakdownInput): Assessment {
+    const bar = this.jobDescriptionParser.minimumEducation(parsed);
+    if (!bar) {
+      return notAssessed('The job description doesn\'t mention education.');
+    }
+
+    const level = this.jobDescriptionParser.highestEducationLevel(resumeContent);
+    const gap = level ? EDUCATION_RANK[level] - EDUCATION_RANK[bar.level] : -Infinity;
+    const educationLine = resumeContent.split(/\r?\n/).find(line => EDUCATION_LINE.test(line));
+
+    return {
+      score: gap >= 0 ? 100 : gap === -1 ? 50 : 0,
+      detail: level
+        ? `Highest education on the resume is a ${label(level)} degree; the job ${bar.required ? 'requires' : 'prefers'} a ${label(bar.level)} degree.`
+        : `No degree found on the resume; the job ${bar.required ? 'requires' : 'prefers'} a ${label(bar.level)} degree.`,
+      evidence: {
+        resume: educationLine ? [clip(educationLine.trim())] : [],
+        jobDescription: [clip(bar.evidence)],
+      },
+    };
+  }
+
+  private assessDomain({ resumeContent, jobDescription, semanticScore }: ScoreBreakdownInput): Assessment {
+    const jobDomains = DOMAINS.filter(domain => this.mentionsOf(jobDescription, domain.pattern).length);
+    const shown = jobDomains.filter(domain => this.mentionsOf(resumeContent, domain.pattern).length);
+    const keywordScore = jobDomains.length ? (shown.length / jobDomains.length) * 100 : null;
+    const hasSemantic = typeof semanticScore === 'number';
+
+    if (keywordScore === null && !hasSemantic) {
+      return notAssessed('The job description doesn\'t name an industry.');
+    }
+
+    const scores = [keywordScore, hasSemantic ? semanticScore : null].filter((score): score is number => score !== null);
+    const missing = jobDomains.filter(domain => !shown.includes(domain)).map(domain => domain.name);
+    const details = [
+      jobDomains.length && (shown.length
+        ? `Resume shows ${shown.map(domain => domain.name).join(', ')} experience${missing.length ? ` but not ${missing.join(', ')}` : ''}.`
+        : `The job is in ${jobDomains.map(domain => domain.name).join(', ')}, which the resume doesn't mention.`),
+      hasSemantic && `AI-judged relevance of the experience: ${semanticScore}/100.`,
+    ].filter(Boolean);
+
+    return {
+      score: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+      detail: details.join(' '),
+      evidence: {
+        resume: this.patternSnippets(resumeContent, shown.map(domain => domain.pattern)),
+        jobDescription: this.patternSnippets(jobDescription, jobDomains.map(domain => domain.pattern)),
+      },
+    };
+  }
+
+  private assessKeywordDensity({ resumeContent, jobDescription, matchedKeywords }: ScoreBreakdownInput): Assessment {
+    const words = resumeContent.split(/\s+/).filter(Boolean).length;
+    if (!words) {
+      return notAssessed('The resume has no text to count keywords in.');
+    }
+
+    const counts = matchedKeywords
+      .map(keyword => ({ keyword, count: this.keywordIndices(resumeContent, keyword).length }))
+      .filter(entry => entry.count > 0)
+      .sort((a, b) => b.count - a.count);
+    const mentions = counts.reduce((sum, entry) => sum + entry.count, 0);
+    const density = mentions / words;
+    const top = counts.slice(0, MAX_SNIPPETS).map(entry => entry.keyword);
+
+    return {
+      score: Math.min(100, Math.round((density / TARGET_KEYWORD_DENSITY) * 100)),
+      detail: `${mentions} mentions of the job's keywords in ${words} words (${(density * 100).toFixed(1)}%).${
+        top.length ? ` Most used: ${counts.slice(0, MAX_SNIPPETS).map(entry => `${entry.keyword} (${entry.count})`).join(', ')}.` : ''
+      }`,
+      evidence: {
+        resume: this.keywordSnippets(resumeContent, top),
+        jobDescription: this.keywordSnippets(jobDescription, top),
+      },
+    };
+  }
+
+  // Job titles on the resume, else its years of experience
+  private resumeSeniority(resumeContent: string): { seniority: Seniority; evidence: string[] } | null {
+    for (const rawLine of resumeContent.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      // Bullets and sentences describe work, not titles: "Mentored junior engineers"
+      if (!line || /^[-•*·–]/.test(line) || line.split(/\s+/).length > 10) continue;
+      const seniority = this.jobDescriptionParser.seniorityFromTitle(line);
+      if (seniority) return { seniority, evidence: [clip(line)] };
+    }
+
+    const estimate = this.jobDescriptionParser.estimateYearsOfExperience(resumeContent);
+    return estimate
+      ? { seniority: this.jobDescriptionParser.seniorityFromYears(estimate.years), evidence: this.termSnippets(resumeContent, estimate.ranges) }
+      : null;
+  }
+
+  // Where each keyword first appears, one snippet per keyword
+  private keywordSnippets(text: string, keywords: string[]): string[] {
+    const indices = keywords
+      .map(keyword => this.keywordIndices(text, keyword)[0])
+      .filter((index): index is number => index !== undefined);
+    return unique(indices.map(index => snippet(text, index))).slice(0, MAX_SNIPPETS);
+  }
+
+  // Known skills are found in any spelling; anything else as written
+  private keywordIndices(text: string, keyword: string): number[] {
+    const skill = this.skillsTaxonomy.find(keyword);
+    if (skill) {
+      return this.skillsTaxonomy.mentions(text)
+        .filter(mention => mention.skill.id === skill.id)
+        .map(mention => mention.index);
+    }
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return this.mentionsOf(text, new RegExp(`(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])`, 'giu'));
+  }
+
+  private termSnippets(text: string, terms: string[]): string[] {
+    const indices = terms.map(term => text.indexOf(term)).filter(index => index >= 0);
+    return unique(indices.map(index => snippet(text, index))).slice(0, MAX_SNIPPETS);
+  }
+
+  private patternSnippets(text: string, patterns: RegExp[]): string[] {
+    const indices = patterns.map(pattern => this.mentionsOf(text, pattern)[0]).filter(index => index !== undefined);
+    return unique(indices.map(index => snippet(text, index))).slice(0, MAX_SNIPPETS);
+  }
+
+  private mentionsOf(text: string, pattern: RegExp): number[] {
+    return [...text.matchAll(pattern)].map(match => match.index!);
+  }
+}
+
+function notAssessed(detail: string, evidence: Partial<ScoreEvidence> = {}): Assessment {
+  return { score: null, detail, evidence: { resume: [], jobDescription: [], ...evidence } };
+}
+
+// The sentence or line around a position, cut down to SNIPPET_LENGTH
+function snippet(text: string, index: number): string {
+  const before = text.slice(0, index);
+  const start = Math.max(before.search(/[^.!?\n]*$/), 0);
+  const afterMatch = text.slice(index).search(/[.!?](?=\s|$)|\n/);
+  const end = afterMatch === -1 ? text.length : index + afterMatch + 1;
+  const sentence = text.slice(start, end).trim();
+  if (sentence.length <= SNIPPET_LENGTH) return sentence;
+
+  const from = Math.max(0, Math.min(index - start - SNIPPET_LENGTH / 2, sentence.length - SNIPPET_LENGTH));
+  return `${from > 0 ? '…' : ''}${sentence.slice(from, from + SNIPPET_LENGTH).trim()}${from + SNIPPET_LENGTH < sentence.length ? '…' : ''}`;
+}
+
+function clip(text: string): string {
+  return text.length <= SNIPPET_LENGTH ? text : `${text.slice(0, SNIPPET_LENGTH).trim()}…`;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function label(value: string): string {
+  return value.replace('_', ' ');
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
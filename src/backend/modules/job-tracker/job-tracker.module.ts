@@ -4,13 +4,15 @@ import { JobApplication } from '../../database/entities/job-application.entity';
 import { User } from '../../database/entities/user.entity';
 import { JobTrackerController } from './job-tracker.controller';
 import { JobTrackerService } from './job-tracker.service';
+import { JobDescriptionParserService } from '../jd-matching/services/job-description-parser.service';
+import { SkillsTaxonomyService } from '../resume-analysis/services/skills-taxonomy.service';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([JobApplication, User]),
   ],
   controllers: [JobTrackerController],
-  providers: [JobTrackerService],
+  providers: [JobTrackerService, JobDescriptionParserService, SkillsTaxonomyService],
   exports: [JobTrackerService],
 })
 export class JobTrackerModule {}
\ No newline at end of file
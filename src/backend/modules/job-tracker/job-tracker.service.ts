@@ -6,6 +6,7 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, SelectQueryBuilder } from 'typeorm';
 import { JobApplication, JobStatus } from '../../database/entities/job-application.entity';
 import { User } from '../../database/entities/user.entity';
+import { JobDescriptionParserService } from '../jd-matching/services/job-description-parser.service';
 import {
   CreateJobApplicationDto,
   UpdateJobApplicationDto,
@@ -19,6 +20,7 @@ export class JobTrackerService {
     private jobApplicationRepository: Repository<JobApplication>,
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    private jobDescriptionParser: JobDescriptionParserService,
   ) {}
 
   async create(userId: string, createDto: CreateJobApplicationDto): Promise<JobApplication> {
@@ -35,6 +37,7 @@ export class JobTrackerService {
       appliedDate: new Date(createDto.appliedDate),
       followUpDate: createDto.followUpDate ? new Date(createDto.followUpDate) : undefined,
       interviewDate: createDto.interviewDate ? new Date(createDto.interviewDate) : undefined,
+      parsedJobDescription: createDto.jobDescription ? this.jobDescriptionParser.parse(createDto.jobDescription) : undefined,
     });
 
     return await this.jobApplicationRepository.save(jobApplication);
@@ -142,6 +145,11 @@ export class JobTrackerService {
       followUpDate: updateDto.followUpDate ? new Date(updateDto.followUpDate) : jobApplication.followUpDate,
       interviewDate: updateDto.interviewDate ? new Date(updateDto.interviewDate) : jobApplication.interviewDate,
     });
+    if (updateDto.jobDescription !== undefined) {
+      jobApplication.parsedJobDescription = updateDto.jobDescription
+        ? this.jobDescriptionParser.parse(updateDto.jobDescription)
+        : null;
+    }
 
     return await this.jobApplicationRepository.save(jobApplication);
   }
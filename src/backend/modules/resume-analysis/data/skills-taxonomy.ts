@@ -0,0 +1,176 @@
+import { SkillCategory } from '../../ai/interfaces/ai-provider.interface';
+
+export interface SkillDefinition {
+  id: string; // stable canonical ID; never reuse one for a different skill
+  name: string; // display name
+  category: SkillCategory;
+  aliases?: string[]; // matched case-insensitively, spaces also match hyphens
+  caseSensitiveAliases?: string[]; // words too common to match in lower case, e.g. "Go"; may include the name
+  parents?: string[]; // broader skills this one counts as, e.g. PostgreSQL -> SQL
+}
+
+export interface SkillsTaxonomyData {
+  version: string;
+  skills: SkillDefinition[];
+}
+
+/**
+ * Bundled skills taxonomy. Bump the version whenever IDs, aliases or
+ * relations change, since stored match results record the version they were
+ * computed with.
+ */
+export const SKILLS_TAXONOMY: SkillsTaxonomyData = {
+  version: '2026.10.0',
+  skills: [
+    // Programming languages
+    { id: 'javascript', name: 'JavaScript', category: SkillCategory.TECHNICAL, aliases: ['js', 'ecmascript', 'es6'] },
+    { id: 'typescript', name: 'TypeScript', category: SkillCategory.TECHNICAL, aliases: ['ts'], parents: ['javascript'] },
+    { id: 'python', name: 'Python', category: SkillCategory.TECHNICAL, aliases: ['py', 'python3'] },
+    { id: 'java', name: 'Java', category: SkillCategory.TECHNICAL },
+    { id: 'kotlin', name: 'Kotlin', category: SkillCategory.TECHNICAL },
+    { id: 'scala', name: 'Scala', category: SkillCategory.TECHNICAL },
+    { id: 'csharp', name: 'C#', category: SkillCategory.TECHNICAL, aliases: ['c#', 'c sharp'] },
+    { id: 'cpp', name: 'C++', category: SkillCategory.TECHNICAL, aliases: ['c++', 'cpp'] },
+    { id: 'go', name: 'Go', category: SkillCategory.TECHNICAL, aliases: ['golang'], caseSensitiveAliases: ['Go'] },
+    { id: 'rust', name: 'Rust', category: SkillCategory.TECHNICAL },
+    { id: 'ruby', name: 'Ruby', category: SkillCategory.TECHNICAL },
+    { id: 'php', name: 'PHP', category: SkillCategory.TECHNICAL },
+    { id: 'swift', name: 'Swift', category: SkillCategory.TECHNICAL, caseSensitiveAliases: ['Swift'] },
+    { id: 'html', name: 'HTML', category: SkillCategory.TECHNICAL, aliases: ['html5'] },
+    { id: 'css', name: 'CSS', category: SkillCategory.TECHNICAL, aliases: ['css3'] },
+    { id: 'sass', name: 'Sass', category: SkillCategory.TECHNICAL, aliases: ['scss'], parents: ['css'] },
+
+    // Data stores
+    { id: 'sql', name: 'SQL', category: SkillCategory.TECHNICAL },
+    { id: 'nosql', name: 'NoSQL', category: SkillCategory.TECHNICAL },
+    { id: 'postgresql', name: 'PostgreSQL', category: SkillCategory.TECHNICAL, aliases: ['postgres', 'psql'], parents: ['sql'] },
+    { id: 'mysql', name: 'MySQL', category: SkillCategory.TECHNICAL, aliases: ['mariadb'], parents: ['sql'] },
+    { id: 'sql-server', name: 'SQL Server', category: SkillCategory.TECHNICAL, aliases: ['mssql', 'microsoft sql server', 't-sql', 'tsql'], parents: ['sql'] },
+    { id: 'oracle-db', name: 'Oracle Database', category: SkillCategory.TECHNICAL, aliases: ['oracle db', 'pl/sql', 'plsql'], parents: ['sql'] },
+    { id: 'mongodb', name: 'MongoDB', category: SkillCategory.TECHNICAL, aliases: ['mongo'], parents: ['nosql'] },
+    { id: 'redis', name: 'Redis', category: SkillCategory.TECHNICAL, parents: ['nosql'] },
+    { id: 'dynamodb', name: 'DynamoDB', category: SkillCategory.TECHNICAL, aliases: ['dynamo db'], parents: ['nosql', 'aws'] },
+    { id: 'cassandra', name: 'Cassandra', category: SkillCategory.TECHNICAL, aliases: ['apache cassandra'], parents: ['nosql'] },
+    { id: 'elasticsearch', name: 'Elasticsearch', category: SkillCategory.TOOL, aliases: ['elastic search', 'opensearch'] },
+
+    // Frameworks and libraries
+    { id: 'react', name: 'React', category: SkillCategory.FRAMEWORK, aliases: ['react.js', 'reactjs', 'react js'], parents: ['javascript'] },
+    { id: 'react-native', name: 'React Native', category: SkillCategory.FRAMEWORK, parents: ['react'] },
+    { id: 'nextjs', name: 'Next.js', category: SkillCategory.FRAMEWORK, aliases: ['next.js', 'nextjs', 'next js'], parents: ['react'] },
+    { id: 'redux', name: 'Redux', category: SkillCategory.FRAMEWORK, parents: ['react'] },
+    { id: 'angular', name: 'Angular', category: SkillCategory.FRAMEWORK, aliases: ['angularjs', 'angular.js'], parents: ['typescript'] },
+    { id: 'vue', name: 'Vue', category: SkillCategory.FRAMEWORK, aliases: ['vue.js', 'vuejs', 'vue js'], parents: ['javascript'] },
+    { id: 'svelte', name: 'Svelte', category: SkillCategory.FRAMEWORK, aliases: ['sveltekit'], parents: ['javascript'] },
+    { id: 'nodejs', name: 'Node.js', category: SkillCategory.FRAMEWORK, aliases: ['node', 'node.js', 'nodejs', 'node js'], parents: ['javascript'] },
+    { id: 'express', name: 'Express', category: SkillCategory.FRAMEWORK, aliases: ['express.js', 'expressjs'], caseSensitiveAliases: ['Express'], parents: ['nodejs'] },
+    { id: 'nestjs', name: 'NestJS', category: SkillCategory.FRAMEWORK, aliases: ['nest.js', 'nest js'], parents: ['nodejs', 'typescript'] },
+    { id: 'django', name: 'Django', category: SkillCategory.FRAMEWORK, parents: ['python'] },
+    { id: 'flask', name: 'Flask', category: SkillCategory.FRAMEWORK, parents: ['python'] },
+    { id: 'fastapi', name: 'FastAPI', category: SkillCategory.FRAMEWORK, aliases: ['fast api'], parents: ['python'] },
+    { id: 'spring', name: 'Spring', category: SkillCategory.FRAMEWORK, aliases: ['spring boot', 'springboot', 'spring framework'], caseSensitiveAliases: ['Spring'], parents: ['java'] },
+    { id: 'dotnet', name: '.NET', category: SkillCategory.FRAMEWORK, aliases: ['.net', 'dotnet', '.net core', 'asp.net', 'asp.net core'], parents: ['csharp'] },
+    { id: 'rails', name: 'Ruby on Rails', category: SkillCategory.FRAMEWORK, aliases: ['rails', 'ror'], parents: ['ruby'] },
+    { id: 'laravel', name: 'Laravel', category: SkillCategory.FRAMEWORK, parents: ['php'] },
+    { id: 'tailwind', name: 'Tailwind CSS', category: SkillCategory.FRAMEWORK, aliases: ['tailwind', 'tailwindcss'], parents: ['css'] },
+    { id: 'bootstrap', name: 'Bootstrap', category: SkillCategory.FRAMEWORK, parents: ['css'] },
+    { id: 'graphql', name: 'GraphQL', category: SkillCategory.TECHNICAL, aliases: ['apollo graphql'] },
+    { id: 'rest-api', name: 'REST APIs', category: SkillCategory.TECHNICAL, aliases: ['restful', 'rest api', 'restful api', 'restful apis'] },
+    { id: 'microservices', name: 'Microservices', category: SkillCategory.TECHNICAL, aliases: ['microservice', 'micro services', 'microservice architecture'] },
+    { id: 'pandas', name: 'pandas', category: SkillCategory.FRAMEWORK, parents: ['python'] },
+    { id: 'numpy', name: 'NumPy', category: SkillCategory.FRAMEWORK, parents: ['python'] },
+    { id: 'tensorflow', name: 'TensorFlow', category: SkillCategory.FRAMEWORK, aliases: ['tensor flow'], parents: ['machine-learning'] },
+    { id: 'pytorch', name: 'PyTorch', category: SkillCategory.FRAMEWORK, parents: ['machine-learning'] },
+    { id: 'scikit-learn', name: 'scikit-learn', category: SkillCategory.FRAMEWORK, aliases: ['sklearn', 'scikit learn'], parents: ['machine-learning', 'python'] },
+    { id: 'spark', name: 'Apache Spark', category: SkillCategory.FRAMEWORK, aliases: ['spark', 'pyspark'] },
+    { id: 'kafka', name: 'Apache Kafka', category: SkillCategory.TOOL, aliases: ['kafka'] },
+
+    // Data and AI
+    { id: 'machine-learning', name: 'Machine Learning', category: SkillCategory.TECHNICAL, aliases: ['ml', 'machine learning'] },
+    { id: 'deep-learning', name: 'Deep Learning', category: SkillCategory.TECHNICAL, aliases: ['deep learning', 'neural networks'], parents: ['machine-learning'] },
+    { id: 'nlp', name: 'Natural Language Processing', category: SkillCategory.TECHNICAL, aliases: ['nlp', 'natural language processing'], parents: ['machine-learning'] },
+    { id: 'computer-vision', name: 'Computer Vision', category: SkillCategory.TECHNICAL, aliases: ['computer vision'], parents: ['machine-learning'] },
+    { id: 'llm', name: 'Large Language Models', category: SkillCategory.TECHNICAL, aliases: ['llm', 'llms', 'large language models', 'generative ai', 'genai'], parents: ['nlp'] },
+    { id: 'data-analysis', name: 'Data Analysis', category: SkillCategory.TECHNICAL, aliases: ['data analysis', 'data analytics'] },
+    { id: 'data-engineering', name: 'Data Engineering', category: SkillCategory.TECHNICAL, aliases: ['data engineering', 'etl', 'data pipelines'] },
+    { id: 'statistics', name: 'Statistics', category: SkillCategory.TECHNICAL, aliases: ['statistical analysis'] },
+    { id: 'tableau', name: 'Tableau', category: SkillCategory.TOOL, parents: ['data-analysis'] },
+    { id: 'power-bi', name: 'Power BI', category: SkillCategory.TOOL, aliases: ['powerbi'], parents: ['data-analysis'] },
+    { id: 'excel', name: 'Microsoft Excel', category: SkillCategory.TOOL, aliases: ['ms excel'], caseSensitiveAliases: ['Excel'] },
+
+    // Cloud and infrastructure
+    { id: 'cloud', name: 'Cloud Computing', category: SkillCategory.TECHNICAL, aliases: ['cloud', 'cloud computing'] },
+    { id: 'aws', name: 'AWS', category: SkillCategory.TOOL, aliases: ['amazon web services'], parents: ['cloud'] },
+    { id: 'azure', name: 'Azure', category: SkillCategory.TOOL, aliases: ['microsoft azure'], parents: ['cloud'] },
+    { id: 'gcp', name: 'Google Cloud', category: SkillCategory.TOOL, aliases: ['gcp', 'google cloud platform'], parents: ['cloud'] },
+    { id: 'aws-lambda', name: 'AWS Lambda', category: SkillCategory.TOOL, aliases: ['lambda'], parents: ['aws', 'serverless'] },
+    { id: 'serverless', name: 'Serverless', category: SkillCategory.TECHNICAL },
+    { id: 'docker', name: 'Docker', category: SkillCategory.TOOL, aliases: ['containers', 'containerization'] },
+    { id: 'kubernetes', name: 'Kubernetes', category: SkillCategory.TOOL, aliases: ['k8s', 'kube', 'eks', 'aks', 'gke'], parents: ['docker'] },
+    { id: 'helm', name: 'Helm', category: SkillCategory.TOOL, caseSensitiveAliases: ['Helm'], parents: ['kubernetes'] },
+    { id: 'terraform', name: 'Terraform', category: SkillCategory.TOOL, parents: ['infrastructure-as-code'] },
+    { id: 'ansible', name: 'Ansible', category: SkillCategory.TOOL, parents: ['infrastructure-as-code'] },
+    { id: 'infrastructure-as-code', name: 'Infrastructure as Code', category: SkillCategory.TECHNICAL, aliases: ['iac', 'infrastructure as code'] },
+    { id: 'linux', name: 'Linux', category: SkillCategory.TOOL, aliases: ['unix', 'bash', 'shell scripting'] },
+    { id: 'nginx', name: 'NGINX', category: SkillCategory.TOOL },
+    { id: 'devops', name: 'DevOps', category: SkillCategory.TECHNICAL, aliases: ['dev ops', 'sre', 'site reliability engineering'] },
+    { id: 'ci-cd', name: 'CI/CD', category: SkillCategory.TECHNICAL, aliases: ['ci/cd', 'cicd', 'ci cd', 'continuous integration', 'continuous delivery', 'continuous deployment'], parents: ['devops'] },
+    { id: 'jenkins', name: 'Jenkins', category: SkillCategory.TOOL, parents: ['ci-cd'] },
+    { id: 'github-actions', name: 'GitHub Actions', category: SkillCategory.TOOL, aliases: ['github actions'], parents: ['ci-cd'] },
+    { id: 'gitlab-ci', name: 'GitLab CI', category: SkillCategory.TOOL, aliases: ['gitlab ci', 'gitlab ci/cd'], parents: ['ci-cd'] },
+    { id: 'monitoring', name: 'Monitoring', category: SkillCategory.TECHNICAL, aliases: ['observability'] },
+    { id: 'prometheus', name: 'Prometheus', category: SkillCategory.TOOL, parents: ['monitoring'] },
+    { id: 'grafana', name: 'Grafana', category: SkillCategory.TOOL, parents: ['monitoring'] },
+    { id: 'datadog', name: 'Datadog', category: SkillCategory.TOOL, parents: ['monitoring'] },
+
+    // Tools
+    { id: 'git', name: 'Git', category: SkillCategory.TOOL, aliases: ['github', 'gitlab', 'bitbucket'] },
+    { id: 'jira', name: 'Jira', category: SkillCategory.TOOL },
+    { id: 'figma', name: 'Figma', category: SkillCategory.TOOL },
+    { id: 'webpack', name: 'Webpack', category: SkillCategory.TOOL },
+    { id: 'babel', name: 'Babel', category: SkillCategory.TOOL },
+    { id: 'vite', name: 'Vite', category: SkillCategory.TOOL },
+    { id: 'jest', name: 'Jest', category: SkillCategory.TOOL, parents: ['testing'] },
+    { id: 'cypress', name: 'Cypress', category: SkillCategory.TOOL, parents: ['testing'] },
+    { id: 'selenium', name: 'Selenium', category: SkillCategory.TOOL, parents: ['testing'] },
+    { id: 'salesforce', name: 'Salesforce', category: SkillCategory.TOOL, aliases: ['sfdc'] },
+
+    // Practices
+    { id: 'testing', name: 'Software Testing', category: SkillCategory.TECHNICAL, aliases: ['unit testing', 'test automation', 'automated testing', 'qa', 'tdd'] },
+    { id: 'agile', name: 'Agile', category: SkillCategory.TECHNICAL, aliases: ['agile methodologies', 'kanban'] },
+    { id: 'scrum', name: 'Scrum', category: SkillCategory.TECHNICAL, parents: ['agile'] },
+    { id: 'system-design', name: 'System Design', category: SkillCategory.TECHNICAL, aliases: ['system design', 'distributed systems', 'software architecture'] },
+    { id: 'api-design', name: 'API Design', category: SkillCategory.TECHNICAL, aliases: ['api design', 'api', 'apis'] },
+    { id: 'security', name: 'Security', category: SkillCategory.TECHNICAL, aliases: ['cybersecurity', 'cyber security', 'information security', 'appsec'] },
+    { id: 'mobile-development', name: 'Mobile Development', category: SkillCategory.TECHNICAL, aliases: ['mobile development', 'ios', 'android'] },
+    { id: 'ux-design', name: 'UX Design', category: SkillCategory.TECHNICAL, aliases: ['ux', 'ui/ux', 'user experience', 'ux design'] },
+    { id: 'seo', name: 'SEO', category: SkillCategory.TECHNICAL, aliases: ['search engine optimization'] },
+    { id: 'project-management', name: 'Project Management', category: SkillCategory.SOFT, aliases: ['project management', 'program management'] },
+    { id: 'product-management', name: 'Product Management', category: SkillCategory.SOFT, aliases: ['product management', 'roadmapping'] },
+
+    // Soft skills
+    { id: 'leadership', name: 'Leadership', category: SkillCategory.SOFT, aliases: ['team leadership', 'people management', 'team lead'] },
+    { id: 'mentoring', name: 'Mentoring', category: SkillCategory.SOFT, aliases: ['coaching', 'mentorship'], parents: ['leadership'] },
+    { id: 'communication', name: 'Communication', category: SkillCategory.SOFT, aliases: ['communication skills', 'written communication', 'verbal communication'] },
+    { id: 'collaboration', name: 'Collaboration', category: SkillCategory.SOFT, aliases: ['teamwork', 'cross-functional collaboration'] },
+    { id: 'problem-solving', name: 'Problem Solving', category: SkillCategory.SOFT, aliases: ['problem solving', 'problem-solving', 'analytical skills'] },
+    { id: 'stakeholder-management', name: 'Stakeholder Management', category: SkillCategory.SOFT, aliases: ['stakeholder management'] },
+
+    // Spoken languages
+    { id: 'english', name: 'English', category: SkillCategory.LANGUAGE },
+    { id: 'spanish', name: 'Spanish', category: SkillCategory.LANGUAGE, aliases: ['español', 'espanol'] },
+    { id: 'german', name: 'German', category: SkillCategory.LANGUAGE, aliases: ['deutsch'] },
+    { id: 'portuguese', name: 'Portuguese', category: SkillCategory.LANGUAGE, aliases: ['português', 'portugues'] },
+    { id: 'french', name: 'French', category: SkillCategory.LANGUAGE, aliases: ['français', 'francais'] },
+
+    // Certifications
+    { id: 'aws-certified', name: 'AWS Certification', category: SkillCategory.CERTIFICATION, aliases: ['aws certified', 'aws certified solutions architect', 'aws certified developer', 'aws solutions architect'], parents: ['aws'] },
+    { id: 'azure-certified', name: 'Azure Certification', category: SkillCategory.CERTIFICATION, aliases: ['azure certified', 'az-900', 'az-104', 'az-204'], parents: ['azure'] },
+    { id: 'gcp-certified', name: 'Google Cloud Certification', category: SkillCategory.CERTIFICATION, aliases: ['google cloud certified', 'professional cloud architect'], parents: ['gcp'] },
+    { id: 'cka', name: 'Certified Kubernetes Administrator', category: SkillCategory.CERTIFICATION, aliases: ['cka', 'ckad'], parents: ['kubernetes'] },
+    { id: 'pmp', name: 'PMP', category: SkillCategory.CERTIFICATION, aliases: ['project management professional'], parents: ['project-management'] },
+    { id: 'csm', name: 'Certified ScrumMaster', category: SkillCategory.CERTIFICATION, aliases: ['csm', 'certified scrum master', 'psm'], parents: ['scrum'] },
+    { id: 'cissp', name: 'CISSP', category: SkillCategory.CERTIFICATION, parents: ['security'] },
+    { id: 'comptia-security-plus', name: 'CompTIA Security+', category: SkillCategory.CERTIFICATION, aliases: ['security+', 'comptia security+'], parents: ['security'] },
+    { id: 'cpa', name: 'CPA', category: SkillCategory.CERTIFICATION, aliases: ['certified public accountant'] },
+  ],
+};
@@ -1,8 +1,11 @@
-import { IsString, IsOptional } from 'class-validator';
+import { IsString, IsOptional, IsIn, IsBoolean } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export type DuplicateAction = 'version' | 'new';
 
 export class UploadResumeDto {
-  @ApiProperty({ type: 'string', format: 'binary', description: 'Resume file (PDF, DOCX, or TXT)' })
+  @ApiProperty({ type: 'string', format: 'binary', description: 'Resume file (PDF, DOCX, DOC, RTF, ODT or TXT)' })
   file: any;
 
   @ApiProperty({ example: 'Software Engineer Resume v2', required: false })
@@ -14,4 +17,22 @@ export class UploadResumeDto {
   @IsOptional()
   @IsString()
   tag?: string;
-}
\ No newline at end of file
+
+  @ApiProperty({
+    enum: ['version', 'new'],
+    required: false,
+    description: 'What to do when the upload closely matches an existing resume: add it as a new version (default) or keep it as a separate resume',
+  })
+  @IsOptional()
+  @IsIn(['version', 'new'])
+  duplicateAction?: DuplicateAction;
+
+  @ApiProperty({
+    required: false,
+    description: 'Analyze with several AI providers and reconcile their results; always on for plans that include it',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true') // multipart fields arrive as strings
+  @IsBoolean()
+  ensemble?: boolean;
+}
@@ -0,0 +1,42 @@
+import type { ParsedResumeContent as StructuredResumeContent } from '../../ai/interfaces/ai-provider.interface';
+import type { PdfLayoutInfo } from './file-validation.interface';
+
+export type AtsRuleId =
+  | 'standard-headings'
+  | 'contact-info'
+  | 'date-consistency'
+  | 'no-tables-or-images'
+  | 'bullet-length'
+  | 'quantified-achievements'
+  | 'tense-consistency'
+  | 'file-name-hygiene';
+
+export type AtsRuleStatus = 'pass' | 'fail' | 'not_applicable';
+
+export interface AtsRuleResult {
+  id: AtsRuleId;
+  title: string;
+  weight: number;
+  status: AtsRuleStatus;
+  message: string;
+  evidence?: string[];
+}
+
+export interface AtsAuditReport {
+  version: string; // bumped whenever rules or weights change, so stored scores stay comparable
+  score: number;
+  passed: number;
+  failed: number;
+  rules: AtsRuleResult[];
+}
+
+export interface AtsAuditInput {
+  content: string;
+  fileName: string;
+  fileType: string;
+  parsedContent?: {
+    sections?: StructuredResumeContent['sections'];
+    extractedInfo?: StructuredResumeContent['extractedInfo'];
+    layout?: PdfLayoutInfo;
+  } | null;
+}
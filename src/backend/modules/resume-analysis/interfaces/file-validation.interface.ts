@@ -1,3 +1,8 @@
+import type {
+  LanguageDetectionResult,
+  ParsedResumeContent as StructuredResumeContent,
+} from '../../ai/interfaces/ai-provider.interface';
+
 export interface FileValidationResult {
   isValid: boolean;
   error?: string;
@@ -9,6 +14,36 @@ export interface FileValidationResult {
   };
 }
 
+export type FileScanThreatType =
+  | 'signature-mismatch'
+  | 'executable'
+  | 'pdf-javascript'
+  | 'pdf-launch-action'
+  | 'pdf-embedded-file'
+  | 'macro'
+  | 'external-relationship'
+  | 'embedded-object'
+  | 'zip-bomb'
+  | 'malware'
+  | 'scan-error';
+
+export interface FileScanThreat {
+  type: FileScanThreatType;
+  detail: string;
+}
+
+export interface FileScanResult {
+  clean: boolean;
+  threats: FileScanThreat[];
+  scanners: string[]; // e.g. ['content', 'clamav']
+}
+
+// Request origin, recorded on security events for rejected uploads
+export interface UploadClientInfo {
+  ipAddress: string;
+  userAgent: string;
+}
+
 export interface ParsedResumeContent {
   text: string;
   metadata: {
@@ -16,15 +51,39 @@ export interface ParsedResumeContent {
     title?: string;
     author?: string;
     creationDate?: Date;
+    layout?: PdfLayoutInfo;
   };
+  sections?: StructuredResumeContent['sections'];
+  extractedInfo?: StructuredResumeContent['extractedInfo'];
+  language?: LanguageDetectionResult;
+}
+
+export type PdfLayoutHeuristic =
+  | 'multi-column'
+  | 'header-removal'
+  | 'footer-removal'
+  | 'page-number-removal'
+  | 'table-detection';
+
+export interface PdfLayoutInfo {
+  columns: number; // highest column count found on any page
+  multiColumnPages: number[];
+  headerLinesRemoved: number;
+  footerLinesRemoved: number;
+  tables: number;
+  images: number;
+  heuristics: PdfLayoutHeuristic[];
 }
 
 export const ALLOWED_MIME_TYPES = [
   'application/pdf',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
   'application/msword', // .doc
+  'application/rtf', // .rtf
+  'text/rtf', // .rtf (alternate MIME type sent by some browsers)
+  'application/vnd.oasis.opendocument.text', // .odt
   'text/plain', // .txt
 ];
 
-export const ALLOWED_EXTENSIONS = ['.pdf', '.docx', '.doc', '.txt'];
+export const ALLOWED_EXTENSIONS = ['.pdf', '.docx', '.doc', '.rtf', '.odt', '.txt'];
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
\ No newline at end of file
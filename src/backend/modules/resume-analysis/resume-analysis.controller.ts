@@ -3,21 +3,27 @@ import {
   Post,
   UseInterceptors,
   UploadedFile,
+  UploadedFiles,
   UseGuards,
   Request,
   BadRequestException,
   Get,
   Param,
   Query,
+  Body,
 } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiOperation, ApiConsumes, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { diskStorage } from 'multer';
 import * as path from 'path';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { ResumeAnalysisService } from './resume-analysis.service';
 import { FileValidationService } from './services/file-validation.service';
+import { UploadResumeDto } from './dto/upload-resume.dto';
+import type { UploadClientInfo } from './interfaces/file-validation.interface';
 
+// Career coaches routinely upload 30+ client resumes in one go
+const MAX_BULK_UPLOAD_FILES = 50;
 
 @ApiTags('resume-analysis')
 @Controller('resume')
@@ -57,10 +63,11 @@ export class ResumeAnalysisController {
   )
   @ApiOperation({ summary: 'Upload and analyze resume' })
   @ApiConsumes('multipart/form-data')
-  @ApiResponse({ status: 201, description: 'Resume uploaded and analysis started' })
+  @ApiResponse({ status: 201, description: 'Resume uploaded and analysis started, linked to an identical resume or added as a new version of a near-duplicate' })
   @ApiResponse({ status: 400, description: 'Invalid file or validation failed' })
   async uploadResume(
     @UploadedFile() file: Express.Multer.File,
+    @Body() uploadDto: UploadResumeDto,
     @Request() req: any,
   ) {
     // Validate file
@@ -70,7 +77,11 @@ export class ResumeAnalysisController {
     }
 
     // Process upload
-    return this.resumeAnalysisService.processUpload(file, req.user.sub);
+    return this.resumeAnalysisService.processUpload(file, req.user.sub, {
+      duplicateAction: uploadDto.duplicateAction,
+      ensemble: uploadDto.ensemble,
+      client: this.getClientInfo(req),
+    });
   }
 
   @Get('analysis/:id')
@@ -96,11 +107,27 @@ export class ResumeAnalysisController {
   }
 
   @Post('bulk-upload')
-  @UseInterceptors(FileInterceptor('files'))
+  @UseInterceptors(FilesInterceptor('files', MAX_BULK_UPLOAD_FILES))
   @ApiOperation({ summary: 'Upload multiple resumes for batch processing' })
   @ApiConsumes('multipart/form-data')
   @ApiResponse({ status: 201, description: 'Bulk upload started' })
-  async bulkUpload(@UploadedFile() files: Express.Multer.File[], @Request() req: any) {
-    return this.resumeAnalysisService.processBulkUpload(files, req.user.sub);
+  @ApiResponse({ status: 400, description: 'No valid files or too many files' })
+  async bulkUpload(@UploadedFiles() files: Express.Multer.File[], @Request() req: any) {
+    return this.resumeAnalysisService.processBulkUpload(files, req.user.sub, this.getClientInfo(req));
+  }
+
+  @Get('bulk/:batchId')
+  @ApiOperation({ summary: 'Get bulk upload status with per-file progress' })
+  @ApiResponse({ status: 200, description: 'Batch status retrieved' })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  async getBulkBatch(@Param('batchId') batchId: string, @Request() req: any) {
+    return this.resumeAnalysisService.getBulkBatch(batchId, req.user.sub);
+  }
+
+  private getClientInfo(req: any): UploadClientInfo {
+    return {
+      ipAddress: req.ip || req.connection?.remoteAddress || 'unknown',
+      userAgent: req.headers?.['user-agent'] || 'unknown',
+    };
   }
-}
\ No newline at end of file
+}
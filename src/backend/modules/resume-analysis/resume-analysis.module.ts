@@ -5,17 +5,30 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { Resume } from '../../database/entities/resume.entity';
 import { ResumeVersion } from '../../database/entities/resume-version.entity';
 import { User } from '../../database/entities/user.entity';
+import { ResumeBatch } from '../../database/entities/resume-batch.entity';
+import { UserSubscription } from '../../database/entities/subscription.entity';
 import { ResumeAnalysisController } from './resume-analysis.controller';
 import { ResumeAnalysisService } from './resume-analysis.service';
 import { FileValidationService } from './services/file-validation.service';
 import { FileParserService } from './services/file-parser.service';
+import { ResumeSegmenterService } from './services/resume-segmenter.service';
+import { PdfLayoutService } from './services/pdf-layout.service';
+import { AtsAuditService } from './services/ats-audit.service';
+import { ResumeSimilarityService } from './services/resume-similarity.service';
+import { LanguageDetectionService } from './services/language-detection.service';
+import { FileScanService } from './services/file-scan.service';
+import { SkillsTaxonomyService } from './services/skills-taxonomy.service';
 import { QueueModule } from '../../queues/queue.module';
+import { StorageModule } from '../storage/storage.module';
+import { AdminModule } from '../admin/admin.module';
 import * as multer from 'multer';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Resume, ResumeVersion, User]),
+    TypeOrmModule.forFeature([Resume, ResumeVersion, User, ResumeBatch, UserSubscription]),
     QueueModule,
+    StorageModule,
+    AdminModule,
     MulterModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -33,6 +46,13 @@ import * as multer from 'multer';
     ResumeAnalysisService,
     FileValidationService,
     FileParserService,
+    ResumeSegmenterService,
+    PdfLayoutService,
+    AtsAuditService,
+    ResumeSimilarityService,
+    LanguageDetectionService,
+    FileScanService,
+    SkillsTaxonomyService,
   ],
   exports: [ResumeAnalysisService, FileValidationService],
 })
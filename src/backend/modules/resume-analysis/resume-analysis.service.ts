@@ -7,12 +7,27 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import * as fs from 'fs';
 import * as path from 'path';
+import { randomUUID } from 'crypto';
 import { Resume } from '../../database/entities/resume.entity';
 import { ResumeVersion } from '../../database/entities/resume-version.entity';
 import { User } from '../../database/entities/user.entity';
+import { UserSubscription } from '../../database/entities/subscription.entity';
+import {
+  ResumeBatch,
+  ResumeBatchFile,
+  ResumeBatchFileStatus,
+  ResumeBatchStatus,
+} from '../../database/entities/resume-batch.entity';
 import { FileParserService } from './services/file-parser.service';
 import { FileValidationService } from './services/file-validation.service';
+import { FileScanService } from './services/file-scan.service';
+import type { UploadClientInfo } from './interfaces/file-validation.interface';
+import { ResumeFingerprint, ResumeSimilarityService } from './services/resume-similarity.service';
+import type { DuplicateAction } from './dto/upload-resume.dto';
 import { QueueService } from '../../queues/queue.service';
+import type { BulkResumeAnalysisJob } from '../../queues/queue.types';
+import { StorageService } from '../storage/services/storage.service';
+import { AdminSecurityService } from '../admin/services/admin-security.service';
 
 @Injectable()
 export class ResumeAnalysisService {
@@ -23,66 +38,133 @@ export class ResumeAnalysisService {
     private resumeVersionRepository: Repository<ResumeVersion>,
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    @InjectRepository(ResumeBatch)
+    private resumeBatchRepository: Repository<ResumeBatch>,
     private fileParserService: FileParserService,
     private fileValidationService: FileValidationService,
     private queueService: QueueService,
+    private storageService: StorageService,
+    private resumeSimilarityService: ResumeSimilarityService,
+    private fileScanService: FileScanService,
+    private adminSecurityService: AdminSecurityService,
+    @InjectRepository(UserSubscription)
+    private subscriptionRepository: Repository<UserSubscription>,
   ) {}
 
-  async processUpload(file: Express.Multer.File, userId: string) {
+  async processUpload(
+    file: Express.Multer.File,
+    userId: string,
+    options: { duplicateAction?: DuplicateAction; client?: UploadClientInfo; ensemble?: boolean } = {},
+  ) {
     // Ensure user exists
     const user = await this.userRepository.findOne({ where: { id: userId } });
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
+    let storageKey: string | undefined;
+
     try {
+      // Scan before the parsers ever open the file
+      const scanError = await this.scanUpload(file, user, options.client);
+      if (scanError) {
+        throw new BadRequestException(scanError);
+      }
+
       // Parse the file
       const parsedContent = await this.fileParserService.parseFile(file.path, file.mimetype);
       const cleanedText = this.fileParserService.cleanText(parsedContent.text);
       const extractedMetadata = this.fileParserService.extractMetadata(cleanedText);
 
-      // Create resume record
-      const resume = this.resumeRepository.create({
-        userId,
+      // Compare against the user's existing resumes before storing anything
+      const fingerprint = this.resumeSimilarityService.fingerprint(cleanedText);
+      const match = await this.findDuplicate(userId, fingerprint);
+
+      if (match?.exact) {
+        // Same content under another name or format: link to the existing analysis
+        if (fs.existsSync(file.path)) {
+          fs.unlinkSync(file.path);
+        }
+
+        return {
+          resumeId: match.candidate.id,
+          message: 'This resume was already uploaded; linked to the existing analysis',
+          status: 'duplicate',
+          duplicateOf: {
+            resumeId: match.candidate.id,
+            fileName: match.candidate.fileName,
+            similarity: match.similarity,
+          },
+        };
+      }
+
+      // Move file to permanent storage
+      storageKey = await this.storageService.save(
+        this.buildStorageKey(file.originalname, userId),
+        fs.createReadStream(file.path),
+        { contentType: file.mimetype },
+      );
+
+      const upload = {
         fileName: file.originalname,
         fileSize: file.size,
         fileType: file.mimetype,
+        storageKey,
         content: cleanedText,
+        contentHash: fingerprint.contentHash,
+        contentSignature: fingerprint.signature,
         parsedContent: {
           ...parsedContent.metadata,
-          extractedInfo: extractedMetadata,
+          sections: parsedContent.sections,
+          extractedInfo: {
+            ...extractedMetadata,
+            ...parsedContent.extractedInfo,
+          },
+          language: parsedContent.language,
         },
-        isProcessed: false,
-      });
-
-      const savedResume = await this.resumeRepository.save(resume);
-
-      // Create version record
-      const version = this.resumeVersionRepository.create({
-        resumeId: savedResume.id,
-        fileName: file.originalname,
-        fileSize: file.size,
-        fileType: file.mimetype,
-        content: cleanedText,
-        parsedContent: savedResume.parsedContent,
-        versionNumber: 1,
-      });
-
-      await this.resumeVersionRepository.save(version);
+      };
 
-      // Move file to permanent storage
-      const permanentDir = this.fileValidationService.ensureUploadDirectory();
-      const permanentPath = path.join(permanentDir, 'resumes', 
-        this.fileValidationService.generateSecureFileName(file.originalname, userId));
-      
-      fs.renameSync(file.path, permanentPath);
+      let resumeId: string;
+      let versionNumber = 1;
+
+      if (match && options.duplicateAction !== 'new') {
+        // A revision of an existing resume becomes its next version instead of a new record
+        resumeId = match.candidate.id;
+        versionNumber = await this.addVersionToResume(resumeId, upload, match.similarity);
+      } else {
+        // Create resume record
+        const resume = this.resumeRepository.create({
+          userId,
+          ...upload,
+          isProcessed: false,
+        });
+
+        const savedResume = await this.resumeRepository.save(resume);
+        resumeId = savedResume.id;
+
+        // Create version record
+        const version = this.resumeVersionRepository.create({
+          resumeId: savedResume.id,
+          fileName: upload.fileName,
+          fileSize: upload.fileSize,
+          fileType: upload.fileType,
+          storageKey: upload.storageKey,
+          content: cleanedText,
+          parsedContent: savedResume.parsedContent,
+          versionNumber,
+        });
+
+        await this.resumeVersionRepository.save(version);
+      }
 
       // Queue for AI analysis
       await this.queueService.addResumeAnalysisJob({
-        resumeId: savedResume.id,
+        resumeId,
         userId,
-        fileContent: fs.readFileSync(permanentPath),
+        storageKey,
         provider: 'gemini', // Primary provider as per memory
+        redactPii: user.piiRedactionEnabled ?? undefined,
+        ensemble: options.ensemble || (await this.planIncludesEnsemble(userId)),
       });
 
       // Clean up temp file if it still exists
@@ -90,8 +172,22 @@ export class ResumeAnalysisService {
         fs.unlinkSync(file.path);
       }
 
+      if (versionNumber > 1 && match) {
+        return {
+          resumeId,
+          versionNumber,
+          message: `Resume is ${Math.round(match.similarity * 100)}% similar to "${match.candidate.fileName}" and was added as version ${versionNumber}`,
+          status: 'processing',
+          nearDuplicateOf: {
+            resumeId: match.candidate.id,
+            fileName: match.candidate.fileName,
+            similarity: match.similarity,
+          },
+        };
+      }
+
       return {
-        resumeId: savedResume.id,
+        resumeId,
         message: 'Resume uploaded successfully and queued for analysis',
         status: 'processing',
       };
@@ -101,6 +197,11 @@ export class ResumeAnalysisService {
       if (fs.existsSync(file.path)) {
         fs.unlinkSync(file.path);
       }
+      // Once a resume or version points at the stored original it stays; only an unreferenced object is ours to remove
+      await this.releaseStorageKeys([storageKey]);
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
       throw new BadRequestException(`Failed to process resume: ${error?.message || 'Unknown error'}`);
     }
   }
@@ -121,6 +222,7 @@ export class ResumeAnalysisService {
       uploadedAt: resume.uploadedAt,
       isProcessed: resume.isProcessed,
       atsScore: resume.atsScore,
+      aiScore: resume.parsedContent?.aiScore,
       suggestions: resume.suggestions,
       parsedContent: resume.parsedContent,
       versions: resume.versions?.length || 0,
@@ -148,50 +250,128 @@ export class ResumeAnalysisService {
     };
   }
 
-  async processBulkUpload(files: Express.Multer.File[], userId: string) {
+  async processBulkUpload(files: Express.Multer.File[], userId: string, client?: UploadClientInfo) {
     if (!files || files.length === 0) {
       throw new BadRequestException('No files provided for bulk upload');
     }
 
-    const batchId = `bulk_${Date.now()}_${userId}`;
-    const validFiles: Express.Multer.File[] = [];
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const batchFiles: ResumeBatchFile[] = [];
+    const resumeFiles: BulkResumeAnalysisJob['resumeFiles'] = [];
+    let batch: ResumeBatch | undefined;
+    let queued = false;
 
-    // Validate all files first
-    for (const file of files) {
-      const validation = this.fileValidationService.validateFile(file);
-      if (validation.isValid) {
-        validFiles.push(file);
+    try {
+      // Validate all files first; rejected files stay in the batch so the user sees why
+      for (const file of files) {
+        const id = randomUUID();
+        let error: string | null | undefined;
+
+        // One unreadable file must not take the rest of the batch down with it
+        try {
+          const validation = this.fileValidationService.validateFile(file);
+          error = validation.isValid ? await this.scanUpload(file, user, client) : validation.error;
+
+          if (!error) {
+            // Store the originals so the job only carries keys, not file contents
+            resumeFiles.push({
+              id,
+              storageKey: await this.storageService.save(
+                this.buildStorageKey(file.originalname, userId),
+                file.path ? fs.createReadStream(file.path) : file.buffer,
+                { contentType: file.mimetype },
+              ),
+              fileName: file.originalname,
+              fileSize: file.size,
+            });
+          }
+        } catch (failure: any) {
+          error = `Failed to process file: ${failure?.message || 'Unknown error'}`;
+        }
+
+        batchFiles.push({
+          id,
+          fileName: file.originalname,
+          fileSize: file.size,
+          status: error ? ResumeBatchFileStatus.FAILED : ResumeBatchFileStatus.QUEUED,
+          ...(error && { error }),
+          updatedAt: new Date().toISOString(),
+        });
       }
-    }
 
-    if (validFiles.length === 0) {
-      throw new BadRequestException('No valid files found in bulk upload');
+      if (resumeFiles.length === 0) {
+        throw new BadRequestException('No valid files found in bulk upload');
+      }
+
+      batch = await this.resumeBatchRepository.save(
+        this.resumeBatchRepository.create({
+          userId,
+          status: ResumeBatchStatus.QUEUED,
+          totalFiles: batchFiles.length,
+          failedFiles: batchFiles.length - resumeFiles.length,
+          files: batchFiles,
+        }),
+      );
+
+      // Queue bulk analysis job
+      await this.queueService.addBulkAnalysisJob({
+        batchId: batch.id,
+        userId,
+        resumeFiles,
+        provider: 'gemini',
+        redactPii: user.piiRedactionEnabled ?? undefined,
+        ensemble: await this.planIncludesEnsemble(userId),
+      });
+      queued = true;
+
+      return {
+        batchId: batch.id,
+        totalFiles: batch.totalFiles,
+        queuedFiles: resumeFiles.length,
+        rejectedFiles: batch.failedFiles,
+        message: 'Bulk upload queued for processing',
+        status: batch.status,
+      };
+    } finally {
+      // Clean up temp files
+      for (const file of files) {
+        if (file.path && fs.existsSync(file.path)) {
+          fs.unlinkSync(file.path);
+        }
+      }
+
+      // Without a job nothing would ever read or remove the stored originals
+      if (!queued) {
+        await Promise.all(resumeFiles.map(file => this.storageService.delete(file.storageKey)));
+        if (batch) {
+          await this.resumeBatchRepository.update(batch.id, { status: ResumeBatchStatus.FAILED, completedAt: new Date() });
+        }
+      }
     }
+  }
 
-    // Queue bulk analysis job
-    await this.queueService.addBulkAnalysisJob({
-      batchId,
-      userId,
-      resumeFiles: validFiles.map(file => ({
-        id: `${file.originalname}_${Date.now()}`,
-        content: fs.readFileSync(file.path),
-        fileName: file.originalname,
-      })),
-      provider: 'gemini',
+  async getBulkBatch(batchId: string, userId: string) {
+    const batch = await this.resumeBatchRepository.findOne({
+      where: { id: batchId, userId },
     });
 
-    // Clean up temp files
-    for (const file of files) {
-      if (fs.existsSync(file.path)) {
-        fs.unlinkSync(file.path);
-      }
+    if (!batch) {
+      throw new NotFoundException('Bulk upload batch not found');
     }
 
     return {
-      batchId,
-      totalFiles: validFiles.length,
-      message: 'Bulk upload queued for processing',
-      status: 'queued',
+      batchId: batch.id,
+      status: batch.status,
+      totalFiles: batch.totalFiles,
+      completedFiles: batch.completedFiles,
+      failedFiles: batch.failedFiles,
+      files: batch.files,
+      createdAt: batch.createdAt,
+      completedAt: batch.completedAt,
     };
   }
 
@@ -241,4 +421,129 @@ export class ResumeAnalysisService {
 
     return { deletedVersions: totalDeleted };
   }
-}
\ No newline at end of file
+
+  // Deletes the stored originals that no resume or version points at any more
+  private async releaseStorageKeys(storageKeys: (string | undefined)[]): Promise<void> {
+    for (const storageKey of new Set(storageKeys)) {
+      if (storageKey && !(await this.isStorageKeyReferenced(storageKey))) {
+        await this.storageService.delete(storageKey);
+      }
+    }
+  }
+
+  private async isStorageKeyReferenced(storageKey: string): Promise<boolean> {
+    const [resumes, versions] = await Promise.all([
+      this.resumeRepository.count({ where: { storageKey } }),
+      this.resumeVersionRepository.count({ where: { storageKey } }),
+    ]);
+    return resumes + versions > 0;
+  }
+
+  private async findDuplicate(userId: string, fingerprint: ResumeFingerprint) {
+    const candidates = await this.resumeRepository.find({
+      where: { userId },
+      select: ['id', 'fileName', 'contentHash', 'contentSignature'],
+    });
+
+    return this.resumeSimilarityService.findBestMatch(fingerprint, candidates);
+  }
+
+  // Stores the upload as the next version and makes it the resume's current content
+  private async addVersionToResume(
+    resumeId: string,
+    upload: Pick<
+      Resume,
+      'fileName' | 'fileSize' | 'fileType' | 'storageKey' | 'content' | 'contentHash' | 'contentSignature' | 'parsedContent'
+    >,
+    similarity: number,
+  ): Promise<number> {
+    const latest = await this.resumeVersionRepository.findOne({
+      where: { resumeId },
+      order: { versionNumber: 'DESC' },
+    });
+    const versionNumber = (latest?.versionNumber || 0) + 1;
+    const previousStorageKey = (
+      await this.resumeRepository.findOne({
+        where: { id: resumeId },
+        select: ['id', 'storageKey'],
+      })
+    )?.storageKey;
+
+    await this.resumeVersionRepository.save(
+      this.resumeVersionRepository.create({
+        resumeId,
+        fileName: upload.fileName,
+        fileSize: upload.fileSize,
+        fileType: upload.fileType,
+        storageKey: upload.storageKey,
+        content: upload.content,
+        parsedContent: upload.parsedContent,
+        versionNumber,
+        notes: `Uploaded as ${upload.fileName} (${Math.round(similarity * 100)}% similar to the previous version)`,
+      }),
+    );
+
+    await this.resumeRepository.update(resumeId, {
+      ...upload,
+      isProcessed: false,
+    });
+
+    // Keep only the last 10 versions, as when versions are created through the versions API
+    const versions = await this.resumeVersionRepository.find({
+      where: { resumeId },
+      order: { versionNumber: 'DESC' },
+    });
+    const trimmed = versions.slice(10);
+    if (trimmed.length > 0) {
+      await this.resumeVersionRepository.delete(trimmed.map(version => version.id));
+    }
+
+    // The previous original stays while its version does; versions from before keys were kept have none
+    await this.releaseStorageKeys([previousStorageKey, ...trimmed.map(version => version.storageKey)]);
+
+    return versionNumber;
+  }
+
+  // Returns the rejection message for unsafe files and records a security event for admins
+  private async scanUpload(file: Express.Multer.File, user: User, client?: UploadClientInfo): Promise<string | null> {
+    const scan = await this.fileScanService.scan(file);
+    if (scan.clean) {
+      return null;
+    }
+
+    const malware = scan.threats.some(threat => threat.type === 'malware');
+    this.adminSecurityService.logSecurityEvent({
+      type: 'malicious_upload',
+      user: { id: user.id, email: user.email, role: user.role },
+      ipAddress: client?.ipAddress || 'unknown',
+      userAgent: client?.userAgent || 'unknown',
+      description: `Upload "${file.originalname}" rejected: ${scan.threats.map(threat => threat.detail).join('; ')}`,
+      severity: malware ? 'critical' : 'high',
+      details: {
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        threats: scan.threats,
+        scanners: scan.scanners,
+      },
+    });
+
+    return scan.threats.some(threat => threat.type === 'scan-error')
+      ? 'File could not be scanned for malware, please try again later'
+      : `File was rejected for unsafe content: ${scan.threats.map(threat => threat.detail).join('; ')}`;
+  }
+
+  // Plans list their extras in the features JSON; aiEnsemble turns on multi-provider analysis
+  private async planIncludesEnsemble(userId: string): Promise<boolean> {
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { userId, status: 'active' },
+      relations: ['plan'],
+      order: { currentPeriodEnd: 'DESC' },
+    });
+    return subscription?.plan?.features?.aiEnsemble === true;
+  }
+
+  private buildStorageKey(originalName: string, userId: string): string {
+    return path.posix.join('resumes', this.fileValidationService.generateSecureFileName(originalName, userId));
+  }
+}
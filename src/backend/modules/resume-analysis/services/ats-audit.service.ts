@@ -0,0 +1,361 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import { ParsedResumeContent } from '../../ai/interfaces/ai-provider.interface';
+import {
+  AtsAuditInput,
+  AtsAuditReport,
+  AtsRuleId,
+  AtsRuleResult,
+} from '../interfaces/ats-audit.interface';
+import { ResumeSegmenterService } from './resume-segmenter.service';
+
+export const ATS_AUDIT_VERSION = '1.0';
+
+type RuleOutcome = Pick<AtsRuleResult, 'status' | 'message' | 'evidence'>;
+
+interface RuleDefinition {
+  id: AtsRuleId;
+  title: string;
+  weight: number;
+  check: (context: AuditContext) => RuleOutcome;
+}
+
+interface AuditContext {
+  input: AtsAuditInput;
+  info: NonNullable<ParsedResumeContent['extractedInfo']>;
+  sections: Record<string, string>;
+  bullets: string[];
+}
+
+const REQUIRED_SECTIONS = ['experience', 'education', 'skills'];
+const MIN_BULLET_WORDS = 5;
+const MAX_BULLET_WORDS = 30;
+const BULLET_LENGTH_PASS_RATIO = 0.8;
+const QUANTIFIED_PASS_RATIO = 0.3;
+const MAX_EVIDENCE = 3;
+const MAX_FILE_NAME_LENGTH = 60;
+
+const QUANTIFIED_PATTERN = /\d|%|\$|€|£/;
+const CURRENT_END_DATE = /^(?:present|current|now|today)$/i;
+const GENERIC_FILE_NAME =
+  /^(?:my[\s_-]*)?(?:resume|cv|curriculum[\s_-]*vitae|document|untitled|new[\s_-]*document|final|draft|copy)(?:[\s_-]*(?:final|draft|copy|new|updated|v?\d+|\(\d+\)))*$/i;
+const UNSAFE_FILE_NAME_CHARACTERS = /[^\w\s.-]/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Month names that read the same abbreviated or spelled out, so they fit either style
+const NEUTRAL_MONTHS = new Set(['may', 'june', 'july']);
+
+// Common resume action verbs, base form to past tense
+const ACTION_VERBS: Record<string, string> = {
+  analyze: 'analyzed',
+  architect: 'architected',
+  automate: 'automated',
+  build: 'built',
+  collaborate: 'collaborated',
+  coordinate: 'coordinated',
+  create: 'created',
+  deliver: 'delivered',
+  design: 'designed',
+  develop: 'developed',
+  drive: 'drove',
+  establish: 'established',
+  implement: 'implemented',
+  improve: 'improved',
+  increase: 'increased',
+  launch: 'launched',
+  lead: 'led',
+  maintain: 'maintained',
+  manage: 'managed',
+  mentor: 'mentored',
+  migrate: 'migrated',
+  optimize: 'optimized',
+  oversee: 'oversaw',
+  own: 'owned',
+  plan: 'planned',
+  reduce: 'reduced',
+  run: 'ran',
+  ship: 'shipped',
+  support: 'supported',
+  train: 'trained',
+  write: 'wrote',
+};
+const PRESENT_TENSE_VERBS = new Set(
+  Object.keys(ACTION_VERBS).flatMap(verb => [verb, `${verb}s`, `${verb}es`]),
+);
+const PAST_TENSE_VERBS = new Set(Object.values(ACTION_VERBS));
+
+@Injectable()
+export class AtsAuditService {
+  private readonly rules: RuleDefinition[] = [
+    {
+      id: 'standard-headings',
+      title: 'Standard section headings',
+      weight: 20,
+      check: context => this.checkHeadings(context),
+    },
+    {
+      id: 'contact-info',
+      title: 'Contact information present',
+      weight: 15,
+      check: context => this.checkContactInfo(context),
+    },
+    {
+      id: 'date-consistency',
+      title: 'Consistent dates',
+      weight: 15,
+      check: context => this.checkDates(context),
+    },
+    {
+      id: 'no-tables-or-images',
+      title: 'No tables or images in PDF',
+      weight: 10,
+      check: context => this.checkTablesAndImages(context),
+    },
+    {
+      id: 'bullet-length',
+      title: 'Bullet length',
+      weight: 10,
+      check: context => this.checkBulletLength(context),
+    },
+    {
+      id: 'quantified-achievements',
+      title: 'Quantified achievements',
+      weight: 15,
+      check: context => this.checkQuantifiedAchievements(context),
+    },
+    {
+      id: 'tense-consistency',
+      title: 'Tense consistency',
+      weight: 10,
+      check: context => this.checkTense(context),
+    },
+    {
+      id: 'file-name-hygiene',
+      title: 'File name hygiene',
+      weight: 5,
+      check: context => this.checkFileName(context),
+    },
+  ];
+
+  constructor(private resumeSegmenterService: ResumeSegmenterService) {}
+
+  /**
+   * Scores a parsed resume against fixed ATS rules. The result depends only on
+   * the resume itself, so the same file always gets the same score.
+   */
+  audit(input: AtsAuditInput): AtsAuditReport {
+    // Resumes uploaded before section segmentation existed only have plain content
+    const structured = input.parsedContent?.sections
+      ? input.parsedContent
+      : this.resumeSegmenterService.segment(input.content);
+    const info = structured.extractedInfo || {};
+
+    const context: AuditContext = {
+      input,
+      info,
+      sections: structured.sections || {},
+      bullets: [
+        ...(info.experience || []).flatMap(entry => entry.achievements || []),
+        ...(info.projects || []).flatMap(entry => entry.achievements || []),
+      ],
+    };
+
+    const rules = this.rules.map(({ id, title, weight, check }) => ({ id, title, weight, ...check(context) }));
+    const applicable = rules.filter(rule => rule.status !== 'not_applicable');
+    const possible = applicable.reduce((sum, rule) => sum + rule.weight, 0);
+    const earned = applicable.filter(rule => rule.status === 'pass').reduce((sum, rule) => sum + rule.weight, 0);
+
+    return {
+      version: ATS_AUDIT_VERSION,
+      score: possible ? Math.round((earned / possible) * 100) : 0,
+      passed: applicable.filter(rule => rule.status === 'pass').length,
+      failed: applicable.filter(rule => rule.status === 'fail').length,
+      rules,
+    };
+  }
+
+  private checkHeadings({ sections }: AuditContext): RuleOutcome {
+    const missing = REQUIRED_SECTIONS.filter(section => !sections[section]);
+
+    return missing.length
+      ? { status: 'fail', message: `Missing standard sections: ${missing.join(', ')}`, evidence: missing }
+      : { status: 'pass', message: 'Experience, education and skills sections use recognisable headings' };
+  }
+
+  private checkContactInfo({ info }: AuditContext): RuleOutcome {
+    const contact = info.contactInfo || {};
+    const missing = [!contact.email && 'email', !contact.phone && 'phone'].filter(Boolean) as string[];
+
+    return missing.length
+      ? { status: 'fail', message: `Contact details missing: ${missing.join(', ')}`, evidence: missing }
+      : { status: 'pass', message: 'Email and phone number found' };
+  }
+
+  // Formats are compared within experience and within education, since year-only degrees are normal
+  private checkDates({ info }: AuditContext): RuleOutcome {
+    const groups = [
+      { name: 'experience', entries: (info.experience || []).map(entry => ({ ...entry, label: entry.company || entry.position })) },
+      { name: 'education', entries: (info.education || []).map(entry => ({ ...entry, label: entry.institution || entry.degree })) },
+    ].map(group => ({ ...group, entries: group.entries.filter(entry => entry.startDate) }));
+
+    if (!groups.some(group => group.entries.length)) {
+      return { status: 'not_applicable', message: 'No dated experience or education entries found' };
+    }
+
+    const evidence: string[] = [];
+    for (const { name, entries } of groups) {
+      const formats = new Set<string>();
+
+      for (const entry of entries) {
+        [entry.startDate, entry.endDate]
+          .filter((date): date is string => !!date && !CURRENT_END_DATE.test(date))
+          .forEach(date => {
+            const format = this.dateFormat(date);
+            if (format) formats.add(format);
+          });
+
+        const start = this.dateOrdinal(entry.startDate);
+        const end = entry.endDate && !CURRENT_END_DATE.test(entry.endDate) ? this.dateOrdinal(entry.endDate) : undefined;
+        if (start !== undefined && end !== undefined && start > end) {
+          evidence.push(`${entry.label}: ${entry.startDate} is after ${entry.endDate}`);
+        }
+      }
+
+      if (formats.size > 1) {
+        evidence.unshift(`Mixed date formats in ${name}: ${[...formats].join(', ')}`);
+      }
+    }
+
+    return evidence.length
+      ? { status: 'fail', message: 'Dates are inconsistent', evidence: evidence.slice(0, MAX_EVIDENCE) }
+      : { status: 'pass', message: 'Dates share one format per section and every range runs forwards' };
+  }
+
+  private checkTablesAndImages({ input }: AuditContext): RuleOutcome {
+    const layout = input.parsedContent?.layout;
+    if (input.fileType !== 'application/pdf' || !layout) {
+      return { status: 'not_applicable', message: 'Only checked for PDFs with layout information' };
+    }
+
+    const evidence = [
+      layout.tables && `${layout.tables} table(s) detected`,
+      layout.images && `${layout.images} image(s) embedded`,
+    ].filter(Boolean) as string[];
+
+    return evidence.length
+      ? { status: 'fail', message: 'Tables and images are often dropped or garbled by ATS parsers', evidence }
+      : { status: 'pass', message: 'No tables or images found' };
+  }
+
+  private checkBulletLength({ bullets }: AuditContext): RuleOutcome {
+    if (!bullets.length) {
+      return { status: 'not_applicable', message: 'No bullet points found' };
+    }
+
+    const outliers = bullets.filter(bullet => {
+      const words = bullet.split(/\s+/).filter(Boolean).length;
+      return words < MIN_BULLET_WORDS || words > MAX_BULLET_WORDS;
+    });
+    const ratio = 1 - outliers.length / bullets.length;
+
+    return ratio >= BULLET_LENGTH_PASS_RATIO
+      ? { status: 'pass', message: `${bullets.length - outliers.length} of ${bullets.length} bullets are ${MIN_BULLET_WORDS}-${MAX_BULLET_WORDS} words long` }
+      : {
+          status: 'fail',
+          message: `Only ${bullets.length - outliers.length} of ${bullets.length} bullets are ${MIN_BULLET_WORDS}-${MAX_BULLET_WORDS} words long`,
+          evidence: outliers.slice(0, MAX_EVIDENCE),
+        };
+  }
+
+  private checkQuantifiedAchievements({ bullets }: AuditContext): RuleOutcome {
+    if (!bullets.length) {
+      return { status: 'not_applicable', message: 'No bullet points found' };
+    }
+
+    const quantified = bullets.filter(bullet => QUANTIFIED_PATTERN.test(bullet));
+    const message = `${quantified.length} of ${bullets.length} bullets include numbers`;
+
+    return quantified.length / bullets.length >= QUANTIFIED_PASS_RATIO
+      ? { status: 'pass', message }
+      : {
+          status: 'fail',
+          message,
+          evidence: bullets.filter(bullet => !QUANTIFIED_PATTERN.test(bullet)).slice(0, MAX_EVIDENCE),
+        };
+  }
+
+  // Past roles should be written in the past tense; a current role may use either, but not both
+  private checkTense({ info }: AuditContext): RuleOutcome {
+    const evidence: string[] = [];
+    let checked = 0;
+
+    for (const entry of info.experience || []) {
+      const isCurrent = !entry.endDate || CURRENT_END_DATE.test(entry.endDate);
+      const tenses = (entry.achievements || []).map(bullet => ({ bullet, tense: this.leadingVerbTense(bullet) }));
+      const present = tenses.filter(({ tense }) => tense === 'present');
+      const past = tenses.filter(({ tense }) => tense === 'past');
+      checked += present.length + past.length;
+
+      if (!isCurrent && present.length) {
+        evidence.push(...present.map(({ bullet }) => `${entry.company || entry.position}: "${bullet}"`));
+      } else if (isCurrent && present.length && past.length) {
+        evidence.push(`${entry.company || entry.position}: mixes present and past tense`);
+      }
+    }
+
+    if (!checked) {
+      return { status: 'not_applicable', message: 'No bullets start with a recognised action verb' };
+    }
+
+    return evidence.length
+      ? { status: 'fail', message: 'Verb tense is inconsistent', evidence: evidence.slice(0, MAX_EVIDENCE) }
+      : { status: 'pass', message: 'Past roles use past tense throughout' };
+  }
+
+  private checkFileName({ input }: AuditContext): RuleOutcome {
+    const baseName = path.parse(input.fileName).name.trim();
+    const evidence = [
+      GENERIC_FILE_NAME.test(baseName) && 'File name is generic; include your name, e.g. Jane_Smith_Resume',
+      UNSAFE_FILE_NAME_CHARACTERS.test(baseName) && 'File name contains special characters',
+      baseName.length > MAX_FILE_NAME_LENGTH && `File name is longer than ${MAX_FILE_NAME_LENGTH} characters`,
+    ].filter(Boolean) as string[];
+
+    return evidence.length
+      ? { status: 'fail', message: `"${input.fileName}" is not a clean, descriptive file name`, evidence }
+      : { status: 'pass', message: 'File name is descriptive and uses safe characters' };
+  }
+
+  private dateFormat(date: string): string | undefined {
+    const value = date.trim().toLowerCase();
+    const monthWord = value.match(/^([a-z]+)\.?\s+\d{4}$/)?.[1];
+
+    if (monthWord) {
+      if (NEUTRAL_MONTHS.has(monthWord)) return undefined;
+      return monthWord.length <= 4 ? 'Mon YYYY' : 'Month YYYY';
+    }
+    if (/^\d{1,2}[/.-]\d{4}$/.test(value)) return 'MM/YYYY';
+    if (/^\d{4}$/.test(value)) return 'YYYY';
+    return 'other';
+  }
+
+  // Months since year 0, so date ranges can be compared; year-only dates count as January
+  private dateOrdinal(date: string): number | undefined {
+    const value = date.trim().toLowerCase();
+    const year = value.match(/\d{4}/)?.[0];
+    if (!year) return undefined;
+
+    const numericMonth = value.match(/^(\d{1,2})[/.-]\d{4}$/)?.[1];
+    const namedMonth = MONTHS.indexOf(value.slice(0, 3));
+    const month = numericMonth ? parseInt(numericMonth, 10) - 1 : Math.max(namedMonth, 0);
+
+    return parseInt(year, 10) * 12 + month;
+  }
+
+  private leadingVerbTense(bullet: string): 'present' | 'past' | undefined {
+    const word = bullet.trim().split(/\s+/)[0]?.toLowerCase().replace(/[^a-z]/g, '');
+    if (!word) return undefined;
+    if (PAST_TENSE_VERBS.has(word)) return 'past';
+    if (PRESENT_TENSE_VERBS.has(word)) return 'present';
+    return undefined;
+  }
+}
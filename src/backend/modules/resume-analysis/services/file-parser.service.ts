@@ -2,14 +2,58 @@ import { Injectable } from '@nestjs/common';
 import * as pdfParse from 'pdf-parse';
 const pdfParseFunc = (pdfParse as any).default || pdfParse;
 import * as mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+import JSZip from 'jszip';
 import * as fs from 'fs';
 import { ParsedResumeContent } from '../interfaces/file-validation.interface';
+import { ResumeSegmenterService } from './resume-segmenter.service';
+import { PdfLayoutService, PdfPageContent } from './pdf-layout.service';
+import { LanguageDetectionService } from './language-detection.service';
+
+// RTF destinations whose content is formatting data rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping',
+  'datastore', 'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnsdecl',
+  'fldinst', 'pgdsctbl', 'header', 'footer', 'headerl', 'headerr', 'footerl', 'footerr', 'bkmkstart', 'bkmkend',
+]);
+
+// Windows-1252 code points that differ from latin1 and commonly appear in resumes
+const CP1252_PUNCTUATION: Record<number, string> = {
+  0x91: '\u2018', 0x92: '\u2019', 0x93: '\u201C', 0x94: '\u201D', 0x95: '•', 0x96: '–', 0x97: '—',
+};
+
+const RTF_CHARACTERS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n', page: '\n', row: '\n', tab: '\t', cell: '\t',
+  bullet: '•', emdash: '—', endash: '–', lquote: '\u2018', rquote: '\u2019', ldblquote: '\u201C', rdblquote: '\u201D',
+};
+
+// Image XObjects are always stream objects, which PDF never packs into compressed object streams
+const PDF_IMAGE_PATTERN = /\/Subtype\s*\/Image\b/g;
 
 @Injectable()
 export class FileParserService {
+  constructor(
+    private resumeSegmenterService: ResumeSegmenterService,
+    private pdfLayoutService: PdfLayoutService,
+    private languageDetectionService: LanguageDetectionService,
+  ) {}
+
   async parseFile(filePath: string, mimeType: string, bufferContent?: Buffer): Promise<ParsedResumeContent> {
     const buffer = bufferContent || fs.readFileSync(filePath);
+    const parsed = await this.parseByMimeType(buffer, mimeType);
+
+    // Segment before cleanText runs, while line breaks still mark section boundaries
+    const structured = this.resumeSegmenterService.segment(parsed.text);
+
+    return {
+      ...parsed,
+      sections: structured.sections,
+      extractedInfo: structured.extractedInfo,
+      language: this.languageDetectionService.detect(parsed.text),
+    };
+  }
 
+  private async parseByMimeType(buffer: Buffer, mimeType: string): Promise<ParsedResumeContent> {
     switch (mimeType) {
       case 'application/pdf':
         return this.parsePDF(buffer);
@@ -18,7 +62,14 @@ export class FileParserService {
         return this.parseDOCX(buffer);
       
       case 'application/msword':
-        throw new Error('Legacy DOC format not supported. Please convert to DOCX.');
+        return this.parseDOC(buffer);
+
+      case 'application/rtf':
+      case 'text/rtf':
+        return this.parseRTF(buffer);
+
+      case 'application/vnd.oasis.opendocument.text':
+        return this.parseODT(buffer);
       
       case 'text/plain':
         return this.parseTXT(buffer);
@@ -30,15 +81,20 @@ export class FileParserService {
 
   private async parsePDF(buffer: Buffer): Promise<ParsedResumeContent> {
     try {
-      const data = await pdfParseFunc(buffer);
-      
+      const pages: PdfPageContent[] = [];
+      const data = await pdfParseFunc(buffer, {
+        pagerender: (pageData: any) => this.collectPdfPage(pageData, pages),
+      });
+      const { text, layout } = this.pdfLayoutService.reconstruct(pages);
+
       return {
-        text: data.text,
+        text,
         metadata: {
           pages: data.numpages,
           title: data.info?.Title,
           author: data.info?.Author,
           creationDate: data.info?.CreationDate ? new Date(data.info.CreationDate) : undefined,
+          layout: { ...layout, images: buffer.toString('latin1').match(PDF_IMAGE_PATTERN)?.length || 0 },
         },
       };
     } catch (error: any) {
@@ -46,6 +102,29 @@ export class FileParserService {
     }
   }
 
+  // pdf-parse joins whatever this returns; the text is rebuilt from item positions afterwards
+  private async collectPdfPage(pageData: any, pages: PdfPageContent[]): Promise<string> {
+    const [left, bottom, right, top] = pageData.view;
+    const content = await pageData.getTextContent({ normalizeWhitespace: true, disableCombineTextItems: false });
+
+    pages.push({
+      width: right - left,
+      height: top - bottom,
+      items: content.items
+        // Rotated runs (watermarks, vertical sidebar labels) have no place in the reading order
+        .filter((item: any) => Math.abs(item.transform[1]) < 0.01 && Math.abs(item.transform[2]) < 0.01)
+        .map((item: any) => ({
+          text: item.str,
+          x: item.transform[4] - left,
+          y: top - item.transform[5],
+          width: item.width,
+          height: item.height || Math.abs(item.transform[3]),
+        })),
+    });
+
+    return '';
+  }
+
   private async parseDOCX(buffer: Buffer): Promise<ParsedResumeContent> {
     try {
       const result = await mammoth.extractRawText({ buffer });
@@ -61,6 +140,173 @@ export class FileParserService {
     }
   }
 
+  private async parseDOC(buffer: Buffer): Promise<ParsedResumeContent> {
+    try {
+      const document = await new WordExtractor().extract(buffer);
+
+      return {
+        text: [document.getBody(), document.getTextboxes({ includeHeadersAndFooters: false, includeBody: false })]
+          .filter(part => part && part.trim())
+          .join('\n'),
+        metadata: {},
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to parse DOC: ${error?.message || 'Unknown error'}`);
+    }
+  }
+
+  private async parseRTF(buffer: Buffer): Promise<ParsedResumeContent> {
+    try {
+      const rtf = buffer.toString('latin1');
+      if (!rtf.startsWith('{\\rtf')) {
+        throw new Error('Missing RTF header');
+      }
+
+      return {
+        text: this.rtfToText(rtf),
+        metadata: {
+          title: rtf.match(/\\title\s+([^}]*)\}/)?.[1]?.trim(),
+          author: rtf.match(/\\author\s+([^}]*)\}/)?.[1]?.trim(),
+        },
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to parse RTF: ${error?.message || 'Unknown error'}`);
+    }
+  }
+
+  private async parseODT(buffer: Buffer): Promise<ParsedResumeContent> {
+    try {
+      const zip = await JSZip.loadAsync(buffer);
+      const content = await zip.file('content.xml')?.async('string');
+      if (!content) {
+        throw new Error('content.xml not found');
+      }
+
+      const meta = (await zip.file('meta.xml')?.async('string')) || '';
+      const pages = meta.match(/meta:page-count="(\d+)"/)?.[1];
+      const creationDate = meta.match(/<meta:creation-date>([^<]+)</)?.[1];
+
+      return {
+        text: this.odtXmlToText(content),
+        metadata: {
+          pages: pages ? parseInt(pages, 10) : undefined,
+          title: meta.match(/<dc:title>([^<]*)</)?.[1],
+          author: meta.match(/<meta:initial-creator>([^<]*)</)?.[1] || meta.match(/<dc:creator>([^<]*)</)?.[1],
+          creationDate: creationDate ? new Date(creationDate) : undefined,
+        },
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to parse ODT: ${error?.message || 'Unknown error'}`);
+    }
+  }
+
+  private rtfToText(rtf: string): string {
+    const groups: { skip: boolean; unicodeSkip: number }[] = [{ skip: false, unicodeSkip: 1 }];
+    let output = '';
+    let pendingSkip = 0;
+    let i = 0;
+
+    const emit = (value: string) => {
+      if (pendingSkip > 0) {
+        pendingSkip--;
+        return;
+      }
+      if (!groups[groups.length - 1].skip) {
+        output += value;
+      }
+    };
+
+    while (i < rtf.length) {
+      const char = rtf[i];
+      const group = groups[groups.length - 1];
+
+      if (char === '{') {
+        groups.push({ ...group });
+        i++;
+        continue;
+      }
+
+      if (char === '}') {
+        if (groups.length > 1) groups.pop();
+        i++;
+        continue;
+      }
+
+      if (char === '\r' || char === '\n') {
+        i++;
+        continue;
+      }
+
+      if (char !== '\\') {
+        emit(char);
+        i++;
+        continue;
+      }
+
+      const next = rtf[i + 1];
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i += 2;
+      } else if (next === "'") {
+        const code = parseInt(rtf.substr(i + 2, 2), 16);
+        emit(CP1252_PUNCTUATION[code] || Buffer.from([code]).toString('latin1'));
+        i += 4;
+      } else if (next === '*') {
+        group.skip = true;
+        i += 2;
+      } else if (next === '~') {
+        emit(' ');
+        i += 2;
+      } else if (next === '_') {
+        emit('-');
+        i += 2;
+      } else {
+        const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+        if (!match) {
+          i += 2;
+          continue;
+        }
+
+        const [token, word, param] = match;
+        i += 1 + token.length;
+
+        if (word === 'u' && param !== undefined) {
+          const code = parseInt(param, 10);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          pendingSkip = group.unicodeSkip;
+        } else if (word === 'uc' && param !== undefined) {
+          group.unicodeSkip = parseInt(param, 10);
+        } else if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+          group.skip = true;
+        } else if (RTF_CHARACTERS[word]) {
+          emit(RTF_CHARACTERS[word]);
+        }
+      }
+    }
+
+    return output.replace(/[ \t]+\n/g, '\n');
+  }
+
+  private odtXmlToText(xml: string): string {
+    const body = xml.includes('<office:body>') ? xml.slice(xml.indexOf('<office:body>')) : xml;
+
+    return body
+      .replace(/<text:s\s+text:c="(\d+)"\s*\/>/g, (_match, count) => ' '.repeat(parseInt(count, 10)))
+      .replace(/<text:s\s*\/>/g, ' ')
+      .replace(/<text:tab\s*\/>/g, '\t')
+      .replace(/<text:line-break\s*\/>/g, '\n')
+      .replace(/<text:list-item[^>]*>/g, '• ')
+      .replace(/<\/text:(?:p|h)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/•\s+(?=•)/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&#(\d+);/g, (_match, code) => String.fromCharCode(parseInt(code, 10)))
+      .replace(/&amp;/g, '&');
+  }
+
   private async parseTXT(buffer: Buffer): Promise<ParsedResumeContent> {
     try {
       const text = buffer.toString('utf-8');
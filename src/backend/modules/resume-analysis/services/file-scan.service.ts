@@ -0,0 +1,364 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as zlib from 'zlib';
+import JSZip from 'jszip';
+import { FileValidationService } from './file-validation.service';
+import { FileScanResult, FileScanThreat } from '../interfaces/file-validation.interface';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const ODT_MIME_TYPE = 'application/vnd.oasis.opendocument.text';
+
+// Zip containers: a real resume is a few hundred KB unpacked and compresses maybe 10:1
+const MAX_COMPRESSION_RATIO = 100;
+const MAX_UNCOMPRESSED_SIZE = 100 * 1024 * 1024;
+const MAX_ZIP_ENTRIES = 1000;
+
+// Upper bound on inflated PDF object streams, so a crafted PDF can't become its own bomb
+const MAX_INFLATED_PDF_BYTES = 20 * 1024 * 1024;
+
+const CLAMAV_CHUNK_SIZE = 64 * 1024;
+const DEFAULT_CLAMAV_TIMEOUT = 10000;
+
+const EXECUTABLE_SIGNATURES: { name: string; bytes: number[] }[] = [
+  { name: 'Windows executable', bytes: [0x4d, 0x5a] }, // MZ
+  { name: 'ELF binary', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { name: 'Mach-O binary', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { name: 'Mach-O binary', bytes: [0xce, 0xfa, 0xed, 0xfe] },
+  { name: 'Mach-O universal binary', bytes: [0xca, 0xfe, 0xba, 0xbe] },
+];
+
+// OOXML relationship types that are harmless when pointing outside the document
+const SAFE_EXTERNAL_RELATIONSHIPS = [/\/hyperlink$/];
+
+interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+}
+
+@Injectable()
+export class FileScanService {
+  private readonly logger = new Logger(FileScanService.name);
+
+  constructor(
+    private configService: ConfigService,
+    private fileValidationService: FileValidationService,
+  ) {}
+
+  /**
+   * Inspects the file contents for active content and container abuse, then
+   * hands it to ClamAV when a daemon is configured. Runs before parsing, so
+   * nothing here should trust the declared type beyond picking which checks apply.
+   */
+  async scan(file: Express.Multer.File): Promise<FileScanResult> {
+    const buffer = file.buffer ?? (await fs.promises.readFile(file.path));
+    const threats = await this.scanContent(buffer, file.mimetype);
+    const scanners = ['content'];
+
+    if (this.isClamAvEnabled()) {
+      scanners.push('clamav');
+      threats.push(...(await this.scanWithClamAv(buffer)));
+    }
+
+    if (threats.length > 0) {
+      this.logger.warn(`Upload ${file.originalname} rejected: ${threats.map(t => t.type).join(', ')}`);
+    }
+
+    return { clean: threats.length === 0, threats, scanners };
+  }
+
+  async scanContent(buffer: Buffer, mimeType: string): Promise<FileScanThreat[]> {
+    const executable = EXECUTABLE_SIGNATURES.find(({ bytes }) => bytes.every((byte, i) => buffer[i] === byte));
+    if (executable) {
+      return [{ type: 'executable', detail: `File is a ${executable.name}` }];
+    }
+
+    if (!this.fileValidationService.matchesFileSignature(buffer, mimeType)) {
+      return [{ type: 'signature-mismatch', detail: `File contents do not match declared type ${mimeType}` }];
+    }
+
+    switch (mimeType) {
+      case 'application/pdf':
+        return this.scanPdf(buffer);
+      case DOCX_MIME_TYPE:
+      case ODT_MIME_TYPE:
+        return this.scanZipDocument(buffer, mimeType);
+      case 'application/msword':
+        return this.scanOleDocument(buffer);
+      case 'application/rtf':
+      case 'text/rtf':
+        return this.scanRtf(buffer);
+      default:
+        return [];
+    }
+  }
+
+  private scanPdf(buffer: Buffer): FileScanThreat[] {
+    // Stream bodies are font, image and page data; compressed bytes spell out /JS often enough by chance
+    // to flag clean files. Dictionaries sit outside them, and packed ones are inflated separately.
+    const dictionaries = buffer.toString('latin1').replace(/stream\r?\n[\s\S]*?endstream/g, 'stream\nendstream');
+    const sources = [dictionaries, ...this.inflateObjectStreams(buffer)];
+    const threats: FileScanThreat[] = [];
+    const found = new Set<string>();
+
+    for (const source of sources) {
+      // PDF names may hex-escape characters (/J#61vaScript) to dodge naive matching
+      const text = source.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+      if (/\/(?:JavaScript|JS)(?![A-Za-z])/.test(text)) found.add('pdf-javascript');
+      if (/\/Launch(?![A-Za-z])/.test(text)) found.add('pdf-launch-action');
+      if (/\/EmbeddedFiles?(?![A-Za-z])/.test(text)) found.add('pdf-embedded-file');
+    }
+
+    if (found.has('pdf-javascript')) {
+      threats.push({ type: 'pdf-javascript', detail: 'PDF contains embedded JavaScript' });
+    }
+    if (found.has('pdf-launch-action')) {
+      threats.push({ type: 'pdf-launch-action', detail: 'PDF contains a launch action' });
+    }
+    if (found.has('pdf-embedded-file')) {
+      threats.push({ type: 'pdf-embedded-file', detail: 'PDF contains embedded files' });
+    }
+    return threats;
+  }
+
+  // Dictionaries packed into compressed object streams are invisible to a raw byte scan
+  private inflateObjectStreams(buffer: Buffer): string[] {
+    const text = buffer.toString('latin1');
+    const streams: string[] = [];
+    let budget = MAX_INFLATED_PDF_BYTES;
+    const streamPattern = /stream\r?\n/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = streamPattern.exec(text)) && budget > 0) {
+      const dictionary = text.slice(text.lastIndexOf(' obj', match.index), match.index);
+      if (!/\/Type\s*\/ObjStm/.test(dictionary) || !/\/FlateDecode/.test(dictionary)) continue;
+
+      const start = match.index + match[0].length;
+      const end = text.indexOf('endstream', start);
+      if (end === -1) break;
+
+      try {
+        const inflated = zlib.inflateSync(buffer.subarray(start, end), { maxOutputLength: budget });
+        budget -= inflated.length;
+        streams.push(inflated.toString('latin1'));
+      } catch {
+        // Truncated or oversized stream; ClamAV (if enabled) still sees the raw file
+      }
+      streamPattern.lastIndex = end;
+    }
+    return streams;
+  }
+
+  private async scanZipDocument(buffer: Buffer, mimeType: string): Promise<FileScanThreat[]> {
+    // Sizes come from the central directory so nothing is decompressed before the ratio check
+    const entries = this.readZipDirectory(buffer);
+    if (!entries) {
+      return [{ type: 'signature-mismatch', detail: 'Document is not a readable zip archive' }];
+    }
+
+    const bombThreat = this.checkCompression(entries, buffer.length);
+    if (bombThreat) {
+      return [bombThreat];
+    }
+
+    // A directory that parses can still sit on top of corrupt entries, which JSZip rejects
+    try {
+      const zip = await JSZip.loadAsync(buffer);
+      return await (mimeType === DOCX_MIME_TYPE ? this.scanDocx(zip, entries) : this.scanOdt(zip, entries));
+    } catch (error: any) {
+      return [{ type: 'signature-mismatch', detail: `Document is not a readable zip archive: ${error?.message || 'corrupt entry'}` }];
+    }
+  }
+
+  private async scanDocx(zip: JSZip, entries: ZipEntry[]): Promise<FileScanThreat[]> {
+    const threats: FileScanThreat[] = [];
+    const contentTypes = (await zip.file('[Content_Types].xml')?.async('string')) || '';
+
+    if (!zip.file('word/document.xml')) {
+      threats.push({ type: 'signature-mismatch', detail: 'Archive is not a Word document' });
+    }
+
+    if (entries.some(entry => /vbaProject\.bin$/i.test(entry.name)) || /macroEnabled|vbaProject/i.test(contentTypes)) {
+      threats.push({ type: 'macro', detail: 'Document contains VBA macros' });
+    }
+
+    const embedded = entries.filter(entry => /^word\/embeddings\//i.test(entry.name));
+    if (embedded.length > 0) {
+      threats.push({ type: 'embedded-object', detail: `Document contains ${embedded.length} embedded object(s)` });
+    }
+
+    for (const entry of entries.filter(e => /\.rels$/i.test(e.name))) {
+      const rels = (await zip.file(entry.name)?.async('string')) || '';
+
+      for (const relationship of rels.match(/<Relationship\b[^>]*>/g) || []) {
+        if (!/TargetMode\s*=\s*"External"/i.test(relationship)) continue;
+
+        const type = relationship.match(/Type\s*=\s*"([^"]*)"/)?.[1] || '';
+        if (SAFE_EXTERNAL_RELATIONSHIPS.some(pattern => pattern.test(type))) continue;
+
+        const target = relationship.match(/Target\s*=\s*"([^"]*)"/)?.[1] || '';
+        threats.push({
+          type: 'external-relationship',
+          detail: `${entry.name} loads ${type.split('/').pop() || 'content'} from ${target}`,
+        });
+      }
+    }
+    return threats;
+  }
+
+  private async scanOdt(zip: JSZip, entries: ZipEntry[]): Promise<FileScanThreat[]> {
+    const threats: FileScanThreat[] = [];
+    const declaredType = (await zip.file('mimetype')?.async('string'))?.trim();
+
+    if (declaredType !== ODT_MIME_TYPE) {
+      threats.push({ type: 'signature-mismatch', detail: 'Archive is not an OpenDocument text file' });
+    }
+
+    if (entries.some(entry => /^(Basic|Scripts)\//.test(entry.name))) {
+      threats.push({ type: 'macro', detail: 'Document contains macros or scripts' });
+    }
+
+    const content = (await zip.file('content.xml')?.async('string')) || '';
+    if (/<office:event-listeners\b|<script:event-listener\b/.test(content)) {
+      threats.push({ type: 'macro', detail: 'Document binds scripts to events' });
+    }
+    if (/<draw:object(?:-ole)?\b/.test(content)) {
+      threats.push({ type: 'embedded-object', detail: 'Document contains embedded objects' });
+    }
+    return threats;
+  }
+
+  private scanOleDocument(buffer: Buffer): FileScanThreat[] {
+    // OLE directory entries store stream names as UTF-16LE
+    const names = buffer.toString('utf16le');
+    const threats: FileScanThreat[] = [];
+
+    if (names.includes('_VBA_PROJECT') || names.includes('VBA\u0000')) {
+      threats.push({ type: 'macro', detail: 'Document contains VBA macros' });
+    }
+    if (names.includes('ObjectPool')) {
+      threats.push({ type: 'embedded-object', detail: 'Document contains embedded objects' });
+    }
+    return threats;
+  }
+
+  private scanRtf(buffer: Buffer): FileScanThreat[] {
+    const text = buffer.toString('latin1');
+    return /\\obj(?:data|emb|link|autlink|ocx)\b/.test(text)
+      ? [{ type: 'embedded-object', detail: 'RTF contains embedded objects' }]
+      : [];
+  }
+
+  private checkCompression(entries: ZipEntry[], archiveSize: number): FileScanThreat | null {
+    if (entries.length > MAX_ZIP_ENTRIES) {
+      return { type: 'zip-bomb', detail: `Archive has ${entries.length} entries` };
+    }
+
+    const uncompressed = entries.reduce((sum, entry) => sum + entry.uncompressedSize, 0);
+    if (uncompressed > MAX_UNCOMPRESSED_SIZE) {
+      return { type: 'zip-bomb', detail: `Archive expands to ${Math.round(uncompressed / (1024 * 1024))}MB` };
+    }
+
+    const ratio = uncompressed / Math.max(archiveSize, 1);
+    if (ratio > MAX_COMPRESSION_RATIO) {
+      return { type: 'zip-bomb', detail: `Compression ratio ${Math.round(ratio)}:1 exceeds ${MAX_COMPRESSION_RATIO}:1` };
+    }
+    return null;
+  }
+
+  // Minimal central directory reader; returns null when the archive structure is broken
+  private readZipDirectory(buffer: Buffer): ZipEntry[] | null {
+    const searchStart = Math.max(0, buffer.length - 0xffff - 22);
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= searchStart; i--) {
+      if (buffer.readUInt32LE(i) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) return null;
+
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    const entries: ZipEntry[] = [];
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) return null;
+
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      entries.push({
+        name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        // 0xFFFFFFFF defers to a ZIP64 field; no resume needs 4GB, so treat it as the maximum
+        uncompressedSize: buffer.readUInt32LE(offset + 24),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  }
+
+  private isClamAvEnabled(): boolean {
+    return Boolean(this.configService.get('CLAMAV_SOCKET') || this.configService.get('CLAMAV_HOST'));
+  }
+
+  // Streams the file to clamd with the INSTREAM command
+  private async scanWithClamAv(buffer: Buffer): Promise<FileScanThreat[]> {
+    try {
+      const reply = await this.sendToClamAv(buffer);
+
+      if (/:\s*OK$/.test(reply)) {
+        return [];
+      }
+      const found = reply.match(/:\s*(.+)\s+FOUND$/);
+      if (found) {
+        return [{ type: 'malware', detail: `ClamAV detected ${found[1]}` }];
+      }
+      throw new Error(`Unexpected ClamAV reply: ${reply}`);
+    } catch (error: any) {
+      this.logger.error(`ClamAV scan failed: ${error?.message}`);
+
+      // Fail open by default so a scanner outage doesn't block every upload
+      if (this.configService.get('CLAMAV_FAIL_CLOSED') === 'true') {
+        return [{ type: 'scan-error', detail: 'Virus scanner is unavailable' }];
+      }
+      return [];
+    }
+  }
+
+  private sendToClamAv(buffer: Buffer): Promise<string> {
+    const socketPath = this.configService.get<string>('CLAMAV_SOCKET');
+    const timeout = Number(this.configService.get('CLAMAV_TIMEOUT_MS')) || DEFAULT_CLAMAV_TIMEOUT;
+
+    return new Promise((resolve, reject) => {
+      const socket = socketPath
+        ? net.createConnection({ path: socketPath })
+        : net.createConnection({
+            host: this.configService.get<string>('CLAMAV_HOST'),
+            port: Number(this.configService.get('CLAMAV_PORT')) || 3310,
+          });
+      const chunks: Buffer[] = [];
+
+      socket.setTimeout(timeout, () => socket.destroy(new Error(`ClamAV timed out after ${timeout}ms`)));
+      socket.on('error', reject);
+      socket.on('data', chunk => chunks.push(chunk));
+      socket.on('end', () => resolve(Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim()));
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < buffer.length; offset += CLAMAV_CHUNK_SIZE) {
+          const chunk = buffer.subarray(offset, offset + CLAMAV_CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4)); // zero-length chunk ends the stream
+      });
+    });
+  }
+}
@@ -44,7 +44,7 @@ export class FileValidationService {
     if (!ALLOWED_MIME_TYPES.includes(file.mimetype)) {
       return {
         isValid: false,
-        error: `Invalid file type. Allowed types: PDF, DOCX, DOC, TXT`,
+        error: `Invalid file type. Allowed types: PDF, DOCX, DOC, RTF, ODT, TXT`,
       };
     }
 
@@ -84,7 +84,7 @@ export class FileValidationService {
 
     // Check file signature (magic numbers) for basic validation
     if (file.buffer) {
-      const isValidSignature = this.validateFileSignature(file);
+      const isValidSignature = this.matchesFileSignature(file.buffer, file.mimetype);
       if (!isValidSignature) {
         return {
           isValid: false,
@@ -96,31 +96,41 @@ export class FileValidationService {
     return { isValid: true };
   }
 
-  private validateFileSignature(file: Express.Multer.File): boolean {
-    if (!file.buffer || file.buffer.length < 4) {
+  // Checks the leading bytes (magic numbers) against the declared MIME type
+  matchesFileSignature(buffer: Buffer, mimeType: string): boolean {
+    if (!buffer || buffer.length < 4) {
       return false;
     }
 
-    const buffer = file.buffer;
     const signature = buffer.slice(0, 8);
 
     // PDF signature
-    if (file.mimetype === 'application/pdf') {
+    if (mimeType === 'application/pdf') {
       return signature.slice(0, 4).toString() === '%PDF';
     }
 
     // DOCX/ZIP signature (DOCX is a ZIP file)
-    if (file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
       return signature[0] === 0x50 && signature[1] === 0x4B; // PK (ZIP header)
     }
 
     // DOC signature
-    if (file.mimetype === 'application/msword') {
+    if (mimeType === 'application/msword') {
       return signature[0] === 0xD0 && signature[1] === 0xCF; // OLE header
     }
 
+    // RTF signature
+    if (mimeType === 'application/rtf' || mimeType === 'text/rtf') {
+      return signature.slice(0, 5).toString() === '{\\rtf';
+    }
+
+    // ODT signature (ODT is a ZIP file)
+    if (mimeType === 'application/vnd.oasis.opendocument.text') {
+      return signature[0] === 0x50 && signature[1] === 0x4B; // PK (ZIP header)
+    }
+
     // TXT files don't have a specific signature, just check it's text
-    if (file.mimetype === 'text/plain') {
+    if (mimeType === 'text/plain') {
       try {
         // Try to decode as UTF-8 and check for mostly printable characters
         const text = buffer.slice(0, 1000).toString('utf-8');
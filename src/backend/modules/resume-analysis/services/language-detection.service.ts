@@ -0,0 +1,122 @@
+import { Injectable } from '@nestjs/common';
+import type { LanguageDetectionResult, ResumeLanguage } from '../../ai/interfaces/ai-provider.interface';
+
+const STOP_WORDS: Record<ResumeLanguage, string[]> = {
+  en: [
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+    'day', 'get', 'has', 'him', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'way', 'who',
+    'boy', 'did', 'use', 'your', 'work', 'life', 'them', 'well', 'were', 'will', 'with', 'have', 'this',
+    'that', 'from', 'they', 'know', 'want', 'been', 'good', 'much', 'some', 'time', 'very', 'when', 'come',
+    'here', 'just', 'like', 'long', 'make', 'many', 'over', 'such', 'take', 'than', 'only', 'think', 'also',
+    'back', 'after', 'first', 'year', 'into', 'which', 'their', 'while', 'where', 'using', 'across', 'including',
+    'of', 'to', 'is', 'by', 'on', 'at', 'as',
+  ],
+  es: [
+    'que', 'los', 'las', 'del', 'por', 'con', 'una', 'para', 'como', 'más', 'pero', 'sus', 'este', 'esta',
+    'entre', 'cuando', 'muy', 'sin', 'sobre', 'también', 'hasta', 'hay', 'donde', 'desde', 'todo', 'nos',
+    'durante', 'todos', 'uno', 'les', 'contra', 'otros', 'ese', 'eso', 'ante', 'ellos', 'esto', 'antes',
+    'algunos', 'unos', 'otro', 'otras', 'otra', 'tanto', 'esa', 'estos', 'mucho', 'nada', 'muchos', 'cual',
+    'poco', 'ella', 'estar', 'estas', 'algunas', 'algo', 'nosotros', 'mis', 'tus', 'ellas', 'años', 'año',
+    'mediante', 'través', 'según', 'cada', 'así', 'ser', 'son', 'fue', 'han', 'sido', 'está', 'están',
+  ],
+  de: [
+    'der', 'die', 'und', 'den', 'von', 'das', 'mit', 'sich', 'des', 'auf', 'für', 'ist', 'im', 'dem',
+    'nicht', 'ein', 'eine', 'als', 'auch', 'werden', 'aus', 'hat', 'dass', 'sie', 'nach',
+    'wird', 'bei', 'einer', 'sind', 'noch', 'wie', 'einem', 'über', 'einen', 'zum',
+    'war', 'haben', 'nur', 'oder', 'aber', 'vor', 'zur', 'bis', 'mehr', 'durch', 'man', 'sein', 'wurde',
+    'sei', 'ihr', 'ihre', 'unter', 'sowie', 'bereits', 'jahre', 'jahren', 'innerhalb', 'zwischen', 'wurden',
+    'meine', 'mein', 'ich', 'wir', 'unsere', 'zudem', 'dabei', 'sehr', 'seit',
+  ],
+  pt: [
+    'que', 'não', 'uma', 'para', 'com', 'por', 'mais', 'dos', 'como', 'mas', 'foi', 'ele', 'das', 'tem',
+    'seu', 'sua', 'ou', 'ser', 'quando', 'muito', 'há', 'nos', 'já', 'está', 'eu', 'também', 'só', 'pelo',
+    'pela', 'até', 'isso', 'ela', 'entre', 'era', 'depois', 'sem', 'mesmo', 'aos', 'ter', 'seus', 'quem',
+    'nas', 'esse', 'eles', 'estão', 'você', 'tinha', 'foram', 'essa', 'num', 'nem', 'suas', 'meu', 'minha',
+    'numa', 'pelos', 'elas', 'havia', 'seja', 'qual', 'será', 'nós', 'tenho', 'anos', 'ano', 'através',
+    'durante', 'cada', 'sobre', 'desde', 'onde', 'são', 'além', 'atuação', 'então',
+  ],
+};
+
+// Phrases that mark a job requirement as important, used when weighting JD keywords
+const REQUIREMENT_CUES: Record<ResumeLanguage, RegExp[]> = {
+  en: [
+    /(?:require[ds]?|must have|essential|mandatory|critical)/i,
+    /(?:skill[s]?|experience|proficien[ct]|expert)/i,
+    /(?:certification|certified|license)/i,
+  ],
+  es: [
+    /(?:requisitos?|requerid[oa]s?|imprescindible|indispensable|obligatori[oa]|excluyente)/i,
+    /(?:habilidad(?:es)?|experiencia|dominio|conocimientos?|experto)/i,
+    /(?:certificaci[oó]n|certificad[oa]|licencia)/i,
+  ],
+  de: [
+    /(?:voraussetzung(?:en)?|erforderlich|zwingend|unbedingt|muss|anforderungen)/i,
+    /(?:kenntnisse|erfahrung(?:en)?|f[äa]higkeiten|expertise|sicher(?:er)? umgang)/i,
+    /(?:zertifi(?:kat|zierung)|zertifiziert|lizenz)/i,
+  ],
+  pt: [
+    /(?:requisitos?|obrigat[oó]ri[oa]|imprescind[ií]vel|essencial|indispens[aá]vel)/i,
+    /(?:habilidades?|experi[eê]ncia|dom[ií]nio|conhecimentos?|especialista)/i,
+    /(?:certifica[cç][aã]o|certificad[oa]|licen[cç]a)/i,
+  ],
+};
+
+// Characters that only occur in one of the supported languages
+const DISTINCTIVE_CHARACTERS: Partial<Record<ResumeLanguage, RegExp>> = {
+  es: /[ñ¿¡]/g,
+  de: /[ßäöü]/g,
+  pt: /[ãõ]/g,
+};
+
+// Fewer stop-word hits than this and the text is too short or too list-like to judge
+const MIN_EVIDENCE = 5;
+
+@Injectable()
+export class LanguageDetectionService {
+  private readonly stopWords = Object.fromEntries(
+    Object.entries(STOP_WORDS).map(([language, words]) => [language, new Set(words)]),
+  ) as Record<ResumeLanguage, Set<string>>;
+
+  /**
+   * Scores text by how often each language's stop words (and letters unique
+   * to it) appear. Resumes are keyword-heavy, so short or ambiguous text falls
+   * back to English with a low confidence instead of guessing.
+   */
+  detect(text: string): LanguageDetectionResult {
+    const words = this.tokenize(text);
+    const scores = {} as Record<ResumeLanguage, number>;
+
+    for (const language of Object.keys(STOP_WORDS) as ResumeLanguage[]) {
+      const stopWords = this.stopWords[language];
+      const pattern = DISTINCTIVE_CHARACTERS[language];
+      const characterHits = pattern ? (text.toLowerCase().match(pattern) || []).length : 0;
+      // Letter hints only break ties between related languages, so cap their weight
+      scores[language] = words.filter(word => stopWords.has(word)).length + Math.min(characterHits, words.length * 0.05);
+    }
+
+    const ranked = (Object.entries(scores) as [ResumeLanguage, number][]).sort((a, b) => b[1] - a[1]);
+    const [best, bestScore] = ranked[0];
+    const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+
+    if (bestScore < MIN_EVIDENCE) {
+      return { code: 'en', confidence: 0 };
+    }
+    return { code: best, confidence: Math.round((bestScore / total) * 100) / 100 };
+  }
+
+  isStopWord(word: string, languages: ResumeLanguage | ResumeLanguage[] = 'en'): boolean {
+    const normalized = word.toLowerCase();
+    return ([] as ResumeLanguage[]).concat(languages).some(language => this.stopWords[language].has(normalized));
+  }
+
+  getRequirementCues(languages: ResumeLanguage | ResumeLanguage[] = 'en'): RegExp[] {
+    return ([] as ResumeLanguage[]).concat(languages).flatMap(language => REQUIREMENT_CUES[language]);
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}]+/u)
+      .filter(Boolean);
+  }
+}
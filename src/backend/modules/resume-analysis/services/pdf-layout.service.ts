@@ -0,0 +1,341 @@
+import { Injectable } from '@nestjs/common';
+import { PdfLayoutHeuristic, PdfLayoutInfo } from '../interfaces/file-validation.interface';
+
+export interface PdfTextItem {
+  text: string;
+  x: number; // left edge, in points from the left of the page
+  y: number; // baseline, in points from the top of the page
+  width: number;
+  height: number; // roughly the font size
+}
+
+export interface PdfPageContent {
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+interface TextSegment {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface TextLine {
+  y: number;
+  height: number;
+  segments: TextSegment[];
+}
+
+interface Gutter {
+  start: number;
+  end: number;
+}
+
+// Share of the page height, top and bottom, where running headers and footers live
+const MARGIN_BAND = 0.08;
+// Horizontal gap (in font heights) that splits a line into separate segments
+const SEGMENT_GAP = 1;
+// Gaps narrower than this (in font heights) are kerning rather than word spaces
+const WORD_GAP = 0.15;
+// Vertical gap (in font heights) between baselines that marks a new paragraph
+const PARAGRAPH_GAP = 1.8;
+const MIN_COLUMN_LINES = 3;
+// A column gutter may still be crossed by a few full-width lines (name banner, summary)
+const GUTTER_CROSSING_RATIO = 0.15;
+// When most rows have text on both sides of a gap, it separates table cells, not columns
+const TABLE_ALIGNMENT_RATIO = 0.7;
+const MIN_TABLE_ROWS = 2;
+const PAGE_NUMBER_PATTERN = /^(?:page\s*)?\d{1,3}(?:\s*(?:of|\/)\s*\d{1,3})?$/i;
+
+@Injectable()
+export class PdfLayoutService {
+  /**
+   * Rebuilds reading-order text from positioned PDF text items. Drops running
+   * headers, footers and page numbers, reads multi-column pages one column at
+   * a time and keeps table rows on a single line with cells separated by " | ".
+   */
+  reconstruct(pages: PdfPageContent[]): { text: string; layout: Omit<PdfLayoutInfo, 'images'> } {
+    const heuristics = new Set<PdfLayoutHeuristic>();
+    const layout: Omit<PdfLayoutInfo, 'images'> = {
+      columns: 1,
+      multiColumnPages: [],
+      headerLinesRemoved: 0,
+      footerLinesRemoved: 0,
+      tables: 0,
+      heuristics: [],
+    };
+
+    const pageLines = pages.map(page => this.buildLines(page.items));
+    this.removeRunningLines(pages, pageLines, layout, heuristics);
+
+    const text = pageLines
+      .map((lines, index) => {
+        const gutters = this.findGutters(lines);
+        if (gutters.length) {
+          heuristics.add('multi-column');
+          layout.multiColumnPages.push(index + 1);
+          layout.columns = Math.max(layout.columns, gutters.length + 1);
+        }
+
+        const blocks = this.orderBlocks(lines, gutters);
+        layout.tables += blocks.reduce((count, block) => count + this.countTables(block), 0);
+
+        return blocks
+          .map(block => this.renderLines(block))
+          .filter(Boolean)
+          .join('\n\n');
+      })
+      .filter(Boolean)
+      .join('\n\n');
+
+    if (layout.tables) {
+      heuristics.add('table-detection');
+    }
+    layout.heuristics = [...heuristics];
+
+    return { text, layout };
+  }
+
+  private buildLines(items: PdfTextItem[]): TextLine[] {
+    const sorted = items.filter(item => item.text.trim()).sort((a, b) => a.y - b.y || a.x - b.x);
+    const rows: PdfTextItem[][] = [];
+
+    for (const item of sorted) {
+      const row = rows[rows.length - 1];
+      // Items on one baseline (allowing for super/subscripts and mixed font sizes) share a line
+      if (row && Math.abs(item.y - row[0].y) <= Math.min(item.height, row[0].height) * 0.5) {
+        row.push(item);
+      } else {
+        rows.push([item]);
+      }
+    }
+
+    return rows.map(row => {
+      const height = Math.max(...row.map(item => item.height));
+      const segments: TextSegment[] = [];
+
+      for (const item of row.sort((a, b) => a.x - b.x)) {
+        const segment = segments[segments.length - 1];
+        const gap = segment ? item.x - segment.x1 : Infinity;
+
+        if (gap > height * SEGMENT_GAP) {
+          segments.push({ text: item.text, x0: item.x, x1: item.x + item.width });
+          continue;
+        }
+
+        const needsSpace = gap > height * WORD_GAP && !/\s$/.test(segment.text) && !/^\s/.test(item.text);
+        segment.text += (needsSpace ? ' ' : '') + item.text;
+        segment.x1 = Math.max(segment.x1, item.x + item.width);
+      }
+
+      return {
+        y: row[0].y,
+        height,
+        segments: segments.map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ').trim() })),
+      };
+    });
+  }
+
+  private removeRunningLines(
+    pages: PdfPageContent[],
+    pageLines: TextLine[][],
+    layout: Omit<PdfLayoutInfo, 'images'>,
+    heuristics: Set<PdfLayoutHeuristic>,
+  ): void {
+    const bandOf = (line: TextLine, page: PdfPageContent): 'header' | 'footer' | null => {
+      if (line.y - line.height <= page.height * MARGIN_BAND) return 'header';
+      if (line.y >= page.height * (1 - MARGIN_BAND)) return 'footer';
+      return null;
+    };
+    // Page numbers inside running lines vary, so compare with digits masked out
+    const keyOf = (line: TextLine) => this.lineText(line).toLowerCase().replace(/\d+/g, '#');
+
+    const occurrences = new Map<string, number>();
+    pageLines.forEach((lines, index) => {
+      const keys = new Set<string>();
+      for (const line of lines) {
+        const band = bandOf(line, pages[index]);
+        if (band) keys.add(`${band}:${keyOf(line)}`);
+      }
+      keys.forEach(key => occurrences.set(key, (occurrences.get(key) || 0) + 1));
+    });
+    const minRepeats = Math.max(2, Math.ceil(pages.length / 2));
+
+    pageLines.forEach((lines, index) => {
+      pageLines[index] = lines.filter(line => {
+        const band = bandOf(line, pages[index]);
+        if (!band) return true;
+
+        const isPageNumber = PAGE_NUMBER_PATTERN.test(this.lineText(line));
+        const isRepeated = (occurrences.get(`${band}:${keyOf(line)}`) || 0) >= minRepeats;
+        if (!isPageNumber && !isRepeated) return true;
+
+        heuristics.add(isPageNumber ? 'page-number-removal' : band === 'header' ? 'header-removal' : 'footer-removal');
+        if (band === 'header') {
+          layout.headerLinesRemoved++;
+        } else {
+          layout.footerLinesRemoved++;
+        }
+        return false;
+      });
+    });
+  }
+
+  /**
+   * Finds vertical bands of whitespace that split the page into columns. Gaps
+   * where most rows have text on both sides are table cells and are left alone.
+   */
+  private findGutters(lines: TextLine[]): Gutter[] {
+    const segments = lines.flatMap(line => line.segments);
+    if (lines.length < MIN_COLUMN_LINES * 2) return [];
+
+    const left = Math.floor(Math.min(...segments.map(segment => segment.x0)));
+    const right = Math.ceil(Math.max(...segments.map(segment => segment.x1)));
+    const coverage = new Array<number>(right - left).fill(0);
+    for (const segment of segments) {
+      for (let x = Math.floor(segment.x0) - left; x < Math.ceil(segment.x1) - left; x++) {
+        coverage[x]++;
+      }
+    }
+
+    const heights = lines.map(line => line.height).sort((a, b) => a - b);
+    const minWidth = Math.max(4, heights[Math.floor(heights.length / 2)] * SEGMENT_GAP);
+    const maxCrossings = Math.floor(lines.length * GUTTER_CROSSING_RATIO);
+
+    const gutters: Gutter[] = [];
+    let runStart = -1;
+    for (let x = 0; x <= coverage.length; x++) {
+      const isOpen = x < coverage.length && coverage[x] <= maxCrossings;
+      if (isOpen && runStart < 0) {
+        runStart = x;
+      } else if (!isOpen && runStart >= 0) {
+        if (runStart > 0 && x < coverage.length && x - runStart >= minWidth) {
+          gutters.push({ start: left + runStart, end: left + x });
+        }
+        runStart = -1;
+      }
+    }
+
+    const accepted: Gutter[] = [];
+    for (const gutter of gutters) {
+      const previousEnd = accepted.length ? accepted[accepted.length - 1].end : left;
+      const rows = lines
+        .filter(line => !line.segments.some(segment => segment.x0 < gutter.end && segment.x1 > gutter.start))
+        .map(line => ({
+          y: line.y,
+          hasLeft: line.segments.some(segment => segment.x0 >= previousEnd && segment.x1 <= gutter.start),
+          hasRight: line.segments.some(segment => segment.x0 >= gutter.end),
+        }));
+      const leftRows = rows.filter(row => row.hasLeft);
+      const rightRows = rows.filter(row => row.hasRight);
+      if (leftRows.length < MIN_COLUMN_LINES || rightRows.length < MIN_COLUMN_LINES) continue;
+
+      // Only the stretch where both sides have text tells a table from columns
+      const top = Math.max(leftRows[0].y, rightRows[0].y);
+      const bottom = Math.min(leftRows[leftRows.length - 1].y, rightRows[rightRows.length - 1].y);
+      const overlapping = rows.filter(row => row.y >= top && row.y <= bottom && (row.hasLeft || row.hasRight));
+      const aligned = overlapping.filter(row => row.hasLeft && row.hasRight);
+
+      if (aligned.length / overlapping.length < TABLE_ALIGNMENT_RATIO) {
+        accepted.push(gutter);
+      }
+    }
+
+    return accepted;
+  }
+
+  /**
+   * Splits a page into blocks in reading order: each column top to bottom,
+   * with full-width lines (crossing a gutter) closing off the columns above them.
+   */
+  private orderBlocks(lines: TextLine[], gutters: Gutter[]): TextLine[][] {
+    if (!gutters.length) return [lines];
+
+    const midpoints = gutters.map(gutter => (gutter.start + gutter.end) / 2);
+    const blocks: TextLine[][] = [];
+    let columns: TextLine[][] = midpoints.map(() => []).concat([[]]);
+    let fullWidth: TextLine[] = [];
+
+    const flushColumns = () => {
+      blocks.push(...columns.filter(column => column.length));
+      columns = columns.map(() => []);
+    };
+
+    for (const line of lines) {
+      const crossesGutter = line.segments.some(segment =>
+        midpoints.some(midpoint => segment.x0 < midpoint && segment.x1 > midpoint),
+      );
+
+      if (crossesGutter) {
+        flushColumns();
+        fullWidth.push(line);
+        continue;
+      }
+
+      if (fullWidth.length) {
+        blocks.push(fullWidth);
+        fullWidth = [];
+      }
+      for (const segment of line.segments) {
+        const column = columns[midpoints.filter(midpoint => segment.x0 >= midpoint).length];
+        const current = column[column.length - 1];
+        if (current && current.y === line.y) {
+          current.segments.push(segment);
+        } else {
+          column.push({ y: line.y, height: line.height, segments: [segment] });
+        }
+      }
+    }
+
+    flushColumns();
+    if (fullWidth.length) blocks.push(fullWidth);
+
+    return blocks;
+  }
+
+  // Counts runs of consecutive multi-cell lines whose cells line up (left or right aligned)
+  private countTables(lines: TextLine[]): number {
+    let tables = 0;
+    let rows = 1;
+
+    for (let i = 1; i <= lines.length; i++) {
+      const previous = lines[i - 1];
+      const line = lines[i];
+      const continuesTable =
+        line &&
+        previous.segments.length > 1 &&
+        line.segments.length === previous.segments.length &&
+        line.y - previous.y <= line.height * PARAGRAPH_GAP * 1.5 &&
+        line.segments.every((segment, cell) => {
+          const above = previous.segments[cell];
+          const tolerance = Math.max(3, line.height * 0.5);
+          return Math.abs(segment.x0 - above.x0) <= tolerance || Math.abs(segment.x1 - above.x1) <= tolerance;
+        });
+
+      if (continuesTable) {
+        rows++;
+        continue;
+      }
+      if (rows >= MIN_TABLE_ROWS) tables++;
+      rows = 1;
+    }
+
+    return tables;
+  }
+
+  private renderLines(lines: TextLine[]): string {
+    return lines
+      .map((line, index) => {
+        const previous = lines[index - 1];
+        const isNewParagraph = previous && line.y - previous.y > line.height * PARAGRAPH_GAP;
+        return (isNewParagraph ? '\n' : '') + this.lineText(line);
+      })
+      .join('\n')
+      .trim();
+  }
+
+  private lineText(line: TextLine): string {
+    return line.segments.map(segment => segment.text).join(' | ');
+  }
+}
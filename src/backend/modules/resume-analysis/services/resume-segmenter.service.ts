@@ -0,0 +1,449 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Certification,
+  Education,
+  ParsedResumeContent,
+  PersonalInfo,
+  Project,
+  WorkExperience,
+} from '../../ai/interfaces/ai-provider.interface';
+
+export type ResumeSectionType =
+  | 'contact'
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'projects'
+  | 'certifications'
+  | 'other';
+
+interface RawSection {
+  type: ResumeSectionType;
+  heading: string;
+  lines: string[];
+}
+
+interface RawEntry {
+  headerLines: string[];
+  descriptionLines: string[];
+  bullets: string[];
+  dateRange?: DateRange;
+}
+
+export interface DateRange {
+  startDate?: string;
+  endDate?: string;
+  isCurrent: boolean;
+  raw: string;
+}
+
+const SECTION_HEADINGS: Record<Exclude<ResumeSectionType, 'contact' | 'other'>, string[]> = {
+  summary: [
+    'summary', 'professional summary', 'career summary', 'profile', 'professional profile',
+    'objective', 'career objective', 'about me', 'about', 'executive summary',
+  ],
+  experience: [
+    'experience', 'work experience', 'professional experience', 'employment', 'employment history',
+    'work history', 'career history', 'relevant experience', 'professional background',
+  ],
+  education: [
+    'education', 'academic background', 'education and training', 'academic qualifications',
+    'qualifications', 'education history',
+  ],
+  skills: [
+    'skills', 'technical skills', 'core competencies', 'key skills', 'competencies',
+    'skills and abilities', 'technologies', 'tools and technologies', 'areas of expertise', 'expertise',
+  ],
+  projects: ['projects', 'personal projects', 'key projects', 'selected projects', 'academic projects'],
+  certifications: [
+    'certifications', 'certificates', 'licenses', 'licenses and certifications',
+    'certifications and licenses', 'professional certifications',
+  ],
+};
+
+// Sections we recognise as boundaries but do not parse further
+const OTHER_HEADINGS = [
+  'awards', 'honors', 'honors and awards', 'awards and honors', 'achievements', 'languages',
+  'interests', 'hobbies', 'volunteer', 'volunteering', 'volunteer experience', 'publications',
+  'references', 'activities', 'leadership', 'memberships', 'affiliations', 'additional information',
+];
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4})`;
+const DATE_RANGE_PATTERN = new RegExp(
+  `(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)`,
+  'i',
+);
+const SINGLE_DATE_PATTERN = new RegExp(`\\b(${MONTH}\\s+\\d{4}|\\d{1,2}\\/\\d{4}|(?:19|20)\\d{2})\\b`, 'i');
+
+const DETAIL_LINE_PATTERN = /^(?:tech(?:nologies|nology| stack)?|stack|tools|built with|environment)\s*:/i;
+const BULLET_PATTERN = /^\s*(?:[•·▪◦●○■□➢►▶✓✔\-*–]|\d{1,2}[.)])\s+/;
+const TITLE_PATTERN = /\b(engineer|developer|manager|analyst|designer|consultant|intern|director|lead|specialist|architect|scientist|administrator|coordinator|officer|assistant|associate|head|vp|president|founder|owner|teacher|nurse|accountant|executive|representative|technician|programmer|researcher|advisor|supervisor|strategist|recruiter)\b/i;
+const DEGREE_PATTERN = /\b(bachelor(?:'?s)?|master(?:'?s)?|ph\.?\s?d\.?|doctorate|mba|associate(?:'?s)?|diploma|b\.?\s?s\.?c?\.?|m\.?\s?s\.?c?\.?|b\.?\s?a\.?|m\.?\s?a\.?|b\.?\s?tech|m\.?\s?tech|b\.?\s?e\.?|m\.?\s?e\.?|b\.?\s?eng|m\.?\s?eng|high school)(?=[\s,.]|$)/i;
+const INSTITUTION_PATTERN = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+const LOCATION_PATTERN = /^(?:remote|hybrid|[A-Z][a-zA-Z.]+(?:\s[A-Z][a-zA-Z.]+)*,\s*(?:[A-Z]{2}|[A-Z][a-z]+(?:\s[A-Z][a-z]+)*))$/;
+const LOCATION_IN_LINE_PATTERN = /\b(?:remote|hybrid)\b|\b[A-Z][a-zA-Z.]+(?:\s[A-Z][a-zA-Z.]+)*,\s*[A-Z]{2}\b/;
+const HEADER_SEPARATOR = /\s+[|–—]\s+|\s+-\s+|\s*\|\s*|,\s+|\s+at\s+|\s{3,}|\t+/;
+
+@Injectable()
+export class ResumeSegmenterService {
+  /**
+   * Split raw resume text into typed sections and structured entries.
+   * Expects text with its original line breaks (i.e. before cleanText).
+   */
+  segment(text: string): ParsedResumeContent {
+    const lines = text
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map(line => line.replace(/\s+$/, ''));
+
+    const rawSections = this.splitSections(lines);
+    const skills = this.parseSkills(this.linesOf(rawSections, 'skills'));
+
+    const sections: Record<string, string> = {};
+    for (const section of rawSections) {
+      const content = section.lines.join('\n').trim();
+      if (!content) continue;
+      const key = section.type === 'other' ? this.normalizeHeading(section.heading) || 'other' : section.type;
+      sections[key] = sections[key] ? `${sections[key]}\n\n${content}` : content;
+    }
+
+    const summary = this.linesOf(rawSections, 'summary')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join(' ');
+
+    return {
+      sections,
+      extractedInfo: {
+        contactInfo: this.parseContactInfo(this.linesOf(rawSections, 'contact'), text),
+        skills,
+        experience: this.parseExperience(this.linesOf(rawSections, 'experience'), skills),
+        education: this.parseEducation(this.linesOf(rawSections, 'education')),
+        summary: summary || undefined,
+        projects: this.parseProjects(this.linesOf(rawSections, 'projects'), skills),
+        certifications: this.parseCertifications(this.linesOf(rawSections, 'certifications')),
+      },
+      metadata: {
+        wordCount: text.split(/\s+/).filter(Boolean).length,
+      },
+    };
+  }
+
+  detectSectionType(line: string): ResumeSectionType | null {
+    const normalized = this.normalizeHeading(line);
+    if (!normalized || normalized.split(' ').length > 5) {
+      return null;
+    }
+
+    for (const [type, headings] of Object.entries(SECTION_HEADINGS)) {
+      if (headings.includes(normalized)) {
+        return type as ResumeSectionType;
+      }
+    }
+
+    return null;
+  }
+
+  parseDateRange(text: string): DateRange | undefined {
+    const rangeMatch = text.match(DATE_RANGE_PATTERN);
+    if (rangeMatch) {
+      const isCurrent = /^(present|current|now|today)$/i.test(rangeMatch[2]);
+      return {
+        startDate: rangeMatch[1],
+        endDate: isCurrent ? undefined : rangeMatch[2],
+        isCurrent,
+        raw: rangeMatch[0],
+      };
+    }
+
+    const singleMatch = text.match(SINGLE_DATE_PATTERN);
+    if (singleMatch) {
+      return { endDate: singleMatch[1], isCurrent: false, raw: singleMatch[0] };
+    }
+
+    return undefined;
+  }
+
+  private splitSections(lines: string[]): RawSection[] {
+    const sections: RawSection[] = [{ type: 'contact', heading: '', lines: [] }];
+
+    for (const line of lines) {
+      const type = this.detectSectionType(line);
+      if (type) {
+        sections.push({ type, heading: line.trim(), lines: [] });
+        continue;
+      }
+
+      // Inline headings such as "Skills: JavaScript, SQL"
+      const inline = line.match(/^\s*([A-Za-z &/]{3,40}):\s+(\S.*)$/);
+      const inlineType = inline ? this.detectSectionType(inline[1]) : null;
+      if (inline && inlineType) {
+        sections.push({ type: inlineType, heading: inline[1].trim(), lines: [inline[2]] });
+        continue;
+      }
+
+      if (sections.length > 1 && this.isOtherHeading(line)) {
+        sections.push({ type: 'other', heading: line.trim(), lines: [] });
+        continue;
+      }
+
+      sections[sections.length - 1].lines.push(line);
+    }
+
+    return sections;
+  }
+
+  private isOtherHeading(line: string): boolean {
+    const normalized = this.normalizeHeading(line);
+    const words = normalized.split(' ');
+    return words.length > 0 && words.length <= 4 && OTHER_HEADINGS.includes(normalized);
+  }
+
+  private normalizeHeading(line: string): string {
+    return line
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/[^a-z\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private linesOf(sections: RawSection[], type: ResumeSectionType): string[] {
+    return sections
+      .filter(section => section.type === type)
+      .reduce<string[]>((acc, section) => acc.concat(section.lines, ['']), []);
+  }
+
+  private parseContactInfo(headerLines: string[], fullText: string): PersonalInfo {
+    const header = headerLines.join('\n');
+    const contactInfo: PersonalInfo = {};
+
+    const nameLine = headerLines
+      .map(line => line.trim())
+      .find(line => /^[A-Z][a-zA-Z'-]+(?:\s[A-Z][a-zA-Z'.-]*){1,3}$/.test(line));
+    if (nameLine) {
+      contactInfo.name = nameLine;
+    }
+
+    const email = (header || fullText).match(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/);
+    if (email) contactInfo.email = email[0];
+
+    const phone = (header || fullText).match(/(\+?\d{1,3}[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}/);
+    if (phone) contactInfo.phone = phone[0].trim();
+
+    const linkedin = fullText.match(/linkedin\.com\/in\/[a-zA-Z0-9-]+/i);
+    if (linkedin) contactInfo.linkedin = `https://${linkedin[0]}`;
+
+    const github = fullText.match(/github\.com\/[a-zA-Z0-9-]+/i);
+    if (github) contactInfo.github = `https://${github[0]}`;
+
+    for (const fragment of header.split(/\n|\s[|•·]\s/)) {
+      const candidate = fragment.trim();
+      if (candidate !== contactInfo.name && LOCATION_PATTERN.test(candidate)) {
+        contactInfo.location = candidate;
+        break;
+      }
+    }
+
+    return contactInfo;
+  }
+
+  private parseSkills(lines: string[]): string[] {
+    const skills = new Set<string>();
+
+    for (const line of lines) {
+      // Drop category labels such as "Languages: ..." and keep the values
+      const values = line.replace(BULLET_PATTERN, '').replace(/^[^:]{1,30}:\s*/, '');
+      for (const item of values.split(/[,;|•·]|\s{2,}|\t/)) {
+        const skill = item.trim().replace(/\.$/, '');
+        if (skill.length > 0 && skill.length <= 40 && skill.split(' ').length <= 4) {
+          skills.add(skill);
+        }
+      }
+    }
+
+    return Array.from(skills);
+  }
+
+  private splitEntries(lines: string[]): RawEntry[] {
+    const entries: RawEntry[] = [];
+    let current: RawEntry | null = null;
+    let previousWasBullet = false;
+    let previousWasBlank = true;
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        previousWasBlank = true;
+        continue;
+      }
+
+      if (BULLET_PATTERN.test(line)) {
+        if (!current) {
+          current = { headerLines: [], descriptionLines: [], bullets: [] };
+          entries.push(current);
+        }
+        current.bullets.push(trimmed.replace(BULLET_PATTERN, '').trim());
+        previousWasBullet = true;
+        previousWasBlank = false;
+        continue;
+      }
+
+      // Labelled lines like "Tech: ..." belong to the entry above them
+      if (current && DETAIL_LINE_PATTERN.test(trimmed)) {
+        current.descriptionLines.push(trimmed);
+        continue;
+      }
+
+      // Wrapped bullet text continues on the next line in lower case
+      if (current && previousWasBullet && !previousWasBlank && /^[a-z(]/.test(trimmed)) {
+        current.bullets[current.bullets.length - 1] += ` ${trimmed}`;
+        continue;
+      }
+
+      const dateRange = this.parseDateRange(trimmed);
+      const hasRange = DATE_RANGE_PATTERN.test(trimmed);
+      const startsNewEntry =
+        !current ||
+        previousWasBullet ||
+        (previousWasBlank && current.headerLines.length > 0) ||
+        (hasRange && current.dateRange !== undefined);
+
+      if (startsNewEntry) {
+        current = { headerLines: [], descriptionLines: [], bullets: [] };
+        entries.push(current);
+      }
+
+      const entry = current as RawEntry;
+      const isHeaderLine =
+        entry.bullets.length === 0 &&
+        entry.descriptionLines.length === 0 &&
+        entry.headerLines.length < 3 &&
+        trimmed.length <= 120 &&
+        (dateRange !== undefined || !entry.dateRange || (TITLE_PATTERN.test(trimmed) && trimmed.length <= 60));
+
+      if (isHeaderLine) {
+        entry.headerLines.push(trimmed);
+        if (dateRange && !entry.dateRange) {
+          entry.dateRange = dateRange;
+        }
+      } else {
+        entry.descriptionLines.push(trimmed);
+      }
+
+      previousWasBullet = false;
+      previousWasBlank = false;
+    }
+
+    return entries.filter(entry => entry.headerLines.length > 0 || entry.bullets.length > 0);
+  }
+
+  private headerFragments(entry: RawEntry): { fragments: string[]; location?: string } {
+    let location: string | undefined;
+    const fragments = entry.headerLines
+      .map(line => (entry.dateRange ? line.replace(entry.dateRange.raw, ' ') : line))
+      .map(line => {
+        // Pull "City, ST" out before splitting on commas so it stays in one piece
+        const match = line.match(LOCATION_IN_LINE_PATTERN);
+        if (match && !location) {
+          location = match[0].trim();
+          return line.replace(match[0], ' ');
+        }
+        return line;
+      })
+      .reduce<string[]>((acc, line) => acc.concat(line.split(HEADER_SEPARATOR)), [])
+      .map(fragment => fragment.replace(/^[\s,|–—-]+|[\s,|–—-]+$/g, '').replace(/[()]/g, '').trim())
+      .filter(fragment => fragment.length > 0);
+
+    return { fragments, location };
+  }
+
+  private parseExperience(lines: string[], skills: string[]): WorkExperience[] {
+    return this.splitEntries(lines).map(entry => {
+      const { fragments } = this.headerFragments(entry);
+      const position = fragments.find(fragment => TITLE_PATTERN.test(fragment)) || fragments[1] || '';
+      const company = fragments.find(fragment => fragment !== position) || '';
+      const description = entry.descriptionLines.join(' ');
+
+      return {
+        company,
+        position,
+        startDate: entry.dateRange?.startDate || '',
+        endDate: entry.dateRange?.isCurrent ? 'Present' : entry.dateRange?.endDate,
+        description,
+        achievements: entry.bullets,
+        skills: this.skillsMentioned([description, ...entry.bullets].join(' '), skills),
+      };
+    });
+  }
+
+  private parseEducation(lines: string[]): Education[] {
+    return this.splitEntries(lines).map(entry => {
+      const { fragments } = this.headerFragments(entry);
+      const allText = [...entry.headerLines, ...entry.descriptionLines, ...entry.bullets].join(' ');
+      const institution = fragments.find(fragment => INSTITUTION_PATTERN.test(fragment)) || '';
+      const degreeFragment = fragments.find(fragment => fragment !== institution && DEGREE_PATTERN.test(fragment)) || '';
+      const fieldMatch = degreeFragment.match(/\b(?:in|of)\s+(.+)$/i);
+      const gpaMatch = allText.match(/\bGPA[:\s]*([\d.]+(?:\s*\/\s*[\d.]+)?)/i);
+
+      return {
+        institution: institution || fragments.find(fragment => fragment !== degreeFragment) || '',
+        degree: fieldMatch ? degreeFragment.slice(0, fieldMatch.index).trim() : degreeFragment,
+        field: fieldMatch ? fieldMatch[1].trim() : '',
+        startDate: entry.dateRange?.startDate || '',
+        endDate: entry.dateRange?.isCurrent ? 'Present' : entry.dateRange?.endDate,
+        gpa: gpaMatch ? gpaMatch[1].replace(/\s/g, '') : undefined,
+        achievements: entry.bullets.length > 0 ? entry.bullets : undefined,
+      };
+    });
+  }
+
+  private parseProjects(lines: string[], skills: string[]): Project[] {
+    return this.splitEntries(lines).map(entry => {
+      const { fragments } = this.headerFragments(entry);
+      const techLine = [...entry.descriptionLines, ...entry.bullets].find(line => DETAIL_LINE_PATTERN.test(line));
+      const technologies = techLine
+        ? techLine.replace(/^[^:]*:\s*/, '').split(/[,;|]/).map(item => item.trim()).filter(Boolean)
+        : this.skillsMentioned([...entry.headerLines, ...entry.descriptionLines, ...entry.bullets].join(' '), skills);
+
+      return {
+        name: fragments[0] || '',
+        description: entry.descriptionLines.filter(line => line !== techLine).join(' '),
+        technologies,
+        achievements: entry.bullets.filter(line => line !== techLine),
+        startDate: entry.dateRange?.startDate,
+        endDate: entry.dateRange?.isCurrent ? 'Present' : entry.dateRange?.endDate,
+      };
+    });
+  }
+
+  private parseCertifications(lines: string[]): Certification[] {
+    return lines
+      .map(line => line.trim().replace(BULLET_PATTERN, '').trim())
+      .filter(Boolean)
+      .map(line => {
+        const dateRange = this.parseDateRange(line);
+        const withoutDate = dateRange ? line.replace(dateRange.raw, ' ') : line;
+        const [name, ...rest] = withoutDate
+          .split(HEADER_SEPARATOR)
+          .map(part => part.replace(/[()]/g, '').trim())
+          .filter(Boolean);
+
+        return {
+          name: name || line,
+          issuer: rest[0],
+          date: dateRange?.endDate || dateRange?.startDate,
+        };
+      });
+  }
+
+  private skillsMentioned(text: string, skills: string[]): string[] {
+    const lower = text.toLowerCase();
+    return skills.filter(skill => {
+      const escaped = skill.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(lower);
+    });
+  }
+}
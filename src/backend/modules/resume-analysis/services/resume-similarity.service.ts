@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+
+export interface ResumeFingerprint {
+  contentHash: string;
+  signature: number[]; // MinHash signature, stored as signed 32-bit integers
+}
+
+export interface SimilarityCandidate {
+  id: string;
+  contentHash?: string | null;
+  contentSignature?: number[] | null;
+}
+
+export interface SimilarityMatch<T extends SimilarityCandidate> {
+  candidate: T;
+  similarity: number;
+  exact: boolean;
+}
+
+// Word n-grams; five words is long enough that unrelated resumes rarely share shingles
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 128;
+// Estimated Jaccard similarity above which an upload is treated as a revision of an existing resume
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+// One seed per hash function, derived deterministically so stored signatures stay comparable
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => mix32(Math.imul(index + 1, 0x9e3779b9)));
+
+@Injectable()
+export class ResumeSimilarityService {
+  /**
+   * Fingerprints cleaned resume text. The hash ignores case, punctuation and
+   * whitespace so the same resume exported to another format still matches.
+   */
+  fingerprint(text: string): ResumeFingerprint {
+    const words = this.normalize(text);
+
+    return {
+      contentHash: createHash('sha256').update(words.join(' ')).digest('hex'),
+      signature: this.minHash(this.shingles(words)),
+    };
+  }
+
+  similarity(a: number[], b: number[]): number {
+    if (!a.length || a.length !== b.length) return 0;
+
+    let equal = 0;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] === b[i]) equal++;
+    }
+    return equal / a.length;
+  }
+
+  // Returns the closest existing resume, or null when nothing reaches the near-duplicate threshold
+  findBestMatch<T extends SimilarityCandidate>(
+    fingerprint: ResumeFingerprint,
+    candidates: T[],
+    threshold = NEAR_DUPLICATE_THRESHOLD,
+  ): SimilarityMatch<T> | null {
+    const exact = candidates.find(candidate => candidate.contentHash === fingerprint.contentHash);
+    if (exact) {
+      return { candidate: exact, similarity: 1, exact: true };
+    }
+
+    let best: SimilarityMatch<T> | null = null;
+    for (const candidate of candidates) {
+      if (!candidate.contentSignature?.length) continue;
+
+      const similarity = this.similarity(fingerprint.signature, candidate.contentSignature);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { candidate, similarity: Math.round(similarity * 1000) / 1000, exact: false };
+      }
+    }
+    return best;
+  }
+
+  private normalize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+      .split(/\s+/)
+      .filter(Boolean);
+  }
+
+  private shingles(words: string[]): Set<string> {
+    const shingles = new Set<string>();
+    if (words.length <= SHINGLE_SIZE) {
+      shingles.add(words.join(' '));
+      return shingles;
+    }
+
+    for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+      shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    }
+    return shingles;
+  }
+
+  private minHash(shingles: Set<string>): number[] {
+    const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+
+    for (const shingle of shingles) {
+      const base = fnv1a(shingle);
+      for (let i = 0; i < SIGNATURE_SIZE; i++) {
+        const hash = mix32(base ^ SEEDS[i]);
+        if (hash < signature[i]) signature[i] = hash;
+      }
+    }
+
+    // Postgres integer columns are signed
+    return signature.map(value => value | 0);
+  }
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer: turns a seed-mixed value into a well-distributed unsigned 32-bit hash
+function mix32(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
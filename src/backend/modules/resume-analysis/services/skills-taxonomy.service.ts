@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { SKILLS_TAXONOMY, SkillDefinition } from '../data/skills-taxonomy';
+
+export interface SkillMention {
+  skill: SkillDefinition;
+  text: string; // as written in the source text
+  index: number;
+}
+
+/**
+ * Looks skills up in the bundled taxonomy: resolves spellings such as
+ * "ReactJS", "react.js" and "React" to one canonical skill, finds multi-word
+ * skills like "machine learning" in free text, and knows which skills imply
+ * broader ones (PostgreSQL experience counts towards a SQL requirement).
+ */
+@Injectable()
+export class SkillsTaxonomyService {
+  readonly version = SKILLS_TAXONOMY.version;
+  private readonly skills = new Map<string, SkillDefinition>();
+  private readonly byTerm = new Map<string, SkillDefinition>();
+  private readonly ancestorCache = new Map<string, Set<string>>();
+  private readonly pattern: RegExp;
+  private readonly caseSensitivePattern: RegExp | null;
+
+  constructor() {
+    const terms: string[] = [];
+    const caseSensitiveTerms: string[] = [];
+    for (const skill of SKILLS_TAXONOMY.skills) {
+      this.skills.set(skill.id, skill);
+      const caseSensitive = skill.caseSensitiveAliases || [];
+      const insensitive = [skill.name, ...(skill.aliases || [])].filter(term => !caseSensitive.includes(term));
+
+      for (const term of [...insensitive, ...caseSensitive]) {
+        // Earlier skills keep a term when two claim it
+        for (const key of [this.key(term), this.compactKey(term)]) {
+          if (!this.byTerm.has(key)) this.byTerm.set(key, skill);
+        }
+      }
+      terms.push(...insensitive.map(term => term.toLowerCase()));
+      caseSensitiveTerms.push(...caseSensitive);
+    }
+
+    this.pattern = this.buildPattern(terms, 'giu');
+    this.caseSensitivePattern = caseSensitiveTerms.length ? this.buildPattern(caseSensitiveTerms, 'gu') : null;
+  }
+
+  // Resolves one term, in any of its spellings, to its skill
+  find(term: string): SkillDefinition | undefined {
+    return this.byTerm.get(this.key(term)) || this.byTerm.get(this.compactKey(term));
+  }
+
+  canonicalName(term: string): string {
+    return this.find(term)?.name ?? term;
+  }
+
+  // Every skill mentioned in a text, once each, in order of first mention
+  extract(text: string): SkillMention[] {
+    const seen = new Set<string>();
+    return this.mentions(text).filter(mention => {
+      if (seen.has(mention.skill.id)) return false;
+      seen.add(mention.skill.id);
+      return true;
+    });
+  }
+
+  // Every mention of a skill in a text, repeats included
+  mentions(text: string): SkillMention[] {
+    const matches: SkillMention[] = [];
+    for (const pattern of [this.pattern, this.caseSensitivePattern]) {
+      if (!pattern) continue;
+      for (const match of text.matchAll(pattern)) {
+        const skill = this.find(match[0]);
+        if (skill) {
+          matches.push({ skill, text: match[0], index: match.index! });
+        }
+      }
+    }
+
+    // Longest match wins where two overlap, e.g. "React Native" over "React"
+    matches.sort((a, b) => a.index - b.index || b.text.length - a.text.length);
+    let end = 0;
+    return matches.filter(mention => {
+      if (mention.index < end) return false;
+      end = mention.index + mention.text.length;
+      return true;
+    });
+  }
+
+  /**
+   * Whether having `candidate` meets a requirement for `required`: the same
+   * skill, or a narrower one. Knowing SQL doesn't meet a PostgreSQL
+   * requirement, but PostgreSQL meets a SQL one.
+   */
+  satisfies(candidate: string, required: string): boolean {
+    const have = this.find(candidate);
+    const need = this.find(required);
+    if (!have || !need) return false;
+    return have.id === need.id || this.ancestorSet(have.id).has(need.id);
+  }
+
+  private ancestorSet(id: string): Set<string> {
+    const cached = this.ancestorCache.get(id);
+    if (cached) return cached;
+
+    const ancestors = new Set<string>();
+    const queue = [...(this.skills.get(id)?.parents || [])];
+    while (queue.length) {
+      const parent = queue.shift()!;
+      if (parent === id || ancestors.has(parent)) continue;
+      ancestors.add(parent);
+      queue.push(...(this.skills.get(parent)?.parents || []));
+    }
+    this.ancestorCache.set(id, ancestors);
+    return ancestors;
+  }
+
+  private buildPattern(terms: string[], flags: string): RegExp {
+    const alternatives = [...new Set(terms)]
+      .sort((a, b) => b.length - a.length)
+      .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/[\s-]+/g, '[\\s-]+'));
+    return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_+#])`, flags);
+  }
+
+  private key(term: string): string {
+    return term.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  }
+
+  // Ignores punctuation inside names, so "ReactJS" and "react.js" meet
+  private compactKey(term: string): string {
+    return term.trim().toLowerCase().replace(/[\s_./-]+/g, '');
+  }
+}
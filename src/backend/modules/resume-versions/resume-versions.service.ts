@@ -346,6 +346,10 @@ export class ResumeVersionsService {
         return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
       case 'doc':
         return 'application/msword';
+      case 'rtf':
+        return 'application/rtf';
+      case 'odt':
+        return 'application/vnd.oasis.opendocument.text';
       case 'txt':
         return 'text/plain';
       default:
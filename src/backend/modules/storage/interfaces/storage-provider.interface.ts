@@ -0,0 +1,16 @@
+import type { Readable } from 'stream';
+
+export type StorageBody = Buffer | Readable;
+
+export interface StorageObjectOptions {
+  contentType?: string;
+}
+
+export interface StorageProvider {
+  name: string;
+
+  put(key: string, body: StorageBody, options?: StorageObjectOptions): Promise<void>;
+  getStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+}
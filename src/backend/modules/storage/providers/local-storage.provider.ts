@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StorageBody, StorageProvider } from '../interfaces/storage-provider.interface';
+
+@Injectable()
+export class LocalStorageProvider implements StorageProvider {
+  name = 'local';
+
+  private readonly rootDir: string;
+
+  constructor(private configService: ConfigService) {
+    this.rootDir = path.resolve(this.configService.get('UPLOAD_DIRECTORY') || './uploads');
+  }
+
+  async put(key: string, body: StorageBody): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, fs.createWriteStream(filePath));
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+    // Fail here rather than on the first read so callers get a clear error for missing objects
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.promises.access(this.resolvePath(key)).then(
+      () => true,
+      () => false,
+    );
+  }
+
+  // Keys travel through job payloads, so never let one point outside the storage root
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import {
+  StorageBody,
+  StorageObjectOptions,
+  StorageProvider,
+} from '../interfaces/storage-provider.interface';
+
+type S3Method = 'GET' | 'PUT' | 'DELETE' | 'HEAD';
+
+/**
+ * Talks to any S3-compatible object store (AWS S3, MinIO, Cloudflare R2, ...)
+ * over plain HTTPS with AWS Signature Version 4.
+ */
+@Injectable()
+export class S3StorageProvider implements StorageProvider {
+  name = 's3';
+
+  private readonly bucket?: string;
+  private readonly region: string;
+  private readonly endpoint: string;
+  private readonly forcePathStyle: boolean;
+  private readonly accessKeyId?: string;
+  private readonly secretAccessKey?: string;
+
+  constructor(private configService: ConfigService) {
+    this.bucket = this.configService.get('S3_BUCKET');
+    this.region = this.configService.get('S3_REGION') || 'us-east-1';
+    this.endpoint = (this.configService.get('S3_ENDPOINT') || `https://s3.${this.region}.amazonaws.com`).replace(/\/$/, '');
+    this.forcePathStyle = this.configService.get('S3_FORCE_PATH_STYLE', 'true') === 'true';
+    this.accessKeyId = this.configService.get('S3_ACCESS_KEY_ID');
+    this.secretAccessKey = this.configService.get('S3_SECRET_ACCESS_KEY');
+  }
+
+  async put(key: string, body: StorageBody, options?: StorageObjectOptions): Promise<void> {
+    // S3 needs a Content-Length and a payload hash up front; resumes are small enough to buffer
+    const payload = Buffer.isBuffer(body) ? body : await this.collect(body);
+    await this.send('PUT', key, payload, options?.contentType);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const response = await this.send('GET', key);
+    if (!response.body) {
+      throw new Error(`S3 GET ${key} returned no body`);
+    }
+    // fetch's ReadableStream comes from the DOM typings; at runtime it is the stream/web one fromWeb expects
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.send('DELETE', key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.send('HEAD', key);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async send(method: S3Method, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    if (!this.bucket || !this.accessKeyId || !this.secretAccessKey) {
+      throw new Error('S3 storage is not configured (S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)');
+    }
+
+    const encodedKey = key.split('/').map(segment => this.encode(segment)).join('/');
+    const endpoint = new URL(this.endpoint);
+    const host = this.forcePathStyle ? endpoint.host : `${this.bucket}.${endpoint.host}`;
+    const canonicalUri = `${endpoint.pathname.replace(/\/$/, '')}${this.forcePathStyle ? `/${this.bucket}` : ''}/${encodedKey}`;
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = this.sha256(body || '');
+
+    const headers: Record<string, string> = {
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType }),
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      '',
+      ...signedHeaders.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, this.sha256(canonicalRequest)].join('\n');
+    const signingKey = [dateStamp, this.region, 's3', 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => this.hmac(key, part),
+      `AWS4${this.secretAccessKey}`,
+    );
+    const signature = this.hmac(signingKey, stringToSign).toString('hex');
+
+    const { host: _host, ...requestHeaders } = headers;
+    const response = await fetch(`${endpoint.protocol}//${host}${canonicalUri}`, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      body: body && new Uint8Array(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`S3 ${method} ${key} failed with status ${response.status}`);
+    }
+    return response;
+  }
+
+  private async collect(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  // RFC 3986 encoding, which is stricter than encodeURIComponent
+  private encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private sha256(value: Buffer | string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  private hmac(key: Buffer | string, value: string): Buffer {
+    return createHmac('sha256', key).update(value).digest();
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Readable } from 'stream';
+import type {
+  StorageBody,
+  StorageObjectOptions,
+  StorageProvider,
+} from '../interfaces/storage-provider.interface';
+
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+
+  constructor(private readonly provider: StorageProvider) {
+    this.logger.log(`Using ${provider.name} storage driver`);
+  }
+
+  get driver(): string {
+    return this.provider.name;
+  }
+
+  async save(key: string, body: StorageBody, options?: StorageObjectOptions): Promise<string> {
+    await this.provider.put(key, body, options);
+    return key;
+  }
+
+  createReadStream(key: string): Promise<Readable> {
+    return this.provider.getStream(key);
+  }
+
+  // Parsers need the whole document, so this streams one object into memory at a time
+  async read(key: string): Promise<Buffer> {
+    const stream = await this.provider.getStream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.provider.delete(key);
+    } catch (error) {
+      this.logger.warn(`Failed to delete stored object ${key}`, error);
+    }
+  }
+
+  exists(key: string): Promise<boolean> {
+    return this.provider.exists(key);
+  }
+}
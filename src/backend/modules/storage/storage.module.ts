@@ -0,0 +1,29 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule, ConfigService } from "@nestjs/config";
+import { LocalStorageProvider } from "./providers/local-storage.provider";
+import { S3StorageProvider } from "./providers/s3-storage.provider";
+import { StorageService } from "./services/storage.service";
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    LocalStorageProvider,
+    S3StorageProvider,
+    {
+      provide: StorageService,
+      useFactory: (
+        configService: ConfigService,
+        localStorageProvider: LocalStorageProvider,
+        s3StorageProvider: S3StorageProvider
+      ) => {
+        const driver = configService.get("STORAGE_DRIVER", "local");
+        return new StorageService(
+          driver === "s3" ? s3StorageProvider : localStorageProvider
+        );
+      },
+      inject: [ConfigService, LocalStorageProvider, S3StorageProvider],
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
@@ -12,6 +12,17 @@ import { Server, Socket } from 'socket.io';
 
 import { WsAuthGuard } from './guards/ws-auth.guard';
 
+export type AIStreamOperation = 'resume_analysis' | 'jd_matching';
+
+export interface AIStream {
+  push: (chunk: { delta: string; restart?: boolean }) => void;
+  end: () => void;
+}
+
+const USER_ROOM_PREFIX = 'user:';
+// Token deltas are batched so a long reply costs a few dozen events rather than thousands
+const AI_STREAM_FLUSH_INTERVAL = 100;
+
 @WebSocketGateway({
   cors: {
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
@@ -67,6 +78,7 @@ export class WebSocketGatewayService
       if (userSocketList) {
         userSocketList.push(client);
       }
+      client.join(this.userRoom(userId));
 
       client.emit('authenticated', { success: true });
       this.logger.log(`User authenticated: ${userId} on socket ${client.id}`);
@@ -85,6 +97,11 @@ export class WebSocketGatewayService
     @MessageBody() data: { room: string },
     @ConnectedSocket() client: Socket,
   ) {
+    // User rooms carry private AI output; sockets are only put in their own on authentication
+    if (data.room.startsWith(USER_ROOM_PREFIX)) {
+      return { success: false, room: data.room, error: 'Room is reserved' };
+    }
+
     client.join(data.room);
     this.logger.log(`Client ${client.id} joined room: ${data.room}`);
     return { success: true, room: data.room };
@@ -184,6 +201,55 @@ export class WebSocketGatewayService
     this.emitToUser(userId, 'resume_analysis_error', data);
   }
 
+  // AI Streaming Events
+
+  /**
+   * Open a stream of AI output for a user. Deltas are forwarded to the user's
+   * room as `ai_stream` events; `restart` tells the client to discard what it
+   * has so far (the provider retried or a fallback provider took over).
+   */
+  openAIStream(userId: string, operation: AIStreamOperation, id: string): AIStream {
+    const room = this.userRoom(userId);
+    let pending = '';
+    let restart = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const flush = (done = false) => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      if (!pending && !restart && !done) return;
+
+      this.server.to(room).emit('ai_stream', {
+        operation,
+        id,
+        delta: pending,
+        ...(restart && { restart: true }),
+        ...(done && { done: true }),
+        timestamp: new Date().toISOString(),
+      });
+      pending = '';
+      restart = false;
+    };
+
+    return {
+      push: ({ delta, restart: restarted }) => {
+        if (restarted) {
+          pending = '';
+          restart = true;
+        }
+        pending += delta;
+        timer ??= setTimeout(() => flush(), AI_STREAM_FLUSH_INTERVAL);
+      },
+      end: () => flush(true),
+    };
+  }
+
+  private userRoom(userId: string): string {
+    return `${USER_ROOM_PREFIX}${userId}`;
+  }
+
   // Job Tracker WebSocket Events
 
   /**
@@ -5,8 +5,19 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Resume } from '../../database/entities/resume.entity';
 import { ResumeVersion } from '../../database/entities/resume-version.entity';
+import {
+  ResumeBatch,
+  ResumeBatchFile,
+  ResumeBatchFileStatus,
+  ResumeBatchStatus,
+} from '../../database/entities/resume-batch.entity';
 import { FileParserService } from '../../modules/resume-analysis/services/file-parser.service';
 import { AIProviderService } from '../../modules/ai/services/ai-provider.service';
+import { summarizeAIScore } from '../../modules/ai/interfaces/ai-provider.interface';
+import { AtsAuditService } from '../../modules/resume-analysis/services/ats-audit.service';
+import { ResumeSimilarityService } from '../../modules/resume-analysis/services/resume-similarity.service';
+import { StorageService } from '../../modules/storage/services/storage.service';
+import type { ParsedResumeContent } from '../../modules/resume-analysis/interfaces/file-validation.interface';
 import { QUEUE_NAMES } from '../queue.types';
 import type { BulkResumeAnalysisJob } from '../queue.types';
 
@@ -20,13 +31,18 @@ export class BulkAnalysisProcessor {
     private resumeRepository: Repository<Resume>,
     @InjectRepository(ResumeVersion)
     private resumeVersionRepository: Repository<ResumeVersion>,
+    @InjectRepository(ResumeBatch)
+    private resumeBatchRepository: Repository<ResumeBatch>,
     private fileParserService: FileParserService,
     private aiProviderService: AIProviderService,
+    private atsAuditService: AtsAuditService,
+    private storageService: StorageService,
+    private resumeSimilarityService: ResumeSimilarityService,
   ) {}
 
   @Process('bulk-analyze')
   async handleBulkAnalysis(job: Job<BulkResumeAnalysisJob>) {
-    const { batchId, userId, resumeFiles, provider } = job.data;
+    const { batchId, userId, resumeFiles, provider, redactPii, ensemble } = job.data;
     
     this.logger.log(`Starting bulk analysis for batch ${batchId} with ${resumeFiles.length} files`);
 
@@ -35,56 +51,115 @@ export class BulkAnalysisProcessor {
       const totalFiles = resumeFiles.length;
       let processedFiles = 0;
 
+      await this.resumeBatchRepository.update(batchId, { status: ResumeBatchStatus.PROCESSING });
+
       for (const file of resumeFiles) {
         try {
           // Update progress
           const progress = Math.floor((processedFiles / totalFiles) * 100);
           await job.progress(progress);
 
-          // Parse file content
-          const parsedContent = await this.parseFileContent(file.content, file.fileName);
+          await this.updateBatchFile(batchId, file.id, { status: ResumeBatchFileStatus.PARSING });
+
+          // Parse file content, pulling one file at a time from storage
+          const content = await this.storageService.read(file.storageKey);
+          const parsedContent = await this.parseFileContent(content, file.fileName);
           const cleanedText = this.fileParserService.cleanText(parsedContent.text);
           const extractedMetadata = this.fileParserService.extractMetadata(cleanedText);
 
+          // Identical content already on file: link to it instead of creating another resume.
+          // Near-duplicates are kept, since a bulk upload is often many clients on one template.
+          const fingerprint = this.resumeSimilarityService.fingerprint(cleanedText);
+          const duplicate = await this.resumeRepository.findOne({
+            where: { userId, contentHash: fingerprint.contentHash },
+            select: ['id', 'atsScore'],
+          });
+
+          if (duplicate) {
+            await this.storageService.delete(file.storageKey);
+            await this.updateBatchFile(batchId, file.id, {
+              status: ResumeBatchFileStatus.DONE,
+              resumeId: duplicate.id,
+              atsScore: duplicate.atsScore,
+              duplicateOf: duplicate.id,
+            });
+
+            results.push({
+              fileName: file.fileName,
+              resumeId: duplicate.id,
+              atsScore: duplicate.atsScore,
+              status: 'duplicate',
+            });
+            processedFiles++;
+            continue;
+          }
+
           // Create resume record
           const resume = this.resumeRepository.create({
             userId,
             fileName: file.fileName,
-            fileSize: file.content.length,
+            fileSize: file.fileSize,
             fileType: this.getFileType(file.fileName),
+            storageKey: file.storageKey,
             content: cleanedText,
+            contentHash: fingerprint.contentHash,
+            contentSignature: fingerprint.signature,
             parsedContent: {
               ...parsedContent.metadata,
-              extractedInfo: extractedMetadata,
+              sections: parsedContent.sections,
+              extractedInfo: {
+                ...extractedMetadata,
+                ...parsedContent.extractedInfo,
+              },
+              language: parsedContent.language,
               batchId,
             },
             isProcessed: false,
           });
 
+          // Score locally before the AI call so a provider outage still leaves an ATS score
+          const atsAudit = this.atsAuditService.audit(resume);
+          resume.atsScore = atsAudit.score;
+          resume.parsedContent.atsAudit = atsAudit;
+
           const savedResume = await this.resumeRepository.save(resume);
 
           // Create version record
           const version = this.resumeVersionRepository.create({
             resumeId: savedResume.id,
             fileName: file.fileName,
-            fileSize: file.content.length,
+            fileSize: file.fileSize,
             fileType: this.getFileType(file.fileName),
+            storageKey: file.storageKey,
             content: cleanedText,
             parsedContent: savedResume.parsedContent,
+            atsScore: savedResume.atsScore,
             versionNumber: 1,
           });
 
           await this.resumeVersionRepository.save(version);
 
+          await this.updateBatchFile(batchId, file.id, {
+            status: ResumeBatchFileStatus.ANALYZING,
+            resumeId: savedResume.id,
+          });
+
           // Perform AI analysis
           const analysisResult = await this.aiProviderService.analyzeResume({
             content: cleanedText,
             fileName: file.fileName,
             provider,
+            redactPii,
+            userId,
+            ensemble,
+            language: parsedContent.language?.code,
+            sourceId: savedResume.id,
+            sections: parsedContent.sections,
           });
 
           // Calculate metrics
-          const atsScore = this.calculateATSScore(analysisResult);
+          const atsScore = atsAudit.score;
+          const aiScore = summarizeAIScore(analysisResult);
           const suggestions = this.extractSuggestions(analysisResult);
 
           // Update resume with analysis results
@@ -94,6 +169,7 @@ export class BulkAnalysisProcessor {
             isProcessed: true,
             parsedContent: {
               ...savedResume.parsedContent,
+              aiScore,
               analysisResults: {
                 ...analysisResult,
                 processedAt: new Date().toISOString(),
@@ -103,6 +179,12 @@ export class BulkAnalysisProcessor {
             },
           });
 
+          await this.updateBatchFile(batchId, file.id, {
+            status: ResumeBatchFileStatus.DONE,
+            atsScore,
+            aiScore: aiScore.score,
+          });
+
           results.push({
             fileName: file.fileName,
             resumeId: savedResume.id,
@@ -114,6 +196,11 @@ export class BulkAnalysisProcessor {
 
         } catch (error: any) {
           this.logger.error(`Failed to process file ${file.fileName} in batch ${batchId}`, error);
+
+          await this.updateBatchFile(batchId, file.id, {
+            status: ResumeBatchFileStatus.FAILED,
+            error: error?.message || 'Processing failed',
+          });
           
           results.push({
             fileName: file.fileName,
@@ -125,6 +212,10 @@ export class BulkAnalysisProcessor {
         }
       }
 
+      await this.resumeBatchRepository.update(batchId, {
+        status: ResumeBatchStatus.COMPLETED,
+        completedAt: new Date(),
+      });
       await job.progress(100);
 
       this.logger.log(`Bulk analysis completed for batch ${batchId}. Processed: ${processedFiles}/${totalFiles}`);
@@ -133,18 +224,63 @@ export class BulkAnalysisProcessor {
         batchId,
         totalFiles,
         processedFiles,
-        successfulFiles: results.filter(r => r.status === 'completed').length,
+        successfulFiles: results.filter(r => r.status !== 'failed').length,
         failedFiles: results.filter(r => r.status === 'failed').length,
         results,
       };
 
     } catch (error: any) {
       this.logger.error(`Bulk analysis failed for batch ${batchId}`, error);
+      await this.failBatch(batchId, error?.message || 'Bulk analysis failed');
       throw error;
     }
   }
 
-  private async parseFileContent(content: Buffer, fileName: string) {
+  // Files the job never finished would otherwise show as in progress forever
+  private async failBatch(batchId: string, reason: string): Promise<void> {
+    try {
+      const batch = await this.resumeBatchRepository.findOne({ where: { id: batchId } });
+      if (!batch) return;
+
+      const updatedAt = new Date().toISOString();
+      for (const file of batch.files) {
+        if (file.status !== ResumeBatchFileStatus.DONE && file.status !== ResumeBatchFileStatus.FAILED) {
+          Object.assign(file, { status: ResumeBatchFileStatus.FAILED, error: reason, updatedAt });
+        }
+      }
+      batch.status = ResumeBatchStatus.FAILED;
+      batch.failedFiles = batch.files.filter(entry => entry.status === ResumeBatchFileStatus.FAILED).length;
+      batch.completedAt = new Date();
+
+      await this.resumeBatchRepository.save(batch);
+    } catch (error) {
+      this.logger.warn(`Failed to mark batch ${batchId} as failed`, error);
+    }
+  }
+
+  // Files are handled one at a time, so a read-modify-write of the batch row cannot race
+  private async updateBatchFile(
+    batchId: string,
+    fileId: string,
+    changes: Partial<Omit<ResumeBatchFile, 'id' | 'fileName' | 'fileSize'>>,
+  ): Promise<void> {
+    try {
+      const batch = await this.resumeBatchRepository.findOne({ where: { id: batchId } });
+      const file = batch?.files.find(entry => entry.id === fileId);
+      if (!batch || !file) return;
+
+      Object.assign(file, changes, { updatedAt: new Date().toISOString() });
+      batch.completedFiles = batch.files.filter(entry => entry.status === ResumeBatchFileStatus.DONE).length;
+      batch.failedFiles = batch.files.filter(entry => entry.status === ResumeBatchFileStatus.FAILED).length;
+
+      await this.resumeBatchRepository.save(batch);
+    } catch (error) {
+      // Status tracking must never fail the analysis itself
+      this.logger.warn(`Failed to update status of file ${fileId} in batch ${batchId}`, error);
+    }
+  }
+
+  private async parseFileContent(content: Buffer, fileName: string): Promise<ParsedResumeContent> {
     const fileType = this.getFileType(fileName);
     
     // Create a temporary file-like object for the parser
@@ -156,7 +292,7 @@ export class BulkAnalysisProcessor {
       // Fallback to simple text extraction
       return {
         text: content.toString('utf-8'),
-        metadata: { fileName, fileSize: content.length },
+        metadata: {},
       };
     }
   }
@@ -171,6 +307,10 @@ export class BulkAnalysisProcessor {
         return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
       case 'doc':
         return 'application/msword';
+      case 'rtf':
+        return 'application/rtf';
+      case 'odt':
+        return 'application/vnd.oasis.opendocument.text';
       case 'txt':
         return 'text/plain';
       default:
@@ -178,24 +318,6 @@ export class BulkAnalysisProcessor {
     }
   }
 
-  private calculateATSScore(analysisResult: any): number {
-    try {
-      // Simplified ATS scoring for bulk processing
-      const content = analysisResult.text?.toLowerCase() || '';
-      let score = 40; // Lower base score for bulk processing
-
-      // Quick checks for essential elements
-      if (content.includes('contact') || content.includes('@')) score += 15;
-      if (content.includes('experience') || content.includes('work')) score += 20;
-      if (content.includes('education')) score += 10;
-      if (content.includes('skills')) score += 15;
-
-      return Math.min(score, 100);
-    } catch (error) {
-      return 50; // Default score for bulk processing
-    }
-  }
-
   private extractSuggestions(_analysisResult: any): Array<{
     type: 'content' | 'formatting' | 'keywords' | 'structure';
     priority: 'high' | 'medium' | 'low';
@@ -1,14 +1,34 @@
 import { Processor, Process } from '@nestjs/bull';
 import type { Job } from 'bull';
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { JdMatching } from '../../database/entities/jd-matching.entity';
 import { Resume } from '../../database/entities/resume.entity';
 import { AIProviderService } from '../../modules/ai/services/ai-provider.service';
+import { LanguageDetectionService } from '../../modules/resume-analysis/services/language-detection.service';
+import { SkillsTaxonomyService } from '../../modules/resume-analysis/services/skills-taxonomy.service';
+import {
+  EDUCATION_RANK,
+  JobDescriptionParserService,
+} from '../../modules/jd-matching/services/job-description-parser.service';
+import { ScoreBreakdownService } from '../../modules/jd-matching/services/score-breakdown.service';
+import type {
+  ParsedJobDescription,
+  RequirementCheck,
+  UnmetRequirement,
+} from '../../modules/jd-matching/interfaces/parsed-job-description.interface';
+import { WebSocketGatewayService } from '../../modules/websocket/websocket-gateway.service';
+import { RESUME_LANGUAGE_NAMES } from '../../modules/ai/interfaces/ai-provider.interface';
+import type { AIStreamHandler, ResumeLanguage } from '../../modules/ai/interfaces/ai-provider.interface';
 import { QUEUE_NAMES } from '../queue.types';
 import type { JDMatchingJob } from '../queue.types';
 
+// How much each kind of job keyword counts towards the keyword score
+const REQUIRED_WEIGHT = 3;
+const PREFERRED_WEIGHT = 1;
+const OTHER_KEYWORD_WEIGHT = 1;
+
 @Injectable()
 @Processor(QUEUE_NAMES.JD_MATCHING)
 export class JDMatchingProcessor {
@@ -20,43 +40,81 @@ export class JDMatchingProcessor {
     @InjectRepository(Resume)
     private resumeRepository: Repository<Resume>,
     private aiProviderService: AIProviderService,
+    private languageDetectionService: LanguageDetectionService,
+    private skillsTaxonomy: SkillsTaxonomyService,
+    private jobDescriptionParser: JobDescriptionParserService,
+    private scoreBreakdownService: ScoreBreakdownService,
+    @Optional() private websocketGateway?: WebSocketGatewayService,
   ) {}
 
   @Process('match-jd')
   async handleJDMatching(job: Job<JDMatchingJob>) {
-    const { analysisId, resumeContent, jobDescription, userId, useSemanticMatching = true } = job.data;
+    const { analysisId, resumeContent, jobDescription, userId, useSemanticMatching = true, redactPii, ensemble, stream } = job.data;
     
     this.logger.log(`Starting JD matching for analysis ${analysisId}`);
 
     try {
       await job.progress(10);
 
-      // Perform keyword-based matching
-      const keywordMatching = this.performKeywordMatching(resumeContent, jobDescription);
+      const languages = {
+        resume: this.languageDetectionService.detect(resumeContent).code,
+        jobDescription: this.languageDetectionService.detect(jobDescription).code,
+      };
+
+      // Split the posting into must-haves and nice-to-haves, then match keywords against them
+      const parsedJobDescription = this.jobDescriptionParser.parse(jobDescription);
+      const { requirements, ...keywordMatching } = this.performKeywordMatching(
+        resumeContent,
+        jobDescription,
+        languages,
+        parsedJobDescription,
+      );
       
       await job.progress(30);
 
       let semanticMatching = null;
-      let overallScore = keywordMatching.score;
 
-      // Perform AI-powered semantic matching if enabled
+      // Perform AI-powered semantic matching if enabled, streaming the reply to the user's open tabs as it arrives
       if (useSemanticMatching) {
+        const aiStream = stream ? this.websocketGateway?.openAIStream(userId, 'jd_matching', analysisId) : undefined;
         try {
-          semanticMatching = await this.performSemanticMatching(resumeContent, jobDescription);
-          overallScore = Math.round((keywordMatching.score + semanticMatching.score) / 2);
+          semanticMatching = await this.performSemanticMatching(resumeContent, jobDescription, languages, {
+            userId,
+            analysisId,
+            redactPii,
+            ensemble,
+            onDelta: aiStream?.push,
+          });
         } catch (error) {
           this.logger.warn('Semantic matching failed, using keyword matching only', error);
+        } finally {
+          aiStream?.end();
         }
       }
 
+      // The overall score is the sum of the breakdown's weighted components
+      const scoreBreakdown = this.scoreBreakdownService.breakdown({
+        resumeContent,
+        jobDescription,
+        parsed: parsedJobDescription,
+        requirements,
+        matchedKeywords: keywordMatching.matchedKeywords,
+        semanticScore: semanticMatching?.score,
+      });
+      const overallScore = scoreBreakdown.score;
+
       await job.progress(70);
 
-      // Generate improvement suggestions
-      const suggestions = this.generateImprovementSuggestions(
-        keywordMatching,
-        semanticMatching,
-        jobDescription
-      );
+      // Generate improvement suggestions, followed by the provider's own recommendations
+      const suggestions = [
+        ...this.generateImprovementSuggestions(keywordMatching, semanticMatching, jobDescription),
+        ...(semanticMatching?.recommendations || []).map(description => ({
+          type: 'content' as const,
+          priority: 'medium' as const,
+          title: 'Tailor Your Experience',
+          description,
+        })),
+      ];
 
       await job.progress(90);
 
@@ -67,8 +125,10 @@ export class JDMatchingProcessor {
         resumeContent: resumeContent.substring(0, 5000), // Truncate for storage
         jobDescription: jobDescription.substring(0, 5000),
         overallScore,
+        scoreBreakdown,
         keywordMatching: keywordMatching,
         semanticMatching: semanticMatching,
+        parsedJobDescription,
         suggestions: suggestions.slice(0, 10), // Limit suggestions
         matchedKeywords: keywordMatching.matchedKeywords,
         missingKeywords: keywordMatching.missingKeywords,
@@ -88,6 +148,7 @@ export class JDMatchingProcessor {
         semanticScore: semanticMatching?.score,
         matchedKeywords: keywordMatching.matchedKeywords.length,
         missingKeywords: keywordMatching.missingKeywords.length,
+        unmetRequirements: keywordMatching.unmetRequirements.length,
         suggestionsCount: suggestions.length,
         status: 'completed',
       };
@@ -110,69 +171,163 @@ export class JDMatchingProcessor {
     }
   }
 
-  private performKeywordMatching(resumeContent: string, jobDescription: string) {
-    const resumeWords = this.extractKeywords(resumeContent);
-    const jobWords = this.extractKeywords(jobDescription);
+  /**
+   * Scores how well the resume covers the job's keywords. Required skills,
+   * certifications, education and experience from the parsed posting weigh
+   * REQUIRED_WEIGHT, preferred ones PREFERRED_WEIGHT and any other keyword
+   * OTHER_KEYWORD_WEIGHT; every required item the resume doesn't meet is
+   * reported in unmetRequirements.
+   */
+  private performKeywordMatching(
+    resumeContent: string,
+    jobDescription: string,
+    languages: { resume: ResumeLanguage; jobDescription: ResumeLanguage },
+    parsed: ParsedJobDescription = this.jobDescriptionParser.parse(jobDescription),
+  ) {
+    const resumeWords = this.extractKeywords(resumeContent, languages.resume);
+    const jobWords = this.extractKeywords(jobDescription, languages.jobDescription);
+    const covers = (keyword: string) => resumeWords.some(resumeWord => this.isWordMatch(resumeWord, keyword));
 
     // Find matching keywords
     const matchedKeywords = resumeWords.filter(word => 
       jobWords.some(jobWord => this.isWordMatch(word, jobWord))
     );
 
-    // Find missing important keywords
-    const importantJobKeywords = this.extractImportantKeywords(jobDescription);
-    const missingKeywords = importantJobKeywords.filter(keyword =>
-      !resumeWords.some(resumeWord => this.isWordMatch(resumeWord, keyword))
-    );
+    const requirements: RequirementCheck[] = [
+      ...[...parsed.requiredSkills, ...parsed.preferredSkills].map(skill => ({
+        type: 'skill' as const,
+        name: skill.skill,
+        required: skill.required,
+        evidence: skill.evidence,
+        met: covers(skill.skill),
+      })),
+      ...parsed.certifications.map(certification => ({
+        type: 'certification' as const,
+        name: certification.name,
+        required: certification.required,
+        evidence: certification.evidence,
+        met: covers(certification.name),
+      })),
+      ...this.checkEducation(resumeContent, parsed),
+      ...this.checkExperience(resumeContent, parsed),
+    ];
 
-    // Calculate keyword matching score
-    const score = Math.round(
-      (matchedKeywords.length / Math.max(importantJobKeywords.length, 1)) * 100
-    );
+    // Keywords the parser didn't place, e.g. unknown technologies or requirements in other languages
+    const importantJobKeywords = this.extractImportantKeywords(jobDescription, languages.jobDescription);
+    const placed = new Set(requirements.map(requirement => requirement.name.toLowerCase()));
+    const otherKeywords = importantJobKeywords.filter(keyword => !placed.has(keyword.toLowerCase()));
+
+    const items = [
+      ...requirements.map(requirement => ({
+        weight: requirement.required ? REQUIRED_WEIGHT : PREFERRED_WEIGHT,
+        met: requirement.met,
+      })),
+      ...otherKeywords.map(keyword => ({ weight: OTHER_KEYWORD_WEIGHT, met: covers(keyword) })),
+    ];
+    const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+    const metWeight = items.reduce((sum, item) => sum + (item.met ? item.weight : 0), 0);
+    const score = Math.round((metWeight / Math.max(totalWeight, 1)) * 100);
+
+    const unmetRequirements: UnmetRequirement[] = requirements
+      .filter(requirement => requirement.required && !requirement.met)
+      .map(requirement => ({ type: requirement.type, requirement: requirement.name, evidence: requirement.evidence }));
+
+    // Missing must-have skills first, then everything else the resume lacks
+    const missingKeywords = [
+      ...new Set([
+        ...requirements.filter(requirement => requirement.type === 'skill' && requirement.required && !requirement.met).map(requirement => requirement.name),
+        ...requirements.filter(requirement => requirement.type === 'skill' && !requirement.required && !requirement.met).map(requirement => requirement.name),
+        ...otherKeywords.filter(keyword => !covers(keyword)),
+      ]),
+    ];
+
+    const coverage = (required: boolean) => {
+      const group = requirements.filter(requirement => requirement.required === required);
+      return { met: group.filter(requirement => requirement.met).length, total: group.length };
+    };
 
     return {
       score: Math.min(score, 100),
       matchedKeywords,
       missingKeywords,
-      totalJobKeywords: importantJobKeywords.length,
+      unmetRequirements,
+      requirements,
+      requirementCoverage: { required: coverage(true), preferred: coverage(false) },
+      totalJobKeywords: requirements.length + otherKeywords.length,
       matchingMethod: 'keyword-based',
+      taxonomyVersion: this.skillsTaxonomy.version,
+      languages,
     };
   }
 
-  private async performSemanticMatching(resumeContent: string, jobDescription: string) {
-    try {
-      const prompt = `
-        Compare the following resume content with the job description and provide a semantic similarity score from 0-100:
-
-        RESUME:
-        ${resumeContent.substring(0, 2000)}
+  private checkEducation(resumeContent: string, parsed: ParsedJobDescription) {
+    const bar = this.jobDescriptionParser.minimumEducation(parsed);
+    if (!bar) return [];
 
-        JOB DESCRIPTION:
-        ${jobDescription.substring(0, 2000)}
+    const resumeLevel = this.jobDescriptionParser.highestEducationLevel(resumeContent);
+    const label = bar.level.replace('_', ' ');
 
-        Please analyze:
-        1. Skill relevance and transferability
-        2. Experience alignment
-        3. Industry context matching
-        4. Role requirements fulfillment
-
-        Respond with just a number from 0-100 representing the semantic match score.
-      `;
+    return [{
+      type: 'education' as const,
+      name: bar.field ? `${label} degree in ${bar.field}` : `${label} degree`,
+      required: bar.required,
+      evidence: bar.evidence,
+      met: !!resumeLevel && EDUCATION_RANK[resumeLevel] >= EDUCATION_RANK[bar.level],
+    }];
+  }
 
-      const result = await this.aiProviderService.analyzeText({
-        prompt,
-        provider: 'gemini',
-        maxTokens: 100,
-      });
+  private checkExperience(resumeContent: string, parsed: ParsedJobDescription) {
+    const years = parsed.yearsOfExperience;
+    const resumeYears = this.jobDescriptionParser.estimateYearsOfExperience(resumeContent)?.years;
+    // Without dates on the resume there is nothing to compare
+    if (!years || resumeYears === undefined) return [];
+
+    return [{
+      type: 'experience' as const,
+      name: `${years.min}+ years of experience`,
+      required: true,
+      evidence: years.evidence,
+      met: resumeYears >= years.min,
+    }];
+  }
 
-      // Extract score from AI response
-      const scoreMatch = result.text?.match(/(\d+)/);
-      const score = scoreMatch ? Math.min(Math.max(parseInt(scoreMatch[1]), 0), 100) : 50;
+  // The provider's structured match; an ensemble reconciles several providers' matches into one
+  private async performSemanticMatching(
+    resumeContent: string,
+    jobDescription: string,
+    languages: { resume: ResumeLanguage; jobDescription: ResumeLanguage },
+    options: { userId: string; analysisId: string; redactPii?: boolean; ensemble?: boolean; onDelta?: AIStreamHandler },
+  ) {
+    try {
+      // Tell the model when the documents are not in English, or not in the same language
+      const languageNote = languages.resume === 'en' && languages.jobDescription === 'en'
+        ? undefined
+        : `The resume is written in ${RESUME_LANGUAGE_NAMES[languages.resume]} and the job description in ${RESUME_LANGUAGE_NAMES[languages.jobDescription]}. Compare meaning, not wording, across languages.`;
+
+      const result = await this.aiProviderService.matchJobDescription(
+        resumeContent.substring(0, 4000),
+        jobDescription.substring(0, 4000),
+        {
+          userId: options.userId,
+          redactPii: options.redactPii,
+          ensemble: options.ensemble,
+          sourceId: options.analysisId,
+          onDelta: options.onDelta,
+          ...(languageNote && { languageNote }),
+        },
+      );
 
       return {
-        score,
-        analysis: result.text,
-        matchingMethod: 'semantic-ai',
+        score: Math.min(Math.max(Math.round(result.overallScore), 0), 100),
+        confidence: result.confidence,
+        matchingMethod: result.ensemble ? 'semantic-ai-ensemble' : 'semantic-ai',
+        strengthAreas: result.strengthAreas,
+        improvementAreas: result.improvementAreas,
+        missingSkills: result.missingSkills,
+        recommendations: result.recommendations,
+        ...(result.ensemble && { ensemble: result.ensemble }),
+        ...(result.promptTemplate && { promptTemplate: result.promptTemplate }),
+        ...(result.cache && { cache: result.cache }),
       };
 
     } catch (error) {
@@ -181,40 +336,43 @@ export class JDMatchingProcessor {
     }
   }
 
-  private extractKeywords(text: string): string[] {
+  // Skills from the taxonomy under their canonical names, plus unknown terms that look technical
+  private extractKeywords(text: string, language: ResumeLanguage = 'en'): string[] {
+    const skills = this.skillsTaxonomy.extract(text).map(mention => mention.skill.name);
+
     // Clean and normalize text
     const cleanText = text.toLowerCase()
-      .replace(/[^\w\s\-.]/g, ' ')
+      .replace(/[^\p{L}\p{N}\s\-.]/gu, ' ')
       .replace(/\s+/g, ' ')
       .trim();
 
     // Extract meaningful keywords (3+ characters, not common words)
     const words = cleanText.split(' ')
       .filter(word => word.length >= 3)
-      .filter(word => !this.isCommonWord(word))
-      .filter(word => this.isSkillOrTechnology(word));
+      .filter(word => !this.languageDetectionService.isStopWord(word, language))
+      .filter(word => !this.skillsTaxonomy.find(word) && this.isSkillOrTechnology(word));
 
     // Remove duplicates and return
-    return [...new Set(words)];
+    return [...new Set([...skills, ...words])];
   }
 
-  private extractImportantKeywords(jobDescription: string): string[] {
-    const keywords = this.extractKeywords(jobDescription);
+  private extractImportantKeywords(jobDescription: string, language: ResumeLanguage = 'en'): string[] {
+    const keywords = this.extractKeywords(jobDescription, language);
     
-    // Prioritize technical skills, certifications, and specific requirements
-    const importantPatterns = [
-      /(?:require[ds]?|must have|essential|mandatory|critical)/i,
-      /(?:skill[s]?|experience|proficien[ct]|expert)/i,
-      /(?:certification|certified|license)/i,
-    ];
+    // Prioritize technical skills, certifications, and specific requirements.
+    // English cues stay on since non-English postings often keep English requirement phrases.
+    const importantPatterns = this.languageDetectionService.getRequirementCues(
+      language === 'en' ? 'en' : [language, 'en'],
+    );
 
     const importantKeywords = [];
-    const sentences = jobDescription.split(/[.!?]+/);
+    // Only split on sentence ends, so names like "Node.js" stay whole
+    const sentences = jobDescription.split(/[.!?]+(?:\s|$)/);
 
     for (const sentence of sentences) {
       const isImportant = importantPatterns.some(pattern => pattern.test(sentence));
       if (isImportant) {
-        const sentenceKeywords = this.extractKeywords(sentence);
+        const sentenceKeywords = this.extractKeywords(sentence, language);
         importantKeywords.push(...sentenceKeywords);
       }
     }
@@ -224,7 +382,16 @@ export class JDMatchingProcessor {
     return allKeywords.slice(0, 50); // Limit to top 50 keywords
   }
 
-  private isWordMatch(word1: string, word2: string): boolean {
+  // Whether a resume keyword covers a job keyword
+  private isWordMatch(resumeWord: string, jobWord: string): boolean {
+    // Known skills match through the taxonomy: aliases, and narrower skills meeting broader requirements
+    if (this.skillsTaxonomy.find(resumeWord) && this.skillsTaxonomy.find(jobWord)) {
+      return this.skillsTaxonomy.satisfies(resumeWord, jobWord);
+    }
+
+    const word1 = resumeWord.toLowerCase();
+    const word2 = jobWord.toLowerCase();
+
     // Exact match
     if (word1 === word2) return true;
     
@@ -232,67 +399,36 @@ export class JDMatchingProcessor {
     if (word1.includes(word2) || word2.includes(word1)) {
       return Math.min(word1.length, word2.length) >= 4;
     }
-    
-    // Similar technologies (could be expanded)
-    const synonyms = {
-      'javascript': ['js', 'javascript', 'ecmascript'],
-      'typescript': ['ts', 'typescript'],
-      'python': ['python', 'py'],
-      'react': ['react', 'reactjs', 'react.js'],
-      'angular': ['angular', 'angularjs'],
-      'vue': ['vue', 'vuejs', 'vue.js'],
-    };
-
-    for (const [_key, values] of Object.entries(synonyms)) {
-      if (values.includes(word1.toLowerCase()) && values.includes(word2.toLowerCase())) {
-        return true;
-      }
-    }
 
     return false;
   }
 
+  // Catches technologies the taxonomy doesn't list yet
   private isSkillOrTechnology(word: string): boolean {
-    // Check if word looks like a technology, skill, or professional term
     const techPatterns = [
       /^[a-z]+\.[a-z]+$/i, // framework.js patterns
       /^[a-z]{2,}sql$/i, // SQL variants
-      /^aws|azure|gcp$/i, // Cloud platforms
       /^[a-z]+\.?(js|py|php|rb)$/i, // Programming languages
     ];
 
-    if (techPatterns.some(pattern => pattern.test(word))) return true;
-
-    // Common tech/skill keywords
-    const skillKeywords = new Set([
-      'javascript', 'python', 'java', 'react', 'angular', 'vue', 'node', 'express',
-      'sql', 'nosql', 'mongodb', 'postgresql', 'mysql', 'redis', 'docker', 'kubernetes',
-      'aws', 'azure', 'git', 'jenkins', 'ci/cd', 'agile', 'scrum', 'devops',
-      'html', 'css', 'sass', 'bootstrap', 'tailwind', 'webpack', 'babel',
-      'typescript', 'graphql', 'rest', 'api', 'microservices', 'cloud'
-    ]);
-
-    return skillKeywords.has(word.toLowerCase());
-  }
-
-  private isCommonWord(word: string): boolean {
-    const commonWords = new Set([
-      'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'had',
-      'her', 'was', 'one', 'our', 'out', 'day', 'get', 'has', 'him', 'his',
-      'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'way', 'who',
-      'boy', 'did', 'use', 'your', 'work', 'life', 'them', 'well', 'were',
-      'will', 'with', 'have', 'this', 'that', 'from', 'they', 'know', 'want',
-      'been', 'good', 'much', 'some', 'time', 'very', 'when', 'come', 'here',
-      'just', 'like', 'long', 'make', 'many', 'over', 'such', 'take', 'than',
-      'only', 'think', 'also', 'back', 'after', 'first', 'well', 'year'
-    ]);
-    
-    return commonWords.has(word.toLowerCase());
+    return techPatterns.some(pattern => pattern.test(word));
   }
 
   private generateImprovementSuggestions(keywordMatching: any, semanticMatching: any, _jobDescription: string) {
     const suggestions = [];
 
+    // Unmet must-haves are what screening filters on first
+    const unmet: UnmetRequirement[] = keywordMatching.unmetRequirements || [];
+    if (unmet.length > 0) {
+      suggestions.push({
+        type: 'keywords' as const,
+        priority: 'high' as const,
+        title: 'Address Must-Have Requirements',
+        description: `The job requires ${unmet.map(requirement => requirement.requirement).slice(0, 5).join(', ')}. If you have them, state them explicitly.`,
+        keywords: unmet.filter(requirement => requirement.type === 'skill' || requirement.type === 'certification').map(requirement => requirement.requirement),
+      });
+    }
+
     // Keyword-based suggestions
     if (keywordMatching.missingKeywords.length > 0) {
       const topMissing = keywordMatching.missingKeywords.slice(0, 5);
@@ -1,10 +1,17 @@
 import { Processor, Process } from '@nestjs/bull';
 import type { Job } from 'bull';
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Resume } from '../../database/entities/resume.entity';
 import { AIProviderService } from '../../modules/ai/services/ai-provider.service';
+import { AtsAuditService } from '../../modules/resume-analysis/services/ats-audit.service';
+import { LanguageDetectionService } from '../../modules/resume-analysis/services/language-detection.service';
+import { SkillsTaxonomyService } from '../../modules/resume-analysis/services/skills-taxonomy.service';
+import { WebSocketGatewayService } from '../../modules/websocket/websocket-gateway.service';
+import { summarizeAIScore } from '../../modules/ai/interfaces/ai-provider.interface';
+import type { ResumeLanguage } from '../../modules/ai/interfaces/ai-provider.interface';
+import type { AtsAuditReport } from '../../modules/resume-analysis/interfaces/ats-audit.interface';
 import { QUEUE_NAMES } from '../queue.types';
 import type { ResumeAnalysisJob } from '../queue.types';
 
@@ -17,14 +24,20 @@ export class ResumeAnalysisProcessor {
     @InjectRepository(Resume)
     private resumeRepository: Repository<Resume>,
     private aiProviderService: AIProviderService,
+    private atsAuditService: AtsAuditService,
+    private languageDetectionService: LanguageDetectionService,
+    private skillsTaxonomy: SkillsTaxonomyService,
+    @Optional() private websocketGateway?: WebSocketGatewayService,
   ) {}
 
   @Process('analyze-resume')
   async handleResumeAnalysis(job: Job<ResumeAnalysisJob>) {
-    const { resumeId, userId, provider } = job.data;
+    const { resumeId, userId, provider, redactPii, ensemble } = job.data;
     
     this.logger.log(`Starting resume analysis for resume ${resumeId} by user ${userId}`);
 
+    let atsAudit: AtsAuditReport | undefined;
+
     try {
       // Update job progress
       await job.progress(10);
@@ -38,22 +51,42 @@ export class ResumeAnalysisProcessor {
         throw new Error(`Resume ${resumeId} not found for user ${userId}`);
       }
 
+      // Score locally first so the resume keeps a stable ATS score even if the AI call fails
+      atsAudit = this.atsAuditService.audit(resume);
+
+      // Resumes uploaded before language detection existed are detected on the fly
+      const language: ResumeLanguage =
+        resume.parsedContent?.language?.code || this.languageDetectionService.detect(resume.content).code;
+
       await job.progress(20);
 
-      // Perform AI analysis
-      const analysisResult = await this.aiProviderService.analyzeResume({
-        content: resume.content,
-        fileName: resume.fileName,
-        provider,
-      });
+      // Perform AI analysis, streaming the reply to the user's open tabs as it arrives
+      const stream = this.websocketGateway?.openAIStream(userId, 'resume_analysis', resumeId);
+      let analysisResult;
+      try {
+        analysisResult = await this.aiProviderService.analyzeResume({
+          content: resume.content,
+          fileName: resume.fileName,
+          provider,
+          redactPii,
+          userId,
+          ensemble,
+          language,
+          onDelta: stream?.push,
+          sourceId: resumeId,
+          sections: resume.parsedContent?.sections,
+        });
+      } finally {
+        stream?.end();
+      }
 
       await job.progress(60);
 
       // Extract key metrics
-      const atsScore = this.calculateATSScore(analysisResult);
+      const atsScore = atsAudit.score;
       const suggestions = this.extractSuggestions(analysisResult);
       const skills = this.extractSkills(analysisResult);
-      const keywords = this.extractKeywords(analysisResult);
+      const keywords = this.extractKeywords(analysisResult, language);
 
       await job.progress(80);
 
@@ -64,6 +97,8 @@ export class ResumeAnalysisProcessor {
         isProcessed: true,
         parsedContent: {
           ...resume.parsedContent,
+          atsAudit,
+          aiScore: summarizeAIScore(analysisResult),
           analysisResults: {
             ...analysisResult,
             skills,
@@ -97,8 +132,10 @@ export class ResumeAnalysisProcessor {
       // Update resume status to error
       await this.resumeRepository.update(resumeId, {
         isProcessed: false,
+        atsScore: atsAudit?.score,
         parsedContent: {
           ...resumeForError?.parsedContent,
+          ...(atsAudit && { atsAudit }),
           error: {
             message: error?.message || 'Analysis failed',
             timestamp: new Date().toISOString(),
@@ -111,36 +148,6 @@ export class ResumeAnalysisProcessor {
     }
   }
 
-  private calculateATSScore(analysisResult: any): number {
-    try {
-      // Extract ATS score from AI response
-      const scoreMatch = analysisResult.text?.match(/ATS.*?(\d+)%?/i) || 
-                        analysisResult.text?.match(/score.*?(\d+)%?/i);
-      
-      if (scoreMatch && scoreMatch[1]) {
-        const score = parseInt(scoreMatch[1], 10);
-        return Math.min(Math.max(score, 0), 100); // Ensure score is between 0-100
-      }
-
-      // Fallback calculation based on analysis quality
-      let score = 50; // Base score
-
-      // Check for common resume elements
-      const content = analysisResult.text?.toLowerCase() || '';
-      
-      if (content.includes('contact') || content.includes('email') || content.includes('phone')) score += 10;
-      if (content.includes('experience') || content.includes('work')) score += 15;
-      if (content.includes('education') || content.includes('degree')) score += 10;
-      if (content.includes('skills') || content.includes('technical')) score += 10;
-      if (content.includes('achievement') || content.includes('accomplishment')) score += 5;
-
-      return Math.min(score, 100);
-    } catch (error) {
-      this.logger.warn('Failed to calculate ATS score, using default');
-      return 65; // Default score
-    }
-  }
-
   private extractSuggestions(analysisResult: any): Array<{
     type: 'content' | 'formatting' | 'keywords' | 'structure';
     priority: 'high' | 'medium' | 'low';
@@ -222,26 +229,14 @@ export class ResumeAnalysisProcessor {
     return 'content';
   }
 
+  // Canonical names for the skills the provider reported and any the taxonomy finds in the text
   private extractSkills(analysisResult: any): string[] {
     try {
-      const content = analysisResult.text || '';
-      const skills = [];
-
-      // Common technical skills patterns
-      const skillPatterns = [
-        /(?:JavaScript|TypeScript|Python|Java|C\+\+|React|Angular|Vue|Node\.js|Express|Django|Flask)/gi,
-        /(?:SQL|PostgreSQL|MySQL|MongoDB|Redis|GraphQL)/gi,
-        /(?:AWS|Azure|Docker|Kubernetes|Jenkins|Git)/gi,
-        /(?:HTML|CSS|SASS|Bootstrap|Tailwind)/gi,
+      const skills = [
+        ...(analysisResult.skills || []).map((skill: { name: string }) => this.skillsTaxonomy.canonicalName(skill.name)),
+        ...this.skillsTaxonomy.extract(analysisResult.text || '').map(mention => mention.skill.name),
       ];
 
-      for (const pattern of skillPatterns) {
-        const matches = content.match(pattern);
-        if (matches) {
-          skills.push(...matches.map((skill: string) => skill.trim()));
-        }
-      }
-
       // Remove duplicates and return unique skills
       return [...new Set(skills)];
     } catch (error) {
@@ -250,16 +245,16 @@ export class ResumeAnalysisProcessor {
     }
   }
 
-  private extractKeywords(analysisResult: any): string[] {
+  private extractKeywords(analysisResult: any, language: ResumeLanguage): string[] {
     try {
       const content = analysisResult.text || '';
       
       // Extract important keywords from content
       const words = content.toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
         .split(/\s+/)
         .filter((word: string) => word.length > 3)
-        .filter((word: string) => !this.isCommonWord(word));
+        .filter((word: string) => !this.languageDetectionService.isStopWord(word, language));
 
       // Count frequency and return top keywords
       const wordCount: Record<string, number> = {};
@@ -276,11 +271,4 @@ export class ResumeAnalysisProcessor {
       return [];
     }
   }
-
-  private isCommonWord(word: string): boolean {
-    const commonWords = new Set([
-      'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'had', 'her', 'was', 'one', 'our', 'out', 'day', 'get', 'has', 'him', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'way', 'who', 'boy', 'did', 'use', 'your', 'work', 'life', 'them', 'well', 'were'
-    ]);
-    return commonWords.has(word.toLowerCase());
-  }
 }
\ No newline at end of file
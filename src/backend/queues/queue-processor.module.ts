@@ -3,12 +3,23 @@ import { TypeOrmModule } from "@nestjs/typeorm";
 
 // Entities
 import { JdMatching } from "../database/entities/jd-matching.entity";
+import { ResumeBatch } from "../database/entities/resume-batch.entity";
 import { ResumeVersion } from "../database/entities/resume-version.entity";
 import { Resume } from "../database/entities/resume.entity";
 
 // Services
 import { AIModule } from "../modules/ai/ai.module";
 import { FileParserService } from "../modules/resume-analysis/services/file-parser.service";
+import { ResumeSegmenterService } from "../modules/resume-analysis/services/resume-segmenter.service";
+import { PdfLayoutService } from "../modules/resume-analysis/services/pdf-layout.service";
+import { AtsAuditService } from "../modules/resume-analysis/services/ats-audit.service";
+import { ResumeSimilarityService } from "../modules/resume-analysis/services/resume-similarity.service";
+import { LanguageDetectionService } from "../modules/resume-analysis/services/language-detection.service";
+import { SkillsTaxonomyService } from "../modules/resume-analysis/services/skills-taxonomy.service";
+import { JobDescriptionParserService } from "../modules/jd-matching/services/job-description-parser.service";
+import { ScoreBreakdownService } from "../modules/jd-matching/services/score-breakdown.service";
+import { StorageModule } from "../modules/storage/storage.module";
+import { WebSocketModule } from "../modules/websocket/websocket.module";
 import { QueueModule } from "./queue.module";
 
 // Processors
@@ -18,8 +29,10 @@ import { ResumeAnalysisProcessor } from "./processors/resume-analysis.processor"
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Resume, ResumeVersion, JdMatching]),
+    TypeOrmModule.forFeature([Resume, ResumeVersion, ResumeBatch, JdMatching]),
     AIModule,
+    StorageModule,
+    WebSocketModule,
     QueueModule, // Import QueueModule instead of registering queues directly
   ],
   providers: [
@@ -30,6 +43,14 @@ import { ResumeAnalysisProcessor } from "./processors/resume-analysis.processor"
 
     // Services (import FileParserService locally since it's not in a module)
     FileParserService,
+    ResumeSegmenterService,
+    PdfLayoutService,
+    AtsAuditService,
+    ResumeSimilarityService,
+    LanguageDetectionService,
+    SkillsTaxonomyService,
+    JobDescriptionParserService,
+    ScoreBreakdownService,
   ],
   exports: [
     // Export QueueModule so other modules can use it
@@ -15,15 +15,19 @@ export type QueueName = typeof QUEUE_NAMES[keyof typeof QUEUE_NAMES];
 export interface ResumeAnalysisJob {
   resumeId: string;
   userId: string;
-  fileContent: Buffer;
-  provider: 'gemini' | 'openai' | 'claude';
+  storageKey: string; // original upload, read through StorageService
+  provider: 'gemini' | 'openai' | 'claude' | 'local';
+  redactPii?: boolean;
+  ensemble?: boolean; // reconcile several providers' analyses instead of taking the first
 }
 
 export interface BulkResumeAnalysisJob {
   batchId: string;
   userId: string;
-  resumeFiles: { id: string; content: Buffer; fileName: string }[];
-  provider: 'gemini' | 'openai' | 'claude';
+  resumeFiles: { id: string; storageKey: string; fileName: string; fileSize: number }[];
+  provider: 'gemini' | 'openai' | 'claude' | 'local';
+  redactPii?: boolean;
+  ensemble?: boolean;
 }
 
 export interface JDMatchingJob {
@@ -32,6 +36,9 @@ export interface JDMatchingJob {
   jobDescription: string;
   userId: string;
   useSemanticMatching?: boolean;
+  redactPii?: boolean;
+  ensemble?: boolean; // reconcile several providers' semantic matches
+  stream?: boolean; // forward the provider's reply to the user's open tabs; off for rankings and job fit searches
 }
 
 export interface SuggestionGenerationJob {
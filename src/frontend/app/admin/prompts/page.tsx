@@ -0,0 +1,7 @@
+"use client";
+
+import { AdminPromptTemplates } from "@/components/admin/AdminPromptTemplates";
+
+export default function AdminPromptsPage() {
+  return <AdminPromptTemplates />;
+}
@@ -5,12 +5,14 @@ import { Button } from "@/components/ui/Button";
 import { Card } from "@/components/ui/Card";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 import { useErrorReporting } from "@/lib/errorReporting";
+import type { AIUsageTotals } from "@/types/usage";
 import {
   ArrowTrendingDownIcon,
   ArrowTrendingUpIcon,
   BriefcaseIcon,
   ChartBarIcon,
   ClockIcon,
+  CurrencyDollarIcon,
   DocumentTextIcon,
   UsersIcon,
 } from "@heroicons/react/24/outline";
@@ -73,14 +75,31 @@ export function AdminAnalytics() {
   const [metrics, setMetrics] = useState<AnalyticsMetrics | null>(null);
   const [chartData, setChartData] = useState<ChartData | null>(null);
   const [popularFeatures, setPopularFeatures] = useState<PopularFeature[]>([]);
+  const [aiUsage, setAIUsage] = useState<AIUsageTotals | null>(null);
   const [selectedTimeRange, setSelectedTimeRange] = useState<string>("30d");
   const [loading, setLoading] = useState(true);
   const { reportError } = useErrorReporting();
 
   useEffect(() => {
     fetchAnalyticsData();
+    fetchAIUsage();
   }, [selectedTimeRange]);
 
+  // Loaded on its own so billing figures still show when other analytics fail
+  const fetchAIUsage = async () => {
+    try {
+      const days = timeRanges.find((range) => range.value === selectedTimeRange)?.days || 30;
+      const response = await fetch(`/api/admin/analytics/ai-usage?days=${days}`);
+      if (!response.ok) throw new Error("Failed to fetch AI usage");
+      setAIUsage(await response.json());
+    } catch (error) {
+      setAIUsage(null);
+      reportError(error as Error, {
+        metadata: { component: "AdminAnalytics", action: "fetchAIUsage" },
+      });
+    }
+  };
+
   const fetchAnalyticsData = async () => {
     try {
       setLoading(true);
@@ -150,7 +169,10 @@ export function AdminAnalytics() {
             ))}
           </select>
           <Button
-            onClick={fetchAnalyticsData}
+            onClick={() => {
+              fetchAnalyticsData();
+              fetchAIUsage();
+            }}
             variant="outline"
             leftIcon={<ArrowTrendingUpIcon className="w-4 h-4" />}
           >
@@ -222,6 +244,62 @@ export function AdminAnalytics() {
         </Card>
       </div>
 
+      {/* AI Usage & Cost */}
+      {aiUsage && (
+        <Card>
+          <div className="p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <CurrencyDollarIcon className="w-5 h-5 text-gray-500" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                AI Usage &amp; Cost
+              </h3>
+              <span className="text-sm text-gray-500">since {aiUsage.since}</span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">
+                  <AnimatedCounter end={aiUsage.totals.requests} />
+                </div>
+                <div className="text-sm text-gray-600">AI Requests</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">
+                  <AnimatedCounter end={aiUsage.totals.tokens} />
+                </div>
+                <div className="text-sm text-gray-600">Tokens</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-900">
+                  {formatCost(aiUsage.totals.cost)}
+                </div>
+                <div className="text-sm text-gray-600">Cost</div>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <UsageList title="By Feature" breakdown={aiUsage.byFeature} />
+              <UsageList title="By Provider" breakdown={aiUsage.byProvider} />
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Top Customers</h4>
+                {aiUsage.topUsers.length === 0 ? (
+                  <p className="text-sm text-gray-500">No AI usage yet</p>
+                ) : (
+                  <div className="divide-y divide-gray-100">
+                    {aiUsage.topUsers.map((user) => (
+                      <div key={user.userId} className="flex items-center justify-between py-2 text-sm">
+                        <span className="text-gray-900 truncate mr-2">{user.email || user.userId}</span>
+                        <span className="text-gray-600 whitespace-nowrap">
+                          {formatCost(user.cost)} · {user.requests} req
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </Card>
+      )}
+
       {/* System Usage Stats */}
       {metrics && (
         <Card>
@@ -324,6 +402,39 @@ function MetricCard({
   );
 }
 
+function formatCost(cost: number) {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+interface UsageListProps {
+  title: string;
+  breakdown: AIUsageTotals["byFeature"];
+}
+
+function UsageList({ title, breakdown }: UsageListProps) {
+  const entries = Object.entries(breakdown).sort(([, a], [, b]) => b.cost - a.cost);
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No AI usage yet</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {entries.map(([name, usage]) => (
+            <div key={name} className="flex items-center justify-between py-2 text-sm">
+              <span className="text-gray-900">{name.replace(/_/g, " ")}</span>
+              <span className="text-gray-600">
+                {formatCost(usage.cost)} · {usage.requests} req
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface FeatureItemProps {
   feature: PopularFeature;
 }
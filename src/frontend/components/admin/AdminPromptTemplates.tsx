@@ -0,0 +1,324 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { PlusIcon, PencilIcon } from '@heroicons/react/24/outline';
+import { promptApi } from '@/lib/promptApi';
+import { toast } from '@/components/ui/Toast';
+import { Modal, ModalHeader, ModalTitle, ModalBody, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import type {
+  PromptTemplateSummary,
+  PromptTemplateVersion,
+  CreatePromptVersionForm,
+} from '@/types/prompts';
+
+export function AdminPromptTemplates() {
+  const [creatingFor, setCreatingFor] = useState<PromptTemplateSummary | null>(null);
+  const [editingVersion, setEditingVersion] = useState<PromptTemplateVersion | null>(null);
+  const [createForm, setCreateForm] = useState<CreatePromptVersionForm>({ content: '', description: '', trafficWeight: 0 });
+  const [trafficWeight, setTrafficWeight] = useState(0);
+
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading, error, refetch } = useQuery({
+    queryKey: ['prompt-templates'],
+    queryFn: () => promptApi.getTemplates(),
+    refetchOnWindowFocus: false,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: ({ name, data }: { name: string; data: CreatePromptVersionForm }) =>
+      promptApi.createVersion(name, data),
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ['prompt-templates'] });
+      setCreatingFor(null);
+      toast.success(`Saved ${version.name} v${version.version}`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to save prompt: ${error.message}`);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, weight }: { id: string; weight: number }) =>
+      promptApi.updateVersion(id, { trafficWeight: weight }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prompt-templates'] });
+      setEditingVersion(null);
+      toast.success('Traffic weight updated');
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to update traffic weight: ${error.message}`);
+    },
+  });
+
+  const openCreateModal = (template: PromptTemplateSummary) => {
+    // Start from the newest wording so small edits don't mean retyping the whole prompt
+    setCreateForm({ content: template.versions[0]?.content || '', description: '', trafficWeight: 0 });
+    setCreatingFor(template);
+  };
+
+  const openEditModal = (version: PromptTemplateVersion) => {
+    setTrafficWeight(version.trafficWeight);
+    setEditingVersion(version);
+  };
+
+  const handleCreateVersion = async () => {
+    if (!creatingFor) return;
+
+    try {
+      await createMutation.mutateAsync({ name: creatingFor.name, data: createForm });
+    } catch (error) {
+      // Error handling is done in the mutation
+    }
+  };
+
+  const handleUpdateWeight = async () => {
+    if (!editingVersion) return;
+
+    try {
+      await updateMutation.mutateAsync({ id: editingVersion.id, weight: trafficWeight });
+    } catch (error) {
+      // Error handling is done in the mutation
+    }
+  };
+
+  const getTrafficShare = (template: PromptTemplateSummary, version: PromptTemplateVersion) => {
+    const total = template.versions.reduce((sum, v) => sum + v.trafficWeight, 0);
+    return total ? Math.round((version.trafficWeight / total) * 100) : 0;
+  };
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="text-center">
+          <div className="text-red-600 mb-4">Failed to load prompt templates</div>
+          <Button onClick={() => refetch()}>Retry</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">AI Prompts</h1>
+        <p className="text-gray-600">
+          Version the prompts sent to AI providers. Versions with a traffic weight are live; when several are live,
+          users are split between them by weight.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading prompt templates...</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {templates.map((template) => {
+            const isLive = template.versions.some((version) => version.trafficWeight > 0);
+
+            return (
+              <div key={template.name} className="bg-white shadow rounded-lg overflow-hidden">
+                <div className="px-6 py-4 flex justify-between items-start border-b border-gray-200">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{template.name}</h2>
+                    <p className="text-sm text-gray-600">{template.description}</p>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {template.variables.map((variable) => (
+                        <span
+                          key={variable}
+                          className="inline-flex px-2 py-1 text-xs font-mono rounded bg-gray-100 text-gray-700"
+                          title={template.required.includes(variable) ? 'Required' : 'Optional'}
+                        >
+                          {`{{${variable}}}`}
+                          {template.required.includes(variable) && '*'}
+                        </span>
+                      ))}
+                    </div>
+                    {!isLive && (
+                      <p className="mt-2 text-xs text-gray-500">No live versions: the built-in prompt is used.</p>
+                    )}
+                  </div>
+                  <Button onClick={() => openCreateModal(template)} className="flex items-center space-x-2">
+                    <PlusIcon className="h-5 w-5" />
+                    <span>New Version</span>
+                  </Button>
+                </div>
+
+                {template.versions.length > 0 && (
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Version
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Description
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Traffic
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Created
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {template.versions.map((version) => (
+                        <tr key={version.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            v{version.version}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
+                            {version.description || '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                              version.trafficWeight > 0 ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                            }`}>
+                              {version.trafficWeight > 0
+                                ? `${getTrafficShare(template, version)}% (weight ${version.trafficWeight})`
+                                : 'Inactive'}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(version.createdAt).toLocaleString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <button
+                              onClick={() => openEditModal(version)}
+                              className="text-blue-600 hover:text-blue-900 p-1"
+                              title="Change traffic weight"
+                            >
+                              <PencilIcon className="h-4 w-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create Version Modal */}
+      {creatingFor && (
+        <Modal isOpen={!!creatingFor} onClose={() => setCreatingFor(null)}>
+          <ModalHeader>
+            <ModalTitle>New {creatingFor.name} Version</ModalTitle>
+          </ModalHeader>
+          <ModalBody>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Prompt</label>
+                <textarea
+                  value={createForm.content}
+                  onChange={(e) => setCreateForm({ ...createForm, content: e.target.value })}
+                  placeholder={`Use ${creatingFor.variables.map((variable) => `{{${variable}}}`).join(', ')}`}
+                  rows={14}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Wrap optional parts in {'{{#variable}}...{{/variable}}'} to drop them when the variable is empty.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  type="text"
+                  value={createForm.description || ''}
+                  onChange={(e) => setCreateForm({ ...createForm, description: e.target.value })}
+                  placeholder="What changed in this version?"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Traffic Weight</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={createForm.trafficWeight ?? 0}
+                  onChange={(e) => setCreateForm({ ...createForm, trafficWeight: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave at 0 to save without sending traffic to it.</p>
+              </div>
+            </div>
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              variant="outline"
+              onClick={() => setCreatingFor(null)}
+              disabled={createMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateVersion}
+              disabled={createMutation.isPending || !createForm.content.trim()}
+              className="ml-2"
+            >
+              {createMutation.isPending ? 'Saving...' : 'Save Version'}
+            </Button>
+          </ModalFooter>
+        </Modal>
+      )}
+
+      {/* Edit Traffic Weight Modal */}
+      {editingVersion && (
+        <Modal isOpen={!!editingVersion} onClose={() => setEditingVersion(null)}>
+          <ModalHeader>
+            <ModalTitle>{editingVersion.name} v{editingVersion.version}</ModalTitle>
+          </ModalHeader>
+          <ModalBody>
+            <div className="space-y-4">
+              <pre className="max-h-64 overflow-auto p-3 bg-gray-50 rounded text-xs text-gray-700 whitespace-pre-wrap">
+                {editingVersion.content}
+              </pre>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Traffic Weight</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={trafficWeight}
+                  onChange={(e) => setTrafficWeight(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Set to 0 to take this version out of rotation.</p>
+              </div>
+            </div>
+          </ModalBody>
+          <ModalFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditingVersion(null)}
+              disabled={updateMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleUpdateWeight}
+              disabled={updateMutation.isPending}
+              className="ml-2"
+            >
+              {updateMutation.isPending ? 'Updating...' : 'Update Weight'}
+            </Button>
+          </ModalFooter>
+        </Modal>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Modal, ModalHeader, ModalTitle } from "@/components/ui/Modal";
 import { useErrorReporting } from "@/lib/errorReporting";
 import {
   ComputerDesktopIcon,
+  DocumentIcon,
   ExclamationTriangleIcon,
   EyeIcon,
   KeyIcon,
@@ -32,7 +33,8 @@ interface SecurityEvent {
     | "password_change"
     | "role_change"
     | "permission_change"
-    | "api_access";
+    | "api_access"
+    | "malicious_upload";
   user: {
     id: string;
     email: string;
@@ -294,6 +296,8 @@ export function AdminSecurity() {
         return <ShieldCheckIcon className="w-5 h-5" />;
       case "api_access":
         return <ComputerDesktopIcon className="w-5 h-5" />;
+      case "malicious_upload":
+        return <DocumentIcon className="w-5 h-5" />;
       default:
         return <ExclamationTriangleIcon className="w-5 h-5" />;
     }
@@ -5,6 +5,7 @@ import {
   ArrowLeftIcon,
   ArrowRightIcon,
   ChartBarIcon,
+  ChatBubbleLeftRightIcon,
   CogIcon,
   DocumentTextIcon,
   ExclamationTriangleIcon,
@@ -62,6 +63,13 @@ const sidebarItems: SidebarItem[] = [
     icon: DocumentTextIcon,
     description: "Generate and view reports",
   },
+  {
+    id: "prompts",
+    label: "AI Prompts",
+    href: "/admin/prompts",
+    icon: ChatBubbleLeftRightIcon,
+    description: "Prompt versions and experiments",
+  },
   {
     id: "security",
     label: "Security",
@@ -14,6 +14,7 @@ import {
   FiClock,
   FiFileText,
   FiHelpCircle,
+  FiList,
   FiPlus,
   FiSearch,
   FiSettings,
@@ -24,6 +25,7 @@ import {
 } from "react-icons/fi";
 import { AnalyticsInsights } from "./AnalyticsInsights";
 import { JobDescriptionMatching } from "./JobDescriptionMatching";
+import { JobFitFinder } from "./JobFitFinder";
 import { JobTrackerSection } from "./JobTrackerSection";
 import { ResumeAnalysisResults } from "./ResumeAnalysisResults";
 
@@ -92,6 +94,7 @@ export function DashboardLayout() {
     { id: "upload", label: "Upload Resume", icon: FiFileText },
     { id: "analysis", label: "Analysis Results", icon: FiTarget },
     { id: "matching", label: "Job Matching", icon: FiZap },
+    { id: "job-fit", label: "Job Fit Finder", icon: FiList },
     { id: "analytics", label: "Analytics", icon: FiBarChart },
     { id: "jobs", label: "Job Tracker", icon: FiClock },
     { id: "settings", label: "Settings", icon: FiSettings },
@@ -433,6 +436,16 @@ export function DashboardLayout() {
                 </motion.div>
               )}
 
+              {activeTab === "job-fit" && (
+                <motion.div
+                  initial={{ y: 20, opacity: 0 }}
+                  animate={{ y: 0, opacity: 1 }}
+                  transition={{ delay: 0.3 }}
+                >
+                  <JobFitFinder onOpenApplication={() => setActiveTab("jobs")} />
+                </motion.div>
+              )}
+
               {activeTab === "analytics" && (
                 <motion.div
                   initial={{ y: 20, opacity: 0 }}
@@ -3,6 +3,8 @@
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { useAIStream } from "@/hooks/useAIStream";
+import type { ScoreBreakdown } from "@/types/matching";
 import { motion } from "framer-motion";
 import { useState } from "react";
 import { toast } from "react-hot-toast";
@@ -23,6 +25,7 @@ interface MatchResult {
   jobTitle: string;
   company: string;
   matchScore: number;
+  scoreBreakdown?: ScoreBreakdown;
   keywordMatches: {
     found: string[];
     missing: string[];
@@ -57,6 +60,8 @@ export function JobDescriptionMatching() {
 
   const [availableResumes, _setAvailableResumes] = useState<Resume[]>([]);
   const [isLoadingResumes, _setIsLoadingResumes] = useState(true);
+  // The match ID is only known once the request returns, so follow whichever match streams
+  const { suggestions: streamedSuggestions } = useAIStream("jd_matching");
 
   const handleJobDescriptionUpload = async (file: File) => {
     _setIsUploading(true);
@@ -406,6 +411,33 @@ export function JobDescriptionMatching() {
               {isAnalyzing ? "Analyzing..." : "Analyze Match"}
             </Button>
           </motion.div>
+
+          {/* Suggestions appear as the AI writes them */}
+          {isAnalyzing && streamedSuggestions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <LoadingSpinner size="sm" className="mr-2" />
+                  Suggestions so far
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2">
+                  {streamedSuggestions.map((suggestion, index) => (
+                    <motion.li
+                      key={index}
+                      initial={{ opacity: 0, y: 5 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="flex items-start text-sm text-gray-700"
+                    >
+                      <FiCheck className="w-4 h-4 mr-2 mt-0.5 text-primary-600 flex-shrink-0" />
+                      {suggestion}
+                    </motion.li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
         </motion.div>
       )}
 
@@ -486,6 +518,98 @@ export function JobDescriptionMatching() {
                       </div>
                     </div>
 
+                    {/* Score Breakdown */}
+                    {currentResult.scoreBreakdown && (
+                      <div className="mb-6">
+                        <h4 className="font-medium text-gray-900 mb-3 flex items-center">
+                          <FiTarget className="text-primary-600 mr-2" />
+                          How Your Score Adds Up
+                        </h4>
+                        <div className="space-y-3">
+                          {currentResult.scoreBreakdown.components.map(
+                            (component) => (
+                              <details
+                                key={component.key}
+                                className="rounded-lg border border-gray-200 p-4"
+                              >
+                                <summary className="cursor-pointer list-none">
+                                  <div className="flex items-center justify-between mb-2">
+                                    <span className="font-medium text-gray-900">
+                                      {component.label}
+                                    </span>
+                                    {component.score === null ? (
+                                      <span className="text-sm text-gray-500">
+                                        Not assessed
+                                      </span>
+                                    ) : (
+                                      <span className="text-sm text-gray-600">
+                                        <span
+                                          className={`font-bold ${getScoreColor(component.score)}`}
+                                        >
+                                          {component.score}%
+                                        </span>{" "}
+                                        × {Math.round(component.weight * 100)}%
+                                        weight = +
+                                        {component.contribution.toFixed(1)}
+                                      </span>
+                                    )}
+                                  </div>
+                                  {component.score !== null && (
+                                    <div className="h-2 rounded-full bg-gray-100">
+                                      <div
+                                        className={`h-2 rounded-full ${
+                                          component.score >= 80
+                                            ? "bg-green-500"
+                                            : component.score >= 60
+                                              ? "bg-yellow-500"
+                                              : "bg-red-500"
+                                        }`}
+                                        style={{ width: `${component.score}%` }}
+                                      />
+                                    </div>
+                                  )}
+                                  <p className="text-sm text-gray-600 mt-2">
+                                    {component.detail}
+                                  </p>
+                                </summary>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+                                  {(
+                                    [
+                                      ["From your resume", component.evidence.resume],
+                                      [
+                                        "From the job description",
+                                        component.evidence.jobDescription,
+                                      ],
+                                    ] as const
+                                  ).map(([title, snippets]) => (
+                                    <div key={title}>
+                                      <p className="text-xs font-medium uppercase text-gray-500 mb-1">
+                                        {title}
+                                      </p>
+                                      {snippets.length === 0 ? (
+                                        <p className="text-sm text-gray-400">
+                                          Nothing to quote
+                                        </p>
+                                      ) : (
+                                        snippets.map((snippet, index) => (
+                                          <blockquote
+                                            key={index}
+                                            className="border-l-2 border-gray-300 pl-3 text-sm italic text-gray-700 mb-1"
+                                          >
+                                            {snippet}
+                                          </blockquote>
+                                        ))
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              </details>
+                            )
+                          )}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Keywords Analysis */}
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
                       <div>
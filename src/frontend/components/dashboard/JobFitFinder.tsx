@@ -0,0 +1,353 @@
+"use client";
+
+import { Button } from "@/components/ui/Button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import {
+  useJobFitSearch,
+  useJobList,
+  useResumeList,
+  useStartJobFitSearch,
+} from "@/hooks/api";
+import type { JobFitResult } from "@/types/matching";
+import { motion } from "framer-motion";
+import { useMemo, useState } from "react";
+import {
+  FiAlertCircle,
+  FiBriefcase,
+  FiClipboard,
+  FiExternalLink,
+  FiFileText,
+  FiSearch,
+} from "react-icons/fi";
+
+// The job fit search takes at most this many jobs at once
+const MAX_JOBS = 50;
+
+// Pasted job descriptions are separated by a line of dashes
+const PASTED_SEPARATOR = /^\s*-{3,}\s*$/m;
+
+interface JobFitFinderProps {
+  onOpenApplication?: (jobApplicationId: string) => void;
+}
+
+export function JobFitFinder({ onOpenApplication }: JobFitFinderProps) {
+  const [resumeId, setResumeId] = useState("");
+  const [selectedJobIds, setSelectedJobIds] = useState<string[] | null>(null);
+  const [pastedText, setPastedText] = useState("");
+  const [useSemanticMatching, setUseSemanticMatching] = useState(false);
+  const [searchId, setSearchId] = useState<string | null>(null);
+
+  const { data: resumeData, isLoading: isLoadingResumes } = useResumeList(
+    1,
+    MAX_JOBS
+  );
+  const { data: jobData, isLoading: isLoadingJobs } = useJobList({
+    limit: MAX_JOBS,
+    sortBy: "appliedDate",
+    sortOrder: "DESC",
+  });
+  const startSearch = useStartJobFitSearch();
+  const { data: search } = useJobFitSearch(searchId);
+
+  const resumes = (resumeData?.resumes ?? []).filter(
+    (resume: any) => resume.isProcessed
+  );
+  const applications = jobData?.data ?? [];
+  const withDescription = applications.filter(
+    (application: any) => application.jobDescription?.trim()
+  );
+  // Every application with a job description is selected until the user changes it
+  const jobIds =
+    selectedJobIds ??
+    withDescription.map((application: any) => application.id as string);
+  const pasted = useMemo(
+    () =>
+      pastedText
+        .split(PASTED_SEPARATOR)
+        .map((text) => text.trim())
+        .filter(Boolean),
+    [pastedText]
+  );
+  const totalJobs = jobIds.length + pasted.length;
+
+  const toggleJob = (id: string) => {
+    setSelectedJobIds(
+      jobIds.includes(id)
+        ? jobIds.filter((jobId) => jobId !== id)
+        : [...jobIds, id]
+    );
+  };
+
+  const handleSearch = () => {
+    startSearch.mutate(
+      {
+        resumeId,
+        jobApplicationIds: jobIds.length ? jobIds : undefined,
+        jobDescriptions: pasted.length
+          ? pasted.map((jobDescription) => ({ jobDescription }))
+          : undefined,
+        useSemanticMatching,
+      },
+      { onSuccess: (result) => setSearchId(result.searchId) }
+    );
+  };
+
+  const getScoreColor = (score: number) => {
+    if (score >= 80) return "text-green-600";
+    if (score >= 60) return "text-yellow-600";
+    return "text-red-600";
+  };
+
+  const renderResult = (result: JobFitResult, index: number) => (
+    <motion.div
+      key={result.analysisId ?? `${result.jobTitle}-${index}`}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: index * 0.05 }}
+      className="p-4 rounded-lg border border-gray-200"
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-3">
+          <div className="w-8 text-lg font-bold text-gray-400">
+            {result.rank ? `#${result.rank}` : "–"}
+          </div>
+          <div>
+            <h4 className="font-medium text-gray-900">
+              {result.jobTitle}
+              {result.company && (
+                <span className="text-gray-500"> · {result.company}</span>
+              )}
+            </h4>
+            {result.applicationStatus && (
+              <span className="inline-block mt-1 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                {result.applicationStatus.replace(/_/g, " ")}
+              </span>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          {result.status === "completed" && (
+            <span
+              className={`text-2xl font-bold ${getScoreColor(result.overallScore ?? 0)}`}
+            >
+              {Math.round(result.overallScore ?? 0)}%
+            </span>
+          )}
+          {result.status === "pending" && <LoadingSpinner size="sm" />}
+          {result.jobApplicationId && onOpenApplication && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onOpenApplication(result.jobApplicationId!)}
+            >
+              <FiExternalLink className="mr-2" />
+              Application
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {result.status === "failed" && (
+        <p className="mt-2 text-sm text-red-600 flex items-center">
+          <FiAlertCircle className="mr-1" />
+          {result.error}
+        </p>
+      )}
+
+      {result.scoreBreakdown && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 mt-3">
+          {result.scoreBreakdown.components
+            .filter((component) => component.score !== null)
+            .map((component) => (
+              <div key={component.key} title={component.detail}>
+                <div className="flex justify-between text-xs text-gray-600">
+                  <span>{component.label}</span>
+                  <span>{component.score}%</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-gray-100">
+                  <div
+                    className="h-1.5 rounded-full bg-primary-500"
+                    style={{ width: `${component.score}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {!!result.unmetRequirements?.length && (
+        <p className="mt-3 text-sm text-gray-700">
+          <span className="font-medium">Missing must-haves:</span>{" "}
+          {result.unmetRequirements
+            .map((requirement) => requirement.requirement)
+            .join(", ")}
+        </p>
+      )}
+    </motion.div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-center"
+      >
+        <h2 className="text-3xl font-bold text-gray-900 mb-4">
+          Job Fit Finder
+        </h2>
+        <p className="text-gray-600 max-w-2xl mx-auto">
+          Score one resume against the jobs you are tracking or considering
+          and see which ones fit you best.
+        </p>
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <FiFileText className="mr-2" />
+              Resume
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoadingResumes ? (
+              <LoadingSpinner />
+            ) : resumes.length === 0 ? (
+              <p className="text-gray-600">
+                No analyzed resumes yet. Upload a resume first.
+              </p>
+            ) : (
+              <select
+                value={resumeId}
+                onChange={(e) => setResumeId(e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+              >
+                <option value="">Select a resume</option>
+                {resumes.map((resume: any) => (
+                  <option key={resume.id} value={resume.id}>
+                    {resume.fileName}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label className="flex items-center mt-4 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={useSemanticMatching}
+                onChange={(e) => setUseSemanticMatching(e.target.checked)}
+                className="mr-2"
+              />
+              Use AI semantic matching (slower, uses AI credits for every job)
+            </label>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <FiBriefcase className="mr-2" />
+              Tracked Applications ({jobIds.length} selected)
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoadingJobs ? (
+              <LoadingSpinner />
+            ) : applications.length === 0 ? (
+              <p className="text-gray-600">
+                No tracked applications. Paste job descriptions below instead.
+              </p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto space-y-2">
+                {applications.map((application: any) => {
+                  const hasDescription = !!application.jobDescription?.trim();
+                  return (
+                    <label
+                      key={application.id}
+                      className={`flex items-center text-sm ${hasDescription ? "text-gray-900" : "text-gray-400"}`}
+                    >
+                      <input
+                        type="checkbox"
+                        disabled={!hasDescription}
+                        checked={jobIds.includes(application.id)}
+                        onChange={() => toggleJob(application.id)}
+                        className="mr-2"
+                      />
+                      {application.jobTitle} · {application.vendorName}
+                      {!hasDescription && " (no job description)"}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FiClipboard className="mr-2" />
+            Paste Job Descriptions
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder={
+              "Paste one or more job descriptions, separated by a line with ---"
+            }
+            rows={6}
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            {pasted.length} pasted job description
+            {pasted.length === 1 ? "" : "s"}
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="text-center">
+        <Button
+          onClick={handleSearch}
+          disabled={
+            !resumeId ||
+            totalJobs === 0 ||
+            totalJobs > MAX_JOBS ||
+            startSearch.isPending
+          }
+          loading={startSearch.isPending}
+          size="lg"
+          className="px-8"
+        >
+          <FiSearch className="mr-2" />
+          Find Best Fits ({totalJobs} jobs)
+        </Button>
+        {totalJobs > MAX_JOBS && (
+          <p className="mt-2 text-sm text-red-600">
+            Select at most {MAX_JOBS} jobs at a time.
+          </p>
+        )}
+      </div>
+
+      {search && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Best Fits</span>
+              <span className="text-sm font-normal text-gray-600">
+                {search.completedJobs + search.failedJobs} of {search.totalJobs}{" "}
+                scored
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">{search.results.map(renderResult)}</div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
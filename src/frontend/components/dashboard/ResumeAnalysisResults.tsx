@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/Modal";
 import { useResumeList, useUserStats } from "@/hooks/api";
 import { useWebSocketContext } from "@/components/providers/WebSocketProvider";
+import { useAIStream } from "@/hooks/useAIStream";
 import type { AnalysisData, Suggestion } from "@/types";
 import {
   ChartBarIcon,
@@ -148,6 +149,9 @@ export function ResumeAnalysisResults() {
   const isLoading = isLoadingResumes || isLoadingStats;
   const error = resumeError || statsError;
 
+  // Suggestions streamed from the AI provider while the latest resume is analyzed
+  const { suggestions: streamedSuggestions } = useAIStream("resume_analysis", analysisData?.id);
+
   // WebSocket real-time event handling
   useEffect(() => {
     if (!isConnected) return;
@@ -367,7 +371,28 @@ export function ResumeAnalysisResults() {
             </div>
           </div>
         )}
-        
+
+        {streamedSuggestions.length > 0 && (
+          <div className="max-w-md mx-auto mb-4 text-left">
+            <h4 className="text-sm font-medium text-gray-900 mb-2 flex items-center">
+              <LightBulbIcon className="w-4 h-4 mr-1 text-yellow-500" />
+              Suggestions so far
+            </h4>
+            <ul className="space-y-1">
+              {streamedSuggestions.map((suggestion, index) => (
+                <motion.li
+                  key={index}
+                  initial={{ opacity: 0, y: 5 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="text-sm text-gray-600"
+                >
+                  {suggestion}
+                </motion.li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <Button onClick={handleRefresh} variant="secondary">
           <FiRefreshCw className="mr-2 w-4 h-4" />
           Check Status
@@ -18,6 +18,9 @@ import { useDropzone } from "react-dropzone";
 import { toast } from "react-hot-toast";
 import { FilePreviewModal } from "./FilePreviewModal";
 
+const BULK_STATUS_POLL_INTERVAL = 3000;
+const BULK_STATUS_MAX_POLLS = 200; // ~10 minutes
+
 export function ResumeUploadSection() {
   const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
   const [isUploading, setIsUploading] = useState(false);
@@ -70,6 +73,8 @@ export function ResumeUploadSection() {
       "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
         [".docx"],
       "application/msword": [".doc"],
+      "application/rtf": [".rtf"],
+      "application/vnd.oasis.opendocument.text": [".odt"],
       "text/plain": [".txt"],
     },
     maxSize: 10 * 1024 * 1024, // 10MB
@@ -116,8 +121,12 @@ export function ResumeUploadSection() {
           )
         );
 
-        // Show success message
-        toast.success(`${upload.file.name} uploaded successfully!`);
+        // Show success message, or explain where a duplicate upload went
+        if (result.data?.duplicateOf || result.data?.nearDuplicateOf) {
+          toast.success(result.data.message);
+        } else {
+          toast.success(`${upload.file.name} uploaded successfully!`);
+        }
 
         // Complete
         setUploadProgress((prev) =>
@@ -126,7 +135,7 @@ export function ResumeUploadSection() {
               ? {
                   ...item,
                   status: "completed",
-                  resumeId: result.data?.id,
+                  resumeId: result.data?.resumeId ?? result.data?.id,
                 }
               : item
           )
@@ -171,7 +180,7 @@ export function ResumeUploadSection() {
       }
 
       toast.success(
-        `Bulk upload started! Processing ${result.data?.totalFiles} files.`
+        `Bulk upload started! Processing ${result.data?.queuedFiles} of ${result.data?.totalFiles} files.`
       );
       setUploadQueue([]);
 
@@ -183,6 +192,10 @@ export function ResumeUploadSection() {
       }));
 
       setUploadProgress((prev) => [...prev, ...newUploads]);
+
+      if (result.data?.batchId) {
+        trackBulkBatch(result.data.batchId, uploadQueue);
+      }
     } catch (error) {
       toast.error("Bulk upload failed. Please try again.");
     } finally {
@@ -190,6 +203,59 @@ export function ResumeUploadSection() {
     }
   };
 
+  // Batch files come back in upload order, so they line up with the queued files by index
+  const trackBulkBatch = async (batchId: string, files: File[]) => {
+    const progressByStatus = { queued: 0, parsing: 33, analyzing: 66 };
+
+    for (let attempt = 0; attempt < BULK_STATUS_MAX_POLLS; attempt++) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, BULK_STATUS_POLL_INTERVAL)
+      );
+
+      const result = await apiClient.getBulkBatch(batchId);
+      if (result.error || !result.data) continue;
+
+      const batch = result.data;
+      setUploadProgress((prev) =>
+        prev.map((item) => {
+          const index = files.indexOf(item.file);
+          const batchFile = index >= 0 ? batch.files[index] : undefined;
+          if (!batchFile) return item;
+
+          if (batchFile.status === "done") {
+            return {
+              ...item,
+              status: "completed",
+              progress: 100,
+              resumeId: batchFile.resumeId,
+            };
+          }
+          if (batchFile.status === "failed") {
+            return { ...item, status: "error", error: batchFile.error };
+          }
+          return {
+            ...item,
+            status: "processing",
+            progress: progressByStatus[batchFile.status],
+          };
+        })
+      );
+
+      if (batch.status === "completed") {
+        toast.success(
+          `Bulk upload finished: ${batch.completedFiles} analyzed, ${batch.failedFiles} failed.`
+        );
+        return;
+      }
+      if (batch.status === "failed") {
+        toast.error(
+          `Bulk upload stopped: ${batch.completedFiles} analyzed, ${batch.failedFiles} failed.`
+        );
+        return;
+      }
+    }
+  };
+
   const _addToQueue = (files: File[]) => {
     setUploadQueue((prev) => {
       const newFiles = files.filter(
@@ -271,7 +337,7 @@ export function ResumeUploadSection() {
           Upload Your Resume
         </h2>
         <p className="text-gray-600">
-          Upload your resume in PDF, DOCX, DOC, or TXT format for AI-powered
+          Upload your resume in PDF, DOCX, DOC, RTF, ODT, or TXT format for AI-powered
           analysis and optimization.
         </p>
       </div>
@@ -310,7 +376,7 @@ export function ResumeUploadSection() {
             </div>
 
             <div className="text-sm text-gray-400">
-              Supports PDF, DOCX, DOC, TXT • Max 10MB per file
+              Supports PDF, DOCX, DOC, RTF, ODT, TXT • Max 10MB per file
             </div>
           </motion.div>
 
@@ -6,6 +6,7 @@ import { toast } from "react-hot-toast";
 export const jdMatchingKeys = {
   all: ["jd-matching"] as const,
   results: (id: string) => [...jdMatchingKeys.all, "results", id] as const,
+  jobFit: (id: string) => [...jdMatchingKeys.all, "job-fit", id] as const,
 };
 
 // JD Matching Results Query
@@ -70,6 +71,45 @@ export function useAnalyzeJobMatch() {
   });
 }
 
+// Job Fit Search Mutation: one resume against many job descriptions
+export function useStartJobFitSearch() {
+  return useMutation({
+    mutationFn: async (
+      data: Parameters<typeof apiClient.createJobFitSearch>[0]
+    ) => {
+      const result = await apiClient.createJobFitSearch(data);
+      if (result.error) {
+        throw new Error(
+          typeof result.error === "string" ? result.error : result.error.message
+        );
+      }
+      return result.data!;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to start job fit search");
+    },
+  });
+}
+
+// Job Fit Search Query, polled until every job has been scored
+export function useJobFitSearch(searchId: string | null) {
+  return useQuery({
+    queryKey: jdMatchingKeys.jobFit(searchId ?? ""),
+    queryFn: async () => {
+      const result = await apiClient.getJobFitSearch(searchId!);
+      if (result.error) {
+        throw new Error(
+          typeof result.error === "string" ? result.error : result.error.message
+        );
+      }
+      return result.data!;
+    },
+    enabled: !!searchId,
+    refetchInterval: (query) =>
+      query.state.data?.status === "processing" ? 5000 : false,
+  });
+}
+
 // Health Check Query
 export function useHealthCheck() {
   return useQuery({
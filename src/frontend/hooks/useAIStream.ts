@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useWebSocketContext } from '@/components/providers/WebSocketProvider';
+import { extractStreamedList } from '@/lib/aiStream';
+import type { AIStreamEvent, AIStreamOperation } from '@/services/websocket.service';
+
+// The list in each operation's reply that is worth showing while it streams
+const STREAMED_LISTS: Record<AIStreamOperation, string> = {
+  resume_analysis: 'suggestions',
+  jd_matching: 'recommendations',
+};
+
+interface StreamState {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+/**
+ * Follows the AI reply for an operation as the backend streams it. Pass an ID
+ * to follow one resume or match; without one the most recent stream is shown.
+ */
+export function useAIStream(operation: AIStreamOperation, id?: string) {
+  const { on } = useWebSocketContext();
+  const [stream, setStream] = useState<StreamState | null>(null);
+
+  useEffect(() => {
+    return on<AIStreamEvent>('ai_stream', (event) => {
+      if (event.operation !== operation || (id && event.id !== id)) return;
+
+      setStream((current) => ({
+        id: event.id,
+        text: event.restart || current?.id !== event.id ? event.delta : current.text + event.delta,
+        done: !!event.done,
+      }));
+    });
+  }, [on, operation, id]);
+
+  const current = stream && (!id || stream.id === id) ? stream : null;
+  const suggestions = useMemo(() => extractStreamedList(current?.text || '', STREAMED_LISTS[operation]), [current?.text, operation]);
+
+  return {
+    text: current?.text || '',
+    suggestions,
+    isStreaming: !!current && !current.done,
+    isDone: !!current?.done,
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Reads the finished items of a JSON string array out of a reply that is still
+ * being streamed, e.g. `{"atsScore": 72, "suggestions": ["Add metrics", "Quan`
+ * gives `["Add metrics"]`. The item being written is left out until its closing quote arrives.
+ */
+export function extractStreamedList(text: string, key: string): string[] {
+  const match = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!match) return [];
+
+  const items: string[] = [];
+  let i = match.index + match[0].length;
+  while (i < text.length && text[i] !== ']') {
+    if (text[i] !== '"') {
+      i++;
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < text.length && text[end] !== '"') {
+      end += text[end] === '\\' ? 2 : 1;
+    }
+    if (end >= text.length) break;
+
+    try {
+      items.push(JSON.parse(text.slice(i, end + 1)));
+    } catch {
+      break;
+    }
+    i = end + 1;
+  }
+  return items;
+}
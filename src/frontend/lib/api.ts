@@ -1,5 +1,7 @@
 import { getSession } from "next-auth/react";
 import { toast } from "react-hot-toast";
+import type { JobFitSearch } from "@/types/matching";
+import type { UserAIUsage } from "@/types/usage";
 
 const API_BASE_URL =
   process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3002/api";
@@ -334,7 +336,17 @@ class EnhancedApiClient {
   async uploadResume(
     file: File,
     onProgress?: UploadProgressCallback
-  ): Promise<ApiResponse<{ id: string; status: string; message: string }>> {
+  ): Promise<
+    ApiResponse<{
+      id: string;
+      resumeId?: string;
+      status: string;
+      message: string;
+      versionNumber?: number;
+      duplicateOf?: { resumeId: string; fileName: string; similarity: number };
+      nearDuplicateOf?: { resumeId: string; fileName: string; similarity: number };
+    }>
+  > {
     try {
       const session = await getSession();
       if (!session?.accessToken) {
@@ -372,12 +384,15 @@ class EnhancedApiClient {
         "application/pdf",
         "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
         "application/msword",
+        "application/rtf",
+        "text/rtf",
+        "application/vnd.oasis.opendocument.text",
         "text/plain",
       ];
       if (!allowedTypes.includes(file.type)) {
         const error: ApiError = {
           code: "INVALID_FILE_TYPE",
-          message: "Only PDF, DOCX, DOC, and TXT files are allowed",
+          message: "Only PDF, DOCX, DOC, RTF, ODT, and TXT files are allowed",
           retryable: false,
         };
         return { error, success: false };
@@ -498,6 +513,8 @@ class EnhancedApiClient {
     ApiResponse<{
       batchId: string;
       totalFiles: number;
+      queuedFiles: number;
+      rejectedFiles: number;
       message: string;
       status: string;
     }>
@@ -541,6 +558,32 @@ class EnhancedApiClient {
     });
   }
 
+  async getBulkBatch(batchId: string): Promise<
+    ApiResponse<{
+      batchId: string;
+      status: "queued" | "processing" | "completed" | "failed";
+      totalFiles: number;
+      completedFiles: number;
+      failedFiles: number;
+      files: {
+        id: string;
+        fileName: string;
+        fileSize: number;
+        status: "queued" | "parsing" | "analyzing" | "done" | "failed";
+        resumeId?: string;
+        atsScore?: number;
+        error?: string;
+        updatedAt: string;
+      }[];
+      createdAt: string;
+      completedAt?: string;
+    }>
+  > {
+    return this.request(`/resume/bulk/${batchId}`, {
+      retry: { maxRetries: 2, retryDelay: 1000 },
+    });
+  }
+
   // Job Tracker Endpoints with enhanced error handling
   async getJobs(filters?: {
     status?: string;
@@ -684,6 +727,37 @@ class EnhancedApiClient {
     });
   }
 
+  async createJobFitSearch(data: {
+    resumeId: string;
+    jobApplicationIds?: string[];
+    jobDescriptions?: Array<{
+      jobDescription: string;
+      jobTitle?: string;
+      company?: string;
+    }>;
+    useSemanticMatching?: boolean;
+  }): Promise<
+    ApiResponse<{
+      searchId: string;
+      queuedJobs: number;
+      skippedJobs: number;
+      message: string;
+    }>
+  > {
+    return this.request("/jd-matching/job-fit", {
+      method: "POST",
+      body: JSON.stringify(data),
+      retry: { maxRetries: 1 },
+      skipErrorToast: true, // Let the mutation handle error display
+    });
+  }
+
+  async getJobFitSearch(searchId: string): Promise<ApiResponse<JobFitSearch>> {
+    return this.request(`/jd-matching/job-fit/${searchId}`, {
+      retry: { maxRetries: 2 },
+    });
+  }
+
   // Resume Versions Endpoints
   async getResumeVersions(resumeId: string): Promise<ApiResponse<any[]>> {
     return this.request(`/resume-versions/${resumeId}`, {
@@ -727,6 +801,12 @@ class EnhancedApiClient {
     });
   }
 
+  async getAIUsage(days = 30): Promise<ApiResponse<UserAIUsage>> {
+    return this.request(`/analytics/ai-usage?days=${days}`, {
+      retry: { maxRetries: 2 },
+    });
+  }
+
   // Health Check
   async healthCheck(): Promise<
     ApiResponse<{ status: string; timestamp: string }>
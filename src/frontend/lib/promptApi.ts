@@ -0,0 +1,63 @@
+import type {
+  PromptTemplateSummary,
+  PromptTemplateVersion,
+  CreatePromptVersionForm,
+  UpdatePromptVersionForm,
+} from '../types/prompts';
+
+const API_BASE = '/api/admin';
+
+async function makeApiRequest<T>(
+  endpoint: string,
+  method: 'GET' | 'POST' | 'PUT' = 'GET',
+  data?: any
+): Promise<T> {
+  const session = await (await import('next-auth/react')).getSession();
+  if (!session?.accessToken) {
+    throw new Error('Authentication required');
+  }
+
+  const response = await fetch(endpoint, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.accessToken}`,
+    },
+    body: data ? JSON.stringify(data) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export const promptApi = {
+  // Get every prompt template with its saved versions
+  async getTemplates(): Promise<PromptTemplateSummary[]> {
+    const response = await makeApiRequest<{ data: PromptTemplateSummary[] }>(`${API_BASE}/prompts`);
+    return response.data;
+  },
+
+  // Save new wording as the next version of a template
+  async createVersion(name: string, data: CreatePromptVersionForm): Promise<PromptTemplateVersion> {
+    const response = await makeApiRequest<{ data: PromptTemplateVersion }>(
+      `${API_BASE}/prompts/${name}/versions`,
+      'POST',
+      data
+    );
+    return response.data;
+  },
+
+  // Change a version's description or traffic weight
+  async updateVersion(id: string, data: UpdatePromptVersionForm): Promise<PromptTemplateVersion> {
+    const response = await makeApiRequest<{ data: PromptTemplateVersion }>(
+      `${API_BASE}/prompts/versions/${id}`,
+      'PUT',
+      data
+    );
+    return response.data;
+  },
+};
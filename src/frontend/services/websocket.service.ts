@@ -66,6 +66,17 @@ export interface JDMatchingComplete {
   timestamp: string;
 }
 
+export type AIStreamOperation = "resume_analysis" | "jd_matching";
+
+export interface AIStreamEvent {
+  operation: AIStreamOperation;
+  id: string; // resume ID or JD matching analysis ID
+  delta: string;
+  restart?: boolean; // discard earlier text: the provider started its reply over
+  done?: boolean;
+  timestamp: string;
+}
+
 class WebSocketService {
   private socket: Socket | null = null;
   private token: string | null = null;
@@ -0,0 +1,50 @@
+// JD matching score breakdowns and job fit searches
+
+export interface ScoreComponent {
+  key: string;
+  label: string;
+  score: number | null; // null when the component could not be assessed
+  weight: number;
+  contribution: number;
+  detail: string;
+  evidence: {
+    resume: string[];
+    jobDescription: string[];
+  };
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  components: ScoreComponent[];
+}
+
+export interface UnmetRequirement {
+  type: "skill" | "certification" | "education" | "experience";
+  requirement: string;
+  evidence: string;
+}
+
+export interface JobFitResult {
+  rank?: number;
+  jobApplicationId?: string;
+  applicationStatus?: string;
+  jobTitle: string;
+  company?: string;
+  analysisId?: string;
+  status: "pending" | "completed" | "failed";
+  overallScore?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  unmetRequirements?: UnmetRequirement[];
+  error?: string;
+}
+
+export interface JobFitSearch {
+  searchId: string;
+  resumeId: string;
+  status: "processing" | "completed";
+  totalJobs: number;
+  completedJobs: number;
+  failedJobs: number;
+  results: JobFitResult[];
+  createdAt: string;
+}
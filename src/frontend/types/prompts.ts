@@ -0,0 +1,33 @@
+// Prompt template types for the admin prompt registry
+export type PromptTemplateName = 'resume_analysis' | 'resume_suggestions' | 'jd_matching';
+
+export interface PromptTemplateVersion {
+  id: string;
+  name: PromptTemplateName;
+  version: number;
+  content: string;
+  description?: string;
+  trafficWeight: number;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplateSummary {
+  name: PromptTemplateName;
+  description: string;
+  variables: string[];
+  required: string[];
+  versions: PromptTemplateVersion[]; // newest first
+}
+
+export interface CreatePromptVersionForm {
+  content: string;
+  description?: string;
+  trafficWeight?: number;
+}
+
+export interface UpdatePromptVersionForm {
+  description?: string;
+  trafficWeight?: number;
+}
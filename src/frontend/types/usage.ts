@@ -0,0 +1,21 @@
+// AI usage metering types (per-user and admin totals)
+export interface AIUsageBreakdown {
+  requests: number;
+  tokens: number;
+  cost: number; // USD
+}
+
+export interface UserAIUsage {
+  since: string;
+  totals: AIUsageBreakdown;
+  byFeature: Record<string, AIUsageBreakdown>;
+  byDay: Array<AIUsageBreakdown & { date: string }>;
+}
+
+export interface AIUsageTotals {
+  since: string;
+  totals: AIUsageBreakdown;
+  byFeature: Record<string, AIUsageBreakdown>;
+  byProvider: Record<string, AIUsageBreakdown>;
+  topUsers: Array<AIUsageBreakdown & { userId: string; email?: string }>;
+}